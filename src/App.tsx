@@ -4,21 +4,38 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { GuardianProvider } from "@/hooks/useGuardian";
+import { SchoolProvider } from "@/hooks/useSchool";
 
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import JoinSchool from "./pages/JoinSchool";
+import PendingApproval from "./pages/PendingApproval";
 import CreateSchool from "./pages/admin/CreateSchool";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminScholarships from "./pages/admin/AdminScholarships";
 import AdminFees from "./pages/admin/AdminFees";
 import AdminNotices from "./pages/admin/AdminNotices";
 import AdminSettings from "./pages/admin/AdminSettings";
+import AdminClasses from "./pages/admin/AdminClasses";
+import AdminClassRoster from "./pages/admin/AdminClassRoster";
+import AdminStudents from "./pages/admin/AdminStudents";
+import AdminTerms from "./pages/admin/AdminTerms";
+import AdminAccessRequests from "./pages/admin/AdminAccessRequests";
+import TeacherDashboard from "./pages/teacher/TeacherDashboard";
+import TeacherStudents from "./pages/teacher/TeacherStudents";
+import TeacherNotices from "./pages/teacher/TeacherNotices";
+import GuardianDashboard from "./pages/guardian/GuardianDashboard";
+import GuardianFees from "./pages/guardian/GuardianFees";
+import GuardianNotices from "./pages/guardian/GuardianNotices";
+import GuardianScholarships from "./pages/guardian/GuardianScholarships";
 import Dashboard from "./pages/dashboard/Dashboard";
 import Scholarships from "./pages/dashboard/Scholarships";
 import Fees from "./pages/dashboard/Fees";
 import Notices from "./pages/dashboard/Notices";
 import VoiceAssistant from "./pages/dashboard/VoiceAssistant";
+import MockCheckout from "./pages/MockCheckout";
+import VerifyDocument from "./pages/VerifyDocument";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,32 +44,62 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/join-school" element={<JoinSchool />} />
-            
-            {/* Admin routes */}
-            <Route path="/admin/create-school" element={<CreateSchool />} />
-            <Route path="/admin" element={<AdminDashboard />} />
-            <Route path="/admin/scholarships" element={<AdminScholarships />} />
-            <Route path="/admin/fees" element={<AdminFees />} />
-            <Route path="/admin/notices" element={<AdminNotices />} />
-            <Route path="/admin/settings" element={<AdminSettings />} />
-            
-            {/* Student routes */}
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/dashboard/scholarships" element={<Scholarships />} />
-            <Route path="/dashboard/fees" element={<Fees />} />
-            <Route path="/dashboard/notices" element={<Notices />} />
-            <Route path="/dashboard/voice" element={<VoiceAssistant />} />
-            
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <GuardianProvider>
+          <SchoolProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/join-school" element={<JoinSchool />} />
+                <Route path="/pending-approval" element={<PendingApproval />} />
+              
+                {/* Admin routes */}
+                <Route path="/admin/create-school" element={<CreateSchool />} />
+                <Route path="/admin" element={<AdminDashboard />} />
+                <Route path="/admin/scholarships" element={<AdminScholarships />} />
+                <Route path="/admin/fees" element={<AdminFees />} />
+                <Route path="/admin/notices" element={<AdminNotices />} />
+                <Route path="/admin/classes" element={<AdminClasses />} />
+                <Route path="/admin/classes/:classId" element={<AdminClassRoster />} />
+                <Route path="/admin/students" element={<AdminStudents />} />
+                <Route path="/admin/terms" element={<AdminTerms />} />
+                <Route path="/admin/settings" element={<AdminSettings />} />
+                <Route path="/admin/access-requests" element={<AdminAccessRequests />} />
+              
+                {/* Teacher routes */}
+                <Route path="/teacher" element={<TeacherDashboard />} />
+                <Route path="/teacher/students" element={<TeacherStudents />} />
+                <Route path="/teacher/notices" element={<TeacherNotices />} />
+              
+                {/* Guardian routes */}
+                <Route path="/guardian" element={<GuardianDashboard />} />
+                <Route path="/guardian/fees" element={<GuardianFees />} />
+                <Route path="/guardian/notices" element={<GuardianNotices />} />
+                <Route path="/guardian/scholarships" element={<GuardianScholarships />} />
+              
+                {/* Student routes */}
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/dashboard/scholarships" element={<Scholarships />} />
+                <Route path="/dashboard/fees" element={<Fees />} />
+                <Route path="/dashboard/notices" element={<Notices />} />
+                <Route path="/dashboard/voice" element={<VoiceAssistant />} />
+              
+                {/* Mock payment provider */}
+                {import.meta.env.VITE_ENABLE_MOCK_PAYMENTS === 'true' && (
+                  <Route path="/pay/mock" element={<MockCheckout />} />
+                )}
+              
+                {/* Public check of printed invoices and receipts */}
+                <Route path="/verify" element={<VerifyDocument />} />
+                <Route path="/verify/:code" element={<VerifyDocument />} />
+              
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </SchoolProvider>
+        </GuardianProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,68 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Audience, SchoolClass } from '@/lib/classes';
+
+const WHOLE_SCHOOL = 'school';
+const ALL_SECTIONS = 'all';
+
+interface AudienceSelectProps {
+  classes: SchoolClass[];
+  value: Audience;
+  onChange: (audience: Audience) => void;
+  // Teachers may only address the classes they teach
+  classRequired?: boolean;
+  label?: string;
+}
+
+export function AudienceSelect({ classes, value, onChange, classRequired = false, label = 'Audience' }: AudienceSelectProps) {
+  const sections = classes.find((c) => c.id === value.class_id)?.sections ?? [];
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="audience_class">{label}</Label>
+        <Select
+          value={value.class_id ?? WHOLE_SCHOOL}
+          onValueChange={(classId) =>
+            onChange({ class_id: classId === WHOLE_SCHOOL ? null : classId, section_id: null })
+          }
+        >
+          <SelectTrigger id="audience_class">
+            <SelectValue placeholder="Choose a class" />
+          </SelectTrigger>
+          <SelectContent>
+            {!classRequired && <SelectItem value={WHOLE_SCHOOL}>Whole school</SelectItem>}
+            {classes.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {sections.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="audience_section">Section</Label>
+          <Select
+            value={value.section_id ?? ALL_SECTIONS}
+            onValueChange={(sectionId) =>
+              onChange({ ...value, section_id: sectionId === ALL_SECTIONS ? null : sectionId })
+            }
+          >
+            <SelectTrigger id="audience_section">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SECTIONS}>All sections</SelectItem>
+              {sections.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+
+interface Member {
+  user_id: string;
+  full_name: string;
+}
+
+interface ClassMembersDialogProps {
+  schoolClass: { id: string; name: string } | null;
+  schoolCode: string;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function ClassMembersDialog({ schoolClass, schoolCode, onOpenChange, onSaved }: ClassMembersDialogProps) {
+  const { toast } = useToast();
+  const [teachers, setTeachers] = useState<Member[]>([]);
+  const [students, setStudents] = useState<Member[]>([]);
+  const [teacherIds, setTeacherIds] = useState<string[]>([]);
+  const [studentIds, setStudentIds] = useState<string[]>([]);
+  const [initialTeacherIds, setInitialTeacherIds] = useState<string[]>([]);
+  const [initialStudentIds, setInitialStudentIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!schoolClass) return;
+
+    setLoading(true);
+    setSearch('');
+
+    const fetchMembers = async () => {
+      const [membersRes, teachersRes, enrollmentsRes] = await Promise.all([
+        supabase
+          .from('school_members')
+          .select('user_id, full_name, role')
+          .eq('school_code', schoolCode)
+          .in('role', ['teacher', 'student'])
+          .order('full_name', { ascending: true }),
+        supabase.from('class_teachers').select('teacher_id').eq('class_id', schoolClass.id),
+        supabase.from('class_enrollments').select('student_id').eq('class_id', schoolClass.id),
+      ]);
+
+      const members = (membersRes.data ?? []).map((m) => ({
+        user_id: m.user_id!,
+        full_name: m.full_name!,
+        role: m.role,
+      }));
+      setTeachers(members.filter((m) => m.role === 'teacher'));
+      setStudents(members.filter((m) => m.role === 'student'));
+
+      const assigned = (teachersRes.data ?? []).map((t) => t.teacher_id);
+      const enrolled = (enrollmentsRes.data ?? []).map((e) => e.student_id);
+      setTeacherIds(assigned);
+      setInitialTeacherIds(assigned);
+      setStudentIds(enrolled);
+      setInitialStudentIds(enrolled);
+      setLoading(false);
+    };
+
+    fetchMembers();
+  }, [schoolClass, schoolCode]);
+
+  const toggle = (setter: typeof setTeacherIds, id: string, checked: boolean) => {
+    setter((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)));
+  };
+
+  const handleSave = async () => {
+    if (!schoolClass) return;
+
+    const addedTeachers = teacherIds.filter((id) => !initialTeacherIds.includes(id));
+    const removedTeachers = initialTeacherIds.filter((id) => !teacherIds.includes(id));
+    const addedStudents = studentIds.filter((id) => !initialStudentIds.includes(id));
+    const removedStudents = initialStudentIds.filter((id) => !studentIds.includes(id));
+
+    setIsSaving(true);
+    const results = await Promise.all([
+      addedTeachers.length
+        ? supabase.from('class_teachers').insert(addedTeachers.map((teacher_id) => ({ class_id: schoolClass.id, teacher_id })))
+        : { error: null },
+      removedTeachers.length
+        ? supabase.from('class_teachers').delete().eq('class_id', schoolClass.id).in('teacher_id', removedTeachers)
+        : { error: null },
+      addedStudents.length
+        ? supabase.from('class_enrollments').insert(addedStudents.map((student_id) => ({ class_id: schoolClass.id, student_id })))
+        : { error: null },
+      removedStudents.length
+        ? supabase.from('class_enrollments').delete().eq('class_id', schoolClass.id).in('student_id', removedStudents)
+        : { error: null },
+    ]);
+    setIsSaving(false);
+
+    const error = results.find((r) => r.error)?.error;
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Class updated',
+      description: `${schoolClass.name} now has ${teacherIds.length} teacher${teacherIds.length === 1 ? '' : 's'} and ${studentIds.length} student${studentIds.length === 1 ? '' : 's'}.`,
+    });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  const query = search.trim().toLowerCase();
+
+  const renderList = (members: Member[], selected: string[], setter: typeof setTeacherIds, empty: string) => {
+    const visible = members.filter((m) => !query || m.full_name.toLowerCase().includes(query));
+    return visible.length === 0 ? (
+      <p className="text-center text-muted-foreground py-8">{empty}</p>
+    ) : (
+      <ScrollArea className="h-64 rounded-lg border">
+        <div className="divide-y">
+          {visible.map((member) => (
+            <label key={member.user_id} className="flex items-center gap-3 p-3 cursor-pointer">
+              <Checkbox
+                checked={selected.includes(member.user_id)}
+                onCheckedChange={(checked) => toggle(setter, member.user_id, checked === true)}
+              />
+              <span>{member.full_name}</span>
+            </label>
+          ))}
+        </div>
+      </ScrollArea>
+    );
+  };
+
+  return (
+    <Dialog open={!!schoolClass} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{schoolClass?.name}</DialogTitle>
+          <DialogDescription>Assign teachers and enroll students in this class</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Input placeholder="Search by name" value={search} onChange={(e) => setSearch(e.target.value)} />
+            <Tabs defaultValue="students">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="students">Students ({studentIds.length})</TabsTrigger>
+                <TabsTrigger value="teachers">Teachers ({teacherIds.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="students">
+                {renderList(students, studentIds, setStudentIds, 'No students have joined your school yet.')}
+              </TabsContent>
+              <TabsContent value="teachers">
+                {renderList(teachers, teacherIds, setTeacherIds, 'Invite teachers from Settings to assign them here.')}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || loading}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
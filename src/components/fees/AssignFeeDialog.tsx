@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+
+interface Student {
+  user_id: string;
+  full_name: string;
+}
+
+type AssignTarget = 'all' | 'group' | 'student';
+
+interface AssignFeeDialogProps {
+  fee: { id: string; title: string; class_id: string | null; section_id: string | null } | null;
+  schoolCode: string;
+  onOpenChange: (open: boolean) => void;
+  onAssigned?: () => void;
+}
+
+export function AssignFeeDialog({ fee, schoolCode, onOpenChange, onAssigned }: AssignFeeDialogProps) {
+  const { toast } = useToast();
+  const [students, setStudents] = useState<Student[]>([]);
+  const [target, setTarget] = useState<AssignTarget>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [studentId, setStudentId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!fee) return;
+
+    setTarget('all');
+    setSelectedIds([]);
+    setStudentId('');
+
+    const fetchStudents = async () => {
+      const { data, error } = await supabase
+        .from('school_members')
+        .select('user_id, full_name')
+        .eq('school_code', schoolCode)
+        .eq('role', 'student')
+        .order('full_name', { ascending: true });
+
+      if (error || !data) return;
+
+      // Class fees can only be assigned to that class (or section) roster
+      let rosterIds: string[] | null = null;
+      if (fee.class_id) {
+        let rosterQuery = supabase
+          .from('class_enrollments')
+          .select('student_id')
+          .eq('class_id', fee.class_id);
+        if (fee.section_id) {
+          rosterQuery = rosterQuery.eq('section_id', fee.section_id);
+        }
+        const { data: roster } = await rosterQuery;
+        rosterIds = (roster ?? []).map((r) => r.student_id);
+      }
+
+      setStudents(
+        data
+          .filter((s) => !rosterIds || rosterIds.includes(s.user_id!))
+          .map((s) => ({ user_id: s.user_id!, full_name: s.full_name! }))
+      );
+    };
+
+    fetchStudents();
+  }, [fee, schoolCode]);
+
+  const toggleStudent = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)));
+  };
+
+  const handleAssign = async () => {
+    if (!fee) return;
+
+    const studentIds =
+      target === 'all' ? null : target === 'group' ? selectedIds : studentId ? [studentId] : [];
+
+    if (studentIds && studentIds.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'No students selected',
+        description: 'Choose at least one student to assign this fee to.',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('assign_fee', {
+      _fee_id: fee.id,
+      _student_ids: studentIds ?? undefined,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Fee assigned',
+      description: data
+        ? `${data} student${data === 1 ? '' : 's'} now owe this fee.`
+        : 'Everyone selected already had this fee assigned.',
+    });
+    onOpenChange(false);
+    onAssigned?.();
+  };
+
+  return (
+    <Dialog open={!!fee} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assign Fee</DialogTitle>
+          <DialogDescription>{fee?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Assign to</Label>
+            <Select value={target} onValueChange={(value) => setTarget(value as AssignTarget)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{fee?.class_id ? 'Everyone in the class' : 'All students'}</SelectItem>
+                <SelectItem value="group">A group of students</SelectItem>
+                <SelectItem value="student">One student</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target === 'group' && (
+            <ScrollArea className="h-56 rounded-lg border p-3">
+              {students.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {fee?.class_id ? 'No students are enrolled in this class yet.' : 'No students have joined yet.'}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {students.map((student) => (
+                    <div key={student.user_id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`assign-${student.user_id}`}
+                        checked={selectedIds.includes(student.user_id)}
+                        onCheckedChange={(checked) => toggleStudent(student.user_id, checked === true)}
+                      />
+                      <Label htmlFor={`assign-${student.user_id}`} className="font-normal">
+                        {student.full_name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          )}
+
+          {target === 'student' && (
+            <div className="space-y-2">
+              <Label>Student</Label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((student) => (
+                    <SelectItem key={student.user_id} value={student.user_id}>
+                      {student.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleAssign} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Assigning...
+              </>
+            ) : 'Assign Fee'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { currencySymbol, formatDate, formatMoney } from '@/lib/format';
+import { feeLedgerKindLabels } from '@/lib/feeLedger';
+import { Loader2 } from 'lucide-react';
+
+type AdjustmentKind = 'waiver' | 'refund' | 'credit_note';
+
+export interface RefundablePayment {
+  id: string;
+  amount: number;
+  refundable: number;
+  method: string | null;
+  paid_at: string;
+}
+
+interface FeeAdjustmentFormProps {
+  assignmentId: string;
+  studentId: string;
+  schoolCode: string;
+  balance: number;
+  payments: RefundablePayment[];
+  onSaved: () => void;
+}
+
+/**
+ * Records a waiver or refund against one student's fee, or a credit note for their account.
+ * Each is a new ledger entry; nothing already recorded is changed.
+ */
+export function FeeAdjustmentForm({ assignmentId, studentId, schoolCode, balance, payments, onSaved }: FeeAdjustmentFormProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const refundable = payments.filter((p) => p.refundable > 0);
+  const [kind, setKind] = useState<AdjustmentKind>(balance > 0 ? 'waiver' : 'credit_note');
+  const [paymentId, setPaymentId] = useState(refundable[0]?.id ?? '');
+  const [amount, setAmount] = useState(balance > 0 ? balance.toString() : '');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const changeKind = (value: AdjustmentKind) => {
+    setKind(value);
+    if (value === 'waiver') setAmount(balance.toString());
+    if (value === 'refund') setAmount(refundable.find((p) => p.id === paymentId)?.refundable.toString() ?? '');
+    if (value === 'credit_note') setAmount('');
+  };
+
+  const changePayment = (id: string) => {
+    setPaymentId(id);
+    setAmount(refundable.find((p) => p.id === id)?.refundable.toString() ?? '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid amount',
+        description: 'Please enter a valid amount.',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error } =
+      kind === 'waiver'
+        ? await supabase.rpc('waive_fee', { _assignment_id: assignmentId, _amount: value, _reason: reason })
+        : kind === 'refund'
+        ? await supabase.rpc('refund_fee_payment', { _payment_id: paymentId, _amount: value, _reason: reason })
+        : await supabase.rpc('issue_credit_note', {
+            _school_code: schoolCode,
+            _student_id: studentId,
+            _amount: value,
+            _reason: reason,
+          });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: `${feeLedgerKindLabels[kind]} recorded`,
+      description:
+        kind === 'credit_note'
+          ? 'The credit is applied to fees owed now and carried forward to future ones.'
+          : 'The student ledger has been updated.',
+    });
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="adjustment-kind">Adjustment</Label>
+        <Select value={kind} onValueChange={(value) => changeKind(value as AdjustmentKind)}>
+          <SelectTrigger id="adjustment-kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="waiver" disabled={balance <= 0}>Waive</SelectItem>
+            <SelectItem value="refund" disabled={refundable.length === 0}>Refund a payment</SelectItem>
+            <SelectItem value="credit_note">Credit note</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {kind === 'refund' && (
+        <div className="space-y-1">
+          <Label htmlFor="adjustment-payment">Payment</Label>
+          <Select value={paymentId} onValueChange={changePayment}>
+            <SelectTrigger id="adjustment-payment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {refundable.map((payment) => (
+                <SelectItem key={payment.id} value={payment.id}>
+                  {formatDate(payment.paid_at, school)} · {formatMoney(payment.amount, school)}
+                  {payment.method && ` · ${payment.method}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="adjustment-amount">Amount ({currencySymbol(school)})</Label>
+        <Input
+          id="adjustment-amount"
+          type="number"
+          min="0"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          required
+        />
+      </div>
+      <div className={`space-y-1 ${kind === 'refund' ? 'sm:col-span-3' : ''}`}>
+        <Label htmlFor="adjustment-reason">Reason</Label>
+        <Input
+          id="adjustment-reason"
+          placeholder={kind === 'waiver' ? 'e.g., Hardship approved by principal' : 'e.g., Overpaid last term'}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={isSubmitting || (kind === 'refund' && !paymentId)}>
+        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import type { School } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { audienceLabel, type Audience, type SchoolClass } from '@/lib/classes';
+import { downloadFeeDocument, type FeeDocumentKind } from '@/lib/feeDocuments';
+import { Loader2 } from 'lucide-react';
+
+interface FeeDocumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  school: School;
+  classes: SchoolClass[];
+}
+
+/**
+ * Print a class's invoices, or its receipts for a period, as one PDF with a page per document.
+ */
+export function FeeDocumentsDialog({ open, onOpenChange, school, classes }: FeeDocumentsDialogProps) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<FeeDocumentKind>('invoice');
+  const [audience, setAudience] = useState<Audience>({ class_id: null, section_id: null });
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!audience.class_id) return;
+
+    const label = (audienceLabel(classes, audience) ?? 'class').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    setIsGenerating(true);
+    try {
+      await downloadFeeDocument(
+        {
+          action: 'batch',
+          kind,
+          school_code: school.school_code,
+          class_id: audience.class_id,
+          section_id: audience.section_id,
+          from: kind === 'receipt' ? range.from || null : null,
+          to: kind === 'receipt' ? range.to || null : null,
+        },
+        `${kind}s-${label}.pdf`
+      );
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The documents could not be created.',
+      });
+    }
+    setIsGenerating(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invoices & receipts</DialogTitle>
+          <DialogDescription>
+            Each document gets the next number in sequence and a verification code.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="document_kind">Documents</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as FeeDocumentKind)}>
+              <SelectTrigger id="document_kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="invoice">Invoices for outstanding balances</SelectItem>
+                <SelectItem value="receipt">Receipts for payments</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <AudienceSelect classes={classes} value={audience} onChange={setAudience} classRequired label="Class" />
+          {kind === 'receipt' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receipts_from">Paid from</Label>
+                <Input
+                  id="receipts_from"
+                  type="date"
+                  value={range.from}
+                  onChange={(e) => setRange({ ...range, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipts_to">Paid until</Label>
+                <Input
+                  id="receipts_to"
+                  type="date"
+                  value={range.to}
+                  onChange={(e) => setRange({ ...range, to: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="submit" disabled={isGenerating || !audience.class_id}>
+              {isGenerating ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Generating...
+                </>
+              ) : 'Download PDF'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,416 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FeeAdjustmentForm, type RefundablePayment } from '@/components/fees/FeeAdjustmentForm';
+import { FeeStatusBadge } from '@/components/fees/FeeStatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { currencySymbol, formatDate, formatMoney, schoolToday } from '@/lib/format';
+import { feeLedgerColumns, feeLedgerKindLabels, raisesBalance, type FeeLedgerEntry, type FeeLedgerKind } from '@/lib/feeLedger';
+import { invokePayments } from '@/lib/payments';
+import { Loader2, Plus, SlidersHorizontal, Trash2, Undo2 } from 'lucide-react';
+
+interface LedgerFee {
+  id: string;
+  title: string;
+  due_date: string | null;
+}
+
+interface LedgerRow {
+  id: string;
+  student_id: string;
+  student_name: string;
+  amount: number;
+  penalty_amount: number;
+  discount_amount: number;
+  amount_due: number;
+  amount_paid: number;
+  waived_amount: number;
+  refunded_amount: number;
+  credited_amount: number;
+  scholarship_amount: number;
+  balance: number;
+  status: string;
+  online_payments: OnlinePayment[];
+  payments: RefundablePayment[];
+  entries: FeeLedgerEntry[];
+}
+
+interface OnlinePayment {
+  id: string;
+  amount: number;
+  status: string;
+  completed_at: string | null;
+  refunded_at: string | null;
+  refund_reference: string | null;
+}
+
+interface FeeLedgerDialogProps {
+  fee: LedgerFee | null;
+  schoolCode: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FeeLedgerDialog({ fee, schoolCode, onOpenChange }: FeeLedgerDialogProps) {
+  const { user } = useAuth();
+  const { school, canManageSchool } = useSchool();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<LedgerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [paymentData, setPaymentData] = useState({ amount: '', method: '', reference: '' });
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!fee) return;
+    setLoading(true);
+    setPayingId(null);
+    setAdjustingId(null);
+    fetchLedger();
+  }, [fee]);
+
+  const fetchLedger = async () => {
+    const { data: balances, error } = await supabase
+      .from('fee_assignment_balances')
+      .select('*')
+      .eq('fee_id', fee!.id)
+      .is('archived_at', null);
+
+    if (error || !balances) {
+      setLoading(false);
+      return;
+    }
+
+    const studentIds = balances.map((b) => b.student_id!);
+    const { data: profiles } = studentIds.length
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', studentIds)
+      : { data: [] };
+
+    const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+    const assignmentIds = balances.map((b) => b.id!);
+    const { data: checkouts } = assignmentIds.length
+      ? await supabase
+          .from('payment_checkouts')
+          .select('id, assignment_id, amount, status, completed_at, refunded_at, refund_reference, payment_id')
+          .in('assignment_id', assignmentIds)
+          .in('status', ['succeeded', 'refunding', 'refunded'])
+          .order('completed_at', { ascending: false })
+      : { data: [] };
+
+    const { data: payments } = assignmentIds.length
+      ? await supabase
+          .from('fee_payments')
+          .select('id, assignment_id, amount, method, paid_at')
+          .in('assignment_id', assignmentIds)
+          .order('paid_at', { ascending: false })
+      : { data: [] };
+
+    const { data: entries } = assignmentIds.length
+      ? await supabase
+          .from('fee_ledger_entries')
+          .select(feeLedgerColumns)
+          .in('assignment_id', assignmentIds)
+          .order('created_at', { ascending: false })
+      : { data: [] as FeeLedgerEntry[] };
+
+    // Online payments are refunded through their provider, so only office payments can be refunded here
+    const onlinePaymentIds = new Set((checkouts ?? []).map((c) => c.payment_id));
+    const refunded = (paymentId: string) =>
+      (entries ?? []).filter((e) => e.payment_id === paymentId).reduce((sum, e) => sum + e.amount, 0);
+
+    setRows(
+      balances
+        .map((b) => ({
+          id: b.id!,
+          student_id: b.student_id!,
+          student_name: names.get(b.student_id!) ?? 'Unknown student',
+          amount: b.amount ?? 0,
+          penalty_amount: b.penalty_amount ?? 0,
+          discount_amount: b.discount_amount ?? 0,
+          amount_due: b.amount_due ?? b.amount ?? 0,
+          amount_paid: b.amount_paid ?? 0,
+          waived_amount: b.waived_amount ?? 0,
+          refunded_amount: b.refunded_amount ?? 0,
+          credited_amount: b.credited_amount ?? 0,
+          scholarship_amount: b.scholarship_amount ?? 0,
+          balance: b.balance ?? 0,
+          status: b.status ?? 'outstanding',
+          online_payments: (checkouts ?? []).filter((c) => c.assignment_id === b.id),
+          payments: (payments ?? [])
+            .filter((p) => p.assignment_id === b.id && !onlinePaymentIds.has(p.id))
+            .map((p) => ({ ...p, refundable: p.amount - refunded(p.id) })),
+          entries: (entries ?? []).filter((e) => e.assignment_id === b.id),
+        }))
+        .sort((a, b) => a.student_name.localeCompare(b.student_name))
+    );
+    setLoading(false);
+  };
+
+  const openPaymentForm = (row: LedgerRow) => {
+    setPaymentData({ amount: row.balance.toString(), method: '', reference: '' });
+    setAdjustingId(null);
+    setPayingId(row.id);
+  };
+
+  const openAdjustmentForm = (row: LedgerRow) => {
+    setPayingId(null);
+    setAdjustingId(adjustingId === row.id ? null : row.id);
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingId || !user) return;
+
+    const amount = parseFloat(paymentData.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid amount',
+        description: 'Please enter a valid amount.',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error } = await supabase
+      .from('fee_payments')
+      .insert({
+        assignment_id: payingId,
+        school_code: schoolCode,
+        amount,
+        method: paymentData.method || null,
+        reference: paymentData.reference || null,
+        recorded_by: user.id,
+      });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Payment recorded',
+      description: 'The student ledger has been updated.',
+    });
+    setPayingId(null);
+    fetchLedger();
+  };
+
+  // Refunds go back through the payment provider, which records the refund against the payment
+  const handleRefund = async (payment: OnlinePayment) => {
+    setRefundingId(payment.id);
+    try {
+      await invokePayments({ action: 'refund', checkout_id: payment.id });
+      toast({
+        title: 'Payment refunded',
+        description: 'The amount is owed again on the student ledger.',
+      });
+      fetchLedger();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The refund failed.',
+      });
+      // Show a refund left in progress so it can be finished
+      fetchLedger();
+    }
+    setRefundingId(null);
+  };
+
+  const handleUnassign = async (id: string) => {
+    const { error } = await supabase.rpc('remove_fee_assignment', { _assignment_id: id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Assignment removed',
+      description: 'The student no longer owes this fee.',
+    });
+    fetchLedger();
+  };
+
+  const overdue = !!fee?.due_date && fee.due_date < schoolToday(school);
+  const collected = rows.reduce((sum, row) => sum + row.amount_paid, 0);
+  const outstanding = rows.reduce((sum, row) => sum + row.balance, 0);
+
+  return (
+    <Dialog open={!!fee} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payments</DialogTitle>
+          <DialogDescription>
+            {fee?.title} · {formatMoney(collected, school)} collected · {formatMoney(outstanding, school)} outstanding
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            This fee has not been assigned to any students yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="divide-y">
+              {rows.map((row) => (
+                <div key={row.id} className="py-3 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{row.student_name}</p>
+                        <FeeStatusBadge status={row.status} overdue={overdue} />
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Paid {formatMoney(row.amount_paid, school)} of {formatMoney(row.amount_due, school)}
+                        {row.balance > 0 && ` · ${formatMoney(row.balance, school)} due`}
+                        {row.penalty_amount > 0 && ` · incl. ${formatMoney(row.penalty_amount, school)} late penalty`}
+                        {row.discount_amount > 0 && ` · ${formatMoney(row.discount_amount, school)} discount`}
+                        {row.waived_amount > 0 && ` · ${formatMoney(row.waived_amount, school)} waived`}
+                        {row.credited_amount > 0 && ` · ${formatMoney(row.credited_amount, school)} credit`}
+                        {row.scholarship_amount > 0 && ` · ${formatMoney(row.scholarship_amount, school)} scholarship`}
+                        {row.refunded_amount > 0 && ` · ${formatMoney(row.refunded_amount, school)} refunded`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {row.balance > 0 && (
+                        <Button variant="outline" size="sm" onClick={() => openPaymentForm(row)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Payment
+                        </Button>
+                      )}
+                      {canManageSchool && (
+                        <Button variant="outline" size="sm" onClick={() => openAdjustmentForm(row)}>
+                          <SlidersHorizontal className="h-4 w-4 mr-1" />
+                          Adjust
+                        </Button>
+                      )}
+                      {row.amount_paid === 0 && row.entries.length === 0 && (
+                        <Button variant="outline" size="icon" onClick={() => handleUnassign(row.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {row.online_payments.map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between gap-2 text-sm pl-3 border-l">
+                      <span className="text-muted-foreground">
+                        Online · {formatMoney(payment.amount, school)}
+                        {payment.completed_at && ` · ${formatDate(payment.completed_at, school)}`}
+                        {payment.refunded_at && ` · refunded ${formatDate(payment.refunded_at, school)}`}
+                        {payment.status === 'refunding' && ' · refund in progress'}
+                      </span>
+                      {/* A refund the provider made but that failed to record is finished the same way */}
+                      {(payment.status === 'succeeded' || (payment.status === 'refunding' && payment.refund_reference)) &&
+                        canManageSchool && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={refundingId === payment.id}
+                            onClick={() => handleRefund(payment)}
+                          >
+                            {refundingId === payment.id ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <Undo2 className="h-4 w-4 mr-1" />
+                            )}
+                            {payment.status === 'refunding' ? 'Finish refund' : 'Refund'}
+                          </Button>
+                        )}
+                    </div>
+                  ))}
+
+                  {row.entries.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-2 text-sm pl-3 border-l">
+                      <span className="text-muted-foreground">
+                        {feeLedgerKindLabels[entry.kind as FeeLedgerKind]} · {formatDate(entry.created_at, school)} · {entry.reason}
+                      </span>
+                      <span>
+                        {raisesBalance(entry) ? '+' : '−'}
+                        {formatMoney(entry.amount, school)}
+                      </span>
+                    </div>
+                  ))}
+
+                  {adjustingId === row.id && (
+                    <FeeAdjustmentForm
+                      assignmentId={row.id}
+                      studentId={row.student_id}
+                      schoolCode={schoolCode}
+                      balance={row.balance}
+                      payments={row.payments}
+                      onSaved={() => {
+                        setAdjustingId(null);
+                        fetchLedger();
+                      }}
+                    />
+                  )}
+
+                  {payingId === row.id && (
+                    <form onSubmit={handleRecordPayment} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label htmlFor="payment-amount">Amount ({currencySymbol(school)})</Label>
+                        <Input
+                          id="payment-amount"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={paymentData.amount}
+                          onChange={(e) => setPaymentData({ ...paymentData, amount: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="payment-method">Method</Label>
+                        <Input
+                          id="payment-method"
+                          placeholder="e.g., Cash"
+                          value={paymentData.method}
+                          onChange={(e) => setPaymentData({ ...paymentData, method: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="payment-reference">Reference</Label>
+                        <Input
+                          id="payment-reference"
+                          value={paymentData.reference}
+                          onChange={(e) => setPaymentData({ ...paymentData, reference: e.target.value })}
+                        />
+                      </div>
+                      <Button type="submit" disabled={isSubmitting}>
+                        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record'}
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
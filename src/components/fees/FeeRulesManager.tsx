@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { School } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { describeFeeRule, feeRuleKindLabels, type FeeRule, type FeeRuleKind } from '@/lib/feeRules';
+import { currencySymbol } from '@/lib/format';
+import { Percent, Plus, Edit, Trash2, Loader2, Tag, CreditCard } from 'lucide-react';
+
+type RuleTarget = 'category' | 'fee';
+
+const emptyForm = {
+  target: 'category' as RuleTarget,
+  category: '',
+  fee_id: '',
+  kind: 'penalty' as FeeRuleKind,
+  value_type: 'percent',
+  value: '',
+  grace_days: '0',
+  recurrence: 'once',
+  max_amount: '',
+  days_before_due: '0',
+};
+
+interface FeeRulesManagerProps {
+  school: School;
+  fees: { id: string; title: string; category: string | null }[];
+}
+
+/**
+ * Late penalties and early-payment discounts. A fee's own rule wins over its category's;
+ * the amounts themselves are worked out server-side in each student's balance.
+ */
+export function FeeRulesManager({ school, fees }: FeeRulesManagerProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<FeeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const categories = [...new Set(fees.map((f) => f.category).filter(Boolean))] as string[];
+
+  useEffect(() => {
+    fetchRules();
+  }, [school.school_code]);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('fee_adjustment_rules')
+      .select('*')
+      .eq('school_code', school.school_code)
+      .order('created_at', { ascending: true });
+
+    if (!error && data) {
+      setRules(data);
+    }
+    setLoading(false);
+  };
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const openCreateDialog = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: FeeRule) => {
+    setFormData({
+      target: rule.fee_id ? 'fee' : 'category',
+      category: rule.category || '',
+      fee_id: rule.fee_id || '',
+      kind: rule.kind as FeeRuleKind,
+      value_type: rule.value_type,
+      value: rule.value.toString(),
+      grace_days: rule.grace_days.toString(),
+      recurrence: rule.recurrence,
+      max_amount: rule.max_amount?.toString() || '',
+      days_before_due: rule.days_before_due.toString(),
+    });
+    setEditingId(rule.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(formData.value);
+    if (!value || value <= 0 || (formData.value_type === 'percent' && value > 100)) {
+      showError('Please enter an amount, or a percentage of at most 100.');
+      return;
+    }
+    if (formData.target === 'fee' ? !formData.fee_id : !formData.category.trim()) {
+      showError('Choose the fee or category this rule applies to.');
+      return;
+    }
+
+    const ruleData = {
+      school_code: school.school_code,
+      fee_id: formData.target === 'fee' ? formData.fee_id : null,
+      category: formData.target === 'category' ? formData.category.trim() : null,
+      kind: formData.kind,
+      value_type: formData.value_type,
+      value,
+      grace_days: Number(formData.grace_days) || 0,
+      recurrence: formData.recurrence,
+      max_amount: formData.kind === 'penalty' && formData.max_amount ? parseFloat(formData.max_amount) : null,
+      days_before_due: Number(formData.days_before_due) || 0,
+    };
+
+    setIsSubmitting(true);
+    const { error } = editingId
+      ? await supabase.from('fee_adjustment_rules').update(ruleData).eq('id', editingId)
+      : await supabase.from('fee_adjustment_rules').insert(ruleData);
+    setIsSubmitting(false);
+
+    if (error) {
+      showError(
+        error.code === '23505'
+          ? `This ${formData.target} already has a ${feeRuleKindLabels[formData.kind].toLowerCase()}.`
+          : error.message
+      );
+      return;
+    }
+
+    toast({
+      title: editingId ? 'Rule updated' : 'Rule added',
+      description: 'Balances now reflect it.',
+    });
+    setIsDialogOpen(false);
+    fetchRules();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('fee_adjustment_rules').delete().eq('id', id);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Rule deleted',
+      description: 'Balances no longer include it.',
+    });
+    fetchRules();
+  };
+
+  const feeTitle = (feeId: string) => fees.find((f) => f.id === feeId)?.title ?? 'Fee';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Charge for late payment or reward early payment, for one fee or every fee in a category.
+        </p>
+        <Button variant="outline" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : rules.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Percent className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No penalties or discounts</h3>
+            <p className="text-muted-foreground">Fees are charged at their listed amount.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        rules.map((rule) => (
+          <Card key={rule.id}>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={rule.kind === 'penalty' ? 'destructive' : 'secondary'}>
+                    {feeRuleKindLabels[rule.kind as FeeRuleKind] ?? rule.kind}
+                  </Badge>
+                  <span className="text-sm font-medium flex items-center gap-1">
+                    {rule.fee_id ? <CreditCard className="h-3 w-3" /> : <Tag className="h-3 w-3" />}
+                    {rule.fee_id ? feeTitle(rule.fee_id) : rule.category}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">{describeFeeRule(rule, school)}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="icon" onClick={() => openEditDialog(rule)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => handleDelete(rule.id)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.kind}
+                  onValueChange={(kind) => setFormData({ ...formData, kind: kind as FeeRuleKind })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(feeRuleKindLabels) as FeeRuleKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {feeRuleKindLabels[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select
+                  value={formData.target}
+                  onValueChange={(target) => setFormData({ ...formData, target: target as RuleTarget })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">A category</SelectItem>
+                    <SelectItem value="fee">One fee</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.target === 'category' ? (
+              <div className="space-y-2">
+                <Label htmlFor="rule-category">Category *</Label>
+                <Input
+                  id="rule-category"
+                  list="fee-categories"
+                  placeholder="e.g., Tuition"
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  required
+                />
+                <datalist id="fee-categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Fee *</Label>
+                <Select value={formData.fee_id} onValueChange={(fee_id) => setFormData({ ...formData, fee_id })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a fee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fees.map((fee) => (
+                      <SelectItem key={fee.id} value={fee.id}>
+                        {fee.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Charged as</Label>
+                <Select value={formData.value_type} onValueChange={(value_type) => setFormData({ ...formData, value_type })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="flat">Flat amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-value">
+                  {formData.value_type === 'percent' ? 'Percent *' : `Amount (${currencySymbol(school)}) *`}
+                </Label>
+                <Input
+                  id="rule-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            {formData.kind === 'penalty' ? (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grace_days">Grace days</Label>
+                  <Input
+                    id="grace_days"
+                    type="number"
+                    min="0"
+                    value={formData.grace_days}
+                    onChange={(e) => setFormData({ ...formData, grace_days: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Charged</Label>
+                  <Select value={formData.recurrence} onValueChange={(recurrence) => setFormData({ ...formData, recurrence })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="once">Once</SelectItem>
+                      <SelectItem value="daily">Every day</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_amount">Cap ({currencySymbol(school)})</Label>
+                  <Input
+                    id="max_amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="None"
+                    value={formData.max_amount}
+                    onChange={(e) => setFormData({ ...formData, max_amount: e.target.value })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="days_before_due">Paid in full at least this many days before the due date</Label>
+                <Input
+                  id="days_before_due"
+                  type="number"
+                  min="0"
+                  value={formData.days_before_due}
+                  onChange={(e) => setFormData({ ...formData, days_before_due: e.target.value })}
+                />
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingId ? 'Update' : 'Add Rule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,539 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { useToast } from '@/hooks/use-toast';
+import type { School } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { audienceLabel, type Audience, type SchoolClass } from '@/lib/classes';
+import {
+  describeSchedule,
+  feeFrequencies,
+  feeFrequencyLabels,
+  type FeeFrequency,
+  type FeeSchedule,
+} from '@/lib/feeSchedules';
+import { currencySymbol, formatDate, formatMoney, monthNames } from '@/lib/format';
+import { CalendarClock, Plus, Edit, Trash2, Loader2, Banknote, Repeat, Users } from 'lucide-react';
+
+const PREVIEW_COUNTS = [3, 6, 12];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = () => ({
+  title: '',
+  description: '',
+  amount: '',
+  category: '',
+  audience: { class_id: null, section_id: null } as Audience,
+  frequency: 'monthly' as FeeFrequency,
+  day_of_month: '1',
+  month_of_year: '9',
+  rule: '',
+  starts_on: today(),
+  ends_on: '',
+  lead_days: '7',
+  assign_to_audience: true,
+});
+
+interface FeeScheduleManagerProps {
+  school: School;
+  classes: SchoolClass[];
+}
+
+/**
+ * Recurring fees that generate a dated fee on every occurrence, ahead of its due date.
+ */
+export function FeeScheduleManager({ school, classes }: FeeScheduleManagerProps) {
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<FeeSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [previewCount, setPreviewCount] = useState(6);
+  const [preview, setPreview] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [school.school_code]);
+
+  const fetchSchedules = async () => {
+    const { data, error } = await supabase
+      .from('fee_schedules')
+      .select('*')
+      .eq('school_code', school.school_code)
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setSchedules(data);
+    }
+    setLoading(false);
+  };
+
+  // Preview the next due dates as the schedule is edited, once typing pauses
+  useEffect(() => {
+    if (!isDialogOpen || !formData.starts_on) return;
+    if (formData.frequency === 'custom' && !formData.rule.trim()) {
+      setPreview([]);
+      setPreviewError(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('preview_fee_schedule', {
+        _school_code: school.school_code,
+        _frequency: formData.frequency,
+        _starts_on: formData.starts_on,
+        _day_of_month: Number(formData.day_of_month) || undefined,
+        _month_of_year: Number(formData.month_of_year) || undefined,
+        _rule: formData.rule.trim() || undefined,
+        _ends_on: formData.ends_on || undefined,
+        _count: previewCount,
+      });
+
+      setPreview(data ?? []);
+      setPreviewError(error?.message ?? null);
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [
+    isDialogOpen,
+    school.school_code,
+    formData.frequency,
+    formData.starts_on,
+    formData.ends_on,
+    formData.day_of_month,
+    formData.month_of_year,
+    formData.rule,
+    previewCount,
+  ]);
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const openCreateDialog = () => {
+    setFormData(emptyForm());
+    setEditingId(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (schedule: FeeSchedule) => {
+    setFormData({
+      title: schedule.title,
+      description: schedule.description || '',
+      amount: schedule.amount.toString(),
+      category: schedule.category || '',
+      audience: { class_id: schedule.class_id, section_id: schedule.section_id },
+      frequency: schedule.frequency as FeeFrequency,
+      day_of_month: schedule.day_of_month?.toString() || '1',
+      month_of_year: schedule.month_of_year?.toString() || '9',
+      rule: schedule.rule || '',
+      starts_on: schedule.starts_on,
+      ends_on: schedule.ends_on || '',
+      lead_days: schedule.lead_days.toString(),
+      assign_to_audience: schedule.assign_to_audience,
+    });
+    setEditingId(schedule.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.amount || parseFloat(formData.amount) <= 0) {
+      showError('Please enter a valid amount.');
+      return;
+    }
+
+    const usesDay = formData.frequency === 'monthly' || formData.frequency === 'yearly';
+    const scheduleData = {
+      school_code: school.school_code,
+      title: formData.title.trim(),
+      description: formData.description || null,
+      amount: parseFloat(formData.amount),
+      category: formData.category || null,
+      class_id: formData.audience.class_id,
+      section_id: formData.audience.section_id,
+      frequency: formData.frequency,
+      day_of_month: usesDay ? Number(formData.day_of_month) : null,
+      month_of_year: formData.frequency === 'yearly' ? Number(formData.month_of_year) : null,
+      rule: formData.frequency === 'custom' ? formData.rule.trim() : null,
+      starts_on: formData.starts_on,
+      ends_on: formData.ends_on || null,
+      lead_days: Number(formData.lead_days) || 0,
+      assign_to_audience: formData.assign_to_audience,
+    };
+
+    setIsSubmitting(true);
+    const { error } = editingId
+      ? await supabase.from('fee_schedules').update(scheduleData).eq('id', editingId)
+      : await supabase.from('fee_schedules').insert(scheduleData);
+    setIsSubmitting(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: editingId ? 'Schedule updated' : 'Schedule added',
+      description: preview[0]
+        ? `The next fee falls due on ${formatDate(preview[0], school)}.`
+        : 'This schedule has no upcoming due dates.',
+    });
+    setIsDialogOpen(false);
+    fetchSchedules();
+  };
+
+  const toggleActive = async (schedule: FeeSchedule, active: boolean) => {
+    const { error } = await supabase.from('fee_schedules').update({ active }).eq('id', schedule.id);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+    fetchSchedules();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('fee_schedules').delete().eq('id', id);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Schedule deleted',
+      description: 'Fees it already generated are kept.',
+    });
+    fetchSchedules();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Each schedule adds a dated fee ahead of every due date, and assigns it to the students it is for.
+        </p>
+        <Button variant="outline" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Schedule
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : schedules.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <CalendarClock className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No fee schedules yet</h3>
+            <p className="text-muted-foreground">
+              Set up tuition and other regular fees once instead of adding them every month.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        schedules.map((schedule) => (
+          <Card key={schedule.id} className="hover:shadow-md transition-shadow">
+            <CardContent className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-lg">{schedule.title}</h3>
+                    {!schedule.active && <Badge variant="secondary">Paused</Badge>}
+                    {schedule.class_id && (
+                      <Badge variant="outline">
+                        <Users className="h-3 w-3 mr-1" />
+                        {audienceLabel(classes, schedule) ?? 'Class'}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <div className="flex items-center gap-1 text-green-600 font-semibold">
+                      <Banknote className="h-4 w-4" />
+                      <span>{formatMoney(schedule.amount, school)}</span>
+                    </div>
+                    <div className="flex items-center gap-1 text-muted-foreground">
+                      <Repeat className="h-4 w-4" />
+                      <span>{describeSchedule(schedule)}</span>
+                    </div>
+                    <div className="flex items-center gap-1 text-muted-foreground">
+                      <CalendarClock className="h-4 w-4" />
+                      <span>
+                        {schedule.active && schedule.next_due_on
+                          ? `Next due ${formatDate(schedule.next_due_on, school)}`
+                          : schedule.active ? 'No upcoming due dates' : 'Not generating'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.active}
+                    onCheckedChange={(active) => toggleActive(schedule, active)}
+                    title={schedule.active ? 'Pause' : 'Resume'}
+                  />
+                  <Button variant="outline" size="icon" onClick={() => openEditDialog(schedule)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleDelete(schedule.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Fee Schedule' : 'Add Fee Schedule'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-title">Title *</Label>
+              <Input
+                id="schedule-title"
+                placeholder="e.g., Tuition"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Each fee is named after its period, such as "Tuition — March 2026"
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-description">Description</Label>
+              <Textarea
+                id="schedule-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-amount">Amount ({currencySymbol(school)}) *</Label>
+                <Input
+                  id="schedule-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-category">Category</Label>
+                <Input
+                  id="schedule-category"
+                  placeholder="e.g., Tuition"
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                />
+              </div>
+            </div>
+            <AudienceSelect
+              classes={classes}
+              value={formData.audience}
+              onChange={(audience) => setFormData({ ...formData, audience })}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Repeats</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(frequency) => setFormData({ ...formData, frequency: frequency as FeeFrequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {feeFrequencies.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {feeFrequencyLabels[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(formData.frequency === 'monthly' || formData.frequency === 'yearly') && (
+                <div className="space-y-2">
+                  <Label htmlFor="day_of_month">Due on day</Label>
+                  <Input
+                    id="day_of_month"
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={formData.day_of_month}
+                    onChange={(e) => setFormData({ ...formData, day_of_month: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+            </div>
+            {formData.frequency === 'yearly' && (
+              <div className="space-y-2">
+                <Label>Month</Label>
+                <Select
+                  value={formData.month_of_year}
+                  onValueChange={(month_of_year) => setFormData({ ...formData, month_of_year })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {monthNames.map((month, i) => (
+                      <SelectItem key={month} value={(i + 1).toString()}>
+                        {month}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {formData.frequency === 'custom' && (
+              <div className="space-y-2">
+                <Label htmlFor="rule">Rule *</Label>
+                <Input
+                  id="rule"
+                  placeholder="1,15 * *"
+                  className="font-mono"
+                  value={formData.rule}
+                  onChange={(e) => setFormData({ ...formData, rule: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Day of month, month and day of week, as in cron. "1,15 * *" is the 1st and 15th of every month;
+                  "1 */3 *" is every third month; "* * 1" is every Monday.
+                </p>
+              </div>
+            )}
+            {formData.frequency === 'termly' && (
+              <p className="text-xs text-muted-foreground">
+                Fees fall due on the first day of each term set up under Terms.
+              </p>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="starts_on">Starts *</Label>
+                <Input
+                  id="starts_on"
+                  type="date"
+                  value={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ends_on">Ends</Label>
+                <Input
+                  id="ends_on"
+                  type="date"
+                  value={formData.ends_on}
+                  onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lead_days">Days ahead</Label>
+                <Input
+                  id="lead_days"
+                  type="number"
+                  min="0"
+                  max="90"
+                  value={formData.lead_days}
+                  onChange={(e) => setFormData({ ...formData, lead_days: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="assign_to_audience">
+                  {formData.audience.class_id ? 'Assign to everyone in the audience' : 'Assign to all students'}
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Turn off to assign each generated fee by hand
+                </p>
+              </div>
+              <Switch
+                id="assign_to_audience"
+                checked={formData.assign_to_audience}
+                onCheckedChange={(assign_to_audience) => setFormData({ ...formData, assign_to_audience })}
+              />
+            </div>
+
+            <div className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Upcoming due dates</Label>
+                <Select value={previewCount.toString()} onValueChange={(count) => setPreviewCount(Number(count))}>
+                  <SelectTrigger className="w-24 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PREVIEW_COUNTS.map((count) => (
+                      <SelectItem key={count} value={count.toString()}>
+                        Next {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {previewError ? (
+                <p className="text-sm text-destructive">{previewError}</p>
+              ) : preview.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming due dates.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {preview.map((date) => (
+                    <Badge key={date} variant="secondary">
+                      {formatDate(date, school)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting || !!previewError}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingId ? 'Update' : 'Add Schedule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,660 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FeeStatusBadge } from '@/components/fees/FeeStatusBadge';
+import { PayFeeDialog, type PayableFee } from '@/components/fees/PayFeeDialog';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate, formatMoney } from '@/lib/format';
+import { installmentsTotal, type InstallmentPlan } from '@/lib/installments';
+import { downloadFeeDocument } from '@/lib/feeDocuments';
+import { feeLedgerColumns, feeLedgerKindLabels, raisesBalance, type FeeLedgerEntry, type FeeLedgerKind } from '@/lib/feeLedger';
+import type { CheckoutStatus } from '@/lib/payments';
+import { CreditCard, Calendar, Banknote, Tag, Layers, Loader2, FileText, Download } from 'lucide-react';
+
+interface FeePayment {
+  id: string;
+  assignment_id: string;
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  paid_at: string;
+}
+
+interface InstallmentBalance {
+  id: string;
+  position: number;
+  amount: number;
+  due_date: string;
+  amount_paid: number;
+  status: string;
+  overdue: boolean;
+  scholarship_amount: number;
+}
+
+interface StudentFee {
+  id: string;
+  plan_id: string | null;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  category: string | null;
+  amount: number;
+  penalty_amount: number;
+  discount_amount: number;
+  amount_due: number;
+  amount_paid: number;
+  waived_amount: number;
+  refunded_amount: number;
+  credited_amount: number;
+  scholarship_amount: number;
+  balance: number;
+  status: string;
+  payments: FeePayment[];
+  entries: FeeLedgerEntry[];
+  plans: InstallmentPlan[];
+  installments: InstallmentBalance[];
+}
+
+interface FeeStatementProps {
+  studentId: string;
+  schoolCode: string;
+  description: string;
+  emptyMessage: string;
+}
+
+/**
+ * A student's assigned fees with balances and payment history. Serves both the student
+ * and their linked guardians, who can opt into an installment plan and pay online.
+ */
+export function FeeStatement({ studentId, schoolCode, description, emptyMessage }: FeeStatementProps) {
+  const { school } = useSchool();
+  const [fees, setFees] = useState<StudentFee[]>([]);
+  const [credit, setCredit] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selectedPlans, setSelectedPlans] = useState<Record<string, string>>({});
+  const [choosingId, setChoosingId] = useState<string | null>(null);
+  const [payingFee, setPayingFee] = useState<PayableFee | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const returnedCheckoutId = searchParams.get('checkout');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setLoading(true);
+    fetchFees();
+  }, [studentId, schoolCode]);
+
+  useRealtimeTable('fees', schoolCode, () => fetchFees());
+
+  // Payments land in the ledger when the provider's webhook confirms them, which may be after the payer is back
+  useRealtimeTable('payment_checkouts', schoolCode, (change) => {
+    if (change.eventType === 'DELETE') return;
+    fetchFees();
+    if (change.new.id === returnedCheckoutId) reportCheckout(change.new.status as CheckoutStatus);
+  });
+
+  useEffect(() => {
+    if (!returnedCheckoutId) return;
+
+    supabase
+      .from('payment_checkouts')
+      .select('status')
+      .eq('id', returnedCheckoutId)
+      .maybeSingle()
+      .then(({ data }) => data && reportCheckout(data.status as CheckoutStatus));
+  }, [returnedCheckoutId]);
+
+  const reportCheckout = (status: CheckoutStatus) => {
+    if (status === 'pending') return;
+
+    if (status === 'failed' || status === 'cancelled') {
+      toast({
+        variant: 'destructive',
+        title: 'Payment not completed',
+        description: 'Nothing was charged. You can try again at any time.',
+      });
+    } else {
+      toast({
+        title: 'Payment received',
+        description: 'Thank you. The balance has been updated.',
+      });
+    }
+    setSearchParams({}, { replace: true });
+  };
+
+  const fetchFees = async () => {
+    const { data: balances, error } = await supabase
+      .from('fee_assignment_balances')
+      .select('*, fees(title, description, due_date, category)')
+      .eq('student_id', studentId)
+      .eq('school_code', schoolCode)
+      .is('archived_at', null);
+
+    if (error || !balances) {
+      setLoading(false);
+      return;
+    }
+
+    const assignmentIds = balances.map((b) => b.id!);
+    const { data: payments } = assignmentIds.length
+      ? await supabase
+          .from('fee_payments')
+          .select('id, assignment_id, amount, method, reference, paid_at')
+          .in('assignment_id', assignmentIds)
+          .order('paid_at', { ascending: false })
+      : { data: [] as FeePayment[] };
+
+    const { data: entries } = await supabase
+      .from('fee_ledger_entries')
+      .select(feeLedgerColumns)
+      .eq('student_id', studentId)
+      .eq('school_code', schoolCode)
+      .order('created_at', { ascending: false });
+
+    const { data: credits } = await supabase
+      .from('student_fee_credits')
+      .select('available')
+      .eq('student_id', studentId)
+      .eq('school_code', schoolCode)
+      .maybeSingle();
+
+    const feeIds = [...new Set(balances.map((b) => b.fee_id!))];
+    const { data: plans } = feeIds.length
+      ? await supabase
+          .from('fee_installment_plans')
+          .select('id, fee_id, name, fee_installments(position, amount, due_date)')
+          .in('fee_id', feeIds)
+          .order('created_at', { ascending: true })
+      : { data: [] as InstallmentPlan[] };
+
+    const { data: installments } = assignmentIds.length
+      ? await supabase
+          .from('fee_installment_balances')
+          .select('*')
+          .in('assignment_id', assignmentIds)
+          .order('position', { ascending: true })
+      : { data: [] };
+
+    setFees(
+      balances
+        .filter((b) => b.fees)
+        .map((b) => ({
+          id: b.id!,
+          plan_id: b.plan_id,
+          title: b.fees!.title,
+          description: b.fees!.description,
+          due_date: b.fees!.due_date,
+          category: b.fees!.category,
+          amount: b.amount ?? 0,
+          penalty_amount: b.penalty_amount ?? 0,
+          discount_amount: b.discount_amount ?? 0,
+          amount_due: b.amount_due ?? b.amount ?? 0,
+          amount_paid: b.amount_paid ?? 0,
+          waived_amount: b.waived_amount ?? 0,
+          refunded_amount: b.refunded_amount ?? 0,
+          credited_amount: b.credited_amount ?? 0,
+          scholarship_amount: b.scholarship_amount ?? 0,
+          balance: b.balance ?? 0,
+          status: b.status ?? 'outstanding',
+          payments: (payments ?? []).filter((p) => p.assignment_id === b.id),
+          entries: (entries ?? []).filter((e) => e.assignment_id === b.id),
+          // Plans are split from the fee amount, so only those matching what this student owes are offered
+          plans: (plans ?? []).filter(
+            (p) => p.fee_id === b.fee_id && installmentsTotal(p.fee_installments) === b.amount
+          ),
+          installments: (installments ?? [])
+            .filter((i) => i.assignment_id === b.id && i.plan_id === b.plan_id)
+            .map((i) => ({
+              id: i.id!,
+              position: i.position ?? 0,
+              amount: i.amount ?? 0,
+              due_date: i.due_date!,
+              amount_paid: i.amount_paid ?? 0,
+              status: i.status ?? 'outstanding',
+              overdue: i.overdue ?? false,
+              scholarship_amount: i.scholarship_amount ?? 0,
+            })),
+        }))
+        .sort((a, b) => (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999'))
+    );
+    setCredit(credits?.available ?? 0);
+    setLoading(false);
+  };
+
+  const choosePlan = async (fee: StudentFee, planId: string | null) => {
+    setChoosingId(fee.id);
+    const { error } = await supabase.rpc('choose_installment_plan', {
+      _assignment_id: fee.id,
+      _plan_id: planId,
+    });
+    setChoosingId(null);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: planId ? 'Installment plan chosen' : 'Installment plan removed',
+      description: planId ? 'Pay each installment by its due date.' : 'The fee is due in full again.',
+    });
+    fetchFees();
+  };
+
+  // On a plan, suggest paying what is left of the next installment plus any late penalty
+  const openPayment = (fee: StudentFee) => {
+    const next = fee.plan_id ? fee.installments.find((i) => i.status !== 'paid') : null;
+    const suggested = next ? next.amount - next.amount_paid + fee.penalty_amount : fee.balance;
+
+    setPayingFee({
+      id: fee.id,
+      title: fee.title,
+      balance: fee.balance,
+      suggested_amount: Math.min(suggested, fee.balance),
+    });
+  };
+
+  const download = async (key: string, run: () => Promise<void>) => {
+    setDownloading(key);
+    try {
+      await run();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The document could not be created.',
+      });
+    }
+    setDownloading(null);
+  };
+
+  const downloadInvoice = () =>
+    download('invoice', () =>
+      downloadFeeDocument({ action: 'invoice', school_code: schoolCode, student_id: studentId }, 'invoice.pdf')
+    );
+
+  const downloadReceipt = (payment: FeePayment) =>
+    download(payment.id, () =>
+      downloadFeeDocument({ action: 'receipt', payment_id: payment.id }, `receipt-${payment.paid_at.slice(0, 10)}.pdf`)
+    );
+
+  const isDueSoon = (dueDate: string | null, status: string) => {
+    if (!dueDate || status === 'paid') return false;
+    const days = Math.ceil((new Date(dueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    return days <= 7 && days >= 0;
+  };
+
+  const isOverdue = (dueDate: string | null, status: string) => {
+    if (!dueDate || status === 'paid') return false;
+    return new Date(dueDate) < new Date();
+  };
+
+  const totalBalance = fees.reduce((sum, fee) => sum + fee.balance, 0);
+
+  return (
+  <div className="p-6 lg:p-8 space-y-6">
+    {/* Header */}
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 bg-accent/10 rounded-xl flex items-center justify-center">
+          <CreditCard className="h-6 w-6 text-accent" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold">Fees</h1>
+          <p className="text-muted-foreground">
+            Your balance, due dates and payment history
+          </p>
+        </div>
+      </div>
+
+      {fees.length > 0 && (
+        <div className="flex items-center gap-3">
+          {totalBalance > 0 && (
+            <Button variant="outline" disabled={downloading === 'invoice'} onClick={downloadInvoice}>
+              {downloading === 'invoice' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FileText className="h-4 w-4 mr-2" />
+              )}
+              Invoice
+            </Button>
+          )}
+          <Card className="bg-gradient-to-r from-accent to-accent/80 text-accent-foreground">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <Banknote className="h-5 w-5" />
+                <div>
+                  <p className="text-sm opacity-90">Outstanding Balance</p>
+                  <p className="text-xl font-bold">
+                    {formatMoney(totalBalance, school)}
+                  </p>
+                  {credit > 0 && (
+                    <p className="text-xs opacity-90">
+                      {formatMoney(credit, school)} credit carried forward
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+
+    {/* Content */}
+    {loading ? (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Card key={i}>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <Skeleton className="h-6 w-1/3" />
+                <Skeleton className="h-8 w-24" />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    ) : fees.length === 0 ? (
+      <Card className="text-center py-12">
+        <CardContent>
+          <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+            <CreditCard className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No fees assigned</h3>
+          <p className="text-muted-foreground">
+            Fees assigned to you will appear here.
+          </p>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-4">
+        {fees.map((fee) => {
+          // On a plan, each installment is due on its own date instead of the fee's
+          const nextInstallment = fee.installments.find((i) => i.status !== 'paid');
+          const dueDate = fee.plan_id ? nextInstallment?.due_date ?? null : fee.due_date;
+          const overdue = fee.plan_id ? fee.installments.some((i) => i.overdue) : isOverdue(fee.due_date, fee.status);
+          const dueSoon = isDueSoon(dueDate, fee.status);
+          const selectedPlan = selectedPlans[fee.id] ?? fee.plans[0]?.id;
+          const settledOtherwise =
+            fee.waived_amount > 0 || fee.refunded_amount > 0 || fee.credited_amount > 0 || fee.scholarship_amount > 0;
+
+          return (
+            <Card
+              key={fee.id}
+              className={`transition-all duration-200 hover:shadow-md ${
+                overdue ? 'border-destructive/50 bg-destructive/5' : ''
+              }`}
+            >
+              <CardContent className="p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h3 className="font-semibold text-lg">{fee.title}</h3>
+                      {fee.category && (
+                        <Badge variant="secondary">
+                          <Tag className="h-3 w-3 mr-1" />
+                          {fee.category}
+                        </Badge>
+                      )}
+                      <FeeStatusBadge status={fee.status} overdue={overdue} />
+                      {dueSoon && !overdue && (
+                        <Badge variant="outline" className="border-orange-500 text-orange-500">
+                          Due Soon
+                        </Badge>
+                      )}
+                    </div>
+
+                    {fee.description && (
+                      <p className="text-sm text-muted-foreground">
+                        {fee.description}
+                      </p>
+                    )}
+
+                    {dueDate && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span
+                          className={
+                            overdue
+                              ? 'text-destructive font-medium'
+                              : dueSoon
+                              ? 'text-orange-500 font-medium'
+                              : 'text-muted-foreground'
+                          }
+                        >
+                          {fee.plan_id ? 'Next installment due' : 'Due'}: {formatDate(dueDate, school)}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="text-right space-y-2">
+                    <div>
+                      <p className="text-2xl font-bold text-accent">
+                        {formatMoney(fee.balance, school)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {fee.status === 'paid'
+                          ? `Paid in full (${formatMoney(fee.amount_due, school)})`
+                          : `due of ${formatMoney(fee.amount_due, school)}`}
+                      </p>
+                    </div>
+                    {fee.balance > 0 && (
+                      <Button size="sm" onClick={() => openPayment(fee)}>
+                        <CreditCard className="h-4 w-4 mr-2" />
+                        Pay now
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {(fee.penalty_amount > 0 || fee.discount_amount > 0 || settledOtherwise) && (
+                  <div className="mt-4 pt-4 border-t space-y-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Fee</span>
+                      <span>{formatMoney(fee.amount, school)}</span>
+                    </div>
+                    {fee.penalty_amount > 0 && (
+                      <div className="flex items-center justify-between text-destructive">
+                        <span>Late penalty</span>
+                        <span>+{formatMoney(fee.penalty_amount, school)}</span>
+                      </div>
+                    )}
+                    {fee.discount_amount > 0 && (
+                      <div className="flex items-center justify-between text-green-600">
+                        <span>{fee.status === 'paid' ? 'Early-payment discount' : 'Early-payment discount, if paid in full on time'}</span>
+                        <span>−{formatMoney(fee.discount_amount, school)}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between font-medium">
+                      <span>Total</span>
+                      <span>{formatMoney(fee.amount_due, school)}</span>
+                    </div>
+                    {settledOtherwise && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">Paid</span>
+                          <span>−{formatMoney(fee.amount_paid + fee.refunded_amount, school)}</span>
+                        </div>
+                        {fee.refunded_amount > 0 && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Refunded</span>
+                            <span>+{formatMoney(fee.refunded_amount, school)}</span>
+                          </div>
+                        )}
+                        {fee.waived_amount > 0 && (
+                          <div className="flex items-center justify-between text-green-600">
+                            <span>Waived</span>
+                            <span>−{formatMoney(fee.waived_amount, school)}</span>
+                          </div>
+                        )}
+                        {fee.scholarship_amount > 0 && (
+                          <div className="flex items-center justify-between text-green-600">
+                            <span>Scholarship</span>
+                            <span>−{formatMoney(fee.scholarship_amount, school)}</span>
+                          </div>
+                        )}
+                        {fee.credited_amount > 0 && (
+                          <div className="flex items-center justify-between text-green-600">
+                            <span>Credit applied</span>
+                            <span>−{formatMoney(fee.credited_amount, school)}</span>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between font-medium">
+                          <span>Balance</span>
+                          <span>{formatMoney(fee.balance, school)}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {fee.plan_id && fee.installments.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-2">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium flex items-center gap-1">
+                        <Layers className="h-4 w-4" />
+                        {fee.plans.find((p) => p.id === fee.plan_id)?.name ?? 'Installment plan'}
+                      </p>
+                      {fee.amount_paid === 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={choosingId === fee.id}
+                          onClick={() => choosePlan(fee, null)}
+                        >
+                          Pay in full instead
+                        </Button>
+                      )}
+                    </div>
+                    {fee.installments.map((installment) => (
+                      <div key={installment.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className={installment.overdue ? 'text-destructive' : 'text-muted-foreground'}>
+                          #{installment.position} · Due {formatDate(installment.due_date, school)}
+                          {installment.scholarship_amount > 0 &&
+                            ` · ${formatMoney(installment.scholarship_amount, school)} scholarship`}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <span>
+                            {installment.status === 'partial'
+                              ? `${formatMoney(installment.amount_paid, school)} of ${formatMoney(installment.amount, school)}`
+                              : formatMoney(installment.amount, school)}
+                          </span>
+                          <FeeStatusBadge status={installment.status} overdue={installment.overdue} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!fee.plan_id && fee.plans.length > 0 && fee.amount_paid === 0 && fee.status !== 'paid' && (
+                  <div className="mt-4 pt-4 border-t flex flex-col sm:flex-row sm:items-center gap-2">
+                    <p className="text-sm font-medium flex items-center gap-1 sm:mr-auto">
+                      <Layers className="h-4 w-4" />
+                      Pay in installments
+                    </p>
+                    <Select
+                      value={selectedPlan}
+                      onValueChange={(planId) => setSelectedPlans({ ...selectedPlans, [fee.id]: planId })}
+                    >
+                      <SelectTrigger className="sm:w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fee.plans.map((plan) => (
+                          <SelectItem key={plan.id} value={plan.id}>
+                            {plan.name} ({[...plan.fee_installments]
+                              .sort((a, b) => a.position - b.position)
+                              .map((i) => formatMoney(i.amount, school))
+                              .join(' + ')})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      disabled={!selectedPlan || choosingId === fee.id}
+                      onClick={() => choosePlan(fee, selectedPlan)}
+                    >
+                      {choosingId === fee.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Choose plan
+                    </Button>
+                  </div>
+                )}
+
+                {fee.payments.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-2">
+                    <p className="text-sm font-medium">Payment history</p>
+                    {fee.payments.map((payment) => (
+                      <div key={payment.id} className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {formatDate(payment.paid_at, school)}
+                          {payment.method && ` · ${payment.method}`}
+                          {payment.reference && ` · ${payment.reference}`}
+                        </span>
+                        <div className="flex items-center gap-1">
+                          <span className="font-medium text-green-600">
+                            {formatMoney(payment.amount, school)}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Download receipt"
+                            disabled={downloading === payment.id}
+                            onClick={() => downloadReceipt(payment)}
+                          >
+                            {downloading === payment.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {fee.entries.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-2">
+                    <p className="text-sm font-medium">Adjustments</p>
+                    {fee.entries.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-muted-foreground">
+                          {formatDate(entry.created_at, school)} · {feeLedgerKindLabels[entry.kind as FeeLedgerKind]} · {entry.reason}
+                        </span>
+                        <span className={`font-medium ${raisesBalance(entry) ? '' : 'text-green-600'}`}>
+                          {raisesBalance(entry) ? '+' : '−'}
+                          {formatMoney(entry.amount, school)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    )}
+
+    <PayFeeDialog
+      fee={payingFee}
+      onOpenChange={(open) => !open && setPayingFee(null)}
+    />
+  </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Badge } from '@/components/ui/badge';
+
+export type FeeStatus = 'outstanding' | 'partial' | 'paid';
+
+interface FeeStatusBadgeProps {
+  status: string | null;
+  overdue?: boolean;
+}
+
+export function FeeStatusBadge({ status, overdue }: FeeStatusBadgeProps) {
+  if (status === 'paid') {
+    return <Badge className="bg-green-600 hover:bg-green-600/80">Paid</Badge>;
+  }
+
+  if (overdue) {
+    return <Badge variant="destructive">Overdue</Badge>;
+  }
+
+  if (status === 'partial') {
+    return (
+      <Badge variant="outline" className="border-orange-500 text-orange-500">
+        Partially Paid
+      </Badge>
+    );
+  }
+
+  return <Badge variant="secondary">Outstanding</Badge>;
+}
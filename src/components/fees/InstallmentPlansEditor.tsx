@@ -0,0 +1,161 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { School } from '@/hooks/useSchool';
+import { formatDate, formatMoney } from '@/lib/format';
+import {
+  installmentsTotal,
+  splitInstallments,
+  MAX_INSTALLMENTS,
+  MIN_INSTALLMENTS,
+  type Installment,
+  type InstallmentPlan,
+} from '@/lib/installments';
+import { Plus, Trash2, Layers } from 'lucide-react';
+
+export interface InstallmentPlanDraft {
+  name: string;
+  installments: Installment[];
+}
+
+interface InstallmentPlansEditorProps {
+  school: School;
+  amount: number;
+  dueDate: string;
+  plans: InstallmentPlan[];
+  drafts: InstallmentPlanDraft[];
+  onDraftsChange: (drafts: InstallmentPlanDraft[]) => void;
+  onRemovePlan: (planId: string) => void;
+}
+
+/**
+ * Installment plans offered on a fee. Saved plans are fixed once students may have opted in,
+ * so they can only be removed; new plans are drafted here and saved along with the fee.
+ */
+export function InstallmentPlansEditor({
+  school,
+  amount,
+  dueDate,
+  plans,
+  drafts,
+  onDraftsChange,
+  onRemovePlan,
+}: InstallmentPlansEditorProps) {
+  const firstDueDate = dueDate || new Date().toISOString().slice(0, 10);
+
+  const updateDraft = (index: number, draft: InstallmentPlanDraft) =>
+    onDraftsChange(drafts.map((d, i) => (i === index ? draft : d)));
+
+  const updateInstallment = (index: number, position: number, changes: Partial<Installment>) =>
+    updateDraft(index, {
+      ...drafts[index],
+      installments: drafts[index].installments.map((i) => (i.position === position ? { ...i, ...changes } : i)),
+    });
+
+  const addDraft = () =>
+    onDraftsChange([...drafts, { name: '', installments: splitInstallments(amount, 3, firstDueDate) }]);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Installment plans</Label>
+          <p className="text-xs text-muted-foreground">Let students pay this fee in parts</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" disabled={!(amount > 0)} onClick={addDraft}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add plan
+        </Button>
+      </div>
+
+      {plans.map((plan) => (
+        <div key={plan.id} className="flex items-start justify-between gap-2 rounded-md bg-muted/50 p-2 text-sm">
+          <div>
+            <p className="font-medium flex items-center gap-1">
+              <Layers className="h-3 w-3" />
+              {plan.name}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {[...plan.fee_installments]
+                .sort((a, b) => a.position - b.position)
+                .map((i) => `${formatMoney(i.amount, school)} by ${formatDate(i.due_date, school)}`)
+                .join(' · ')}
+            </p>
+          </div>
+          <Button type="button" variant="ghost" size="icon" title="Remove plan" onClick={() => onRemovePlan(plan.id)}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+
+      {drafts.map((draft, index) => {
+        const total = installmentsTotal(draft.installments);
+
+        return (
+          <div key={index} className="space-y-2 rounded-md border p-2">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={`${draft.installments.length} installments`}
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { ...draft, name: e.target.value })}
+              />
+              <Select
+                value={draft.installments.length.toString()}
+                onValueChange={(count) =>
+                  updateDraft(index, { ...draft, installments: splitInstallments(amount, parseInt(count), firstDueDate) })
+                }
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_INSTALLMENTS - MIN_INSTALLMENTS + 1 }, (_, i) => i + MIN_INSTALLMENTS).map(
+                    (count) => (
+                      <SelectItem key={count} value={count.toString()}>
+                        {count} parts
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="Discard plan"
+                onClick={() => onDraftsChange(drafts.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            {draft.installments.map((installment) => (
+              <div key={installment.position} className="grid grid-cols-[2rem_1fr_1fr] items-center gap-2">
+                <span className="text-xs text-muted-foreground">#{installment.position}</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={installment.amount}
+                  onChange={(e) =>
+                    updateInstallment(index, installment.position, { amount: parseFloat(e.target.value) || 0 })
+                  }
+                />
+                <Input
+                  type="date"
+                  value={installment.due_date}
+                  onChange={(e) => updateInstallment(index, installment.position, { due_date: e.target.value })}
+                />
+              </div>
+            ))}
+            {total !== amount && (
+              <p className="text-xs text-destructive">
+                Parts add up to {formatMoney(total, school)}, not {formatMoney(amount, school)}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { currencySymbol, formatMoney } from '@/lib/format';
+import { invokePayments } from '@/lib/payments';
+import { Loader2 } from 'lucide-react';
+
+export interface PayableFee {
+  id: string;
+  title: string;
+  balance: number;
+  // What to pay now, e.g. the next installment; defaults to the whole balance
+  suggested_amount: number;
+}
+
+interface PayFeeDialogProps {
+  fee: PayableFee | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Starts an online payment and hands over to the provider's checkout. The ledger is only
+ * updated once the provider's webhook confirms the payment.
+ */
+export function PayFeeDialog({ fee, onOpenChange }: PayFeeDialogProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (fee) setAmount(fee.suggested_amount.toFixed(2));
+  }, [fee]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fee) return;
+
+    const value = parseFloat(amount);
+    if (!value || value <= 0 || value > fee.balance) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid amount',
+        description: `Enter an amount up to ${formatMoney(fee.balance, school)}.`,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { url } = await invokePayments<{ url: string }>({
+        action: 'checkout',
+        assignment_id: fee.id,
+        amount: value,
+        return_url: window.location.origin + window.location.pathname,
+      });
+      window.location.assign(url);
+    } catch (error) {
+      setIsSubmitting(false);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not start the payment.',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!fee} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay now</DialogTitle>
+          <DialogDescription>
+            {fee?.title} · {formatMoney(fee?.balance ?? 0, school)} due
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pay-amount">Amount ({currencySymbol(school)})</Label>
+            <Input
+              id="pay-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              max={fee?.balance}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              You will be taken to our payment provider to complete the payment.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Redirecting...
+                </>
+              ) : 'Continue to payment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
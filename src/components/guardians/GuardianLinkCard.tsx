@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, Copy, Loader2, RefreshCw, Trash2, UserPlus } from 'lucide-react';
+
+interface LinkCode {
+  code: string;
+  expires_at: string;
+}
+
+interface LinkedGuardian {
+  id: string;
+  guardian_id: string;
+  full_name: string;
+}
+
+/**
+ * Lets a student hand a one-time code to a parent or guardian and manage who is linked.
+ */
+export function GuardianLinkCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [linkCode, setLinkCode] = useState<LinkCode | null>(null);
+  const [guardians, setGuardians] = useState<LinkedGuardian[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchLinks();
+  }, [user]);
+
+  const fetchLinks = async () => {
+    const [codeRes, linksRes] = await Promise.all([
+      supabase
+        .from('guardian_link_codes')
+        .select('code, expires_at')
+        .eq('student_id', user!.id)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle(),
+      supabase
+        .from('guardian_links')
+        .select('id, guardian_id')
+        .eq('student_id', user!.id)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    setLinkCode(codeRes.data ?? null);
+
+    const links = linksRes.data ?? [];
+    const { data: profiles } = links.length
+      ? await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', links.map((l) => l.guardian_id))
+      : { data: [] as { user_id: string; full_name: string }[] };
+
+    setGuardians(
+      links.map((l) => ({
+        ...l,
+        full_name: (profiles ?? []).find((p) => p.user_id === l.guardian_id)?.full_name ?? 'Guardian',
+      }))
+    );
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    const { error } = await supabase.rpc('create_guardian_link_code');
+    setIsGenerating(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    fetchLinks();
+  };
+
+  const handleUnlink = async (id: string) => {
+    const { error } = await supabase
+      .from('guardian_links')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Guardian removed',
+      description: 'They can no longer see your school information.',
+    });
+    fetchLinks();
+  };
+
+  const copyCode = () => {
+    if (!linkCode) return;
+    navigator.clipboard.writeText(linkCode.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parents & Guardians</CardTitle>
+        <CardDescription>
+          Give a parent or guardian a link code so they can follow your fees, notices and scholarships
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {linkCode ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-2xl font-bold font-mono tracking-widest bg-muted px-4 py-2 rounded-lg">
+              {linkCode.code}
+            </span>
+            <Button variant="outline" onClick={copyCode}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? 'Copied!' : 'Copy'}
+            </Button>
+            <Button variant="ghost" onClick={handleGenerate} disabled={isGenerating}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              New code
+            </Button>
+            <p className="w-full text-sm text-muted-foreground">
+              Works once and expires {new Date(linkCode.expires_at).toLocaleDateString()}.
+            </p>
+          </div>
+        ) : (
+          <Button onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserPlus className="h-4 w-4 mr-2" />
+            )}
+            Create link code
+          </Button>
+        )}
+
+        {guardians.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {guardians.map((guardian) => (
+              <div key={guardian.id} className="flex items-center justify-between gap-4 p-3">
+                <p className="font-medium truncate">{guardian.full_name}</p>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Linked</Badge>
+                  <Button variant="outline" size="icon" title="Remove" onClick={() => handleUnlink(guardian.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
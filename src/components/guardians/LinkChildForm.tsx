@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Link2, Loader2 } from 'lucide-react';
+
+export function LinkChildForm() {
+  const { refreshChildren, setActiveChildId } = useGuardian();
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [isLinking, setIsLinking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsLinking(true);
+    const { data, error } = await supabase.rpc('link_guardian', { _code: code.trim() });
+    setIsLinking(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not link account',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Child linked',
+      description: 'You can now follow their fees, notices and scholarships.',
+    });
+    setCode('');
+    await refreshChildren();
+    setActiveChildId(data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+      <Input
+        placeholder="Link code from your child"
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+        className="font-mono tracking-widest"
+        maxLength={20}
+      />
+      <Button type="submit" disabled={isLinking || !code.trim()}>
+        {isLinking ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Link2 className="h-4 w-4 mr-2" />
+        )}
+        Link
+      </Button>
+    </form>
+  );
+}
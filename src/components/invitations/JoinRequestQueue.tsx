@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, X } from 'lucide-react';
+
+interface JoinRequest {
+  id: string;
+  full_name: string;
+  created_at: string;
+}
+
+interface JoinRequestQueueProps {
+  schoolCode: string;
+}
+
+export function JoinRequestQueue({ schoolCode }: JoinRequestQueueProps) {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [schoolCode]);
+
+  useRealtimeTable('school_join_requests', schoolCode, () => fetchRequests());
+
+  const fetchRequests = async () => {
+    const { data, error } = await supabase
+      .from('school_join_requests')
+      .select('id, user_id, created_at')
+      .eq('school_code', schoolCode)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error || !data) return;
+
+    const userIds = data.map((r) => r.user_id);
+    const { data: profiles } = userIds.length
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+      : { data: [] };
+    const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+    setRequests(
+      data.map((r) => ({
+        id: r.id,
+        full_name: names.get(r.user_id) ?? 'Unknown user',
+        created_at: r.created_at,
+      }))
+    );
+  };
+
+  const handleReview = async (requestIds: string[], approve: boolean) => {
+    const { data, error } = await supabase.rpc('review_join_requests', {
+      _request_ids: requestIds,
+      _approve: approve,
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? 'Requests approved' : 'Requests rejected',
+      description: `${data} request${data === 1 ? '' : 's'} ${approve ? 'approved' : 'rejected'}.`,
+    });
+    fetchRequests();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Join Requests</CardTitle>
+          <CardDescription>People who used your school code and are waiting for approval</CardDescription>
+        </div>
+        {requests.length > 1 && (
+          <Button variant="outline" size="sm" onClick={() => handleReview(requests.map((r) => r.id), true)}>
+            Approve All
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No pending requests.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{request.full_name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Asked {new Date(request.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="icon" title="Approve" onClick={() => handleReview([request.id], true)}>
+                    <Check className="h-4 w-4 text-green-600" />
+                  </Button>
+                  <Button variant="outline" size="icon" title="Reject" onClick={() => handleReview([request.id], false)}>
+                    <X className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
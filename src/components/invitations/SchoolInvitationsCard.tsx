@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { audienceLabel, type Audience, type SchoolClass } from '@/lib/classes';
+import { Ban, Check, Copy, Loader2, Ticket } from 'lucide-react';
+
+const expiryOptions: Record<string, { label: string; days: number | null }> = {
+  '1': { label: '1 day', days: 1 },
+  '7': { label: '7 days', days: 7 },
+  '30': { label: '30 days', days: 30 },
+  never: { label: 'Never', days: null },
+};
+
+interface SchoolInvitation {
+  id: string;
+  code: string;
+  label: string | null;
+  class_id: string | null;
+  section_id: string | null;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+interface SchoolInvitationsCardProps {
+  schoolCode: string;
+  classes: SchoolClass[];
+}
+
+function invitationStatus(invitation: SchoolInvitation) {
+  if (invitation.revoked_at) return 'Revoked';
+  if (invitation.expires_at && new Date(invitation.expires_at) < new Date()) return 'Expired';
+  if (invitation.max_uses !== null && invitation.use_count >= invitation.max_uses) return 'Used up';
+  return null;
+}
+
+export function SchoolInvitationsCard({ schoolCode, classes }: SchoolInvitationsCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<SchoolInvitation[]>([]);
+  const [label, setLabel] = useState('');
+  const [expiry, setExpiry] = useState('7');
+  const [maxUses, setMaxUses] = useState('1');
+  const [audience, setAudience] = useState<Audience>({ class_id: null, section_id: null });
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [schoolCode]);
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from('school_invitations')
+      .select('id, code, label, class_id, section_id, max_uses, use_count, expires_at, revoked_at')
+      .eq('school_code', schoolCode)
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setInvitations(data);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const days = expiryOptions[expiry].days;
+    setIsCreating(true);
+    const { error } = await supabase
+      .from('school_invitations')
+      .insert({
+        school_code: schoolCode,
+        created_by: user.id,
+        label: label.trim() || null,
+        class_id: audience.class_id,
+        section_id: audience.section_id,
+        max_uses: maxUses ? parseInt(maxUses, 10) : null,
+        expires_at: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+      });
+    setIsCreating(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Invitation created',
+      description: 'Share the code with the students it is meant for.',
+    });
+    setLabel('');
+    setAudience({ class_id: null, section_id: null });
+    fetchInvitations();
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await supabase
+      .from('school_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Invitation revoked',
+      description: 'The code can no longer be used to join.',
+    });
+    fetchInvitations();
+  };
+
+  const copyCode = (invitation: SchoolInvitation) => {
+    navigator.clipboard.writeText(invitation.code);
+    setCopiedId(invitation.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Student Invitations</CardTitle>
+        <CardDescription>
+          Codes that expire, run out after a number of uses and can place students straight into a class
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="space-y-4 rounded-lg border p-4">
+          <div className="space-y-2">
+            <Label htmlFor="invitation_label">Label</Label>
+            <Input
+              id="invitation_label"
+              placeholder="e.g., New intake, September"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invitation_expiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="invitation_expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(expiryOptions).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invitation_max_uses">Max uses</Label>
+              <Input
+                id="invitation_max_uses"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Unlimited"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+              />
+            </div>
+          </div>
+          {classes.length > 0 && (
+            <AudienceSelect classes={classes} value={audience} onChange={setAudience} label="Place in class" />
+          )}
+          <Button type="submit" disabled={isCreating}>
+            {isCreating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Ticket className="h-4 w-4 mr-2" />
+            )}
+            Create Invitation
+          </Button>
+        </form>
+
+        {invitations.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {invitations.map((invitation) => {
+              const status = invitationStatus(invitation);
+              const className = audienceLabel(classes, invitation);
+              return (
+                <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-mono font-medium tracking-widest">{invitation.code}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {[
+                        invitation.label,
+                        className,
+                        `${invitation.use_count}${invitation.max_uses ? ` / ${invitation.max_uses}` : ''} used`,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {status ? (
+                      <Badge variant="outline">{status}</Badge>
+                    ) : (
+                      <>
+                        <Badge variant="outline">
+                          {invitation.expires_at
+                            ? `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`
+                            : 'No expiry'}
+                        </Badge>
+                        <Button variant="outline" size="icon" title="Copy code" onClick={() => copyCode(invitation)}>
+                          {copiedId === invitation.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                        <Button variant="outline" size="icon" title="Revoke" onClick={() => handleRevoke(invitation.id)}>
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,10 @@ import { ReactNode } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useSchool } from '@/hooks/useSchool';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 import {
   GraduationCap,
@@ -15,6 +18,11 @@ import {
   X,
   Settings,
   Mic,
+  Users,
+  School,
+  Plus,
+  CalendarRange,
+  ShieldCheck,
 } from 'lucide-react';
 import { useState } from 'react';
 
@@ -24,7 +32,9 @@ interface DashboardLayoutProps {
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { profile, signOut } = useAuth();
-  const { isAdmin } = useUserRole();
+  const { isAdmin, isTeacher, isGuardian, isPlatformReviewer } = useUserRole();
+  const { linkedChildren, activeChild, setActiveChildId } = useGuardian();
+  const { schools, school, setActiveSchoolCode } = useSchool();
   const location = useLocation();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -44,13 +54,43 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   const adminNavItems = [
     { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
+    { href: '/admin/students', label: 'Students', icon: GraduationCap },
     { href: '/admin/scholarships', label: 'Scholarships', icon: Award },
     { href: '/admin/fees', label: 'Fees', icon: CreditCard },
     { href: '/admin/notices', label: 'Notices', icon: Bell },
+    { href: '/admin/classes', label: 'Classes', icon: School },
+    { href: '/admin/terms', label: 'Terms', icon: CalendarRange },
     { href: '/admin/settings', label: 'Settings', icon: Settings },
   ];
 
-  const navItems = isAdmin ? adminNavItems : studentNavItems;
+  const teacherNavItems = [
+    { href: '/teacher', label: 'Dashboard', icon: LayoutDashboard },
+    { href: '/teacher/students', label: 'Students', icon: Users },
+    { href: '/teacher/notices', label: 'Notices', icon: Bell },
+  ];
+
+  const guardianNavItems = [
+    { href: '/guardian', label: 'Dashboard', icon: LayoutDashboard },
+    { href: '/guardian/fees', label: 'Fees', icon: CreditCard },
+    { href: '/guardian/notices', label: 'Notices', icon: Bell },
+    { href: '/guardian/scholarships', label: 'Scholarships', icon: Award },
+  ];
+
+  const roleNavItems = isAdmin
+    ? adminNavItems
+    : isTeacher
+    ? teacherNavItems
+    : isGuardian
+    ? guardianNavItems
+    : studentNavItems;
+  const navItems = isPlatformReviewer
+    ? [...roleNavItems, { href: '/admin/access-requests', label: 'Institute Accounts', icon: ShieldCheck }]
+    : roleNavItems;
+
+  const showChildSwitcher = isGuardian && linkedChildren.length > 0;
+  const showSchoolSwitcher = schools.length > 0;
+  // Students and teachers add schools with a code; guardians follow their children and admins are invited
+  const canJoinSchools = !isAdmin && !isGuardian;
 
   return (
     <div className="min-h-screen bg-background">
@@ -89,8 +129,62 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
             </Link>
           </div>
 
+          {(showChildSwitcher || showSchoolSwitcher) && (
+            <div className="px-4 pt-4 mt-16 lg:mt-0 space-y-4">
+              {/* Child switcher */}
+              {showChildSwitcher && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Viewing</p>
+                  <Select value={activeChild?.student_id} onValueChange={setActiveChildId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {linkedChildren.map((child) => (
+                        <SelectItem key={child.student_id} value={child.student_id}>
+                          {child.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* School switcher */}
+              {showSchoolSwitcher && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">School</p>
+                  <Select value={school?.school_code} onValueChange={setActiveSchoolCode}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {schools.map((s) => (
+                        <SelectItem key={s.school_code} value={s.school_code}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {canJoinSchools && (
+                    <Link
+                      to="/join-school"
+                      onClick={() => setSidebarOpen(false)}
+                      className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Join another school
+                    </Link>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Navigation */}
-          <nav className="flex-1 p-4 space-y-1 mt-16 lg:mt-0">
+          <nav
+            className={cn('flex-1 p-4 space-y-1', !showChildSwitcher && !showSchoolSwitcher && 'mt-16 lg:mt-0')}
+          >
             {navItems.map((item) => {
               const Icon = item.icon;
               const isActive = location.pathname === item.href;
@@ -124,7 +218,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               <div className="flex-1 min-w-0">
                 <p className="font-medium truncate">{profile?.full_name || 'User'}</p>
                 <p className="text-xs text-muted-foreground truncate">
-                  {isAdmin ? 'Administrator' : 'Student'}
+                  {isAdmin ? 'Administrator' : isTeacher ? 'Teacher' : isGuardian ? 'Parent / Guardian' : 'Student'}
                 </p>
               </div>
             </div>
@@ -0,0 +1,526 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { NoticeReceiptsDialog } from '@/components/notices/NoticeReceiptsDialog';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { TermFilter } from '@/components/terms/TermFilter';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { useTerms } from '@/hooks/useTerms';
+import { supabase } from '@/integrations/supabase/client';
+import { getNoticeStatus, noticeStatuses, noticeStatusLabels, toDateTimeLocal, type NoticeStatus } from '@/lib/notices';
+import { audienceLabel, type Audience, type SchoolClass } from '@/lib/classes';
+import { formatDateTime } from '@/lib/format';
+import { ACTIVE_TERM_FILTER, termLabel } from '@/lib/terms';
+import { Bell, Plus, Edit, Trash2, Loader2, AlertTriangle, Info, Eye, CheckCircle2, Users, CalendarRange } from 'lucide-react';
+
+interface Notice {
+  id: string;
+  title: string;
+  content: string;
+  priority: string | null;
+  requires_acknowledgement: boolean;
+  publish_at: string | null;
+  expires_at: string | null;
+  class_id: string | null;
+  section_id: string | null;
+  term_id: string | null;
+  created_at: string;
+}
+
+type PublishMode = 'now' | 'schedule' | 'draft';
+
+const emptyForm = {
+  title: '',
+  content: '',
+  priority: 'normal',
+  requires_acknowledgement: false,
+  publish_mode: 'now' as PublishMode,
+  publish_at: '',
+  expires_at: '',
+  audience: { class_id: null, section_id: null } as Audience,
+};
+
+interface NoticeManagerProps {
+  schoolCode: string;
+  classes: SchoolClass[];
+  // Teachers may only address the classes they teach
+  classRequired?: boolean;
+  description: string;
+}
+
+export function NoticeManager({ schoolCode, classes, classRequired = false, description }: NoticeManagerProps) {
+  const { school } = useSchool();
+  const { years } = useTerms(schoolCode);
+  const { toast } = useToast();
+  
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [receiptsNotice, setReceiptsNotice] = useState<Notice | null>(null);
+  const [activeTab, setActiveTab] = useState<NoticeStatus>('live');
+  const [termFilter, setTermFilter] = useState(ACTIVE_TERM_FILTER);
+  
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchNotices();
+  }, [schoolCode, classes, termFilter]);
+
+  // Keep the list in step with changes made by other staff
+  useRealtimeTable('notices', schoolCode, () => fetchNotices());
+
+  const fetchNotices = async () => {
+    let query = supabase
+      .from('notices')
+      .select('*')
+      .eq('school_code', schoolCode);
+    query = termFilter === ACTIVE_TERM_FILTER ? query.is('archived_at', null) : query.eq('term_id', termFilter);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (!error && data) {
+      // Teachers can read school-wide notices but only manage their own classes'
+      setNotices(classRequired ? data.filter((n) => classes.some((c) => c.id === n.class_id)) : data);
+    }
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setFormData({ ...emptyForm, audience: { class_id: classRequired ? classes[0]?.id ?? null : null, section_id: null } });
+    setEditingId(null);
+  };
+
+  const openEditDialog = (notice: Notice) => {
+    const status = getNoticeStatus(notice);
+    setFormData({
+      title: notice.title,
+      content: notice.content,
+      priority: notice.priority || 'normal',
+      requires_acknowledgement: notice.requires_acknowledgement,
+      publish_mode: status === 'draft' ? 'draft' : status === 'scheduled' ? 'schedule' : 'now',
+      publish_at: toDateTimeLocal(notice.publish_at),
+      expires_at: toDateTimeLocal(notice.expires_at),
+      audience: { class_id: notice.class_id, section_id: notice.section_id },
+    });
+    setEditingId(notice.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.audience.class_id && classRequired) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Choose one of your classes for this notice.',
+      });
+      return;
+    }
+
+    const editing = notices.find((n) => n.id === editingId);
+    let publishAt: string | null = null;
+    if (formData.publish_mode === 'schedule') {
+      publishAt = new Date(formData.publish_at).toISOString();
+    } else if (formData.publish_mode === 'now') {
+      // Editing a notice that is already out keeps its original publish time
+      publishAt = editing?.publish_at && new Date(editing.publish_at) <= new Date()
+        ? editing.publish_at
+        : new Date().toISOString();
+    }
+    const expiresAt = formData.expires_at ? new Date(formData.expires_at).toISOString() : null;
+
+    if (publishAt && expiresAt && new Date(expiresAt) <= new Date(publishAt)) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'The expiry time must be after the publish time.',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const noticeData = {
+      school_code: schoolCode,
+      class_id: formData.audience.class_id,
+      section_id: formData.audience.section_id,
+      title: formData.title,
+      content: formData.content,
+      priority: formData.priority,
+      requires_acknowledgement: formData.requires_acknowledgement,
+      publish_at: publishAt,
+      expires_at: expiresAt,
+    };
+
+    let error;
+    if (editingId) {
+      const { error: updateError } = await supabase
+        .from('notices')
+        .update(noticeData)
+        .eq('id', editingId);
+      error = updateError;
+    } else {
+      const { error: insertError } = await supabase
+        .from('notices')
+        .insert(noticeData);
+      error = insertError;
+    }
+
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    const status = getNoticeStatus({ publish_at: publishAt, expires_at: expiresAt });
+    toast({
+      title: editingId ? 'Notice updated' : status === 'draft' ? 'Draft saved' : status === 'scheduled' ? 'Notice scheduled' : 'Notice published',
+      description:
+        status === 'draft'
+          ? 'Students will not see this notice until you publish it.'
+          : status === 'scheduled'
+          ? `Students will see this notice from ${formatDateTime(publishAt!, school)}.`
+          : editingId
+          ? 'The notice has been updated.'
+          : 'The notice has been published to students.',
+    });
+
+    setIsDialogOpen(false);
+    setActiveTab(status);
+    resetForm();
+    fetchNotices();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from('notices')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Notice deleted',
+      description: 'The notice has been removed.',
+    });
+    fetchNotices();
+  };
+
+  const getPriorityIcon = (priority: string | null) => {
+    switch (priority) {
+      case 'high':
+        return <AlertTriangle className="h-4 w-4 text-destructive" />;
+      case 'low':
+        return <Info className="h-4 w-4 text-muted-foreground" />;
+      default:
+        return <Bell className="h-4 w-4 text-blue-500" />;
+    }
+  };
+
+  const getPriorityBadge = (priority: string | null) => {
+    switch (priority) {
+      case 'high':
+        return <Badge variant="destructive">Urgent</Badge>;
+      case 'low':
+        return <Badge variant="secondary">Low Priority</Badge>;
+      default:
+        return <Badge variant="outline">Normal</Badge>;
+    }
+  };
+
+  const noticesByStatus = noticeStatuses.reduce(
+    (groups, status) => ({ ...groups, [status]: notices.filter((n) => getNoticeStatus(n) === status) }),
+    {} as Record<NoticeStatus, Notice[]>
+  );
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-blue-500/10 rounded-xl flex items-center justify-center">
+            <Bell className="h-6 w-6 text-blue-500" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Notices</h1>
+            <p className="text-muted-foreground">{description}</p>
+          </div>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm} disabled={classRequired && classes.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Notice
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit Notice' : 'Add New Notice'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Title *</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content">Content *</Label>
+                <Textarea
+                  id="content"
+                  value={formData.content}
+                  onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                  rows={5}
+                  required
+                />
+              </div>
+              <AudienceSelect
+                classes={classes}
+                value={formData.audience}
+                onChange={(audience) => setFormData({ ...formData, audience })}
+                classRequired={classRequired}
+              />
+              <div className="space-y-2">
+                <Label htmlFor="priority">Priority</Label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(value) => setFormData({ ...formData, priority: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="normal">Normal</SelectItem>
+                    <SelectItem value="high">High (Urgent)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="publish_mode">Publish</Label>
+                  <Select
+                    value={formData.publish_mode}
+                    onValueChange={(value) => setFormData({ ...formData, publish_mode: value as PublishMode })}
+                  >
+                    <SelectTrigger id="publish_mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="now">Immediately</SelectItem>
+                      <SelectItem value="schedule">At a scheduled time</SelectItem>
+                      <SelectItem value="draft">Save as draft</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.publish_mode === 'schedule' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="publish_at">Publish At *</Label>
+                    <Input
+                      id="publish_at"
+                      type="datetime-local"
+                      value={formData.publish_at}
+                      onChange={(e) => setFormData({ ...formData, publish_at: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expires_at">Expires At</Label>
+                <Input
+                  id="expires_at"
+                  type="datetime-local"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to keep the notice up until you remove it
+                </p>
+              </div>
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="requires_acknowledgement">Requires acknowledgement</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Students must confirm they have read this notice
+                  </p>
+                </div>
+                <Switch
+                  id="requires_acknowledgement"
+                  checked={formData.requires_acknowledgement}
+                  onCheckedChange={(checked) => setFormData({ ...formData, requires_acknowledgement: checked })}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : editingId
+                    ? 'Update'
+                    : formData.publish_mode === 'draft'
+                    ? 'Save Draft'
+                    : formData.publish_mode === 'schedule'
+                    ? 'Schedule Notice'
+                    : 'Publish Notice'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {years.length > 0 && <TermFilter years={years} value={termFilter} onChange={setTermFilter} />}
+
+      {/* Content */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : notices.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Bell className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No notices yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Publish announcements for your students.
+            </p>
+            <Button onClick={() => { resetForm(); setIsDialogOpen(true); }} disabled={classRequired && classes.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Notice
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as NoticeStatus)}>
+          <TabsList>
+            {noticeStatuses.map((status) => (
+              <TabsTrigger key={status} value={status}>
+                {noticeStatusLabels[status]}
+                <Badge variant="secondary" className="ml-2">{noticesByStatus[status].length}</Badge>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {noticeStatuses.map((status) => (
+            <TabsContent key={status} value={status} className="space-y-4">
+              {noticesByStatus[status].length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">
+                  No {noticeStatusLabels[status].toLowerCase()} notices.
+                </p>
+              ) : noticesByStatus[status].map((notice) => (
+                <Card
+                  key={notice.id}
+                  className={`hover:shadow-md transition-shadow ${
+                    notice.priority === 'high' ? 'border-destructive/30 bg-destructive/5' : ''
+                  }`}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                      <div className="flex gap-4 flex-1">
+                        <div className="flex-shrink-0 mt-1">
+                          <div
+                            className={`w-10 h-10 rounded-lg flex items-center justify-center ${
+                              notice.priority === 'high' ? 'bg-destructive/10' : 'bg-blue-500/10'
+                            }`}
+                          >
+                            {getPriorityIcon(notice.priority)}
+                          </div>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <h3 className="font-semibold text-lg">{notice.title}</h3>
+                            {getPriorityBadge(notice.priority)}
+                            {notice.class_id && (
+                              <Badge variant="secondary">
+                                <Users className="h-3 w-3 mr-1" />
+                                {audienceLabel(classes, notice) ?? 'Class'}
+                              </Badge>
+                            )}
+                            {notice.term_id && (
+                              <Badge variant="outline">
+                                <CalendarRange className="h-3 w-3 mr-1" />
+                                {termLabel(years, notice.term_id) ?? 'Term'}
+                              </Badge>
+                            )}
+                            {notice.requires_acknowledgement && (
+                              <Badge variant="outline" className="border-primary text-primary">
+                                <CheckCircle2 className="h-3 w-3 mr-1" />
+                                Acknowledgement required
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-muted-foreground whitespace-pre-wrap mb-2">{notice.content}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {status === 'draft'
+                              ? `Created: ${formatDateTime(notice.created_at, school)}`
+                              : status === 'scheduled'
+                              ? `Publishes: ${formatDateTime(notice.publish_at!, school)}`
+                              : `Published: ${formatDateTime(notice.publish_at!, school)}`}
+                            {notice.expires_at &&
+                              ` · ${status === 'expired' ? 'Expired' : 'Expires'}: ${formatDateTime(notice.expires_at, school)}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {(status === 'live' || status === 'expired') && (
+                          <Button variant="outline" size="icon" onClick={() => setReceiptsNotice(notice)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="outline" size="icon" onClick={() => openEditDialog(notice)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => handleDelete(notice.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+
+      <NoticeReceiptsDialog
+        notice={receiptsNotice}
+        onOpenChange={(open) => !open && setReceiptsNotice(null)}
+      />
+    </div>
+  );
+}
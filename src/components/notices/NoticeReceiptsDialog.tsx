@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDateTime } from '@/lib/format';
+import { BellRing, Loader2 } from 'lucide-react';
+
+interface Receipt {
+  user_id: string;
+  full_name: string;
+  read_at: string | null;
+  acknowledged_at: string | null;
+  reminded_at: string | null;
+}
+
+interface NoticeReceiptsDialogProps {
+  notice: { id: string; title: string; requires_acknowledgement: boolean } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NoticeReceiptsDialog({ notice, onOpenChange }: NoticeReceiptsDialogProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isReminding, setIsReminding] = useState(false);
+
+  useEffect(() => {
+    if (!notice) return;
+    setLoading(true);
+    fetchReceipts();
+  }, [notice]);
+
+  const fetchReceipts = async () => {
+    const { data, error } = await supabase.rpc('get_notice_receipts', { _notice_id: notice!.id });
+
+    if (!error && data) {
+      setReceipts(data);
+    }
+    setLoading(false);
+  };
+
+  const handleRemind = async () => {
+    if (!notice) return;
+
+    setIsReminding(true);
+    const { data, error } = await supabase.rpc('remind_notice_recipients', { _notice_id: notice.id });
+    setIsReminding(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Reminder sent',
+      description: `${data} student${data === 1 ? '' : 's'} will see this notice highlighted.`,
+    });
+    fetchReceipts();
+  };
+
+  const acknowledged = receipts.filter((r) => r.acknowledged_at);
+  const read = receipts.filter((r) => r.read_at && !r.acknowledged_at);
+  const neither = receipts.filter((r) => !r.read_at && !r.acknowledged_at);
+
+  const renderList = (list: Receipt[], timestamp: (r: Receipt) => string | null, empty: string) =>
+    list.length === 0 ? (
+      <p className="text-center text-muted-foreground py-8">{empty}</p>
+    ) : (
+      <ScrollArea className="h-72 pr-3">
+        <div className="divide-y">
+          {list.map((receipt) => {
+            const at = timestamp(receipt);
+            return (
+              <div key={receipt.user_id} className="flex items-center justify-between py-2">
+                <span className="font-medium">{receipt.full_name}</span>
+                {at && (
+                  <span className="text-sm text-muted-foreground">
+                    {formatDateTime(at, school)}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    );
+
+  return (
+    <Dialog open={!!notice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Read Receipts</DialogTitle>
+          <DialogDescription>{notice?.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="neither">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="neither">
+                Not seen <Badge variant="secondary" className="ml-2">{neither.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="read">
+                Read <Badge variant="secondary" className="ml-2">{read.length}</Badge>
+              </TabsTrigger>
+              <TabsTrigger value="acknowledged" disabled={!notice?.requires_acknowledgement}>
+                Acknowledged <Badge variant="secondary" className="ml-2">{acknowledged.length}</Badge>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="neither" className="space-y-3">
+              {renderList(
+                neither,
+                (r) => r.reminded_at,
+                'Every student has seen this notice.'
+              )}
+              {neither.length > 0 && (
+                <Button className="w-full" onClick={handleRemind} disabled={isReminding}>
+                  {isReminding ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <BellRing className="h-4 w-4 mr-2" />
+                  )}
+                  Remind {neither.length} student{neither.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </TabsContent>
+            <TabsContent value="read">
+              {renderList(read, (r) => r.read_at, 'Nobody has read this notice yet.')}
+            </TabsContent>
+            <TabsContent value="acknowledged">
+              {renderList(acknowledged, (r) => r.acknowledged_at, 'Nobody has acknowledged this notice yet.')}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ApplicationScorecard } from '@/components/scholarships/ApplicationScorecard';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { ScholarshipCreditForm } from '@/components/scholarships/ScholarshipCreditForm';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { currencySymbol, formatDate } from '@/lib/format';
+import {
+  applicationStatuses,
+  applicationStatusLabels,
+  scholarshipFileUrl,
+  type ApplicationAnswer,
+  type ApplicationStatus,
+} from '@/lib/scholarships';
+import { FileText, Loader2 } from 'lucide-react';
+
+export interface ReviewApplication {
+  id: string;
+  scholarship_id: string;
+  scholarship_title: string;
+  // Blind applications come without the student's id, and their files without names
+  blind: boolean;
+  student_id: string | null;
+  student_name: string;
+  statement: string;
+  answers: ApplicationAnswer[];
+  status: ApplicationStatus;
+  reviewer_notes: string | null;
+  awarded_amount: number | null;
+  submitted_at: string;
+}
+
+interface ApplicationFile {
+  id: string;
+  file_name: string | null;
+  file_path: string | null;
+  requirement: string | null;
+}
+
+interface ApplicationDetailDialogProps {
+  application: ReviewApplication | null;
+  onOpenChange: (open: boolean) => void;
+  onReviewed?: () => void;
+}
+
+export function ApplicationDetailDialog({ application, onOpenChange, onReviewed }: ApplicationDetailDialogProps) {
+  const { school, canManageSchool } = useSchool();
+  const { toast } = useToast();
+  const [files, setFiles] = useState<ApplicationFile[]>([]);
+  const [status, setStatus] = useState<ApplicationStatus>('submitted');
+  const [notes, setNotes] = useState('');
+  const [awardAmount, setAwardAmount] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!application) return;
+
+    setStatus(application.status);
+    setNotes(application.reviewer_notes ?? '');
+    setAwardAmount(application.awarded_amount?.toString() ?? '');
+
+    const fetchFiles = async () => {
+      const { data, error } = await supabase.rpc('get_scholarship_application_files', {
+        _application_id: application.id,
+      });
+
+      if (!error && data) {
+        setFiles(data);
+      }
+    };
+
+    fetchFiles();
+  }, [application]);
+
+  const openFile = async (file: ApplicationFile) => {
+    if (!application) return;
+
+    try {
+      window.open(await scholarshipFileUrl(application.id, file.id), '_blank', 'noopener');
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not open the file.',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!application) return;
+
+    setIsSaving(true);
+    const { error } = await supabase.rpc('review_scholarship_applications', {
+      _application_ids: [application.id],
+      _status: status,
+      _reviewer_notes: notes,
+      _awarded_amount: status === 'awarded' && awardAmount ? parseFloat(awardAmount) : undefined,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Review saved',
+      description: `Application marked as ${applicationStatusLabels[status].toLowerCase()}.`,
+    });
+    onOpenChange(false);
+    onReviewed?.();
+  };
+
+  return (
+    <Dialog open={!!application} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {application?.student_name}
+            {application && <ApplicationStatusBadge status={application.status} />}
+          </DialogTitle>
+          <DialogDescription>
+            {application?.scholarship_title} · Submitted{' '}
+            {application && formatDate(application.submitted_at, school)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {application && (
+          <div className="space-y-5">
+            <div>
+              <p className="text-sm font-medium mb-1">Personal Statement</p>
+              <p className="text-muted-foreground whitespace-pre-wrap">{application.statement}</p>
+            </div>
+
+            {application.answers.map((answer) => (
+              <div key={answer.question_id}>
+                <p className="text-sm font-medium mb-1">{answer.prompt}</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">{answer.answer || '—'}</p>
+              </div>
+            ))}
+
+            {files.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Supporting Documents</p>
+                <div className="flex flex-wrap gap-2">
+                  {files.map((file, index) => (
+                    <Button
+                      key={file.id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openFile(file)}
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      {file.file_name
+                        ? file.requirement ? `${file.requirement}: ${file.file_name}` : file.file_name
+                        : file.requirement ?? `Document ${index + 1}`}
+                    </Button>
+                  ))}
+                </div>
+                {application.blind && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    File names are hidden until scoring closes; the documents themselves may still name the applicant
+                  </p>
+                )}
+              </div>
+            )}
+
+            <ApplicationScorecard applicationId={application.id} scholarshipId={application.scholarship_id} />
+
+            {school && canManageSchool && application.student_id && application.status === 'awarded' && application.awarded_amount != null && (
+              <ScholarshipCreditForm
+                applicationId={application.id}
+                studentId={application.student_id}
+                schoolCode={school.school_code}
+                awardedAmount={application.awarded_amount}
+              />
+            )}
+
+            {application.blind ? (
+              <p className="border-t pt-4 text-sm text-muted-foreground">
+                Blind review: decisions are made once an owner or admin closes scoring and the applicant is revealed.
+              </p>
+            ) : (
+              <div className="border-t pt-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Decision</Label>
+                    <Select value={status} onValueChange={(value) => setStatus(value as ApplicationStatus)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {applicationStatuses.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {applicationStatusLabels[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {status === 'awarded' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="award-amount">Award Amount ({currencySymbol(school)})</Label>
+                      <Input
+                        id="award-amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Default share"
+                        value={awardAmount}
+                        onChange={(e) => setAwardAmount(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reviewer-notes">Reviewer Notes</Label>
+                  <Textarea
+                    id="reviewer-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || application?.blind}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : 'Save Review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate } from '@/lib/format';
+import { blindApplicantLabel, scoreSpreadThreshold, type ApplicationStatus } from '@/lib/scholarships';
+import { EyeOff, ListOrdered, Loader2, Lock } from 'lucide-react';
+
+interface RankedApplication {
+  application_id: string;
+  applicant: string;
+  status: ApplicationStatus;
+  rank: number;
+  average_score: number | null;
+  lowest_score: number | null;
+  highest_score: number | null;
+  review_count: number;
+  panel_size: number;
+  conflict_count: number;
+  scores_visible: boolean;
+}
+
+interface ApplicationRankingsProps {
+  scholarships: { id: string; title: string; blind_review: boolean; scoring_closed_at: string | null }[];
+  onScoringClosed?: () => void;
+}
+
+/**
+ * Applications to one scholarship ordered by their average panel score, flagging
+ * conflicted reviewers and scores the panel disagrees on. Closing scoring freezes the
+ * scores and reveals applicants to blind scholarships. Until then, panel members only see
+ * scores for applications they have scored themselves.
+ */
+export function ApplicationRankings({ scholarships, onScoringClosed }: ApplicationRankingsProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState('');
+  const [rows, setRows] = useState<RankedApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirmingClose, setConfirmingClose] = useState(false);
+
+  const scholarship = scholarships.find((s) => s.id === selectedId) ?? scholarships[0];
+  const scholarshipId = scholarship?.id ?? '';
+
+  useEffect(() => {
+    if (!scholarshipId) {
+      setLoading(false);
+      return;
+    }
+    fetchRankings();
+  }, [scholarshipId, scholarship?.blind_review, scholarship?.scoring_closed_at]);
+
+  // Applicants to blind scholarships come back without names until scoring closes
+  const fetchRankings = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_scholarship_rankings', { _scholarship_id: scholarshipId });
+
+    if (error || !data) {
+      setRows([]);
+      setLoading(false);
+      return;
+    }
+
+    setRows(
+      data.map((r) => ({
+        application_id: r.application_id,
+        applicant: r.student_name ?? blindApplicantLabel(r.application_id),
+        status: r.status,
+        rank: r.rank ?? 0,
+        average_score: r.average_score,
+        lowest_score: r.lowest_score,
+        highest_score: r.highest_score,
+        review_count: r.review_count ?? 0,
+        panel_size: r.panel_size ?? 0,
+        conflict_count: r.conflict_count ?? 0,
+        scores_visible: r.scores_visible,
+      }))
+    );
+    setLoading(false);
+  };
+
+  const handleCloseScoring = async () => {
+    const { error } = await supabase
+      .from('scholarships')
+      .update({ scoring_closed_at: new Date().toISOString() })
+      .eq('id', scholarshipId);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Scoring closed',
+      description: scholarship?.blind_review
+        ? 'Scores are final and applicants are now shown by name.'
+        : 'Scores are final.',
+    });
+    onScoringClosed?.();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <Select value={scholarshipId} onValueChange={setSelectedId}>
+          <SelectTrigger className="sm:w-64">
+            <SelectValue placeholder="Choose a scholarship" />
+          </SelectTrigger>
+          <SelectContent>
+            {scholarships.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {scholarship?.blind_review && !scholarship.scoring_closed_at && (
+          <span className="flex items-center gap-1 text-sm text-muted-foreground">
+            <EyeOff className="h-4 w-4" />
+            Blind review: applicant names are hidden until scoring closes
+          </span>
+        )}
+        {scholarship &&
+          (scholarship.scoring_closed_at ? (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground sm:ml-auto">
+              <Lock className="h-4 w-4" />
+              Scoring closed {formatDate(scholarship.scoring_closed_at, school)}
+            </span>
+          ) : (
+            <Button variant="outline" className="sm:ml-auto" onClick={() => setConfirmingClose(true)}>
+              <Lock className="h-4 w-4 mr-2" />
+              Close Scoring
+            </Button>
+          ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : rows.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <ListOrdered className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No rankings</h3>
+            <p className="text-muted-foreground">
+              Add a scoring rubric to the scholarship and its panel's scores will be ranked here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Rank</TableHead>
+                <TableHead>Applicant</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Range</TableHead>
+                <TableHead>Reviews</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const spread =
+                  row.highest_score != null && row.lowest_score != null ? row.highest_score - row.lowest_score : 0;
+
+                return (
+                  <TableRow key={row.application_id}>
+                    <TableCell className="font-medium">{row.average_score != null ? `#${row.rank}` : '—'}</TableCell>
+                    <TableCell>{row.applicant}</TableCell>
+                    <TableCell>
+                      {row.average_score != null
+                        ? `${row.average_score}%`
+                        : row.scores_visible || row.review_count === 0
+                          ? 'Not scored'
+                          : 'Hidden until scoring closes'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {row.lowest_score != null ? `${row.lowest_score}–${row.highest_score}%` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {row.review_count} of {row.panel_size - row.conflict_count}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {row.conflict_count > 0 && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-600">
+                            {row.conflict_count} conflicted
+                          </Badge>
+                        )}
+                        {spread >= scoreSpreadThreshold && (
+                          <Badge variant="outline" className="border-destructive text-destructive">
+                            Reviewers disagree
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <ApplicationStatusBadge status={row.status} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmingClose} onOpenChange={setConfirmingClose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close scoring for {scholarship?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The panel will no longer be able to change its scores
+              {scholarship?.blind_review && ', and every reviewer will see who applied'}. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCloseScoring}>Close Scoring</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { ApplicationDetailDialog, type ReviewApplication } from '@/components/scholarships/ApplicationDetailDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate } from '@/lib/format';
+import {
+  applicationStatuses,
+  applicationStatusLabels,
+  blindApplicantLabel,
+  type ApplicationAnswer,
+  type ApplicationStatus,
+} from '@/lib/scholarships';
+import { ClipboardList, Loader2 } from 'lucide-react';
+
+interface ApplicationReviewQueueProps {
+  schoolCode: string;
+  scholarships: { id: string; title: string }[];
+}
+
+export function ApplicationReviewQueue({ schoolCode, scholarships }: ApplicationReviewQueueProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [applications, setApplications] = useState<ReviewApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scholarshipFilter, setScholarshipFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<'open' | ApplicationStatus | 'all'>('open');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<ApplicationStatus>('under_review');
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [viewing, setViewing] = useState<ReviewApplication | null>(null);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [schoolCode]);
+
+  // Served by the database, which leaves out who applied to blind scholarships until scoring closes
+  const fetchApplications = async () => {
+    const { data, error } = await supabase.rpc('get_scholarship_review_queue', { _school_code: schoolCode });
+
+    if (error || !data) {
+      setLoading(false);
+      return;
+    }
+
+    setApplications(
+      data.map((a) => ({
+        id: a.id,
+        scholarship_id: a.scholarship_id,
+        scholarship_title: a.scholarship_title,
+        blind: a.blind,
+        student_id: a.student_id,
+        student_name: a.blind ? blindApplicantLabel(a.id) : a.student_name ?? 'Unknown student',
+        statement: a.statement,
+        answers: (a.answers as unknown as ApplicationAnswer[]) ?? [],
+        status: a.status,
+        reviewer_notes: a.reviewer_notes,
+        awarded_amount: a.awarded_amount,
+        submitted_at: a.submitted_at,
+      }))
+    );
+    setSelectedIds([]);
+    setLoading(false);
+  };
+
+  const visible = applications.filter((a) => {
+    if (scholarshipFilter !== 'all' && a.scholarship_id !== scholarshipFilter) return false;
+    if (statusFilter === 'open') return a.status !== 'awarded' && a.status !== 'rejected';
+    if (statusFilter !== 'all') return a.status === statusFilter;
+    return true;
+  });
+
+  // Decisions on blind applications wait until scoring closes
+  const decidable = visible.filter((a) => !a.blind);
+  const allSelected = decidable.length > 0 && decidable.every((a) => selectedIds.includes(a.id));
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? decidable.map((a) => a.id) : []);
+  };
+
+  const toggleOne = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)));
+  };
+
+  const handleBulkDecision = async () => {
+    if (selectedIds.length === 0) return;
+
+    setIsApplying(true);
+    const { data, error } = await supabase.rpc('review_scholarship_applications', {
+      _application_ids: selectedIds,
+      _status: bulkStatus,
+      _reviewer_notes: bulkNotes.trim() || undefined,
+    });
+    setIsApplying(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      fetchApplications();
+      return;
+    }
+
+    toast({
+      title: 'Decisions saved',
+      description: `${data} application${data === 1 ? '' : 's'} marked as ${applicationStatusLabels[bulkStatus].toLowerCase()}.`,
+    });
+    setBulkNotes('');
+    fetchApplications();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={scholarshipFilter} onValueChange={setScholarshipFilter}>
+          <SelectTrigger className="sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All scholarships</SelectItem>
+            {scholarships.map((scholarship) => (
+              <SelectItem key={scholarship.id} value={scholarship.id}>
+                {scholarship.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Awaiting decision</SelectItem>
+            <SelectItem value="all">All statuses</SelectItem>
+            {applicationStatuses.map((value) => (
+              <SelectItem key={value} value={value}>
+                {applicationStatusLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <Card>
+          <CardContent className="p-4 flex flex-col lg:flex-row lg:items-center gap-3">
+            <span className="text-sm font-medium whitespace-nowrap">{selectedIds.length} selected</span>
+            <Select value={bulkStatus} onValueChange={(value) => setBulkStatus(value as ApplicationStatus)}>
+              <SelectTrigger className="lg:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {applicationStatuses.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {applicationStatusLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Reviewer note (optional)"
+              value={bulkNotes}
+              onChange={(e) => setBulkNotes(e.target.value)}
+            />
+            <Button onClick={handleBulkDecision} disabled={isApplying}>
+              {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Apply Decision
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : visible.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <ClipboardList className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No applications</h3>
+            <p className="text-muted-foreground">
+              Applications matching these filters will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+                </TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Scholarship</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((application) => (
+                <TableRow
+                  key={application.id}
+                  className="cursor-pointer"
+                  onClick={() => setViewing(application)}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selectedIds.includes(application.id)}
+                      disabled={application.blind}
+                      onCheckedChange={(checked) => toggleOne(application.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{application.student_name}</TableCell>
+                  <TableCell>{application.scholarship_title}</TableCell>
+                  <TableCell>{formatDate(application.submitted_at, school)}</TableCell>
+                  <TableCell>
+                    <ApplicationStatusBadge status={application.status} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <ApplicationDetailDialog
+        application={viewing}
+        onOpenChange={(open) => !open && setViewing(null)}
+        onReviewed={fetchApplications}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { weightedScore, type RubricCriterion } from '@/lib/scholarships';
+import { Loader2 } from 'lucide-react';
+
+interface ApplicationScorecardProps {
+  applicationId: string;
+  scholarshipId: string;
+}
+
+/**
+ * The signed-in reviewer's own scores for an application, shown only to members of the
+ * scholarship's review panel. Reviewers can also declare a conflict of interest, which
+ * keeps their scores out of the ranking.
+ */
+export function ApplicationScorecard({ applicationId, scholarshipId }: ApplicationScorecardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [onPanel, setOnPanel] = useState(false);
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [conflicted, setConflicted] = useState(false);
+  const [declaredConflict, setDeclaredConflict] = useState<string | null>(null);
+  const [conflictReason, setConflictReason] = useState('');
+  const [isDeclaring, setIsDeclaring] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchScorecard();
+  }, [applicationId, user?.id]);
+
+  const fetchScorecard = async () => {
+    const [criteriaRes, panelRes, scoresRes, conflictRes, declaredRes] = await Promise.all([
+      supabase
+        .from('scholarship_rubric_criteria')
+        .select('id, name, weight, max_score')
+        .eq('scholarship_id', scholarshipId)
+        .order('position', { ascending: true }),
+      supabase
+        .from('scholarship_reviewers')
+        .select('id')
+        .eq('scholarship_id', scholarshipId)
+        .eq('reviewer_id', user!.id)
+        .maybeSingle(),
+      supabase
+        .from('scholarship_scores')
+        .select('criterion_id, score')
+        .eq('application_id', applicationId)
+        .eq('reviewer_id', user!.id),
+      supabase.rpc('has_own_review_conflict', { _application_id: applicationId }),
+      supabase
+        .from('scholarship_review_conflicts')
+        .select('reason')
+        .eq('application_id', applicationId)
+        .eq('reviewer_id', user!.id)
+        .maybeSingle(),
+    ]);
+
+    setCriteria(criteriaRes.data ?? []);
+    setOnPanel(!!panelRes.data);
+    setScores(Object.fromEntries((scoresRes.data ?? []).map((s) => [s.criterion_id, s.score.toString()])));
+    setConflicted(!!conflictRes.data);
+    setDeclaredConflict(declaredRes.data?.reason ?? null);
+    setConflictReason('');
+    setIsDeclaring(false);
+  };
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const handleSave = async () => {
+    const rows = criteria
+      .filter((c) => scores[c.id!] !== undefined && scores[c.id!] !== '')
+      .map((c) => ({
+        application_id: applicationId,
+        criterion_id: c.id!,
+        reviewer_id: user!.id,
+        score: parseFloat(scores[c.id!]),
+      }));
+
+    if (rows.some((row) => isNaN(row.score))) {
+      showError('Please enter valid scores.');
+      return;
+    }
+    if (rows.length === 0) return;
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('scholarship_scores')
+      .upsert(rows, { onConflict: 'application_id,criterion_id,reviewer_id' });
+    setIsSaving(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Scores saved',
+      description:
+        rows.length < criteria.length
+          ? 'Your scorecard counts towards the ranking once every criterion is scored.'
+          : 'Your scorecard now counts towards the ranking.',
+    });
+  };
+
+  const handleDeclare = async () => {
+    if (!conflictReason.trim()) return;
+
+    setIsSaving(true);
+    const { error } = await supabase.from('scholarship_review_conflicts').insert({
+      application_id: applicationId,
+      reviewer_id: user!.id,
+      reason: conflictReason.trim(),
+    });
+    setIsSaving(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+    fetchScorecard();
+  };
+
+  const handleWithdraw = async () => {
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('scholarship_review_conflicts')
+      .delete()
+      .eq('application_id', applicationId)
+      .eq('reviewer_id', user!.id);
+    setIsSaving(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+    fetchScorecard();
+  };
+
+  if (!onPanel || criteria.length === 0) return null;
+
+  const numericScores = Object.fromEntries(
+    Object.entries(scores).map(([id, value]) => [id, parseFloat(value) || 0])
+  );
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Your scorecard</p>
+        {!conflicted && (
+          <p className="text-sm text-muted-foreground">{weightedScore(criteria, numericScores)}% weighted</p>
+        )}
+      </div>
+
+      {conflicted ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {declaredConflict
+              ? `You declared a conflict of interest: ${declaredConflict}`
+              : 'You are related to this applicant.'}{' '}
+            Your scores are left out of the ranking.
+          </p>
+          {declaredConflict && (
+            <Button type="button" variant="outline" size="sm" onClick={handleWithdraw} disabled={isSaving}>
+              Withdraw
+            </Button>
+          )}
+        </div>
+      ) : (
+        <>
+          {criteria.map((criterion) => (
+            <div key={criterion.id} className="grid grid-cols-[1fr_6rem] gap-2 items-center">
+              <Label htmlFor={`score-${criterion.id}`} className="font-normal">
+                {criterion.name}
+                <span className="text-muted-foreground">
+                  {' '}· out of {criterion.max_score}, weight {criterion.weight}
+                </span>
+              </Label>
+              <Input
+                id={`score-${criterion.id}`}
+                type="number"
+                min="0"
+                max={criterion.max_score}
+                step="0.5"
+                value={scores[criterion.id!] ?? ''}
+                onChange={(e) => setScores({ ...scores, [criterion.id!]: e.target.value })}
+              />
+            </div>
+          ))}
+
+          {isDeclaring ? (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Reason, e.g., family friend"
+                value={conflictReason}
+                onChange={(e) => setConflictReason(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={handleDeclare} disabled={isSaving || !conflictReason.trim()}>
+                Declare
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setIsDeclaring(false)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="flex justify-between gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsDeclaring(true)}>
+                Declare a conflict of interest
+              </Button>
+              <Button type="button" variant="outline" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Scores
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
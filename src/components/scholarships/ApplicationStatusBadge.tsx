@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge';
+import { applicationStatusLabels, type ApplicationStatus } from '@/lib/scholarships';
+
+interface ApplicationStatusBadgeProps {
+  status: string;
+}
+
+export function ApplicationStatusBadge({ status }: ApplicationStatusBadgeProps) {
+  const label = applicationStatusLabels[status as ApplicationStatus] ?? status;
+
+  switch (status) {
+    case 'awarded':
+      return <Badge className="bg-green-600 hover:bg-green-600/80">{label}</Badge>;
+    case 'shortlisted':
+      return <Badge variant="outline" className="border-primary text-primary">{label}</Badge>;
+    case 'under_review':
+      return <Badge variant="outline" className="border-orange-500 text-orange-500">{label}</Badge>;
+    case 'rejected':
+      return <Badge variant="secondary">{label}</Badge>;
+    default:
+      return <Badge variant="outline">{label}</Badge>;
+  }
+}
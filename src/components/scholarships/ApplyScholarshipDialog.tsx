@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, Paperclip } from 'lucide-react';
+
+interface Question {
+  id: string;
+  prompt: string;
+  required: boolean;
+}
+
+interface ApplyScholarshipDialogProps {
+  scholarship: { id: string; title: string; required_documents?: string[] } | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted?: () => void;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export function ApplyScholarshipDialog({ scholarship, onOpenChange, onSubmitted }: ApplyScholarshipDialogProps) {
+  const { user } = useAuth();
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [statement, setStatement] = useState('');
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [requiredFiles, setRequiredFiles] = useState<Record<string, File>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!scholarship) return;
+
+    setStatement('');
+    setAnswers({});
+    setFiles([]);
+    setRequiredFiles({});
+
+    const fetchQuestions = async () => {
+      const { data, error } = await supabase
+        .from('scholarship_questions')
+        .select('id, prompt, required')
+        .eq('scholarship_id', scholarship.id)
+        .order('position', { ascending: true });
+
+      if (!error && data) {
+        setQuestions(data);
+      }
+    };
+
+    fetchQuestions();
+  }, [scholarship]);
+
+  const rejectTooLarge = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const tooLarge = Array.from(e.target.files ?? []).find((file) => file.size > MAX_FILE_SIZE);
+    if (!tooLarge) return false;
+
+    toast({
+      variant: 'destructive',
+      title: 'File too large',
+      description: `${tooLarge.name} is larger than 10 MB.`,
+    });
+    e.target.value = '';
+    return true;
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (rejectTooLarge(e)) return;
+    setFiles(Array.from(e.target.files ?? []));
+  };
+
+  const handleRequiredFileChange = (requirement: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    if (rejectTooLarge(e)) return;
+
+    const file = e.target.files?.[0];
+    setRequiredFiles((prev) => {
+      const next = { ...prev };
+      if (file) next[requirement] = file;
+      else delete next[requirement];
+      return next;
+    });
+  };
+
+  const requiredDocuments = scholarship?.required_documents ?? [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scholarship || !user || !school) return;
+
+    const missing = questions.find((q) => q.required && !answers[q.id]?.trim());
+    if (missing) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing answer',
+        description: `Please answer: ${missing.prompt}`,
+      });
+      return;
+    }
+
+    const missingDocument = requiredDocuments.find((document) => !requiredFiles[document]);
+    if (missingDocument) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing document',
+        description: `Please attach: ${missingDocument}`,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    // Files go into the student's folder for the application first; the application and its file
+    // records are then submitted together, and the database rejects it if a required document is missing
+    const applicationId = crypto.randomUUID();
+    const uploads = [
+      ...Object.entries(requiredFiles).map(([requirement, file]) => ({ requirement, file })),
+      ...files.map((file) => ({ requirement: null, file })),
+    ];
+
+    const uploaded: { file_path: string; file_name: string; requirement: string | null }[] = [];
+    const discardUploads = async () => {
+      if (uploaded.length) {
+        await supabase.storage.from('scholarship-documents').remove(uploaded.map((u) => u.file_path));
+      }
+    };
+
+    for (const { requirement, file } of uploads) {
+      const path = `${user.id}/${applicationId}/${Date.now()}-${file.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from('scholarship-documents')
+        .upload(path, file);
+
+      if (uploadError) {
+        await discardUploads();
+        setIsSubmitting(false);
+        toast({
+          variant: 'destructive',
+          title: 'Application not submitted',
+          description: `${file.name} could not be uploaded. Please try again.`,
+        });
+        return;
+      }
+      uploaded.push({ file_path: path, file_name: file.name, requirement });
+    }
+
+    const { error } = await supabase.rpc('submit_scholarship_application', {
+      _application_id: applicationId,
+      _scholarship_id: scholarship.id,
+      _school_code: school.school_code,
+      _statement: statement.trim(),
+      _answers: questions.map((q) => ({
+        question_id: q.id,
+        prompt: q.prompt,
+        answer: answers[q.id]?.trim() ?? '',
+      })),
+      _files: uploaded,
+    });
+
+    if (error) {
+      await discardUploads();
+      setIsSubmitting(false);
+      toast({
+        variant: 'destructive',
+        title: 'Application failed',
+        description: error.message.includes('duplicate')
+          ? 'You have already applied for this scholarship.'
+          : error.message,
+      });
+      return;
+    }
+
+    setIsSubmitting(false);
+
+    toast({
+      title: 'Application submitted',
+      description: 'You will be notified when your application is reviewed.',
+    });
+    onOpenChange(false);
+    onSubmitted?.();
+  };
+
+  return (
+    <Dialog open={!!scholarship} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply for Scholarship</DialogTitle>
+          <DialogDescription>{scholarship?.title}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement">Personal Statement *</Label>
+            <Textarea
+              id="statement"
+              placeholder="Tell the committee why you should receive this scholarship"
+              value={statement}
+              onChange={(e) => setStatement(e.target.value)}
+              rows={6}
+              required
+            />
+          </div>
+
+          {questions.map((question) => (
+            <div key={question.id} className="space-y-2">
+              <Label htmlFor={`question-${question.id}`}>
+                {question.prompt}
+                {question.required && ' *'}
+              </Label>
+              <Textarea
+                id={`question-${question.id}`}
+                value={answers[question.id] ?? ''}
+                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                rows={3}
+              />
+            </div>
+          ))}
+
+          {requiredDocuments.map((document, index) => (
+            <div key={document} className="space-y-2">
+              <Label htmlFor={`required-document-${index}`}>{document} *</Label>
+              <Input
+                id={`required-document-${index}`}
+                type="file"
+                onChange={(e) => handleRequiredFileChange(document, e)}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="documents">{requiredDocuments.length ? 'Other Supporting Documents' : 'Supporting Documents'}</Label>
+            <Input id="documents" type="file" multiple onChange={handleFilesChange} />
+            {files.length > 0 && (
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {files.map((file) => (
+                  <li key={file.name} className="flex items-center gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    {file.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : 'Submit Application'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
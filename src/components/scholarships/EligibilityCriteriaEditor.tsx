@@ -0,0 +1,115 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SchoolClass } from '@/lib/classes';
+import { incomeBrackets, incomeBracketLabels, type EligibilityCriteria } from '@/lib/scholarships';
+import { Plus, X } from 'lucide-react';
+
+const ANY_INCOME = 'any';
+
+interface EligibilityCriteriaEditorProps {
+  classes: SchoolClass[];
+  value: EligibilityCriteria;
+  onChange: (value: EligibilityCriteria) => void;
+}
+
+/**
+ * Rules checked for every applicant: eligible classes, the highest qualifying income bracket,
+ * and the documents each application has to include.
+ */
+export function EligibilityCriteriaEditor({ classes, value, onChange }: EligibilityCriteriaEditorProps) {
+  const toggleClass = (classId: string, checked: boolean) => {
+    onChange({
+      ...value,
+      eligible_class_ids: checked
+        ? [...value.eligible_class_ids, classId]
+        : value.eligible_class_ids.filter((id) => id !== classId),
+    });
+  };
+
+  const updateDocument = (index: number, name: string) => {
+    onChange({ ...value, required_documents: value.required_documents.map((d, i) => (i === index ? name : d)) });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      {classes.length > 0 && (
+        <div className="space-y-2">
+          <Label>Eligible classes</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {classes.map((schoolClass) => (
+              <div key={schoolClass.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`eligible-${schoolClass.id}`}
+                  checked={value.eligible_class_ids.includes(schoolClass.id)}
+                  onCheckedChange={(checked) => toggleClass(schoolClass.id, checked === true)}
+                />
+                <Label htmlFor={`eligible-${schoolClass.id}`} className="font-normal">
+                  {schoolClass.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Leave all unticked to accept every class</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="max_income_bracket">Household income</Label>
+        <Select
+          value={value.max_income_bracket ?? ANY_INCOME}
+          onValueChange={(bracket) => onChange({ ...value, max_income_bracket: bracket === ANY_INCOME ? null : bracket })}
+        >
+          <SelectTrigger id="max_income_bracket">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_INCOME}>Any income</SelectItem>
+            {incomeBrackets.map((bracket) => (
+              <SelectItem key={bracket} value={bracket}>
+                Up to {incomeBracketLabels[bracket].toLowerCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">Students declare their bracket before applying</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Required documents</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, required_documents: [...value.required_documents, ''] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {value.required_documents.map((document, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="e.g., Latest report card"
+              value={document}
+              onChange={(e) => updateDocument(index, e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                onChange({ ...value, required_documents: value.required_documents.filter((_, i) => i !== index) })
+              }
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { incomeBrackets, incomeBracketLabels } from '@/lib/scholarships';
+import { Loader2, Wallet } from 'lucide-react';
+
+interface IncomeBracketCardProps {
+  onSaved?: () => void;
+}
+
+/**
+ * Lets a student declare their household income bracket on their profile, for need-based scholarships.
+ */
+export function IncomeBracketCard({ onSaved }: IncomeBracketCardProps) {
+  const { user, profile, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (bracket: string) => {
+    if (!user) return;
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ income_bracket: bracket })
+      .eq('user_id', user.id);
+
+    if (error) {
+      setIsSaving(false);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    await refreshProfile();
+    setIsSaving(false);
+    onSaved?.();
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 sm:mr-auto">
+          <Wallet className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <p className="font-medium">Household income bracket</p>
+            <p className="text-sm text-muted-foreground">Some scholarships are only open to lower-income households</p>
+          </div>
+        </div>
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+        <Select value={profile?.income_bracket ?? undefined} onValueChange={handleChange} disabled={isSaving}>
+          <SelectTrigger className="sm:w-56">
+            <SelectValue placeholder="Not declared" />
+          </SelectTrigger>
+          <SelectContent>
+            {incomeBrackets.map((bracket) => (
+              <SelectItem key={bracket} value={bracket}>
+                {incomeBracketLabels[bracket]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+
+interface StaffMember {
+  user_id: string;
+  full_name: string;
+}
+
+interface ReviewPanelEditorProps {
+  schoolCode: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks the staff members who score applications against the rubric. Each reviewer scores
+ * on their own and sees the rest of the panel's scores only after submitting theirs.
+ */
+export function ReviewPanelEditor({ schoolCode, value, onChange, disabled }: ReviewPanelEditorProps) {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [schoolCode]);
+
+  const fetchStaff = async () => {
+    const { data, error } = await supabase
+      .from('school_staff')
+      .select('user_id')
+      .eq('school_code', schoolCode)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) return;
+
+    const userIds = data.map((m) => m.user_id);
+    const { data: profiles } = userIds.length
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+      : { data: [] };
+    const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+    setStaff(data.map((m) => ({ user_id: m.user_id, full_name: names.get(m.user_id) ?? 'Unknown user' })));
+  };
+
+  const toggle = (userId: string, checked: boolean) => {
+    onChange(checked ? [...value, userId] : value.filter((id) => id !== userId));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Review Panel</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {staff.map((member) => (
+          <div key={member.user_id} className="flex items-center gap-2">
+            <Checkbox
+              id={`reviewer-${member.user_id}`}
+              checked={value.includes(member.user_id)}
+              disabled={disabled}
+              onCheckedChange={(checked) => toggle(member.user_id, checked === true)}
+            />
+            <Label htmlFor={`reviewer-${member.user_id}`} className="font-normal">
+              {member.full_name}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {disabled ? 'Only owners and admins can change the panel' : 'Each reviewer scores every application independently'}
+      </p>
+    </div>
+  );
+}
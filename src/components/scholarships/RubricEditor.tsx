@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { RubricCriterion } from '@/lib/scholarships';
+import { Plus, X } from 'lucide-react';
+
+interface RubricEditorProps {
+  value: RubricCriterion[];
+  onChange: (value: RubricCriterion[]) => void;
+}
+
+/**
+ * Criteria the review panel scores each application on, with the weight each carries
+ * in the final ranking and the highest score it can be given.
+ */
+export function RubricEditor({ value, onChange }: RubricEditorProps) {
+  const update = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange(value.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Scoring Rubric</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...value, { name: '', weight: 1, max_score: 10 }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="grid grid-cols-[1fr_5rem_5rem_2.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Criterion</span>
+          <span>Weight</span>
+          <span>Max score</span>
+        </div>
+      )}
+      {value.map((criterion, index) => (
+        <div key={criterion.id ?? `new-${index}`} className="grid grid-cols-[1fr_5rem_5rem_2.5rem] gap-2 items-center">
+          <Input
+            placeholder="e.g., Academic merit"
+            value={criterion.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+          />
+          <Input
+            type="number"
+            min="0.01"
+            step="0.01"
+            aria-label="Weight"
+            value={criterion.weight}
+            onChange={(e) => update(index, { weight: parseFloat(e.target.value) || 0 })}
+          />
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            aria-label="Max score"
+            value={criterion.max_score}
+            onChange={(e) => update(index, { max_score: parseInt(e.target.value, 10) || 0 })}
+          />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Removing a criterion also removes the scores already given for it
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { currencySymbol, formatDate, formatMoney } from '@/lib/format';
+import { Loader2 } from 'lucide-react';
+
+interface OpenFee {
+  id: string;
+  title: string;
+  balance: number;
+  plan_id: string | null;
+}
+
+interface CreditedEntry {
+  id: string;
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+interface ScholarshipCreditFormProps {
+  applicationId: string;
+  studentId: string;
+  schoolCode: string;
+  awardedAmount: number;
+}
+
+/**
+ * Pays an awarded scholarship out as credit on the student's fees, either in one sum
+ * or spread over the open installments of their plan.
+ */
+export function ScholarshipCreditForm({ applicationId, studentId, schoolCode, awardedAmount }: ScholarshipCreditFormProps) {
+  const { school } = useSchool();
+  const { toast } = useToast();
+  const [fees, setFees] = useState<OpenFee[]>([]);
+  const [credited, setCredited] = useState<CreditedEntry[]>([]);
+  const [feeId, setFeeId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [spread, setSpread] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCredit();
+  }, [applicationId]);
+
+  const creditedTotal = credited.reduce((sum, entry) => sum + entry.amount, 0);
+  const remaining = Math.max(awardedAmount - creditedTotal, 0);
+  const selectedFee = fees.find((fee) => fee.id === feeId);
+
+  const fetchCredit = async () => {
+    const { data: balances } = await supabase
+      .from('fee_assignment_balances')
+      .select('id, balance, plan_id, fees(title)')
+      .eq('student_id', studentId)
+      .eq('school_code', schoolCode)
+      .is('archived_at', null)
+      .gt('balance', 0);
+
+    const { data: entries } = await supabase
+      .from('fee_ledger_entries')
+      .select('id, amount, reason, created_at')
+      .eq('application_id', applicationId)
+      .order('created_at', { ascending: true });
+
+    const open = (balances ?? [])
+      .filter((b) => b.fees)
+      .map((b) => ({ id: b.id!, title: b.fees!.title, balance: b.balance ?? 0, plan_id: b.plan_id }));
+    const left = Math.max(awardedAmount - (entries ?? []).reduce((sum, e) => sum + e.amount, 0), 0);
+
+    setFees(open);
+    setCredited(entries ?? []);
+    setFeeId(open[0]?.id ?? '');
+    setAmount(open[0] ? Math.min(left, open[0].balance).toString() : '');
+    setSpread(false);
+  };
+
+  const changeFee = (id: string) => {
+    const fee = fees.find((f) => f.id === id);
+    setFeeId(id);
+    setSpread(false);
+    if (fee) setAmount(Math.min(remaining, fee.balance).toString());
+  };
+
+  const handleCredit = async () => {
+    const value = parseFloat(amount);
+    if (!feeId || !value || value <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid amount',
+        description: 'Please enter a valid amount.',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase.rpc('apply_scholarship_award', {
+      _application_id: applicationId,
+      _assignment_id: feeId,
+      _amount: value,
+      _spread: spread,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Scholarship credited',
+      description: `${formatMoney(value, school)} has been taken off ${selectedFee?.title ?? 'the fee'}.`,
+    });
+    fetchCredit();
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Credit to fees</p>
+        <p className="text-sm text-muted-foreground">
+          {formatMoney(creditedTotal, school)} of {formatMoney(awardedAmount, school)} credited
+        </p>
+      </div>
+
+      {credited.map((entry) => (
+        <div key={entry.id} className="flex items-center justify-between text-sm pl-3 border-l">
+          <span className="text-muted-foreground">
+            {formatDate(entry.created_at, school)} · {entry.reason}
+          </span>
+          <span>{formatMoney(entry.amount, school)}</span>
+        </div>
+      ))}
+
+      {remaining <= 0 ? null : fees.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This student has no outstanding fees to credit.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="credit-fee">Fee</Label>
+            <Select value={feeId} onValueChange={changeFee}>
+              <SelectTrigger id="credit-fee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fees.map((fee) => (
+                  <SelectItem key={fee.id} value={fee.id}>
+                    {fee.title} · {formatMoney(fee.balance, school)} due
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="credit-amount">Amount ({currencySymbol(school)})</Label>
+            <Input
+              id="credit-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 sm:col-span-2">
+            <Checkbox
+              id="credit-spread"
+              checked={spread}
+              disabled={!selectedFee?.plan_id}
+              onCheckedChange={(checked) => setSpread(checked === true)}
+            />
+            <Label htmlFor="credit-spread" className="font-normal">
+              {selectedFee?.plan_id ? 'Spread across the open installments' : 'Lump sum (this fee has no installment plan)'}
+            </Label>
+          </div>
+          <Button type="button" variant="outline" onClick={handleCredit} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Credit
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
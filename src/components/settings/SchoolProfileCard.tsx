@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { School } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDateTime, formatMoney, monthNames, schoolCurrencies, schoolTimezones } from '@/lib/format';
+import { ImagePlus, Loader2, School as SchoolIcon } from 'lucide-react';
+import { z } from 'zod';
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'School name is required'),
+  contact_email: z.union([z.literal(''), z.string().trim().email('Please enter a valid contact email')]),
+});
+
+interface SchoolProfileCardProps {
+  school: School;
+  onSaved: () => void;
+}
+
+/**
+ * The school's public details and the currency, timezone and academic year every page formats with.
+ */
+export function SchoolProfileCard({ school, onSaved }: SchoolProfileCardProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: school.name,
+    address: school.address ?? '',
+    contact_email: school.contact_email ?? '',
+    timezone: school.timezone,
+    currency: school.currency,
+    academic_year_start_month: school.academic_year_start_month,
+  });
+
+  useEffect(() => {
+    setFormData({
+      name: school.name,
+      address: school.address ?? '',
+      contact_email: school.contact_email ?? '',
+      timezone: school.timezone,
+      currency: school.currency,
+      academic_year_start_month: school.academic_year_start_month,
+    });
+  }, [school]);
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = profileSchema.safeParse(formData);
+    if (!parsed.success) {
+      showError(parsed.error.errors[0].message);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('schools')
+      .update({
+        name: formData.name.trim(),
+        address: formData.address.trim() || null,
+        contact_email: formData.contact_email.trim() || null,
+        timezone: formData.timezone,
+        currency: formData.currency,
+        academic_year_start_month: formData.academic_year_start_month,
+      })
+      .eq('id', school.id);
+    setIsSaving(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'School updated',
+      description: 'Your school details have been saved.',
+    });
+    onSaved();
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') || file.size > MAX_LOGO_BYTES) {
+      showError('Logos must be an image of 2 MB or less.');
+      return;
+    }
+
+    setIsUploading(true);
+    const path = `${school.school_code}/${Date.now()}-${file.name}`;
+    const { error: uploadError } = await supabase.storage.from('school-logos').upload(path, file);
+
+    if (uploadError) {
+      setIsUploading(false);
+      showError(uploadError.message);
+      return;
+    }
+
+    const { data } = supabase.storage.from('school-logos').getPublicUrl(path);
+    const { error } = await supabase
+      .from('schools')
+      .update({ logo_url: data.publicUrl })
+      .eq('id', school.id);
+    setIsUploading(false);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    onSaved();
+  };
+
+  // A live preview, so admins can see the effect before saving
+  const preview = { currency: formData.currency, timezone: formData.timezone };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>School Profile</CardTitle>
+        <CardDescription>
+          Your school's details, and the currency and timezone used for fees, scholarships and notices
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex items-center gap-4">
+            <div className="w-16 h-16 rounded-xl bg-muted flex items-center justify-center overflow-hidden">
+              {school.logo_url ? (
+                <img src={school.logo_url} alt={`${school.name} logo`} className="w-full h-full object-cover" />
+              ) : (
+                <SchoolIcon className="h-8 w-8 text-muted-foreground" />
+              )}
+            </div>
+            <Button type="button" variant="outline" disabled={isUploading} asChild>
+              <label className="cursor-pointer">
+                {isUploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ImagePlus className="h-4 w-4 mr-2" />
+                )}
+                {school.logo_url ? 'Change logo' : 'Upload logo'}
+                <input type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
+              </label>
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="school-name">School Name *</Label>
+              <Input
+                id="school-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-email">Contact Email</Label>
+              <Input
+                id="contact-email"
+                type="email"
+                placeholder="office@school.edu"
+                value={formData.contact_email}
+                onChange={(e) => setFormData({ ...formData, contact_email: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="address">Address</Label>
+            <Textarea
+              id="address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Select value={formData.timezone} onValueChange={(timezone) => setFormData({ ...formData, timezone })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([formData.timezone, ...schoolTimezones])].map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([formData.currency, ...schoolCurrencies])].map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Academic Year Starts</Label>
+              <Select
+                value={formData.academic_year_start_month.toString()}
+                onValueChange={(month) => setFormData({ ...formData, academic_year_start_month: Number(month) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {monthNames.map((month, i) => (
+                    <SelectItem key={month} value={(i + 1).toString()}>
+                      {month}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Amounts show as {formatMoney(1234.5, preview)} and times as {formatDateTime(new Date(), preview)}.
+          </p>
+
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : 'Save Changes'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import type { StaffLevel } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { staffLevelLabels } from '@/lib/staff';
+import { Crown, UserMinus } from 'lucide-react';
+
+interface StaffMember {
+  user_id: string;
+  full_name: string;
+  level: StaffLevel;
+}
+
+interface SchoolStaffCardProps {
+  schoolCode: string;
+  staffLevel: StaffLevel;
+  onOwnershipTransferred: () => void;
+}
+
+export function SchoolStaffCard({ schoolCode, staffLevel, onOwnershipTransferred }: SchoolStaffCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [transferTo, setTransferTo] = useState<StaffMember | null>(null);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [schoolCode]);
+
+  const fetchMembers = async () => {
+    const { data, error } = await supabase
+      .from('school_staff')
+      .select('user_id, level, created_at')
+      .eq('school_code', schoolCode)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) return;
+
+    const userIds = data.map((m) => m.user_id);
+    const { data: profiles } = userIds.length
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+      : { data: [] };
+    const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+    setMembers(
+      data.map((m) => ({
+        user_id: m.user_id,
+        full_name: names.get(m.user_id) ?? 'Unknown user',
+        level: m.level,
+      }))
+    );
+  };
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const handleLevelChange = async (member: StaffMember, level: StaffLevel) => {
+    const { error } = await supabase.rpc('set_staff_level', {
+      _school_code: schoolCode,
+      _user_id: member.user_id,
+      _level: level,
+    });
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Staff updated',
+      description: `${member.full_name} is now ${level === 'admin' ? 'an admin' : 'staff'}.`,
+    });
+    fetchMembers();
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    const { error } = await supabase.rpc('remove_staff_member', {
+      _school_code: schoolCode,
+      _user_id: member.user_id,
+    });
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Staff removed',
+      description: `${member.full_name} no longer has access to your school.`,
+    });
+    fetchMembers();
+  };
+
+  const handleTransfer = async () => {
+    if (!transferTo) return;
+
+    const { error } = await supabase.rpc('transfer_school_ownership', {
+      _school_code: schoolCode,
+      _user_id: transferTo.user_id,
+    });
+    setTransferTo(null);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: 'Ownership transferred',
+      description: `${transferTo.full_name} now owns the school. You remain an admin.`,
+    });
+    fetchMembers();
+    onOwnershipTransferred();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff</CardTitle>
+        <CardDescription>
+          Admins manage settings and staff alongside the owner. Staff run notices, fees, scholarships and classes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y rounded-lg border">
+          {members.map((member) => {
+            const editable = member.level !== 'owner' && member.user_id !== user?.id;
+            return (
+              <div key={member.user_id} className="flex flex-wrap items-center justify-between gap-4 p-3">
+                <p className="font-medium truncate">
+                  {member.full_name}
+                  {member.user_id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </p>
+                <div className="flex items-center gap-2">
+                  {editable ? (
+                    <Select
+                      value={member.level}
+                      onValueChange={(value) => handleLevelChange(member, value as StaffLevel)}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="admin">{staffLevelLabels.admin}</SelectItem>
+                        <SelectItem value="staff">{staffLevelLabels.staff}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant={member.level === 'owner' ? 'default' : 'outline'}>
+                      {staffLevelLabels[member.level]}
+                    </Badge>
+                  )}
+                  {staffLevel === 'owner' && member.level !== 'owner' && (
+                    <Button variant="outline" size="icon" title="Make owner" onClick={() => setTransferTo(member)}>
+                      <Crown className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {editable && (
+                    <Button variant="outline" size="icon" title="Remove" onClick={() => handleRemove(member)}>
+                      <UserMinus className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!transferTo} onOpenChange={(open) => !open && setTransferTo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Make {transferTo?.full_name} the owner?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A school has one owner. You will stay on as an admin, and only the new owner can transfer the school
+              again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTransfer}>Transfer Ownership</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+
+interface Departure {
+  id: string;
+  full_name: string;
+  kind: string;
+  reason: string | null;
+  departed_by_name: string | null;
+  departed_at: string;
+  restored_at: string | null;
+}
+
+const departureLabels: Record<string, string> = {
+  left: 'Left',
+  transferred: 'Transferred',
+  removed: 'Removed',
+};
+
+interface FormerStudentsCardProps {
+  schoolCode: string;
+  /** Changes whenever students are removed, so the list refetches */
+  refreshKey?: number;
+}
+
+export function FormerStudentsCard({ schoolCode, refreshKey }: FormerStudentsCardProps) {
+  const [departures, setDepartures] = useState<Departure[]>([]);
+
+  useEffect(() => {
+    fetchDepartures();
+  }, [schoolCode, refreshKey]);
+
+  const fetchDepartures = async () => {
+    const { data, error } = await supabase.rpc('get_school_departures', { _school_code: schoolCode });
+    if (error || !data) return;
+    setDepartures(data);
+  };
+
+  if (departures.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Former Students</CardTitle>
+        <CardDescription>
+          Their fee, scholarship and notice records are archived and restored if they rejoin
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y rounded-lg border">
+          {departures.map((departure) => (
+            <div key={departure.id} className="flex flex-wrap items-start justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{departure.full_name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(departure.departed_at).toLocaleDateString()}
+                  {departure.departed_by_name && ` by ${departure.departed_by_name}`}
+                  {departure.reason && ` — ${departure.reason}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={departure.kind === 'removed' ? 'destructive' : 'outline'}>
+                  {departureLabels[departure.kind] ?? departure.kind}
+                </Badge>
+                {departure.restored_at && <Badge variant="secondary">Rejoined</Badge>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, LogOut } from 'lucide-react';
+
+/**
+ * Lets a student leave the active school, or transfer to another one with its join or invitation code.
+ */
+export function LeaveSchoolCard() {
+  const { user } = useAuth();
+  const { school, setActiveSchoolCode, refreshSchool } = useSchool();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [transferCode, setTransferCode] = useState('');
+
+  if (!school) return null;
+
+  const openDialog = () => {
+    setReason('');
+    setTransferCode('');
+    setIsOpen(true);
+  };
+
+  const handleLeave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('leave_school', {
+      _school_code: school.school_code,
+      _reason: reason.trim() || undefined,
+      _transfer_code: transferCode.trim() || undefined,
+    });
+
+    if (error) {
+      setIsSubmitting(false);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    if (data === 'joined') {
+      // The newest membership is the school just transferred to
+      const { data: membership } = await supabase
+        .from('school_memberships')
+        .select('school_code')
+        .eq('user_id', user!.id)
+        .order('joined_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (membership) setActiveSchoolCode(membership.school_code);
+    }
+
+    toast({
+      title: data === 'left' ? 'You left the school' : 'Transfer started',
+      description:
+        data === 'pending'
+          ? `You left ${school.name}. Your new school will review your request to join.`
+          : `You left ${school.name}. Your records there are kept in case you rejoin.`,
+    });
+
+    setIsSubmitting(false);
+    setIsOpen(false);
+    await refreshSchool();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leave {school.name}</CardTitle>
+        <CardDescription>
+          Moving schools? Your fees, scholarship applications and notice history are archived, not deleted, and come
+          back if you rejoin
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="outline" onClick={openDialog}>
+          <LogOut className="h-4 w-4 mr-2 text-destructive" />
+          Leave or transfer
+        </Button>
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Leave {school.name}?</DialogTitle>
+            <DialogDescription>
+              You will lose access to its notices, fees and scholarships and be taken off its class rosters
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleLeave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-code">New school code (optional)</Label>
+              <Input
+                id="transfer-code"
+                value={transferCode}
+                onChange={(e) => setTransferCode(e.target.value.toUpperCase())}
+                placeholder="Join or invitation code"
+                className="font-mono uppercase"
+              />
+              <p className="text-sm text-muted-foreground">Enter a code to join your new school in the same step.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-reason">Reason (optional)</Label>
+              <Textarea
+                id="leave-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Let your school know why you are leaving"
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Leaving...
+                  </>
+                ) : transferCode.trim() ? 'Transfer' : 'Leave School'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
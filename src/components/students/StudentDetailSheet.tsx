@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Separator } from '@/components/ui/separator';
+import { FeeStatusBadge } from '@/components/fees/FeeStatusBadge';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { useSchool } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate, formatMoney } from '@/lib/format';
+import { Calendar, CreditCard, Loader2, School } from 'lucide-react';
+
+export interface DirectoryStudent {
+  user_id: string;
+  full_name: string;
+  joined_at: string;
+  class_ids: string[];
+  class_names: string | null;
+  balance: number;
+}
+
+interface FeeRow {
+  id: string;
+  title: string;
+  due_date: string | null;
+  amount: number;
+  balance: number;
+  status: string;
+}
+
+interface ApplicationRow {
+  id: string;
+  title: string;
+  status: string;
+  submitted_at: string;
+}
+
+interface StudentDetailSheetProps {
+  student: DirectoryStudent | null;
+  schoolCode: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StudentDetailSheet({ student, schoolCode, onOpenChange }: StudentDetailSheetProps) {
+  const { school } = useSchool();
+  const [fees, setFees] = useState<FeeRow[]>([]);
+  const [applications, setApplications] = useState<ApplicationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!student) return;
+
+    const fetchDetails = async () => {
+      setLoading(true);
+      const [balancesRes, applicationsRes] = await Promise.all([
+        supabase
+          .from('fee_assignment_balances')
+          .select('id, amount, balance, status, fees(title, due_date)')
+          .eq('student_id', student.user_id)
+          .eq('school_code', schoolCode)
+          .is('archived_at', null),
+        supabase
+          .from('scholarship_applications')
+          .select('id, status, submitted_at, scholarships(title)')
+          .eq('student_id', student.user_id)
+          .order('submitted_at', { ascending: false }),
+      ]);
+
+      setFees(
+        (balancesRes.data ?? []).map((b) => ({
+          id: b.id!,
+          title: b.fees?.title ?? 'Fee',
+          due_date: b.fees?.due_date ?? null,
+          amount: b.amount ?? 0,
+          balance: b.balance ?? 0,
+          status: b.status ?? 'outstanding',
+        }))
+      );
+      setApplications(
+        (applicationsRes.data ?? []).map((a) => ({
+          id: a.id,
+          title: a.scholarships?.title ?? 'Scholarship',
+          status: a.status,
+          submitted_at: a.submitted_at,
+        }))
+      );
+      setLoading(false);
+    };
+
+    fetchDetails();
+  }, [student, schoolCode]);
+
+  return (
+    <Sheet open={!!student} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{student?.full_name}</SheetTitle>
+          <SheetDescription>Student profile, fees and scholarship applications</SheetDescription>
+        </SheetHeader>
+
+        {student && (
+          <div className="mt-6 space-y-6">
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>Joined {formatDate(student.joined_at, school)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <School className="h-4 w-4 text-muted-foreground" />
+                <span>{student.class_names ?? 'Not in a class'}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <CreditCard className="h-4 w-4 text-muted-foreground" />
+                <span>{formatMoney(student.balance, school)} outstanding</span>
+              </div>
+            </div>
+
+            <Separator />
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Fees</h4>
+                  {fees.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No fees assigned.</p>
+                  ) : (
+                    <div className="divide-y rounded-lg border">
+                      {fees.map((fee) => (
+                        <div key={fee.id} className="flex items-center justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{fee.title}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {formatMoney(fee.balance, school)} of {formatMoney(fee.amount, school)} due
+                              {fee.due_date && ` · ${formatDate(fee.due_date, school)}`}
+                            </p>
+                          </div>
+                          <FeeStatusBadge
+                            status={fee.status}
+                            overdue={!!fee.due_date && fee.status !== 'paid' && new Date(fee.due_date) < new Date()}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Scholarship Applications</h4>
+                  {applications.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No applications submitted.</p>
+                  ) : (
+                    <div className="divide-y rounded-lg border">
+                      {applications.map((application) => (
+                        <div key={application.id} className="flex items-center justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{application.title}</p>
+                            <p className="text-sm text-muted-foreground">
+                              Submitted {formatDate(application.submitted_at, school)}
+                            </p>
+                          </div>
+                          <ApplicationStatusBadge status={application.status} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
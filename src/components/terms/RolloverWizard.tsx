@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { School } from '@/hooks/useSchool';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate, formatMoney } from '@/lib/format';
+import { daysBetween, shiftDate, termLabel, type AcademicYear } from '@/lib/terms';
+import { Loader2 } from 'lucide-react';
+
+interface RecurringItem {
+  id: string;
+  title: string;
+  amount: number | null;
+  date: string | null;
+}
+
+type Step = 'term' | 'carry' | 'confirm';
+
+interface RolloverWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  school: School;
+  years: AcademicYear[];
+  onRolledOver: () => void;
+}
+
+/**
+ * Moves the school into its next term: pick the term, choose which recurring fees and scholarships
+ * carry over, then confirm archiving the current term.
+ */
+export function RolloverWizard({ open, onOpenChange, school, years, onRolledOver }: RolloverWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('term');
+  const [nextTermId, setNextTermId] = useState('');
+  const [fees, setFees] = useState<RecurringItem[]>([]);
+  const [scholarships, setScholarships] = useState<RecurringItem[]>([]);
+  const [feeIds, setFeeIds] = useState<string[]>([]);
+  const [scholarshipIds, setScholarshipIds] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const terms = years.flatMap((y) => y.terms);
+  const currentTerm = terms.find((t) => t.id === school.current_term_id) ?? null;
+  const nextTerm = terms.find((t) => t.id === nextTermId) ?? null;
+  const upcomingTerms = terms.filter((t) => !t.archived_at && t.id !== currentTerm?.id);
+  const offset = currentTerm && nextTerm ? daysBetween(currentTerm.starts_on, nextTerm.starts_on) : 0;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStep('term');
+    setNextTermId('');
+    setFees([]);
+    setScholarships([]);
+    if (!school.current_term_id) return;
+
+    const fetchRecurring = async () => {
+      const [feesRes, scholarshipsRes] = await Promise.all([
+        supabase
+          .from('fees')
+          .select('id, title, amount, due_date')
+          .eq('term_id', school.current_term_id!)
+          .eq('recurs_each_term', true)
+          .is('archived_at', null)
+          .order('due_date', { ascending: true }),
+        supabase
+          .from('scholarships')
+          .select('id, title, amount, deadline')
+          .eq('term_id', school.current_term_id!)
+          .eq('recurs_each_term', true)
+          .is('archived_at', null)
+          .order('deadline', { ascending: true }),
+      ]);
+
+      const nextFees = (feesRes.data ?? []).map((f) => ({ id: f.id, title: f.title, amount: f.amount, date: f.due_date }));
+      const nextScholarships = (scholarshipsRes.data ?? []).map((s) => ({
+        id: s.id,
+        title: s.title,
+        amount: s.amount,
+        date: s.deadline,
+      }));
+
+      // Recurring items are meant to carry over, so start with all of them ticked
+      setFees(nextFees);
+      setScholarships(nextScholarships);
+      setFeeIds(nextFees.map((f) => f.id));
+      setScholarshipIds(nextScholarships.map((s) => s.id));
+    };
+
+    fetchRecurring();
+  }, [open, school.current_term_id]);
+
+  const toggle = (setIds: typeof setFeeIds, id: string, checked: boolean) => {
+    setIds((prev) => (checked ? [...prev, id] : prev.filter((i) => i !== id)));
+  };
+
+  const handleRollover = async () => {
+    if (!nextTerm) return;
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('rollover_term', {
+      _school_code: school.school_code,
+      _next_term_id: nextTerm.id,
+      _fee_ids: feeIds,
+      _scholarship_ids: scholarshipIds,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    const result = data?.[0];
+    toast({
+      title: `${nextTerm.name} has started`,
+      description: result
+        ? `Carried over ${result.cloned_fees} fee${result.cloned_fees === 1 ? '' : 's'} and ${result.cloned_scholarships} scholarship${result.cloned_scholarships === 1 ? '' : 's'}; archived ${result.archived} item${result.archived === 1 ? '' : 's'}.`
+        : 'The new term is now current.',
+    });
+    onOpenChange(false);
+    onRolledOver();
+  };
+
+  const renderItems = (
+    label: string,
+    items: RecurringItem[],
+    selectedIds: string[],
+    setIds: typeof setFeeIds
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing in this term is set to repeat.</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <Checkbox
+                id={`carry-${item.id}`}
+                checked={selectedIds.includes(item.id)}
+                onCheckedChange={(checked) => toggle(setIds, item.id, checked === true)}
+              />
+              <Label htmlFor={`carry-${item.id}`} className="font-normal leading-tight">
+                {item.title}
+                <span className="block text-xs text-muted-foreground">
+                  {item.amount != null && formatMoney(item.amount, school)}
+                  {item.amount != null && item.date && ' · '}
+                  {item.date && `${formatDate(item.date, school)} → ${formatDate(shiftDate(item.date, offset), school)}`}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Start Next Term</DialogTitle>
+          <DialogDescription>
+            {currentTerm
+              ? `Currently in ${termLabel(years, currentTerm.id)}`
+              : 'No term is current yet'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'term' && (
+          <div className="space-y-2">
+            <Label>Next term</Label>
+            {upcomingTerms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add the next term to an academic year first.</p>
+            ) : (
+              <Select value={nextTermId} onValueChange={setNextTermId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {upcomingTerms.map((term) => (
+                    <SelectItem key={term.id} value={term.id}>
+                      {termLabel(years, term.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {step === 'carry' && (
+          <ScrollArea className="max-h-80 pr-3">
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Ticked items are copied into {nextTerm?.name} with their dates moved {Math.abs(offset)} day
+                {Math.abs(offset) === 1 ? '' : 's'} {offset < 0 ? 'earlier' : 'later'}. Copied fees are assigned to the
+                same students again and keep their penalty, discount and installment plans.
+              </p>
+              {renderItems('Recurring fees', fees, feeIds, setFeeIds)}
+              {renderItems('Recurring scholarships', scholarships, scholarshipIds, setScholarshipIds)}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 'confirm' && (
+          <div className="space-y-2 text-sm">
+            <p>
+              {nextTerm && termLabel(years, nextTerm.id)} becomes the current term, and new fees, scholarships and
+              notices are filed under it.
+            </p>
+            {currentTerm && (
+              <p className="text-muted-foreground">
+                {feeIds.length} fee{feeIds.length === 1 ? '' : 's'} and {scholarshipIds.length} scholarship
+                {scholarshipIds.length === 1 ? '' : 's'} will be carried over. Everything else filed under{' '}
+                {currentTerm.name} is archived: it leaves the active lists, but students still see what they owe.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'term' && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'confirm' && currentTerm ? 'carry' : 'term')}
+              disabled={isSubmitting}
+            >
+              Back
+            </Button>
+          )}
+          {step === 'term' && (
+            <Button onClick={() => setStep(currentTerm ? 'carry' : 'confirm')} disabled={!nextTerm}>
+              Next
+            </Button>
+          )}
+          {step === 'carry' && <Button onClick={() => setStep('confirm')}>Next</Button>}
+          {step === 'confirm' && (
+            <Button onClick={handleRollover} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Starting...
+                </>
+              ) : 'Start Term'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ACTIVE_TERM_FILTER, type AcademicYear } from '@/lib/terms';
+
+interface TermFilterProps {
+  years: AcademicYear[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Narrows an admin list to content that is still active, or to what was filed under one term.
+ */
+export function TermFilter({ years, value, onChange }: TermFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full sm:w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ACTIVE_TERM_FILTER}>Active</SelectItem>
+        {years
+          .filter((year) => year.terms.length > 0)
+          .map((year) => (
+            <SelectGroup key={year.id}>
+              <SelectLabel>{year.name}</SelectLabel>
+              {year.terms.map((term) => (
+                <SelectItem key={term.id} value={term.id}>
+                  {term.name}
+                  {term.archived_at && ' (archived)'}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,7 +6,7 @@ interface Profile {
   id: string;
   user_id: string;
   full_name: string;
-  school_code: string | null;
+  income_bracket: string | null;
 }
 
 interface AuthContextType {
@@ -15,9 +15,10 @@ interface AuthContextType {
   profile: Profile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string, role: 'admin' | 'student') => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName: string, role: 'admin' | 'student' | 'teacher' | 'guardian', inviteToken?: string) => Promise<{ error: Error | null }>;
+  redeemInvitation: (token: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
-  joinSchool: (schoolCode: string) => Promise<{ error: Error | null }>;
+  joinSchool: (code: string) => Promise<{ error: Error | null; pending: boolean }>;
   refreshProfile: () => Promise<void>;
 }
 
@@ -84,39 +85,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error: error as Error | null };
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'admin' | 'student') => {
+  const signUp = async (email: string, password: string, fullName: string, role: 'admin' | 'student' | 'teacher' | 'guardian', inviteToken?: string) => {
     const redirectUrl = `${window.location.origin}/`;
 
-    const { data, error } = await supabase.auth.signUp({
+    // Profile and role rows are provisioned by the on_auth_user_created trigger.
+    // Institute accounts stay students until an invitation or approval grants admin.
+    const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: redirectUrl,
+        data: {
+          full_name: fullName,
+          requested_role: role,
+          invite_token: inviteToken?.trim() || null,
+        },
       },
     });
 
-    if (error) return { error: error as Error };
-
-    if (data.user) {
-      // Create profile
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          user_id: data.user.id,
-          full_name: fullName,
-        });
+    return { error: error as Error | null };
+  };
 
-      if (profileError) return { error: profileError as Error };
+  const redeemInvitation = async (token: string) => {
+    const { data, error } = await supabase.rpc('redeem_role_invitation', {
+      _token: token.trim(),
+    });
 
-      // Create user role
-      const { error: roleError } = await supabase
-        .from('user_roles')
-        .insert({
-          user_id: data.user.id,
-          role: role,
-        });
+    if (error) return { error: error as Error };
 
-      if (roleError) return { error: roleError as Error };
+    if (!data) {
+      return { error: new Error('This invitation code is invalid, expired or was issued to a different email.') };
     }
 
     return { error: null };
@@ -127,29 +125,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setProfile(null);
   };
 
-  const joinSchool = async (schoolCode: string) => {
-    // Verify school exists
-    const { data: school, error: schoolError } = await supabase
-      .from('schools')
-      .select('school_code')
-      .eq('school_code', schoolCode.toUpperCase())
-      .single();
-
-    if (schoolError || !school) {
-      return { error: new Error('Invalid school code. Please check with your school administrator.') };
-    }
-
-    // Update profile with school code
-    const { error } = await supabase
-      .from('profiles')
-      .update({ school_code: schoolCode.toUpperCase() })
-      .eq('user_id', user?.id);
-
-    if (!error) {
-      await refreshProfile();
-    }
+  const joinSchool = async (code: string) => {
+    const { data, error } = await supabase.rpc('join_school', { _code: code });
 
-    return { error: error as Error | null };
+    return { error: error as Error | null, pending: data === 'pending' };
   };
 
   return (
@@ -161,6 +140,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loading,
         signIn,
         signUp,
+        redeemInvitation,
         signOut,
         joinSchool,
         refreshProfile,
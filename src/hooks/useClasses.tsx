@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { SchoolClass } from '@/lib/classes';
+
+/**
+ * Classes of a school with their sections, or only those taught by `teacherId` when given.
+ */
+export function useClasses(schoolCode: string | null | undefined, teacherId?: string) {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchClasses = useCallback(async () => {
+    if (!schoolCode) return;
+
+    const { data, error } = teacherId
+      ? await supabase
+          .from('classes')
+          .select('id, name, class_sections(id, name), class_teachers!inner(teacher_id)')
+          .eq('school_code', schoolCode)
+          .eq('class_teachers.teacher_id', teacherId)
+          .order('name', { ascending: true })
+      : await supabase
+          .from('classes')
+          .select('id, name, class_sections(id, name)')
+          .eq('school_code', schoolCode)
+          .order('name', { ascending: true });
+
+    if (!error && data) {
+      setClasses(
+        data.map((c) => ({
+          id: c.id,
+          name: c.name,
+          sections: [...c.class_sections].sort((a, b) => a.name.localeCompare(b.name)),
+        }))
+      );
+    }
+    setLoading(false);
+  }, [schoolCode, teacherId]);
+
+  useEffect(() => {
+    if (!schoolCode) {
+      setClasses([]);
+      setLoading(false);
+      return;
+    }
+
+    fetchClasses();
+  }, [schoolCode, fetchClasses]);
+
+  return {
+    classes,
+    loading,
+    refreshClasses: fetchClasses,
+  };
+}
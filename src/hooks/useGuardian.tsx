@@ -0,0 +1,115 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+const ACTIVE_CHILD_KEY = 'guardian.activeChildId';
+
+export interface ChildSchool {
+  school_code: string;
+  name: string;
+}
+
+export interface LinkedChild {
+  student_id: string;
+  full_name: string;
+  schools: ChildSchool[];
+}
+
+interface GuardianContextType {
+  linkedChildren: LinkedChild[];
+  activeChild: LinkedChild | null;
+  setActiveChildId: (studentId: string) => void;
+  loading: boolean;
+  refreshChildren: () => Promise<void>;
+}
+
+const GuardianContext = createContext<GuardianContextType | undefined>(undefined);
+
+export function GuardianProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [linkedChildren, setLinkedChildren] = useState<LinkedChild[]>([]);
+  const [activeChildId, setActiveChildIdState] = useState<string | null>(() => localStorage.getItem(ACTIVE_CHILD_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const fetchChildren = useCallback(async () => {
+    if (!user) return;
+
+    // Only guardians have links of their own, so this is empty for everyone else
+    const { data: links } = await supabase
+      .from('guardian_links')
+      .select('student_id')
+      .eq('guardian_id', user.id)
+      .order('created_at', { ascending: true });
+
+    const studentIds = (links ?? []).map((l) => l.student_id);
+    if (studentIds.length === 0) {
+      setLinkedChildren([]);
+      setLoading(false);
+      return;
+    }
+
+    const [{ data: profiles }, { data: memberships }] = await Promise.all([
+      supabase.from('profiles').select('user_id, full_name').in('user_id', studentIds),
+      supabase
+        .from('school_memberships')
+        .select('user_id, school_code, schools(name)')
+        .in('user_id', studentIds)
+        .order('joined_at', { ascending: true }),
+    ]);
+
+    setLinkedChildren(
+      studentIds
+        .map((id) => (profiles ?? []).find((p) => p.user_id === id))
+        .filter(Boolean)
+        .map((p) => ({
+          student_id: p!.user_id,
+          full_name: p!.full_name,
+          schools: (memberships ?? [])
+            .filter((m) => m.user_id === p!.user_id)
+            .map((m) => ({ school_code: m.school_code, name: m.schools?.name ?? m.school_code })),
+        }))
+    );
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setLinkedChildren([]);
+      setLoading(false);
+      return;
+    }
+
+    fetchChildren();
+  }, [user, fetchChildren]);
+
+  const setActiveChildId = (studentId: string) => {
+    localStorage.setItem(ACTIVE_CHILD_KEY, studentId);
+    setActiveChildIdState(studentId);
+  };
+
+  // Fall back to the first child when the remembered one is no longer linked
+  const activeChild =
+    linkedChildren.find((c) => c.student_id === activeChildId) ?? linkedChildren[0] ?? null;
+
+  return (
+    <GuardianContext.Provider
+      value={{
+        linkedChildren,
+        activeChild,
+        setActiveChildId,
+        loading,
+        refreshChildren: fetchChildren,
+      }}
+    >
+      {children}
+    </GuardianContext.Provider>
+  );
+}
+
+export function useGuardian() {
+  const context = useContext(GuardianContext);
+  if (context === undefined) {
+    throw new Error('useGuardian must be used within a GuardianProvider');
+  }
+  return context;
+}
@@ -0,0 +1,75 @@
+import { useEffect, useId, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Tables = Database['public']['Tables'];
+
+export type RealtimeTable = 'notices' | 'fees' | 'scholarships' | 'school_join_requests' | 'payment_checkouts';
+export type RealtimeChange<R extends Record<string, unknown>> = RealtimePostgresChangesPayload<R>;
+
+/**
+ * Subscribe to inserts, updates and deletes on a school's rows of a table.
+ * Row visibility still follows RLS, so students only hear about rows they may read.
+ */
+export function useRealtimeTable<T extends RealtimeTable>(
+  table: T,
+  schoolCode: string | null | undefined,
+  onChange: (change: RealtimeChange<Tables[T]['Row']>) => void
+) {
+  const channelId = useId();
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!schoolCode) return;
+
+    const handle = (payload: RealtimeChange<Tables[T]['Row']>) => onChangeRef.current(payload);
+
+    // Delete events cannot be filtered by column, so they are matched by id downstream
+    const channel = supabase
+      .channel(`${table}-changes-${schoolCode}-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table, filter: `school_code=eq.${schoolCode}` },
+        handle
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table, filter: `school_code=eq.${schoolCode}` },
+        handle
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handle)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, schoolCode, channelId]);
+}
+
+/**
+ * Fold a realtime change into a list of rows. Rows failing `keep` are dropped,
+ * which lets callers evict rows that changed out of view.
+ */
+export function applyRealtimeChange<R extends { id: string }>(
+  rows: R[],
+  change: RealtimeChange<R>,
+  keep: (row: R) => boolean = () => true
+): R[] {
+  if (change.eventType === 'DELETE') {
+    return rows.filter((row) => row.id !== change.old.id);
+  }
+
+  const row = change.new;
+  if (!keep(row)) {
+    return rows.filter((r) => r.id !== row.id);
+  }
+  if (rows.some((r) => r.id === row.id)) {
+    return rows.map((r) => (r.id === row.id ? row : r));
+  }
+  return [row, ...rows];
+}
@@ -1,63 +1,108 @@
-import { useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { useGuardian } from './useGuardian';
+import type { Database } from '@/integrations/supabase/types';
 
-interface School {
+// Remembered per account, so a shared device does not carry one user's school over to the next
+const activeSchoolKey = (userId: string) => `school.activeSchoolCode.${userId}`;
+
+export type StaffLevel = Database['public']['Enums']['staff_level'];
+
+export interface School {
   id: string;
   name: string;
   school_code: string;
+  join_code: string;
+  requires_join_approval: boolean;
   admin_id: string;
+  logo_url: string | null;
+  address: string | null;
+  contact_email: string | null;
+  timezone: string;
+  currency: string;
+  academic_year_start_month: number;
+  current_term_id: string | null;
 }
 
-export function useSchool() {
-  const { user, profile } = useAuth();
-  const [school, setSchool] = useState<School | null>(null);
+interface SchoolContextType {
+  schools: School[];
+  school: School | null;
+  staffLevel: StaffLevel | null;
+  canManageSchool: boolean;
+  setActiveSchoolCode: (schoolCode: string) => void;
+  loading: boolean;
+  createSchool: (name: string, schoolCode: string) => Promise<{ error: Error | null; data?: School | null }>;
+  refreshSchool: () => Promise<void>;
+}
+
+const SchoolContext = createContext<SchoolContextType | undefined>(undefined);
+
+export function SchoolProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { activeChild, loading: guardianLoading } = useGuardian();
+  const [schools, setSchools] = useState<School[]>([]);
+  const [staffLevels, setStaffLevels] = useState<Record<string, StaffLevel>>({});
+  const [activeSchoolCode, setActiveSchoolCodeState] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Guardians belong to no school themselves, so they switch between the schools of the child they are viewing
+  const childSchoolCodes = (activeChild?.schools ?? []).map((s) => s.school_code).join(',');
+
+  const fetchSchools = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data: memberships }, { data: staffRows }] = await Promise.all([
+      supabase
+        .from('school_memberships')
+        .select('schools(*)')
+        .eq('user_id', user.id)
+        .order('joined_at', { ascending: true }),
+      supabase.from('school_staff').select('school_code, level').eq('user_id', user.id),
+    ]);
+
+    let memberSchools = (memberships ?? []).map((m) => m.schools).filter(Boolean) as School[];
+
+    if (memberSchools.length === 0 && childSchoolCodes) {
+      const { data: childSchools } = await supabase
+        .from('schools')
+        .select('*')
+        .in('school_code', childSchoolCodes.split(','));
+      memberSchools = childSchools ?? [];
+    }
+
+    setSchools(memberSchools);
+    setStaffLevels(Object.fromEntries((staffRows ?? []).map((row) => [row.school_code, row.level])));
+    setLoading(false);
+  }, [user, childSchoolCodes]);
+
+  useEffect(() => {
+    setActiveSchoolCodeState(user ? localStorage.getItem(activeSchoolKey(user.id)) : null);
+  }, [user]);
+
   useEffect(() => {
     if (!user) {
-      setSchool(null);
+      setSchools([]);
+      setStaffLevels({});
       setLoading(false);
       return;
     }
 
-    const fetchSchool = async () => {
-      // First try to find school where user is admin
-      const { data: adminSchool } = await supabase
-        .from('schools')
-        .select('*')
-        .eq('admin_id', user.id)
-        .single();
-
-      if (adminSchool) {
-        setSchool(adminSchool);
-        setLoading(false);
-        return;
-      }
-
-      // Then try to find school by profile's school_code
-      if (profile?.school_code) {
-        const { data: studentSchool } = await supabase
-          .from('schools')
-          .select('*')
-          .eq('school_code', profile.school_code)
-          .single();
-
-        if (studentSchool) {
-          setSchool(studentSchool);
-        }
-      }
-      setLoading(false);
-    };
+    if (guardianLoading) return;
+    fetchSchools();
+  }, [user, guardianLoading, fetchSchools]);
 
-    fetchSchool();
-  }, [user, profile?.school_code]);
+  const setActiveSchoolCode = (schoolCode: string) => {
+    if (user) localStorage.setItem(activeSchoolKey(user.id), schoolCode);
+    setActiveSchoolCodeState(schoolCode);
+  };
 
   const createSchool = async (name: string, schoolCode: string) => {
     if (!user) return { error: new Error('Not authenticated') };
 
     const code = schoolCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
 
+    // The creator is added as the owner and a member by a trigger on schools
     const { data, error } = await supabase
       .from('schools')
       .insert({
@@ -69,20 +114,39 @@ export function useSchool() {
       .single();
 
     if (!error && data) {
-      setSchool(data);
-      // Update admin's profile with school code
-      await supabase
-        .from('profiles')
-        .update({ school_code: code })
-        .eq('user_id', user.id);
+      setActiveSchoolCode(data.school_code);
+      await fetchSchools();
     }
 
     return { error: error as Error | null, data };
   };
 
-  return {
-    school,
-    loading,
-    createSchool,
-  };
+  // Fall back to the first school when the remembered one is no longer available
+  const school = schools.find((s) => s.school_code === activeSchoolCode) ?? schools[0] ?? null;
+  const staffLevel = school ? staffLevels[school.school_code] ?? null : null;
+
+  return (
+    <SchoolContext.Provider
+      value={{
+        schools,
+        school,
+        staffLevel,
+        canManageSchool: staffLevel === 'owner' || staffLevel === 'admin',
+        setActiveSchoolCode,
+        loading: loading || guardianLoading,
+        createSchool,
+        refreshSchool: fetchSchools,
+      }}
+    >
+      {children}
+    </SchoolContext.Provider>
+  );
+}
+
+export function useSchool() {
+  const context = useContext(SchoolContext);
+  if (context === undefined) {
+    throw new Error('useSchool must be used within a SchoolProvider');
+  }
+  return context;
 }
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { AcademicTerm, AcademicYear } from '@/lib/terms';
+
+/**
+ * Academic years of a school with their terms, oldest first.
+ */
+export function useTerms(schoolCode: string | null | undefined) {
+  const [years, setYears] = useState<AcademicYear[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTerms = useCallback(async () => {
+    if (!schoolCode) return;
+
+    const { data, error } = await supabase
+      .from('academic_years')
+      .select('id, name, starts_on, ends_on, academic_terms(id, academic_year_id, name, starts_on, ends_on, archived_at)')
+      .eq('school_code', schoolCode)
+      .order('starts_on', { ascending: true });
+
+    if (!error && data) {
+      setYears(
+        data.map((y) => ({
+          id: y.id,
+          name: y.name,
+          starts_on: y.starts_on,
+          ends_on: y.ends_on,
+          terms: [...y.academic_terms].sort((a, b) => a.starts_on.localeCompare(b.starts_on)),
+        }))
+      );
+    }
+    setLoading(false);
+  }, [schoolCode]);
+
+  useEffect(() => {
+    if (!schoolCode) {
+      setYears([]);
+      setLoading(false);
+      return;
+    }
+
+    fetchTerms();
+  }, [schoolCode, fetchTerms]);
+
+  const terms: AcademicTerm[] = years.flatMap((y) => y.terms);
+
+  return {
+    years,
+    terms,
+    loading,
+    refreshTerms: fetchTerms,
+  };
+}
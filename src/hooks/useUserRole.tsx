@@ -1,39 +1,81 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { useAuth } from './useAuth';
 
+type AppRole = Database['public']['Enums']['app_role'];
+
+type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
 export function useUserRole() {
   const { user } = useAuth();
-  const [role, setRole] = useState<'admin' | 'student' | null>(null);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [accessRequestStatus, setAccessRequestStatus] = useState<AccessRequestStatus | null>(null);
+  const [isPlatformReviewer, setIsPlatformReviewer] = useState(false);
+  const [isSchoolStaff, setIsSchoolStaff] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (!user) {
-      setRole(null);
-      setLoading(false);
-      return;
-    }
+  const fetchRole = useCallback(async () => {
+    if (!user) return;
 
-    const fetchRole = async () => {
-      const { data, error } = await supabase
+    const [roleRes, requestRes, reviewerRes, staffRes] = await Promise.all([
+      supabase
         .from('user_roles')
         .select('role')
         .eq('user_id', user.id)
-        .single();
+        .single(),
+      supabase
+        .from('admin_access_requests')
+        .select('status')
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase
+        .from('platform_reviewers')
+        .select('user_id')
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase
+        .from('school_staff')
+        .select('id')
+        .eq('user_id', user.id)
+        .limit(1),
+    ]);
 
-      if (!error && data) {
-        setRole(data.role as 'admin' | 'student');
-      }
+    if (!roleRes.error && roleRes.data) {
+      setRole(roleRes.data.role);
+    }
+    setAccessRequestStatus((requestRes.data?.status as AccessRequestStatus) ?? null);
+    setIsPlatformReviewer(!!reviewerRes.data);
+    setIsSchoolStaff((staffRes.data ?? []).length > 0);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      setAccessRequestStatus(null);
+      setIsPlatformReviewer(false);
+      setIsSchoolStaff(false);
       setLoading(false);
-    };
+      return;
+    }
 
     fetchRole();
-  }, [user]);
+  }, [user, fetchRole]);
 
   return {
     role,
-    isAdmin: role === 'admin',
+    // Staff-level colleagues run their schools without the app-wide admin role
+    isAdmin: role === 'admin' || isSchoolStaff,
+    canCreateSchools: role === 'admin',
     isStudent: role === 'student',
+    isTeacher: role === 'teacher',
+    isGuardian: role === 'guardian',
+    // Institute sign-ups remain students until an invitation or review grants admin
+    isPendingAdmin: role !== 'admin' && accessRequestStatus === 'pending',
+    accessRequestStatus,
+    isPlatformReviewer,
+    refreshRole: fetchRole,
     loading,
   };
 }
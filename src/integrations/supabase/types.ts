@@ -14,161 +14,1790 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_terms: {
+        Row: {
+          academic_year_id: string
+          archived_at: string | null
+          created_at: string
+          ends_on: string
+          id: string
+          name: string
+          school_code: string
+          starts_on: string
+        }
+        Insert: {
+          academic_year_id: string
+          archived_at?: string | null
+          created_at?: string
+          ends_on: string
+          id?: string
+          name: string
+          school_code: string
+          starts_on: string
+        }
+        Update: {
+          academic_year_id?: string
+          archived_at?: string | null
+          created_at?: string
+          ends_on?: string
+          id?: string
+          name?: string
+          school_code?: string
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_terms_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      academic_years: {
+        Row: {
+          created_at: string
+          ends_on: string
+          id: string
+          name: string
+          school_code: string
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          id?: string
+          name: string
+          school_code: string
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          id?: string
+          name?: string
+          school_code?: string
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_years_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      admin_access_requests: {
+        Row: {
+          created_at: string
+          id: string
+          institute_name: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          institute_name: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          institute_name?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      class_enrollments: {
+        Row: {
+          class_id: string
+          created_at: string
+          id: string
+          section_id: string | null
+          student_id: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          id?: string
+          section_id?: string | null
+          student_id: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          id?: string
+          section_id?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_enrollments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_enrollments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_sections: {
+        Row: {
+          class_id: string
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_sections_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_teachers: {
+        Row: {
+          class_id: string
+          created_at: string
+          id: string
+          teacher_id: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          id?: string
+          teacher_id: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          id?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_teachers_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          school_code: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          school_code: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          school_code?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fee_adjustment_rules: {
+        Row: {
+          category: string | null
+          created_at: string
+          days_before_due: number
+          fee_id: string | null
+          grace_days: number
+          id: string
+          kind: string
+          max_amount: number | null
+          recurrence: string
+          school_code: string
+          value: number
+          value_type: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          days_before_due?: number
+          fee_id?: string | null
+          grace_days?: number
+          id?: string
+          kind: string
+          max_amount?: number | null
+          recurrence?: string
+          school_code: string
+          value: number
+          value_type: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          days_before_due?: number
+          fee_id?: string | null
+          grace_days?: number
+          id?: string
+          kind?: string
+          max_amount?: number | null
+          recurrence?: string
+          school_code?: string
+          value?: number
+          value_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_adjustment_rules_fee_id_fkey"
+            columns: ["fee_id"]
+            isOneToOne: false
+            referencedRelation: "fees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_adjustment_rules_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      fee_assignments: {
+        Row: {
+          amount: number
+          archived_at: string | null
+          created_at: string
+          fee_id: string
+          id: string
+          plan_id: string | null
+          school_code: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          archived_at?: string | null
+          created_at?: string
+          fee_id: string
+          id?: string
+          plan_id?: string | null
+          school_code: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          archived_at?: string | null
+          created_at?: string
+          fee_id?: string
+          id?: string
+          plan_id?: string | null
+          school_code?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_assignments_fee_id_fkey"
+            columns: ["fee_id"]
+            isOneToOne: false
+            referencedRelation: "fees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_assignments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_document_counters: {
+        Row: {
+          kind: string
+          last_number: number
+          school_code: string
+        }
+        Insert: {
+          kind: string
+          last_number?: number
+          school_code: string
+        }
+        Update: {
+          kind?: string
+          last_number?: number
+          school_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_document_counters_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      fee_documents: {
+        Row: {
+          id: string
+          issued_at: string
+          issued_by: string | null
+          items: Json
+          kind: string
+          number: number
+          payment_id: string | null
+          reference: string | null
+          school_code: string
+          student_id: string
+          total: number
+          verification_code: string
+        }
+        Insert: {
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          items?: Json
+          kind: string
+          number: number
+          payment_id?: string | null
+          reference?: never
+          school_code: string
+          student_id: string
+          total: number
+          verification_code?: string
+        }
+        Update: {
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          items?: Json
+          kind?: string
+          number?: number
+          payment_id?: string | null
+          reference?: never
+          school_code?: string
+          student_id?: string
+          total?: number
+          verification_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_documents_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_documents_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      fee_installment_plans: {
+        Row: {
+          created_at: string
+          fee_id: string
+          id: string
+          name: string
+          school_code: string
+        }
+        Insert: {
+          created_at?: string
+          fee_id: string
+          id?: string
+          name: string
+          school_code: string
+        }
+        Update: {
+          created_at?: string
+          fee_id?: string
+          id?: string
+          name?: string
+          school_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_installment_plans_fee_id_fkey"
+            columns: ["fee_id"]
+            isOneToOne: false
+            referencedRelation: "fees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_installments: {
+        Row: {
+          amount: number
+          due_date: string
+          id: string
+          plan_id: string
+          position: number
+          school_code: string
+        }
+        Insert: {
+          amount: number
+          due_date: string
+          id?: string
+          plan_id: string
+          position: number
+          school_code: string
+        }
+        Update: {
+          amount?: number
+          due_date?: string
+          id?: string
+          plan_id?: string
+          position?: number
+          school_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_installments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_ledger_entries: {
+        Row: {
+          amount: number
+          application_id: string | null
+          assignment_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          installment_id: string | null
+          kind: string
+          payment_id: string | null
+          reason: string
+          school_code: string
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          application_id?: string | null
+          assignment_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          installment_id?: string | null
+          kind: string
+          payment_id?: string | null
+          reason: string
+          school_code: string
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          application_id?: string | null
+          assignment_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          installment_id?: string | null
+          kind?: string
+          payment_id?: string | null
+          reason?: string
+          school_code?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_ledger_entries_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "scholarship_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_ledger_entries_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_ledger_entries_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_assignment_balances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_ledger_entries_installment_id_fkey"
+            columns: ["installment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_ledger_entries_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_ledger_entries_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      fee_payments: {
+        Row: {
+          amount: number
+          archived_at: string | null
+          assignment_id: string
+          created_at: string
+          id: string
+          method: string | null
+          notes: string | null
+          paid_at: string
+          recorded_by: string | null
+          reference: string | null
+          school_code: string
+        }
+        Insert: {
+          amount: number
+          archived_at?: string | null
+          assignment_id: string
+          created_at?: string
+          id?: string
+          method?: string | null
+          notes?: string | null
+          paid_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          school_code: string
+        }
+        Update: {
+          amount?: number
+          archived_at?: string | null
+          assignment_id?: string
+          created_at?: string
+          id?: string
+          method?: string | null
+          notes?: string | null
+          paid_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          school_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_payments_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_payments_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_assignment_balances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_schedules: {
+        Row: {
+          active: boolean
+          amount: number
+          assign_to_audience: boolean
+          category: string | null
+          class_id: string | null
+          created_at: string
+          created_by: string | null
+          day_of_month: number | null
+          description: string | null
+          ends_on: string | null
+          frequency: string
+          id: string
+          last_generated_on: string | null
+          lead_days: number
+          month_of_year: number | null
+          next_due_on: string | null
+          rule: string | null
+          school_code: string
+          section_id: string | null
+          starts_on: string
+          title: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          assign_to_audience?: boolean
+          category?: string | null
+          class_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          description?: string | null
+          ends_on?: string | null
+          frequency: string
+          id?: string
+          last_generated_on?: string | null
+          lead_days?: number
+          month_of_year?: number | null
+          next_due_on?: string | null
+          rule?: string | null
+          school_code: string
+          section_id?: string | null
+          starts_on: string
+          title: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          assign_to_audience?: boolean
+          category?: string | null
+          class_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          description?: string | null
+          ends_on?: string | null
+          frequency?: string
+          id?: string
+          last_generated_on?: string | null
+          lead_days?: number
+          month_of_year?: number | null
+          next_due_on?: string | null
+          rule?: string | null
+          school_code?: string
+          section_id?: string | null
+          starts_on?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedules_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_schedules_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+          {
+            foreignKeyName: "fee_schedules_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       fees: {
         Row: {
           amount: number
-          category: string | null
+          archived_at: string | null
+          category: string | null
+          class_id: string | null
+          created_at: string
+          description: string | null
+          due_date: string | null
+          id: string
+          recurs_each_term: boolean
+          schedule_id: string | null
+          school_code: string
+          section_id: string | null
+          term_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          archived_at?: string | null
+          category?: string | null
+          class_id?: string | null
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          recurs_each_term?: boolean
+          schedule_id?: string | null
+          school_code: string
+          section_id?: string | null
+          term_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          archived_at?: string | null
+          category?: string | null
+          class_id?: string | null
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          recurs_each_term?: boolean
+          schedule_id?: string | null
+          school_code?: string
+          section_id?: string | null
+          term_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fees_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fees_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "fee_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fees_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fees_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guardian_link_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          id: string
+          student_id: string
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          student_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      guardian_links: {
+        Row: {
+          created_at: string
+          guardian_id: string
+          id: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          guardian_id: string
+          id?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          guardian_id?: string
+          id?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      notice_receipts: {
+        Row: {
+          acknowledged_at: string | null
+          archived_at: string | null
+          created_at: string
+          id: string
+          notice_id: string
+          read_at: string | null
+          reminded_at: string | null
+          school_code: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          notice_id: string
+          read_at?: string | null
+          reminded_at?: string | null
+          school_code: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          notice_id?: string
+          read_at?: string | null
+          reminded_at?: string | null
+          school_code?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notice_receipts_notice_id_fkey"
+            columns: ["notice_id"]
+            isOneToOne: false
+            referencedRelation: "notices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notices: {
+        Row: {
+          archived_at: string | null
+          class_id: string | null
+          content: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          priority: string | null
+          publish_at: string | null
+          requires_acknowledgement: boolean
+          school_code: string
+          section_id: string | null
+          term_id: string | null
+          title: string
+          updated_at: string
+          went_live_at: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          class_id?: string | null
+          content: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          priority?: string | null
+          publish_at?: string | null
+          requires_acknowledgement?: boolean
+          school_code: string
+          section_id?: string | null
+          term_id?: string | null
+          title: string
+          updated_at?: string
+          went_live_at?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          class_id?: string | null
+          content?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          priority?: string | null
+          publish_at?: string | null
+          requires_acknowledgement?: boolean
+          school_code?: string
+          section_id?: string | null
+          term_id?: string | null
+          title?: string
+          updated_at?: string
+          went_live_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notices_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notices_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notices_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_checkouts: {
+        Row: {
+          amount: number
+          assignment_id: string
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          payment_id: string | null
+          provider: string
+          provider_reference: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          school_code: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          assignment_id: string
+          checkout_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          id?: string
+          payment_id?: string | null
+          provider: string
+          provider_reference?: string | null
+          refund_reference?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
+          school_code: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          assignment_id?: string
+          checkout_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          payment_id?: string | null
+          provider?: string
+          provider_reference?: string | null
+          refund_reference?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
+          school_code?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_checkouts_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_checkouts_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "fee_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_reviewers: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          full_name: string
+          id: string
+          income_bracket: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          id?: string
+          income_bracket?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          id?: string
+          income_bracket?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          role: Database["public"]["Enums"]["app_role"]
+          school_code: string | null
+          staff_level: Database["public"]["Enums"]["staff_level"] | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          role?: Database["public"]["Enums"]["app_role"]
+          school_code?: string | null
+          staff_level?: Database["public"]["Enums"]["staff_level"] | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          school_code?: string | null
+          staff_level?: Database["public"]["Enums"]["staff_level"] | null
+          token?: string
+        }
+        Relationships: []
+      }
+      scholarship_application_files: {
+        Row: {
+          application_id: string
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          requirement: string | null
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          requirement?: string | null
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          requirement?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_application_files_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "scholarship_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_applications: {
+        Row: {
+          answers: Json
+          archived_at: string | null
+          awarded_amount: number | null
+          created_at: string
+          id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewer_notes: string | null
+          scholarship_id: string
+          school_code: string
+          statement: string
+          status: Database["public"]["Enums"]["application_status"]
+          student_id: string
+          submitted_at: string
+          updated_at: string
+        }
+        Insert: {
+          answers?: Json
+          archived_at?: string | null
+          awarded_amount?: number | null
+          created_at?: string
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_notes?: string | null
+          scholarship_id: string
+          school_code: string
+          statement: string
+          status?: Database["public"]["Enums"]["application_status"]
+          student_id: string
+          submitted_at?: string
+          updated_at?: string
+        }
+        Update: {
+          answers?: Json
+          archived_at?: string | null
+          awarded_amount?: number | null
+          created_at?: string
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_notes?: string | null
+          scholarship_id?: string
+          school_code?: string
+          statement?: string
+          status?: Database["public"]["Enums"]["application_status"]
+          student_id?: string
+          submitted_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_applications_scholarship_id_fkey"
+            columns: ["scholarship_id"]
+            isOneToOne: false
+            referencedRelation: "scholarships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_questions: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          prompt: string
+          required: boolean
+          scholarship_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position?: number
+          prompt: string
+          required?: boolean
+          scholarship_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          prompt?: string
+          required?: boolean
+          scholarship_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_questions_scholarship_id_fkey"
+            columns: ["scholarship_id"]
+            isOneToOne: false
+            referencedRelation: "scholarships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_review_conflicts: {
+        Row: {
+          application_id: string
+          created_at: string
+          id: string
+          reason: string
+          reviewer_id: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          id?: string
+          reason: string
+          reviewer_id: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          id?: string
+          reason?: string
+          reviewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_review_conflicts_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "scholarship_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_reviewers: {
+        Row: {
+          created_at: string
+          id: string
+          reviewer_id: string
+          scholarship_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reviewer_id: string
+          scholarship_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reviewer_id?: string
+          scholarship_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_reviewers_scholarship_id_fkey"
+            columns: ["scholarship_id"]
+            isOneToOne: false
+            referencedRelation: "scholarships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_rubric_criteria: {
+        Row: {
           created_at: string
           description: string | null
-          due_date: string | null
           id: string
+          max_score: number
+          name: string
+          position: number
+          scholarship_id: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_score?: number
+          name: string
+          position?: number
+          scholarship_id: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_score?: number
+          name?: string
+          position?: number
+          scholarship_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_rubric_criteria_scholarship_id_fkey"
+            columns: ["scholarship_id"]
+            isOneToOne: false
+            referencedRelation: "scholarships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarship_scores: {
+        Row: {
+          application_id: string
+          created_at: string
+          criterion_id: string
+          id: string
+          reviewer_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          criterion_id: string
+          id?: string
+          reviewer_id: string
+          score: number
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          criterion_id?: string
+          id?: string
+          reviewer_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarship_scores_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "scholarship_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scholarship_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "scholarship_rubric_criteria"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scholarships: {
+        Row: {
+          amount: number | null
+          archived_at: string | null
+          blind_review: boolean
+          class_id: string | null
+          created_at: string
+          deadline: string | null
+          description: string | null
+          eligibility: string | null
+          eligible_class_ids: string[]
+          id: string
+          max_income_bracket: string | null
+          recurs_each_term: boolean
+          required_documents: string[]
           school_code: string
+          scoring_closed_at: string | null
+          section_id: string | null
+          slots: number | null
+          term_id: string | null
           title: string
           updated_at: string
         }
         Insert: {
-          amount: number
-          category?: string | null
+          amount?: number | null
+          archived_at?: string | null
+          blind_review?: boolean
+          class_id?: string | null
           created_at?: string
+          deadline?: string | null
           description?: string | null
-          due_date?: string | null
+          eligibility?: string | null
+          eligible_class_ids?: string[]
           id?: string
+          max_income_bracket?: string | null
+          recurs_each_term?: boolean
+          required_documents?: string[]
           school_code: string
+          scoring_closed_at?: string | null
+          section_id?: string | null
+          slots?: number | null
+          term_id?: string | null
           title: string
           updated_at?: string
         }
         Update: {
-          amount?: number
-          category?: string | null
+          amount?: number | null
+          archived_at?: string | null
+          blind_review?: boolean
+          class_id?: string | null
+          created_at?: string
+          deadline?: string | null
+          description?: string | null
+          eligibility?: string | null
+          eligible_class_ids?: string[]
+          id?: string
+          max_income_bracket?: string | null
+          recurs_each_term?: boolean
+          required_documents?: string[]
+          school_code?: string
+          scoring_closed_at?: string | null
+          section_id?: string | null
+          slots?: number | null
+          term_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scholarships_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scholarships_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scholarships_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      school_departures: {
+        Row: {
+          departed_at: string
+          departed_by: string | null
+          id: string
+          kind: string
+          reason: string | null
+          restored_at: string | null
+          school_code: string
+          user_id: string
+        }
+        Insert: {
+          departed_at?: string
+          departed_by?: string | null
+          id?: string
+          kind: string
+          reason?: string | null
+          restored_at?: string | null
+          school_code: string
+          user_id: string
+        }
+        Update: {
+          departed_at?: string
+          departed_by?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          restored_at?: string | null
+          school_code?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "school_departures_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
+      school_invitations: {
+        Row: {
+          class_id: string | null
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          label: string | null
+          max_uses: number | null
+          revoked_at: string | null
+          school_code: string
+          section_id: string | null
+          use_count: number
+        }
+        Insert: {
+          class_id?: string | null
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          label?: string | null
+          max_uses?: number | null
+          revoked_at?: string | null
+          school_code: string
+          section_id?: string | null
+          use_count?: number
+        }
+        Update: {
+          class_id?: string | null
+          code?: string
           created_at?: string
-          description?: string | null
-          due_date?: string | null
+          created_by?: string | null
+          expires_at?: string | null
           id?: string
+          label?: string | null
+          max_uses?: number | null
+          revoked_at?: string | null
           school_code?: string
-          title?: string
-          updated_at?: string
+          section_id?: string | null
+          use_count?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "school_invitations_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "school_invitations_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      notices: {
+      school_join_requests: {
         Row: {
-          content: string
+          class_id: string | null
           created_at: string
           id: string
-          priority: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           school_code: string
-          title: string
-          updated_at: string
+          section_id: string | null
+          status: string
+          user_id: string
         }
         Insert: {
-          content: string
+          class_id?: string | null
           created_at?: string
           id?: string
-          priority?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           school_code: string
-          title: string
-          updated_at?: string
+          section_id?: string | null
+          status?: string
+          user_id: string
         }
         Update: {
-          content?: string
+          class_id?: string | null
           created_at?: string
           id?: string
-          priority?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           school_code?: string
-          title?: string
-          updated_at?: string
+          section_id?: string | null
+          status?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "school_join_requests_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "school_join_requests_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "class_sections"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      school_memberships: {
         Row: {
-          created_at: string
-          full_name: string
           id: string
-          school_code: string | null
-          updated_at: string
+          joined_at: string
+          school_code: string
           user_id: string
         }
         Insert: {
-          created_at?: string
-          full_name: string
           id?: string
-          school_code?: string | null
-          updated_at?: string
+          joined_at?: string
+          school_code: string
           user_id: string
         }
         Update: {
-          created_at?: string
-          full_name?: string
           id?: string
-          school_code?: string | null
-          updated_at?: string
+          joined_at?: string
+          school_code?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "school_memberships_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
       }
-      scholarships: {
+      school_staff: {
         Row: {
-          amount: number | null
           created_at: string
-          deadline: string | null
-          description: string | null
-          eligibility: string | null
           id: string
+          level: Database["public"]["Enums"]["staff_level"]
           school_code: string
-          title: string
-          updated_at: string
+          user_id: string
         }
         Insert: {
-          amount?: number | null
           created_at?: string
-          deadline?: string | null
-          description?: string | null
-          eligibility?: string | null
           id?: string
+          level?: Database["public"]["Enums"]["staff_level"]
           school_code: string
-          title: string
-          updated_at?: string
+          user_id: string
         }
         Update: {
-          amount?: number | null
           created_at?: string
-          deadline?: string | null
-          description?: string | null
-          eligibility?: string | null
           id?: string
+          level?: Database["public"]["Enums"]["staff_level"]
           school_code?: string
-          title?: string
-          updated_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "school_staff_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
       }
       schools: {
         Row: {
+          academic_year_start_month: number
+          address: string | null
           admin_id: string
+          contact_email: string | null
           created_at: string
+          currency: string
+          current_term_id: string | null
           id: string
+          join_code: string
+          logo_url: string | null
           name: string
+          requires_join_approval: boolean
           school_code: string
+          timezone: string
           updated_at: string
         }
         Insert: {
+          academic_year_start_month?: number
+          address?: string | null
           admin_id: string
+          contact_email?: string | null
           created_at?: string
+          currency?: string
+          current_term_id?: string | null
           id?: string
+          join_code?: string
+          logo_url?: string | null
           name: string
+          requires_join_approval?: boolean
           school_code: string
+          timezone?: string
           updated_at?: string
         }
         Update: {
+          academic_year_start_month?: number
+          address?: string | null
           admin_id?: string
+          contact_email?: string | null
           created_at?: string
+          currency?: string
+          current_term_id?: string | null
           id?: string
+          join_code?: string
+          logo_url?: string | null
           name?: string
+          requires_join_approval?: boolean
           school_code?: string
+          timezone?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "schools_current_term_id_fkey"
+            columns: ["current_term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -190,10 +1819,385 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      fee_assignment_balances: {
+        Row: {
+          amount: number | null
+          amount_due: number | null
+          amount_paid: number | null
+          archived_at: string | null
+          balance: number | null
+          created_at: string | null
+          credited_amount: number | null
+          discount_amount: number | null
+          fee_id: string | null
+          id: string | null
+          last_paid_at: string | null
+          penalty_amount: number | null
+          plan_id: string | null
+          refunded_amount: number | null
+          scholarship_amount: number | null
+          school_code: string | null
+          status: string | null
+          student_id: string | null
+          waived_amount: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_assignments_fee_id_fkey"
+            columns: ["fee_id"]
+            isOneToOne: false
+            referencedRelation: "fees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_installment_balances: {
+        Row: {
+          amount: number | null
+          amount_paid: number | null
+          assignment_id: string | null
+          due_date: string | null
+          id: string | null
+          overdue: boolean | null
+          plan_id: string | null
+          position: number | null
+          scholarship_amount: number | null
+          school_code: string | null
+          status: string | null
+          student_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_installments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      school_members: {
+        Row: {
+          full_name: string | null
+          joined_at: string | null
+          role: Database["public"]["Enums"]["app_role"] | null
+          school_code: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      student_directory: {
+        Row: {
+          balance: number | null
+          class_ids: string[] | null
+          class_names: string | null
+          full_name: string | null
+          joined_at: string | null
+          school_code: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      student_fee_credits: {
+        Row: {
+          applied: number | null
+          available: number | null
+          issued: number | null
+          school_code: string | null
+          student_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_ledger_entries_school_code_fkey"
+            columns: ["school_code"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["school_code"]
+          },
+        ]
+      }
     }
     Functions: {
-      get_user_school_code: { Args: { _user_id: string }; Returns: string }
+      acknowledge_notice: { Args: { _notice_id: string }; Returns: undefined }
+      apply_scholarship_award: {
+        Args: {
+          _amount: number
+          _application_id: string
+          _assignment_id: string
+          _spread?: boolean
+        }
+        Returns: undefined
+      }
+      apply_student_credit: {
+        Args: { _school_code: string; _student_id: string }
+        Returns: number
+      }
+      assign_fee: {
+        Args: { _fee_id: string; _student_ids?: string[] }
+        Returns: number
+      }
+      assign_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      can_manage_notice: {
+        Args: { _class_id: string; _school_code: string; _user_id: string }
+        Returns: boolean
+      }
+      can_see_panel_scores: {
+        Args: { _application_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_payment_refund: {
+        Args: { _checkout_id: string; _refunded_by: string }
+        Returns: {
+          amount: number
+          assignment_id: string
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          payment_id: string | null
+          provider: string
+          provider_reference: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          school_code: string
+          status: string
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payment_checkouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      choose_class: {
+        Args: { _class_id: string; _section_id?: string }
+        Returns: undefined
+      }
+      choose_installment_plan: {
+        Args: { _assignment_id: string; _plan_id?: string }
+        Returns: undefined
+      }
+      complete_payment_checkout: {
+        Args: { _checkout_id: string; _succeeded: boolean }
+        Returns: {
+          amount: number
+          assignment_id: string
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          payment_id: string | null
+          provider: string
+          provider_reference: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          school_code: string
+          status: string
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payment_checkouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      consume_role_invitation: {
+        Args: { _email: string; _token: string; _user_id: string }
+        Returns: boolean
+      }
+      create_guardian_link_code: { Args: never; Returns: string }
+      create_installment_plan: {
+        Args: { _fee_id: string; _installments: Json; _name: string }
+        Returns: string
+      }
+      create_payment_checkout: {
+        Args: {
+          _amount: number
+          _assignment_id: string
+          _payer_id: string
+          _provider: string
+        }
+        Returns: {
+          amount: number
+          assignment_id: string
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          payment_id: string | null
+          provider: string
+          provider_reference: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          school_code: string
+          status: string
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payment_checkouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      cron_field_matches: {
+        Args: { _field: string; _max: number; _min: number; _value: number }
+        Returns: boolean
+      }
+      fee_assignment_adjustments: {
+        Args: { _assignment_id: string }
+        Returns: { discount: number; penalty: number }[]
+      }
+      fee_assignment_has_history: {
+        Args: { _assignment_id: string }
+        Returns: boolean
+      }
+      fee_assignment_settlements: {
+        Args: { _assignment_id: string }
+        Returns: { amount: number; settled_at: string }[]
+      }
+      fee_schedule_occurrences: {
+        Args: {
+          _count: number
+          _day_of_month: number
+          _frequency: string
+          _from: string
+          _month_of_year: number
+          _rule: string
+          _school_code: string
+          _until: string
+        }
+        Returns: string[]
+      }
+      fee_schedule_rule_matches: {
+        Args: { _day: string; _rule: string }
+        Returns: boolean
+      }
+      generate_scheduled_fees: { Args: never; Returns: number }
+      get_application_school_code: {
+        Args: { _application_id: string }
+        Returns: string
+      }
+      get_class_school_code: { Args: { _class_id: string }; Returns: string }
+      get_disbursed_aid: { Args: { _school_code: string }; Returns: number }
+      get_fee_adjustment_rule: {
+        Args: { _fee_id: string; _kind: string }
+        Returns: {
+          category: string | null
+          created_at: string
+          days_before_due: number
+          fee_id: string | null
+          grace_days: number
+          id: string
+          kind: string
+          max_amount: number | null
+          recurrence: string
+          school_code: string
+          value: number
+          value_type: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "fee_adjustment_rules"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_notice_receipts: {
+        Args: { _notice_id: string }
+        Returns: {
+          acknowledged_at: string
+          full_name: string
+          read_at: string
+          reminded_at: string
+          user_id: string
+        }[]
+      }
+      get_scholarship_application_files: {
+        Args: { _application_id: string }
+        Returns: {
+          file_name: string
+          file_path: string
+          id: string
+          requirement: string
+        }[]
+      }
+      get_scholarship_rankings: {
+        Args: { _scholarship_id: string }
+        Returns: {
+          application_id: string
+          average_score: number
+          conflict_count: number
+          highest_score: number
+          lowest_score: number
+          panel_size: number
+          rank: number
+          review_count: number
+          scores_visible: boolean
+          status: Database["public"]["Enums"]["application_status"]
+          student_name: string
+        }[]
+      }
+      get_scholarship_review_queue: {
+        Args: { _school_code: string }
+        Returns: {
+          answers: Json
+          awarded_amount: number
+          blind: boolean
+          id: string
+          reviewer_notes: string
+          scholarship_id: string
+          scholarship_title: string
+          statement: string
+          status: Database["public"]["Enums"]["application_status"]
+          student_id: string
+          student_name: string
+          submitted_at: string
+        }[]
+      }
+      get_scholarship_school_code: {
+        Args: { _scholarship_id: string }
+        Returns: string
+      }
+      get_school_departures: {
+        Args: { _school_code: string }
+        Returns: {
+          departed_at: string
+          departed_by_name: string
+          full_name: string
+          id: string
+          kind: string
+          reason: string
+          restored_at: string
+          user_id: string
+        }[]
+      }
+      get_section_class_id: { Args: { _section_id: string }; Returns: string }
+      has_review_conflict: {
+        Args: { _application_id: string; _reviewer_id: string }
+        Returns: boolean
+      }
+      has_own_review_conflict: {
+        Args: { _application_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -201,13 +2205,285 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_submitted_scorecard: {
+        Args: { _application_id: string; _reviewer_id: string }
+        Returns: boolean
+      }
+      income_bracket_rank: { Args: { _bracket: string }; Returns: number }
+      is_application_document: {
+        Args: { _file_path: string }
+        Returns: boolean
+      }
+      is_blind_review_open: {
+        Args: { _scholarship_id: string }
+        Returns: boolean
+      }
+      is_class_student: {
+        Args: { _class_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_class_teacher: {
+        Args: { _class_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_guardian_in_school: {
+        Args: { _school_code: string; _user_id: string }
+        Returns: boolean
+      }
+      is_guardian_of: {
+        Args: { _student_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_in_class_audience: {
+        Args: { _class_id: string; _section_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_notice_live: {
+        Args: { _expires_at: string; _publish_at: string }
+        Returns: boolean
+      }
+      is_notice_recipient: {
+        Args: {
+          _class_id: string
+          _school_code: string
+          _section_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_platform_reviewer: { Args: { _user_id: string }; Returns: boolean }
       is_school_admin: {
         Args: { _school_code: string; _user_id: string }
         Returns: boolean
       }
+      is_school_manager: {
+        Args: { _school_code: string; _user_id: string }
+        Returns: boolean
+      }
+      is_school_member: {
+        Args: { _school_code: string; _user_id: string }
+        Returns: boolean
+      }
+      is_teacher_of_student: {
+        Args: { _student_id: string; _user_id: string }
+        Returns: boolean
+      }
+      issue_credit_note: {
+        Args: {
+          _amount: number
+          _reason: string
+          _school_code: string
+          _student_id: string
+        }
+        Returns: number
+      }
+      issue_fee_document: {
+        Args: {
+          _issued_by: string
+          _items: Json
+          _kind: string
+          _payment_id?: string
+          _school_code: string
+          _student_id: string
+          _total: number
+        }
+        Returns: {
+          id: string
+          issued_at: string
+          issued_by: string | null
+          items: Json
+          kind: string
+          number: number
+          payment_id: string | null
+          reference: string | null
+          school_code: string
+          student_id: string
+          total: number
+          verification_code: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "fee_documents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      join_school: { Args: { _code: string }; Returns: string }
+      leave_school: {
+        Args: {
+          _reason?: string
+          _school_code: string
+          _transfer_code?: string
+        }
+        Returns: string
+      }
+      link_guardian: { Args: { _code: string }; Returns: string }
+      mark_notices_read: { Args: { _notice_ids: string[] }; Returns: undefined }
+      move_students_to_class: {
+        Args: {
+          _class_id: string
+          _section_id?: string
+          _student_ids: string[]
+        }
+        Returns: number
+      }
+      preview_fee_schedule: {
+        Args: {
+          _count?: number
+          _day_of_month?: number
+          _ends_on?: string
+          _frequency: string
+          _month_of_year?: number
+          _rule?: string
+          _school_code: string
+          _starts_on: string
+        }
+        Returns: string[]
+      }
+      publish_due_notices: { Args: never; Returns: number }
+      redeem_role_invitation: { Args: { _token: string }; Returns: boolean }
+      refund_fee_payment: {
+        Args: { _amount: number; _payment_id: string; _reason: string }
+        Returns: undefined
+      }
+      refund_payment_checkout: {
+        Args: {
+          _checkout_id: string
+          _refund_reference: string
+          _refunded_by: string
+        }
+        Returns: {
+          amount: number
+          assignment_id: string
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          payment_id: string | null
+          provider: string
+          provider_reference: string | null
+          refund_reference: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          school_code: string
+          status: string
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payment_checkouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      release_payment_refund: {
+        Args: { _checkout_id: string }
+        Returns: undefined
+      }
+      remind_notice_recipients: {
+        Args: { _notice_id: string }
+        Returns: number
+      }
+      remove_fee: { Args: { _fee_id: string }; Returns: boolean }
+      remove_fee_assignment: {
+        Args: { _assignment_id: string }
+        Returns: boolean
+      }
+      remove_staff_member: {
+        Args: { _school_code: string; _user_id: string }
+        Returns: undefined
+      }
+      remove_students_from_school: {
+        Args: { _reason?: string; _school_code: string; _student_ids: string[] }
+        Returns: number
+      }
+      review_admin_access_requests: {
+        Args: { _approve: boolean; _request_ids: string[] }
+        Returns: number
+      }
+      review_join_requests: {
+        Args: { _approve: boolean; _request_ids: string[] }
+        Returns: number
+      }
+      review_scholarship_applications: {
+        Args: {
+          _application_ids: string[]
+          _awarded_amount?: number
+          _reviewer_notes?: string
+          _status: Database["public"]["Enums"]["application_status"]
+        }
+        Returns: number
+      }
+      rollover_term: {
+        Args: {
+          _fee_ids?: string[]
+          _next_term_id: string
+          _school_code: string
+          _scholarship_ids?: string[]
+        }
+        Returns: {
+          archived: number
+          cloned_fees: number
+          cloned_scholarships: number
+        }[]
+      }
+      rotate_join_code: { Args: { _school_code: string }; Returns: string }
+      scholarship_eligibility: {
+        Args: { _scholarship_id?: string; _student_id: string }
+        Returns: { criterion: string; met: boolean; scholarship_id: string }[]
+      }
+      school_today: { Args: { _school_code: string }; Returns: string }
+      set_staff_level: {
+        Args: {
+          _level: Database["public"]["Enums"]["staff_level"]
+          _school_code: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      submit_scholarship_application: {
+        Args: {
+          _answers: Json
+          _application_id: string
+          _files: Json
+          _school_code: string
+          _scholarship_id: string
+          _statement: string
+        }
+        Returns: string
+      }
+      transfer_school_ownership: {
+        Args: { _school_code: string; _user_id: string }
+        Returns: undefined
+      }
+      verify_fee_document: {
+        Args: { _code: string }
+        Returns: {
+          currency: string
+          issued_at: string
+          kind: string
+          reference: string
+          school_name: string
+          student_name: string
+          total: number
+        }[]
+      }
+      waive_fee: {
+        Args: { _amount: number; _assignment_id: string; _reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "student"
+      app_role: "admin" | "student" | "teacher" | "guardian"
+      application_status:
+        | "submitted"
+        | "under_review"
+        | "shortlisted"
+        | "awarded"
+        | "rejected"
+      staff_level: "owner" | "admin" | "staff"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -335,7 +2611,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "student"],
+      app_role: ["admin", "student", "teacher", "guardian"],
+      application_status: [
+        "submitted",
+        "under_review",
+        "shortlisted",
+        "awarded",
+        "rejected",
+      ],
+      staff_level: ["owner", "admin", "staff"],
     },
   },
 } as const
@@ -0,0 +1,43 @@
+export interface ClassSection {
+  id: string;
+  name: string;
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+  sections: ClassSection[];
+}
+
+// Who a notice, fee or scholarship is for; no class means the whole school
+export interface Audience {
+  class_id: string | null;
+  section_id: string | null;
+}
+
+// "Grade 10" with section "B" reads as "Grade 10-B"
+export function classLabel(className: string, sectionName?: string | null) {
+  return sectionName ? `${className}-${sectionName}` : className;
+}
+
+export function audienceLabel(classes: SchoolClass[], audience: Audience) {
+  if (!audience.class_id) return null;
+
+  const schoolClass = classes.find((c) => c.id === audience.class_id);
+  if (!schoolClass) return null;
+
+  const section = schoolClass.sections.find((s) => s.id === audience.section_id);
+  return classLabel(schoolClass.name, section?.name);
+}
+
+// PostgREST `or` filter matching rows whose audience includes a student with these enrollments
+export function audienceFilter(enrollments: Audience[]) {
+  return [
+    'class_id.is.null',
+    ...enrollments.map((e) =>
+      e.section_id
+        ? `and(class_id.eq.${e.class_id},or(section_id.is.null,section_id.eq.${e.section_id}))`
+        : `and(class_id.eq.${e.class_id},section_id.is.null)`
+    ),
+  ].join(',');
+}
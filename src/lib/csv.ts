@@ -0,0 +1,20 @@
+type CsvValue = string | number | null | undefined;
+
+function escapeCell(value: CsvValue) {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(',')).join('\n');
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]) {
+  const blob = new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
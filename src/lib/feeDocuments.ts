@@ -0,0 +1,28 @@
+import { invokeFunction } from '@/lib/functions';
+
+export type FeeDocumentKind = 'invoice' | 'receipt';
+
+export type FeeDocumentRequest =
+  | { action: 'invoice'; school_code: string; student_id: string }
+  | { action: 'receipt'; payment_id: string }
+  | {
+      action: 'batch';
+      kind: FeeDocumentKind;
+      school_code: string;
+      class_id: string;
+      section_id: string | null;
+      from: string | null;
+      to: string | null;
+    };
+
+// PDFs are numbered and rendered server-side; this only saves the file the function returns
+export async function downloadFeeDocument(request: FeeDocumentRequest, filename: string) {
+  const data = await invokeFunction<Blob>('fee-documents', { ...request, origin: window.location.origin });
+
+  const url = URL.createObjectURL(new Blob([data], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
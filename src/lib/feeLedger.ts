@@ -0,0 +1,27 @@
+export type FeeLedgerKind = 'waiver' | 'refund' | 'credit_note' | 'credit_applied' | 'scholarship';
+
+// An entry in the append-only record of waivers, refunds and credit behind a student's balance
+export interface FeeLedgerEntry {
+  id: string;
+  assignment_id: string | null;
+  kind: string;
+  amount: number;
+  reason: string;
+  payment_id: string | null;
+  created_at: string;
+}
+
+export const feeLedgerKindLabels: Record<FeeLedgerKind, string> = {
+  waiver: 'Waiver',
+  refund: 'Refund',
+  credit_note: 'Credit note',
+  credit_applied: 'Credit applied',
+  scholarship: 'Scholarship',
+};
+
+// Refunds put the amount back on the balance; everything else takes it off
+export function raisesBalance(entry: Pick<FeeLedgerEntry, 'kind'>) {
+  return entry.kind === 'refund';
+}
+
+export const feeLedgerColumns = 'id, assignment_id, kind, amount, reason, payment_id, created_at';
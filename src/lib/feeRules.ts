@@ -0,0 +1,38 @@
+import { formatMoney, type SchoolFormat } from '@/lib/format';
+
+export type FeeRuleKind = 'penalty' | 'discount';
+
+export interface FeeRule {
+  id: string;
+  fee_id: string | null;
+  category: string | null;
+  kind: string;
+  value_type: string;
+  value: number;
+  grace_days: number;
+  recurrence: string;
+  max_amount: number | null;
+  days_before_due: number;
+}
+
+export const feeRuleKindLabels: Record<FeeRuleKind, string> = {
+  penalty: 'Late penalty',
+  discount: 'Early-payment discount',
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// "5% per day from 7 days after the due date, up to $50" or "$10 off when paid 14 days before the due date"
+export function describeFeeRule(rule: FeeRule, school: SchoolFormat | null) {
+  const value = rule.value_type === 'percent' ? `${rule.value}%` : formatMoney(rule.value, school);
+
+  if (rule.kind === 'discount') {
+    return rule.days_before_due > 0
+      ? `${value} off when paid in full ${plural(rule.days_before_due, 'day')} before the due date`
+      : `${value} off when paid in full by the due date`;
+  }
+
+  const start = rule.grace_days > 0 ? `from ${plural(rule.grace_days, 'day')} after the due date` : 'after the due date';
+  const cap = rule.max_amount != null ? `, up to ${formatMoney(rule.max_amount, school)}` : '';
+  return rule.recurrence === 'daily' ? `${value} per day ${start}${cap}` : `${value} once ${start}${cap}`;
+}
@@ -0,0 +1,48 @@
+import { monthNames } from '@/lib/format';
+
+export type FeeFrequency = 'monthly' | 'termly' | 'yearly' | 'custom';
+
+export const feeFrequencies: FeeFrequency[] = ['monthly', 'termly', 'yearly', 'custom'];
+
+export const feeFrequencyLabels: Record<FeeFrequency, string> = {
+  monthly: 'Monthly',
+  termly: 'Every term',
+  yearly: 'Yearly',
+  custom: 'Custom rule',
+};
+
+export interface FeeSchedule {
+  id: string;
+  title: string;
+  description: string | null;
+  amount: number;
+  category: string | null;
+  class_id: string | null;
+  section_id: string | null;
+  frequency: string;
+  day_of_month: number | null;
+  month_of_year: number | null;
+  rule: string | null;
+  starts_on: string;
+  ends_on: string | null;
+  lead_days: number;
+  assign_to_audience: boolean;
+  active: boolean;
+  next_due_on: string | null;
+}
+
+export type ScheduleTiming = Pick<FeeSchedule, 'frequency' | 'day_of_month' | 'month_of_year' | 'rule'>;
+
+// "Monthly on day 5", "Every September 1" or "Custom: 1,15 * *"
+export function describeSchedule(schedule: ScheduleTiming) {
+  switch (schedule.frequency) {
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month}`;
+    case 'yearly':
+      return `Every ${monthNames[(schedule.month_of_year ?? 1) - 1]} ${schedule.day_of_month}`;
+    case 'termly':
+      return 'On the first day of each term';
+    default:
+      return `Custom: ${schedule.rule}`;
+  }
+}
@@ -0,0 +1,82 @@
+// Money and dates are shown in the school's currency and timezone, in the reader's own language
+export interface SchoolFormat {
+  currency: string;
+  timezone: string;
+}
+
+export const schoolCurrencies = ['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'NZD', 'ZAR', 'NGN', 'KES', 'SGD', 'AED', 'JPY'];
+
+export const schoolTimezones = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+export const monthNames = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleString(undefined, { month: 'long' })
+);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function formatMoney(amount: number, school: SchoolFormat | null) {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: school?.currency ?? 'USD',
+  }).format(amount);
+}
+
+export function currencySymbol(school: SchoolFormat | null) {
+  return (
+    new Intl.NumberFormat(undefined, { style: 'currency', currency: school?.currency ?? 'USD' })
+      .formatToParts(0)
+      .find((part) => part.type === 'currency')?.value ?? school?.currency ?? '$'
+  );
+}
+
+// Today's calendar date where the school is, as YYYY-MM-DD, matching school_today in the database
+export function schoolToday(school: SchoolFormat | null, now = new Date()) {
+  return new Intl.DateTimeFormat('en-CA', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: school?.timezone ?? 'UTC',
+  }).format(now);
+}
+
+// Date-only columns such as due dates and deadlines are calendar days, so they are never shifted between timezones
+export function formatDate(value: string | Date, school: SchoolFormat | null) {
+  const dateOnly = typeof value === 'string' && DATE_ONLY.test(value);
+  return new Date(value).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: dateOnly ? 'UTC' : school?.timezone,
+  });
+}
+
+export function formatDateTime(value: string | Date, school: SchoolFormat | null) {
+  return new Date(value).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: school?.timezone,
+    timeZoneName: 'short',
+  });
+}
@@ -0,0 +1,13 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Call an edge function, surfacing its own error message rather than the client's generic one
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(details?.error ?? error.message);
+  }
+  return data as T;
+}
@@ -0,0 +1,42 @@
+export interface Installment {
+  position: number;
+  amount: number;
+  due_date: string;
+}
+
+export interface InstallmentPlan {
+  id: string;
+  fee_id: string;
+  name: string;
+  fee_installments: Installment[];
+}
+
+export const MIN_INSTALLMENTS = 2;
+export const MAX_INSTALLMENTS = 24;
+
+export function addMonths(value: string, months: number) {
+  const date = new Date(value);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  // Keep month-end dates at the end of shorter months rather than spilling over
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.toISOString().slice(0, 10);
+}
+
+// Split an amount into equal monthly parts in cents; the last part takes the rounding remainder
+export function splitInstallments(amount: number, count: number, firstDueDate: string): Installment[] {
+  const cents = Math.round(amount * 100);
+  const part = Math.floor(cents / count);
+
+  return Array.from({ length: count }, (_, i) => ({
+    position: i + 1,
+    amount: (i === count - 1 ? cents - part * (count - 1) : part) / 100,
+    due_date: addMonths(firstDueDate, i),
+  }));
+}
+
+export function installmentsTotal(installments: Pick<Installment, 'amount'>[]) {
+  return Math.round(installments.reduce((sum, i) => sum + i.amount * 100, 0)) / 100;
+}
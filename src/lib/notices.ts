@@ -0,0 +1,35 @@
+export type NoticeStatus = 'draft' | 'scheduled' | 'live' | 'expired';
+
+export const noticeStatuses: NoticeStatus[] = ['draft', 'scheduled', 'live', 'expired'];
+
+export const noticeStatusLabels: Record<NoticeStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  live: 'Live',
+  expired: 'Expired',
+};
+
+interface NoticeWindow {
+  publish_at: string | null;
+  expires_at: string | null;
+}
+
+// Mirrors public.is_notice_live so admins see what students see
+export function getNoticeStatus(notice: NoticeWindow, now = new Date()): NoticeStatus {
+  if (!notice.publish_at) return 'draft';
+  if (new Date(notice.publish_at) > now) return 'scheduled';
+  if (notice.expires_at && new Date(notice.expires_at) <= now) return 'expired';
+  return 'live';
+}
+
+export function isNoticeLive(notice: NoticeWindow, now = new Date()) {
+  return getNoticeStatus(notice, now) === 'live';
+}
+
+// Format an ISO timestamp for a datetime-local input
+export function toDateTimeLocal(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
@@ -0,0 +1,12 @@
+import { invokeFunction } from '@/lib/functions';
+
+export type CheckoutStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled' | 'refunding' | 'refunded';
+
+export type PaymentsRequest =
+  | { action: 'checkout'; assignment_id: string; amount: number; return_url: string }
+  | { action: 'refund'; checkout_id: string }
+  | { action: 'mock_complete'; reference: string; succeeded: boolean };
+
+export function invokePayments<T>(body: PaymentsRequest) {
+  return invokeFunction<T>('payments', body);
+}
@@ -0,0 +1,99 @@
+import { Constants, type Database } from '@/integrations/supabase/types';
+import { invokeFunction } from '@/lib/functions';
+
+export type ApplicationStatus = Database['public']['Enums']['application_status'];
+
+export const applicationStatuses = Constants.public.Enums.application_status;
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  shortlisted: 'Shortlisted',
+  awarded: 'Awarded',
+  rejected: 'Not Selected',
+};
+
+export interface ApplicationAnswer {
+  question_id: string;
+  prompt: string;
+  answer: string;
+}
+
+export type IncomeBracket = 'low' | 'lower_middle' | 'middle' | 'upper_middle' | 'high';
+
+// Lowest first, matching income_bracket_rank in the database
+export const incomeBrackets: IncomeBracket[] = ['low', 'lower_middle', 'middle', 'upper_middle', 'high'];
+
+export const incomeBracketLabels: Record<IncomeBracket, string> = {
+  low: 'Low income',
+  lower_middle: 'Lower-middle income',
+  middle: 'Middle income',
+  upper_middle: 'Upper-middle income',
+  high: 'High income',
+};
+
+export interface EligibilityCriteria {
+  eligible_class_ids: string[];
+  max_income_bracket: string | null;
+  required_documents: string[];
+}
+
+export interface EligibilityCheck {
+  scholarship_id: string;
+  criterion: string;
+  met: boolean;
+}
+
+export const hasEligibilityRules = (criteria: EligibilityCriteria) =>
+  criteria.eligible_class_ids.length > 0 || !!criteria.max_income_bracket;
+
+// Why a student misses each criterion they fail, e.g. "you are not in Grade 10 or Grade 11"
+export function ineligibilityReasons(
+  criteria: EligibilityCriteria,
+  checks: EligibilityCheck[],
+  classes: { id: string; name: string }[],
+  declaredBracket: string | null
+) {
+  return checks
+    .filter((check) => !check.met)
+    .map((check) => {
+      if (check.criterion === 'class') {
+        const names = classes.filter((c) => criteria.eligible_class_ids.includes(c.id)).map((c) => c.name);
+        return names.length ? `you are not in ${names.join(' or ')}` : 'you are not in an eligible class';
+      }
+      if (!declaredBracket) return 'you have not declared your household income bracket';
+      const limit = incomeBracketLabels[criteria.max_income_bracket as IncomeBracket] ?? 'the limit';
+      return `it is for households up to ${limit.toLowerCase()}`;
+    });
+}
+
+export interface RubricCriterion {
+  id?: string;
+  name: string;
+  weight: number;
+  max_score: number;
+}
+
+// Panel averages whose highest and lowest reviewer differ by this many points are flagged for discussion
+export const scoreSpreadThreshold = 20;
+
+// A reviewer's scorecard as a percentage, each criterion counting in proportion to its weight
+export function weightedScore(criteria: RubricCriterion[], scores: Record<string, number>) {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (!totalWeight) return 0;
+  const weighted = criteria.reduce((sum, c) => sum + ((scores[c.id!] ?? 0) / c.max_score) * c.weight, 0);
+  return Math.round((weighted / totalWeight) * 1000) / 10;
+}
+
+// Stands in for the student's name while a scholarship is under blind review
+export const blindApplicantLabel = (applicationId: string) =>
+  `Applicant ${applicationId.slice(0, 6).toUpperCase()}`;
+
+// A short-lived link to an application's file. Blind files are linked without the student's folder or file name.
+export async function scholarshipFileUrl(applicationId: string, fileId: string) {
+  const { url } = await invokeFunction<{ url: string }>('scholarship-files', {
+    application_id: applicationId,
+    file_id: fileId,
+  });
+  return url;
+}
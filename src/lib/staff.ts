@@ -0,0 +1,7 @@
+import type { StaffLevel } from '@/hooks/useSchool';
+
+export const staffLevelLabels: Record<StaffLevel, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  staff: 'Staff',
+};
@@ -0,0 +1,55 @@
+export interface AcademicTerm {
+  id: string;
+  academic_year_id: string;
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  archived_at: string | null;
+}
+
+export interface AcademicYear {
+  id: string;
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  terms: AcademicTerm[];
+}
+
+// Which content a term filter shows: everything not yet archived, or one term's content
+export const ACTIVE_TERM_FILTER = 'active';
+
+// "Term 1" in year "2025/26" reads as "2025/26 · Term 1"
+export function termLabel(years: AcademicYear[], termId: string | null) {
+  if (!termId) return null;
+
+  for (const year of years) {
+    const term = year.terms.find((t) => t.id === termId);
+    if (term) return `${year.name} · ${term.name}`;
+  }
+  return null;
+}
+
+// Days between two date-only values, as the rollover shifts cloned due dates and deadlines
+export function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+export function shiftDate(value: string, days: number) {
+  const date = new Date(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// The academic year starting on or before today, e.g. "2025/26" from the school's start month
+export function suggestAcademicYear(startMonth: number, today = new Date()) {
+  const startYear = today.getMonth() + 1 >= startMonth ? today.getFullYear() : today.getFullYear() - 1;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const starts = `${startYear}-${pad(startMonth)}-01`;
+  const ends = shiftDate(`${startYear + 1}-${pad(startMonth)}-01`, -1);
+
+  return {
+    name: startMonth === 1 ? `${startYear}` : `${startYear}/${(startYear + 1).toString().slice(2)}`,
+    starts_on: starts,
+    ends_on: ends,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate, Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
 import { useUserRole } from '@/hooks/useUserRole';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,28 +10,32 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useToast } from '@/hooks/use-toast';
-import { GraduationCap, Mail, Lock, User, Loader2, School, Users } from 'lucide-react';
+import { GraduationCap, Mail, Lock, User, Loader2, School, Users, KeyRound, BookOpen, HeartHandshake } from 'lucide-react';
 import { z } from 'zod';
 
 const emailSchema = z.string().email('Please enter a valid email address');
 const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
 const nameSchema = z.string().min(2, 'Name must be at least 2 characters').max(100);
 
+type SignUpRole = 'student' | 'teacher' | 'guardian' | 'admin';
+
 export default function Auth() {
   const [isLoading, setIsLoading] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'student' | 'admin'>('student');
+  const [role, setRole] = useState<SignUpRole>('student');
+  const [inviteToken, setInviteToken] = useState('');
   const [errors, setErrors] = useState<{ email?: string; password?: string; name?: string }>({});
 
-  const { signIn, signUp, user, profile, loading } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { signIn, signUp, user, loading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isAdmin, isTeacher, isGuardian, isPendingAdmin, loading: roleLoading } = useUserRole();
   const navigate = useNavigate();
   const { toast } = useToast();
 
   // Wait for loading
-  if (loading || roleLoading) {
+  if (loading || roleLoading || schoolLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -41,12 +46,21 @@ export default function Auth() {
   // Redirect if already authenticated
   if (user) {
     if (isAdmin) {
-      if (profile?.school_code) {
+      if (school) {
         return <Navigate to="/admin" replace />;
       }
       return <Navigate to="/admin/create-school" replace />;
     }
-    if (profile?.school_code) {
+    if (isTeacher) {
+      return <Navigate to="/teacher" replace />;
+    }
+    if (isGuardian) {
+      return <Navigate to="/guardian" replace />;
+    }
+    if (isPendingAdmin) {
+      return <Navigate to="/pending-approval" replace />;
+    }
+    if (school) {
       return <Navigate to="/dashboard" replace />;
     }
     return <Navigate to="/join-school" replace />;
@@ -108,8 +122,17 @@ export default function Auth() {
     e.preventDefault();
     if (!validateForm(true)) return;
 
+    if (role === 'teacher' && !inviteToken.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Invitation required',
+        description: 'Teacher accounts need the invitation code sent by your school.',
+      });
+      return;
+    }
+
     setIsLoading(true);
-    const { error } = await signUp(email, password, fullName, role);
+    const { error } = await signUp(email, password, fullName, role, role === 'admin' || role === 'teacher' ? inviteToken : undefined);
     setIsLoading(false);
 
     if (error) {
@@ -126,11 +149,25 @@ export default function Auth() {
     toast({
       title: 'Account created!',
       description: role === 'admin'
-        ? 'Welcome! Please set up your school.'
+        ? inviteToken.trim()
+          ? 'Welcome! Please set up your school.'
+          : 'Your institute account is awaiting approval.'
+        : role === 'teacher'
+        ? 'Welcome! Your school has been linked to your account.'
+        : role === 'guardian'
+        ? 'Welcome! Ask your child for a link code to get started.'
         : 'Welcome to SchoolConnect. Please join your school.',
     });
 
-    navigate(role === 'admin' ? '/admin/create-school' : '/join-school');
+    navigate(
+      role === 'admin'
+        ? '/admin/create-school'
+        : role === 'teacher'
+        ? '/teacher'
+        : role === 'guardian'
+        ? '/guardian'
+        : '/join-school'
+    );
   };
 
   return (
@@ -218,8 +255,8 @@ export default function Auth() {
                   <Label>I am a</Label>
                   <RadioGroup
                     value={role}
-                    onValueChange={(value) => setRole(value as 'student' | 'admin')}
-                    className="grid grid-cols-2 gap-4"
+                    onValueChange={(value) => setRole(value as SignUpRole)}
+                    className="grid grid-cols-2 sm:grid-cols-4 gap-4"
                   >
                     <div>
                       <RadioGroupItem
@@ -235,6 +272,34 @@ export default function Auth() {
                         <span className="text-sm font-medium">Student</span>
                       </Label>
                     </div>
+                    <div>
+                      <RadioGroupItem
+                        value="teacher"
+                        id="teacher"
+                        className="peer sr-only"
+                      />
+                      <Label
+                        htmlFor="teacher"
+                        className="flex flex-col items-center justify-between rounded-lg border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
+                      >
+                        <BookOpen className="mb-2 h-6 w-6" />
+                        <span className="text-sm font-medium">Teacher</span>
+                      </Label>
+                    </div>
+                    <div>
+                      <RadioGroupItem
+                        value="guardian"
+                        id="guardian"
+                        className="peer sr-only"
+                      />
+                      <Label
+                        htmlFor="guardian"
+                        className="flex flex-col items-center justify-between rounded-lg border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
+                      >
+                        <HeartHandshake className="mb-2 h-6 w-6" />
+                        <span className="text-sm font-medium">Parent</span>
+                      </Label>
+                    </div>
                     <div>
                       <RadioGroupItem
                         value="admin"
@@ -300,6 +365,28 @@ export default function Auth() {
                   </div>
                   {errors.password && <p className="text-sm text-destructive">{errors.password}</p>}
                 </div>
+                {(role === 'admin' || role === 'teacher') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-invite">Invitation Code{role === 'teacher' && ' *'}</Label>
+                    <div className="relative">
+                      <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="signup-invite"
+                        type="text"
+                        placeholder={role === 'teacher' ? 'From your school' : 'Optional'}
+                        value={inviteToken}
+                        onChange={(e) => setInviteToken(e.target.value.toUpperCase())}
+                        className="pl-10 font-mono tracking-widest"
+                        maxLength={20}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {role === 'teacher'
+                        ? 'Use the email address your school sent the invitation to.'
+                        : 'Without an invitation, institute accounts are reviewed before they can manage a school.'}
+                    </p>
+                  </div>
+                )}
               </CardContent>
               <CardFooter>
                 <Button type="submit" className="w-full" disabled={isLoading}>
@@ -1,22 +1,68 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { School, Loader2, LogOut } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { School, Loader2, LogOut, GraduationCap, Hourglass } from 'lucide-react';
+
+const NO_SECTION = 'none';
+
+interface PendingRequest {
+  id: string;
+  school_name: string | null;
+}
 
 export default function JoinSchool() {
   const [schoolCode, setSchoolCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { joinSchool, user, profile, signOut, loading } = useAuth();
+  const [step, setStep] = useState<'code' | 'class'>('code');
+  const [classId, setClassId] = useState('');
+  const [sectionId, setSectionId] = useState(NO_SECTION);
+  const [joinedSchoolCode, setJoinedSchoolCode] = useState<string | null>(null);
+  const [pendingRequest, setPendingRequest] = useState<PendingRequest | null>(null);
+  const { joinSchool, user, signOut, loading } = useAuth();
+  const { isPendingAdmin, isGuardian, isStudent, loading: roleLoading } = useUserRole();
+  const { schools, setActiveSchoolCode, refreshSchool } = useSchool();
+  const { classes } = useClasses(step === 'class' ? joinedSchoolCode : null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!user) return;
+    fetchPendingRequest();
+  }, [user]);
+
+  const fetchPendingRequest = async () => {
+    const { data } = await supabase
+      .from('school_join_requests')
+      .select('id, school_code')
+      .eq('user_id', user!.id)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (!data) {
+      setPendingRequest(null);
+      return;
+    }
+
+    const { data: school } = await supabase
+      .from('schools')
+      .select('name')
+      .eq('school_code', data.school_code)
+      .maybeSingle();
+    setPendingRequest({ id: data.id, school_name: school?.name ?? null });
+  };
+
   // Wait for loading
-  if (loading) {
+  if (loading || roleLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -29,9 +75,14 @@ export default function JoinSchool() {
     return <Navigate to="/auth" replace />;
   }
 
-  // Redirect if already joined a school
-  if (profile?.school_code) {
-    return <Navigate to="/dashboard" replace />;
+  // Redirect institute accounts that are still awaiting approval
+  if (isPendingAdmin) {
+    return <Navigate to="/pending-approval" replace />;
+  }
+
+  // Guardians reach schools through their children instead of joining one
+  if (isGuardian) {
+    return <Navigate to="/guardian" replace />;
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -41,30 +92,120 @@ export default function JoinSchool() {
       toast({
         variant: 'destructive',
         title: 'Invalid code',
-        description: 'Please enter a valid school code.',
+        description: 'Please enter a valid school or invitation code.',
       });
       return;
     }
 
     setIsLoading(true);
-    const { error } = await joinSchool(schoolCode.trim());
-    setIsLoading(false);
+    const { error, pending } = await joinSchool(schoolCode.trim());
+
+    if (pending) {
+      setIsLoading(false);
+      setSchoolCode('');
+      toast({
+        title: 'Request sent',
+        description: 'Your school will review your request to join.',
+      });
+      fetchPendingRequest();
+      return;
+    }
 
     if (error) {
+      setIsLoading(false);
       toast({
         variant: 'destructive',
         title: 'Failed to join school',
         description: error.message,
       });
+      return;
+    }
+
+    toast({
+      title: 'Welcome!',
+      description: 'You have successfully joined your school community.',
+    });
+
+    // The newest membership is the school just joined; switch to it
+    const { data: membership } = await supabase
+      .from('school_memberships')
+      .select('school_code')
+      .eq('user_id', user.id)
+      .order('joined_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const joinedCode = membership?.school_code ?? null;
+
+    if (joinedCode) {
+      setActiveSchoolCode(joinedCode);
+      setJoinedSchoolCode(joinedCode);
+    }
+    await refreshSchool();
+
+    // Students pick their class next when the school has set classes up and their invitation did not place them
+    const { data: schoolClasses } =
+      isStudent && joinedCode
+        ? await supabase.from('classes').select('id').eq('school_code', joinedCode)
+        : { data: [] };
+    const classIds = (schoolClasses ?? []).map((c) => c.id);
+    const { count: enrollmentCount } = classIds.length
+      ? await supabase
+          .from('class_enrollments')
+          .select('id', { count: 'exact', head: true })
+          .eq('student_id', user.id)
+          .in('class_id', classIds)
+      : { count: 0 };
+
+    setIsLoading(false);
+    if (classIds.length && !enrollmentCount) {
+      setStep('class');
     } else {
+      navigate('/dashboard');
+    }
+  };
+
+  const handleChooseClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    const { error } = await supabase.rpc('choose_class', {
+      _class_id: classId,
+      _section_id: sectionId === NO_SECTION ? undefined : sectionId,
+    });
+    setIsLoading(false);
+
+    if (error) {
       toast({
-        title: 'Welcome!',
-        description: 'You have successfully joined your school community.',
+        variant: 'destructive',
+        title: 'Could not join class',
+        description: error.message,
       });
-      navigate('/dashboard');
+      return;
+    }
+
+    navigate('/dashboard');
+  };
+
+  const handleWithdraw = async () => {
+    const { error } = await supabase
+      .from('school_join_requests')
+      .delete()
+      .eq('id', pendingRequest!.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
     }
+
+    setPendingRequest(null);
   };
 
+  const sections = classes.find((c) => c.id === classId)?.sections ?? [];
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/auth');
@@ -77,49 +218,102 @@ export default function JoinSchool() {
         <div className="absolute bottom-20 right-10 w-96 h-96 bg-accent/10 rounded-full blur-3xl" />
       </div>
 
-      <Card className="w-full max-w-md relative backdrop-blur-sm bg-card/95">
-        <CardHeader className="text-center space-y-4">
-          <div className="mx-auto w-16 h-16 bg-accent rounded-2xl flex items-center justify-center shadow-lg">
-            <School className="h-8 w-8 text-accent-foreground" />
-          </div>
-          <div>
-            <CardTitle className="text-2xl font-bold">Join Your School</CardTitle>
-            <CardDescription className="mt-2">
-              Enter your school's unique code to access your community
-            </CardDescription>
-          </div>
-        </CardHeader>
-
-        <form onSubmit={handleSubmit}>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="school-code">School Code</Label>
-              <Input
-                id="school-code"
-                type="text"
-                placeholder="e.g., DEMO2024"
-                value={schoolCode}
-                onChange={(e) => setSchoolCode(e.target.value.toUpperCase())}
-                className="text-center text-lg font-mono tracking-widest"
-                maxLength={20}
-                required
-              />
-              <p className="text-xs text-muted-foreground text-center">
-                Ask your school administrator for the code
-              </p>
+      {step === 'class' ? (
+        <Card className="w-full max-w-md relative backdrop-blur-sm bg-card/95">
+          <CardHeader className="text-center space-y-4">
+            <div className="mx-auto w-16 h-16 bg-accent rounded-2xl flex items-center justify-center shadow-lg">
+              <GraduationCap className="h-8 w-8 text-accent-foreground" />
             </div>
-          </CardContent>
+            <div>
+              <CardTitle className="text-2xl font-bold">Choose Your Class</CardTitle>
+              <CardDescription className="mt-2">
+                You'll receive the notices, fees and scholarships meant for your class
+              </CardDescription>
+            </div>
+          </CardHeader>
 
-          <CardFooter className="flex flex-col gap-3">
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Joining...
-                </>
-              ) : (
-                'Join School'
+          <form onSubmit={handleChooseClass}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="class">Class</Label>
+                <Select
+                  value={classId}
+                  onValueChange={(value) => {
+                    setClassId(value);
+                    setSectionId(NO_SECTION);
+                  }}
+                >
+                  <SelectTrigger id="class">
+                    <SelectValue placeholder="Select your class" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classes.map((schoolClass) => (
+                      <SelectItem key={schoolClass.id} value={schoolClass.id}>
+                        {schoolClass.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {sections.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="section">Section</Label>
+                  <Select value={sectionId} onValueChange={setSectionId}>
+                    <SelectTrigger id="section">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SECTION}>Not sure yet</SelectItem>
+                      {sections.map((section) => (
+                        <SelectItem key={section.id} value={section.id}>
+                          {section.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               )}
+            </CardContent>
+
+            <CardFooter className="flex flex-col gap-3">
+              <Button type="submit" className="w-full" disabled={isLoading || !classId}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Joining...
+                  </>
+                ) : (
+                  'Join Class'
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => navigate('/dashboard')}
+              >
+                Skip for now
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      ) : pendingRequest ? (
+        <Card className="w-full max-w-md relative backdrop-blur-sm bg-card/95">
+          <CardHeader className="text-center space-y-4">
+            <div className="mx-auto w-16 h-16 bg-accent rounded-2xl flex items-center justify-center shadow-lg">
+              <Hourglass className="h-8 w-8 text-accent-foreground" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-bold">Waiting for Approval</CardTitle>
+              <CardDescription className="mt-2">
+                {pendingRequest.school_name ?? 'Your school'} needs to approve your request to join. Check back soon.
+              </CardDescription>
+            </div>
+          </CardHeader>
+
+          <CardFooter className="flex flex-col gap-3">
+            <Button variant="outline" className="w-full" onClick={handleWithdraw}>
+              Withdraw Request
             </Button>
             <Button
               type="button"
@@ -131,8 +325,78 @@ export default function JoinSchool() {
               Sign out
             </Button>
           </CardFooter>
-        </form>
-      </Card>
+        </Card>
+      ) : (
+        <Card className="w-full max-w-md relative backdrop-blur-sm bg-card/95">
+          <CardHeader className="text-center space-y-4">
+            <div className="mx-auto w-16 h-16 bg-accent rounded-2xl flex items-center justify-center shadow-lg">
+              <School className="h-8 w-8 text-accent-foreground" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-bold">
+                {schools.length > 0 ? 'Join Another School' : 'Join Your School'}
+              </CardTitle>
+              <CardDescription className="mt-2">
+                Enter your school's join code or an invitation code to access your community
+              </CardDescription>
+            </div>
+          </CardHeader>
+
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="school-code">School or Invitation Code</Label>
+                <Input
+                  id="school-code"
+                  type="text"
+                  placeholder="e.g., DEMO2024"
+                  value={schoolCode}
+                  onChange={(e) => setSchoolCode(e.target.value.toUpperCase())}
+                  className="text-center text-lg font-mono tracking-widest"
+                  maxLength={20}
+                  required
+                />
+                <p className="text-xs text-muted-foreground text-center">
+                  Ask your school administrator for a code
+                </p>
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex flex-col gap-3">
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Joining...
+                  </>
+                ) : (
+                  'Join School'
+                )}
+              </Button>
+              {schools.length > 0 ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => navigate('/dashboard')}
+                >
+                  Back to dashboard
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={handleSignOut}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out
+                </Button>
+              )}
+            </CardFooter>
+          </form>
+        </Card>
+      )}
     </div>
   );
 }
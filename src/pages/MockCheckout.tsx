@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { invokePayments } from '@/lib/payments';
+import { CreditCard, Loader2 } from 'lucide-react';
+
+/**
+ * The mock payment provider's hosted checkout, for developing payments without a live provider.
+ * Paying or declining sends the same signed webhook a real provider would.
+ */
+export default function MockCheckout() {
+  const { user, loading: authLoading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const [checkout, setCheckout] = useState<{ amount: number; currency: string; status: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<'pay' | 'decline' | null>(null);
+
+  const reference = searchParams.get('reference') ?? '';
+  const returnUrl = searchParams.get('return') ?? '/dashboard/fees';
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('payment_checkouts')
+      .select('amount, currency, status')
+      .eq('provider', 'mock')
+      .eq('provider_reference', reference)
+      .maybeSingle()
+      .then(({ data }) => {
+        setCheckout(data);
+        setLoading(false);
+      });
+  }, [user, reference]);
+
+  const complete = async (succeeded: boolean) => {
+    setSubmitting(succeeded ? 'pay' : 'decline');
+    try {
+      await invokePayments({ action: 'mock_complete', reference, succeeded });
+      window.location.assign(returnUrl);
+    } catch (error) {
+      setSubmitting(null);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The mock payment failed.',
+      });
+    }
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const amount = checkout
+    ? new Intl.NumberFormat(undefined, { style: 'currency', currency: checkout.currency }).format(checkout.amount)
+    : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-accent/10 rounded-xl flex items-center justify-center mx-auto mb-2">
+            <CreditCard className="h-6 w-6 text-accent" />
+          </div>
+          <CardTitle>Mock checkout</CardTitle>
+          <CardDescription>Test payments only. No money is moved.</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          {!checkout ? (
+            <p className="text-muted-foreground">This checkout could not be found.</p>
+          ) : checkout.status !== 'pending' ? (
+            <p className="text-muted-foreground">This checkout has already been completed.</p>
+          ) : (
+            <p className="text-3xl font-bold">{amount}</p>
+          )}
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          {checkout?.status === 'pending' ? (
+            <>
+              <Button variant="outline" className="flex-1" disabled={!!submitting} onClick={() => complete(false)}>
+                {submitting === 'decline' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Decline
+              </Button>
+              <Button className="flex-1" disabled={!!submitting} onClick={() => complete(true)}>
+                {submitting === 'pay' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Pay {amount}
+              </Button>
+            </>
+          ) : (
+            <Button className="w-full" onClick={() => window.location.assign(returnUrl)}>
+              Back to fees
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
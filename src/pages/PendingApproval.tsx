@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Hourglass, Loader2, LogOut, XCircle } from 'lucide-react';
+
+export default function PendingApproval() {
+  const [inviteToken, setInviteToken] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { user, redeemInvitation, signOut, loading: authLoading } = useAuth();
+  const { isAdmin, accessRequestStatus, refreshRole, loading: roleLoading } = useUserRole();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Wait for loading
+  if (authLoading || roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  // Redirect once admin access has been granted
+  if (isAdmin) {
+    return <Navigate to="/admin/create-school" replace />;
+  }
+
+  // Redirect students who never asked for institute access
+  if (!accessRequestStatus) {
+    return <Navigate to="/join-school" replace />;
+  }
+
+  const isRejected = accessRequestStatus === 'rejected';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (inviteToken.trim().length < 6) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid code',
+        description: 'Please enter the invitation code you received.',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    const { error } = await redeemInvitation(inviteToken);
+
+    if (error) {
+      setIsLoading(false);
+      toast({
+        variant: 'destructive',
+        title: 'Could not redeem invitation',
+        description: error.message,
+      });
+      return;
+    }
+
+    await refreshRole();
+    setIsLoading(false);
+
+    toast({
+      title: 'Access granted!',
+      description: 'Please set up your school.',
+    });
+    navigate('/admin/create-school');
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-20 left-10 w-72 h-72 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-20 right-10 w-96 h-96 bg-accent/10 rounded-full blur-3xl" />
+      </div>
+
+      <Card className="w-full max-w-md relative backdrop-blur-sm bg-card/95">
+        <CardHeader className="text-center space-y-4">
+          <div className="mx-auto w-16 h-16 bg-primary rounded-2xl flex items-center justify-center shadow-lg">
+            {isRejected ? (
+              <XCircle className="h-8 w-8 text-primary-foreground" />
+            ) : (
+              <Hourglass className="h-8 w-8 text-primary-foreground" />
+            )}
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold">
+              {isRejected ? 'Request Declined' : 'Awaiting Approval'}
+            </CardTitle>
+            <CardDescription className="mt-2">
+              {isRejected
+                ? 'Your institute account request was not approved. Contact support if you believe this is a mistake.'
+                : 'Your institute account is being reviewed. You can also enter an invitation code from an existing administrator.'}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-token">Invitation Code</Label>
+              <Input
+                id="invite-token"
+                type="text"
+                placeholder="e.g., 3F9A1C7B2D4E"
+                value={inviteToken}
+                onChange={(e) => setInviteToken(e.target.value.toUpperCase())}
+                className="text-center text-lg font-mono tracking-widest"
+                maxLength={20}
+                required
+              />
+              <p className="text-xs text-muted-foreground text-center">
+                Invitations only work for the email address they were sent to
+              </p>
+            </div>
+          </CardContent>
+
+          <CardFooter className="flex flex-col gap-3">
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Checking...
+                </>
+              ) : (
+                'Redeem Invitation'
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={handleSignOut}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
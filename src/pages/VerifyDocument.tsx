@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate, formatMoney } from '@/lib/format';
+import { BadgeCheck, Loader2, ShieldQuestion } from 'lucide-react';
+
+interface VerifiedDocument {
+  reference: string;
+  kind: string;
+  school_name: string;
+  student_name: string | null;
+  total: number;
+  currency: string;
+  issued_at: string;
+}
+
+/**
+ * Public check of a printed invoice or receipt against its verification code.
+ */
+export default function VerifyDocument() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code ?? '');
+  const [document, setDocument] = useState<VerifiedDocument | null>(null);
+  const [loading, setLoading] = useState(!!code);
+
+  useEffect(() => {
+    if (!code) return;
+
+    setLoading(true);
+    supabase.rpc('verify_fee_document', { _code: code }).then(({ data }) => {
+      setDocument(data?.[0] ?? null);
+      setLoading(false);
+    });
+  }, [code]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) navigate(`/verify/${input.trim().toUpperCase()}`);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Verify a document</CardTitle>
+          <CardDescription>Enter the verification code printed at the bottom of an invoice or receipt.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              placeholder="e.g., 3F9A0C21B7DE"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="font-mono uppercase"
+            />
+            <Button type="submit">Check</Button>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : document ? (
+            <div className="rounded-lg border border-green-600/40 bg-green-600/5 p-4 space-y-1">
+              <p className="font-semibold flex items-center gap-2 text-green-700">
+                <BadgeCheck className="h-5 w-5" />
+                Genuine {document.kind} {document.reference}
+              </p>
+              <p className="text-sm">Issued by {document.school_name}</p>
+              {document.student_name && <p className="text-sm">For {document.student_name}</p>}
+              <p className="text-sm">
+                {formatMoney(document.total, { currency: document.currency, timezone: 'UTC' })} ·{' '}
+                {formatDate(document.issued_at, null)}
+              </p>
+            </div>
+          ) : code ? (
+            <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-4">
+              <p className="font-semibold flex items-center gap-2 text-destructive">
+                <ShieldQuestion className="h-5 w-5" />
+                No document matches this code
+              </p>
+              <p className="text-sm text-muted-foreground">Check the code and try again, or contact the school.</p>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
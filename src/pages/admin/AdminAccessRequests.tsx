@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, Loader2, ShieldCheck, X } from 'lucide-react';
+
+interface AccessRequest {
+  id: string;
+  institute_name: string;
+  created_at: string;
+}
+
+export default function AdminAccessRequests() {
+  const { loading: authLoading } = useAuth();
+  const { isPlatformReviewer, loading: roleLoading } = useUserRole();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isPlatformReviewer) return;
+    fetchRequests();
+  }, [isPlatformReviewer]);
+
+  const fetchRequests = async () => {
+    const { data, error } = await supabase
+      .from('admin_access_requests')
+      .select('id, institute_name, created_at')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (!error && data) {
+      setRequests(data);
+    }
+    setLoading(false);
+  };
+
+  const handleReview = async (requestIds: string[], approve: boolean) => {
+    const { data, error } = await supabase.rpc('review_admin_access_requests', {
+      _request_ids: requestIds,
+      _approve: approve,
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? 'Institutes approved' : 'Institutes rejected',
+      description: `${data} request${data === 1 ? '' : 's'} ${approve ? 'approved' : 'rejected'}.`,
+    });
+    fetchRequests();
+  };
+
+  if (authLoading || roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isPlatformReviewer) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Institute Accounts</h1>
+            <p className="text-muted-foreground">Approve accounts before they can create and run a school</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : requests.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-muted-foreground">No accounts are waiting for review.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <div className="divide-y">
+              {requests.map((request) => (
+                <div key={request.id} className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{request.institute_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Asked {new Date(request.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="icon" title="Approve" onClick={() => handleReview([request.id], true)}>
+                      <Check className="h-4 w-4 text-green-600" />
+                    </Button>
+                    <Button variant="outline" size="icon" title="Reject" onClick={() => handleReview([request.id], false)}>
+                      <X className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClassMembersDialog } from '@/components/classes/ClassMembersDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Loader2, Plus, School, UserMinus, Users, X } from 'lucide-react';
+
+const NO_SECTION = 'none';
+
+interface RosterEntry {
+  id: string;
+  student_id: string;
+  full_name: string;
+  section_id: string | null;
+  enrolled_at: string;
+}
+
+export default function AdminClassRoster() {
+  const { classId } = useParams<{ classId: string }>();
+  const { loading: authLoading } = useAuth();
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { school, loading: schoolLoading } = useSchool();
+  const { classes, loading: classesLoading, refreshClasses } = useClasses(school?.school_code);
+  const { toast } = useToast();
+
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sectionName, setSectionName] = useState('');
+  const [isAddingSection, setIsAddingSection] = useState(false);
+  const [isManagingMembers, setIsManagingMembers] = useState(false);
+
+  const schoolClass = classes.find((c) => c.id === classId);
+
+  useEffect(() => {
+    if (!classId) return;
+    fetchRoster();
+  }, [classId]);
+
+  const fetchRoster = async () => {
+    const { data: enrollments, error } = await supabase
+      .from('class_enrollments')
+      .select('id, student_id, section_id, created_at')
+      .eq('class_id', classId!);
+
+    if (error || !enrollments) {
+      setLoading(false);
+      return;
+    }
+
+    const studentIds = enrollments.map((e) => e.student_id);
+    const { data: profiles } = studentIds.length
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', studentIds)
+      : { data: [] };
+    const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+    setRoster(
+      enrollments
+        .map((e) => ({
+          id: e.id,
+          student_id: e.student_id,
+          full_name: names.get(e.student_id) ?? 'Unknown student',
+          section_id: e.section_id,
+          enrolled_at: e.created_at,
+        }))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name))
+    );
+    setLoading(false);
+  };
+
+  const handleAddSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classId) return;
+
+    setIsAddingSection(true);
+    const { error } = await supabase
+      .from('class_sections')
+      .insert({ class_id: classId, name: sectionName.trim() });
+    setIsAddingSection(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.code === '23505' ? 'This class already has a section with that name.' : error.message,
+      });
+      return;
+    }
+
+    setSectionName('');
+    refreshClasses();
+  };
+
+  const handleDeleteSection = async (id: string) => {
+    const { error } = await supabase
+      .from('class_sections')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Section deleted',
+      description: 'Its students stay in the class without a section.',
+    });
+    refreshClasses();
+    fetchRoster();
+  };
+
+  const handleMoveSection = async (entry: RosterEntry, sectionId: string) => {
+    const { error } = await supabase
+      .from('class_enrollments')
+      .update({ section_id: sectionId === NO_SECTION ? null : sectionId })
+      .eq('id', entry.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    fetchRoster();
+  };
+
+  const handleRemove = async (entry: RosterEntry) => {
+    const { error } = await supabase
+      .from('class_enrollments')
+      .delete()
+      .eq('id', entry.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Student removed',
+      description: `${entry.full_name} is no longer on this roster.`,
+    });
+    fetchRoster();
+  };
+
+  if (authLoading || roleLoading || schoolLoading || classesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/admin/create-school" replace />;
+  }
+
+  if (!schoolClass) {
+    return <Navigate to="/admin/classes" replace />;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/admin/classes" title="Back to classes">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+              <School className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">{schoolClass.name}</h1>
+              <p className="text-muted-foreground">
+                {roster.length} student{roster.length === 1 ? '' : 's'} on the roster
+              </p>
+            </div>
+          </div>
+
+          <Button onClick={() => setIsManagingMembers(true)}>
+            <Users className="h-4 w-4 mr-2" />
+            Teachers and Students
+          </Button>
+        </div>
+
+        {/* Sections */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Sections</CardTitle>
+            <CardDescription>Split the class into sections such as "A" and "B"</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {schoolClass.sections.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {schoolClass.sections.map((section) => (
+                  <Badge key={section.id} variant="secondary" className="gap-1 pr-1">
+                    {section.name}
+                    <button
+                      type="button"
+                      title="Delete section"
+                      onClick={() => handleDeleteSection(section.id)}
+                      className="rounded-full p-0.5 hover:bg-muted"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <form onSubmit={handleAddSection} className="flex gap-2">
+              <Input
+                placeholder="e.g., B"
+                value={sectionName}
+                onChange={(e) => setSectionName(e.target.value)}
+                className="max-w-xs"
+              />
+              <Button type="submit" variant="outline" disabled={isAddingSection || !sectionName.trim()}>
+                {isAddingSection ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Section
+                  </>
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Roster */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : roster.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <Users className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No students enrolled</h3>
+              <p className="text-muted-foreground">
+                Add students here, or let them pick this class when they join your school.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Enrolled</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roster.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{entry.full_name}</TableCell>
+                    <TableCell>
+                      {schoolClass.sections.length === 0 ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <Select
+                          value={entry.section_id ?? NO_SECTION}
+                          onValueChange={(value) => handleMoveSection(entry, value)}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_SECTION}>No section</SelectItem>
+                            {schoolClass.sections.map((section) => (
+                              <SelectItem key={section.id} value={section.id}>
+                                {section.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(entry.enrolled_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" title="Remove from class" onClick={() => handleRemove(entry)}>
+                        <UserMinus className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+
+      <ClassMembersDialog
+        schoolClass={isManagingMembers ? schoolClass : null}
+        schoolCode={school.school_code}
+        onOpenChange={setIsManagingMembers}
+        onSaved={fetchRoster}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
+import { ClassMembersDialog } from '@/components/classes/ClassMembersDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
+import type { SchoolClass } from '@/lib/classes';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { School, Plus, Edit, Trash2, Loader2, Users, BookOpen } from 'lucide-react';
+
+interface ClassSummary {
+  teachers: string[];
+  students: number;
+}
+
+export default function AdminClasses() {
+  const { loading: authLoading } = useAuth();
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { school, loading: schoolLoading } = useSchool();
+  const { classes, loading, refreshClasses } = useClasses(school?.school_code);
+  const { toast } = useToast();
+
+  const [summaries, setSummaries] = useState<Record<string, ClassSummary>>({});
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [managingClass, setManagingClass] = useState<SchoolClass | null>(null);
+
+  useEffect(() => {
+    if (!school?.school_code) return;
+    fetchSummaries();
+  }, [school?.school_code, classes]);
+
+  const fetchSummaries = async () => {
+    const classIds = classes.map((c) => c.id);
+    if (classIds.length === 0) {
+      setSummaries({});
+      return;
+    }
+
+    const [teachersRes, enrollmentsRes, membersRes] = await Promise.all([
+      supabase.from('class_teachers').select('class_id, teacher_id').in('class_id', classIds),
+      supabase.from('class_enrollments').select('class_id').in('class_id', classIds),
+      supabase
+        .from('school_members')
+        .select('user_id, full_name')
+        .eq('school_code', school!.school_code)
+        .eq('role', 'teacher'),
+    ]);
+
+    const names = new Map((membersRes.data ?? []).map((m) => [m.user_id, m.full_name]));
+    const next: Record<string, ClassSummary> = {};
+    classIds.forEach((id) => {
+      next[id] = { teachers: [], students: 0 };
+    });
+    (teachersRes.data ?? []).forEach((t) => {
+      next[t.class_id]?.teachers.push(names.get(t.teacher_id) ?? 'Unknown teacher');
+    });
+    (enrollmentsRes.data ?? []).forEach((e) => {
+      if (next[e.class_id]) next[e.class_id].students += 1;
+    });
+    setSummaries(next);
+  };
+
+  const resetForm = () => {
+    setName('');
+    setEditingId(null);
+  };
+
+  const openEditDialog = (schoolClass: SchoolClass) => {
+    setName(schoolClass.name);
+    setEditingId(schoolClass.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!school?.school_code) return;
+
+    setIsSubmitting(true);
+
+    const { error } = editingId
+      ? await supabase.from('classes').update({ name: name.trim() }).eq('id', editingId)
+      : await supabase.from('classes').insert({ school_code: school.school_code, name: name.trim() });
+
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.code === '23505' ? 'A class with this name already exists.' : error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: editingId ? 'Class updated' : 'Class added',
+      description: editingId ? 'The class has been renamed.' : 'Assign teachers and students to get started.',
+    });
+
+    setIsDialogOpen(false);
+    resetForm();
+    refreshClasses();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from('classes')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Class deleted',
+      description: 'The class and its notices have been removed.',
+    });
+    refreshClasses();
+  };
+
+  if (authLoading || roleLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/admin/create-school" replace />;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+              <School className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Classes</h1>
+              <p className="text-muted-foreground">Organise students and assign their teachers</p>
+            </div>
+          </div>
+
+          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Class
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingId ? 'Rename Class' : 'Add New Class'}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    placeholder="e.g., Grade 10 Science"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isSubmitting || !name.trim()}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Saving...
+                      </>
+                    ) : editingId ? 'Update' : 'Add Class'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Content */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : classes.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <School className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No classes yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Create classes so teachers can reach their students.
+              </p>
+              <Button onClick={() => setIsDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Class
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {classes.map((schoolClass) => {
+              const summary = summaries[schoolClass.id];
+              return (
+                <Card key={schoolClass.id} className="hover:shadow-md transition-shadow">
+                  <CardContent className="p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          <Link to={`/admin/classes/${schoolClass.id}`} className="font-semibold text-lg hover:underline">
+                            {schoolClass.name}
+                          </Link>
+                          {schoolClass.sections.map((section) => (
+                            <Badge key={section.id} variant="outline">{section.name}</Badge>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            <span>
+                              {summary?.students ?? 0} student{summary?.students === 1 ? '' : 's'}
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <BookOpen className="h-4 w-4" />
+                            {summary?.teachers.length ? (
+                              summary.teachers.map((teacher) => (
+                                <Badge key={teacher} variant="secondary">{teacher}</Badge>
+                              ))
+                            ) : (
+                              <span>No teacher assigned</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="icon" title="Teachers and students" onClick={() => setManagingClass(schoolClass)}>
+                          <Users className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => openEditDialog(schoolClass)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => handleDelete(schoolClass.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <ClassMembersDialog
+        schoolClass={managingClass}
+        schoolCode={school.school_code}
+        onOpenChange={(open) => !open && setManagingClass(null)}
+        onSaved={fetchSummaries}
+      />
+    </DashboardLayout>
+  );
+}
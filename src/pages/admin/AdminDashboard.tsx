@@ -5,43 +5,68 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useSchool } from '@/hooks/useSchool';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
 import { supabase } from '@/integrations/supabase/client';
-import { Award, CreditCard, Bell, Users, Copy, Check, Loader2 } from 'lucide-react';
+import { formatMoney } from '@/lib/format';
+import { Award, CreditCard, Bell, Users, Copy, Check, Loader2, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface Stats {
+  students: number;
   scholarships: number;
   fees: number;
   notices: number;
+  disbursedAid: number;
 }
 
 export default function AdminDashboard() {
   const { profile, loading: authLoading } = useAuth();
   const { isAdmin, loading: roleLoading } = useUserRole();
   const { school, loading: schoolLoading } = useSchool();
-  const [stats, setStats] = useState<Stats>({ scholarships: 0, fees: 0, notices: 0 });
+  const [stats, setStats] = useState<Stats>({
+    students: 0,
+    scholarships: 0,
+    fees: 0,
+    notices: 0,
+    disbursedAid: 0,
+  });
   const [copied, setCopied] = useState(false);
 
   useEffect(() => {
     if (!school?.school_code) return;
-
-    const fetchStats = async () => {
-      const [scholarshipsRes, feesRes, noticesRes] = await Promise.all([
-        supabase.from('scholarships').select('id', { count: 'exact' }).eq('school_code', school.school_code),
-        supabase.from('fees').select('id', { count: 'exact' }).eq('school_code', school.school_code),
-        supabase.from('notices').select('id', { count: 'exact' }).eq('school_code', school.school_code),
-      ]);
-
-      setStats({
-        scholarships: scholarshipsRes.count || 0,
-        fees: feesRes.count || 0,
-        notices: noticesRes.count || 0,
-      });
-    };
-
     fetchStats();
   }, [school?.school_code]);
 
+  useRealtimeTable('scholarships', school?.school_code, () => fetchStats());
+  useRealtimeTable('fees', school?.school_code, () => fetchStats());
+  useRealtimeTable('notices', school?.school_code, () => fetchStats());
+
+  const fetchStats = async () => {
+    const [studentsRes, scholarshipsRes, feesRes, noticesRes, aidRes] = await Promise.all([
+      supabase.from('student_directory').select('user_id', { count: 'exact' }).eq('school_code', school!.school_code),
+      supabase
+        .from('scholarships')
+        .select('id', { count: 'exact' })
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null),
+      supabase.from('fees').select('id', { count: 'exact' }).eq('school_code', school!.school_code).is('archived_at', null),
+      supabase
+        .from('notices')
+        .select('id', { count: 'exact' })
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null),
+      supabase.rpc('get_disbursed_aid', { _school_code: school!.school_code }),
+    ]);
+
+    setStats({
+      students: studentsRes.count || 0,
+      scholarships: scholarshipsRes.count || 0,
+      fees: feesRes.count || 0,
+      notices: noticesRes.count || 0,
+      disbursedAid: aidRes.data ?? 0,
+    });
+  };
+
   if (authLoading || roleLoading || schoolLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -59,7 +84,7 @@ export default function AdminDashboard() {
   }
 
   const copyCode = () => {
-    navigator.clipboard.writeText(school.school_code);
+    navigator.clipboard.writeText(school.join_code);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -82,8 +107,8 @@ export default function AdminDashboard() {
           <CardContent className="p-6">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
               <div>
-                <p className="text-sm opacity-90 mb-1">Your School Code</p>
-                <p className="text-3xl font-bold font-mono tracking-widest">{school.school_code}</p>
+                <p className="text-sm opacity-90 mb-1">Your Join Code</p>
+                <p className="text-3xl font-bold font-mono tracking-widest">{school.join_code}</p>
                 <p className="text-sm opacity-90 mt-2">{school.name}</p>
               </div>
               <Button
@@ -102,13 +127,30 @@ export default function AdminDashboard() {
         </Card>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Students</p>
+                  <p className="text-3xl font-bold">{stats.students}</p>
+                </div>
+                <div className="w-12 h-12 bg-primary/20 rounded-xl flex items-center justify-center">
+                  <GraduationCap className="h-6 w-6 text-primary" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card className="bg-gradient-to-br from-secondary/10 to-secondary/5 border-secondary/20">
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Scholarships</p>
                   <p className="text-3xl font-bold">{stats.scholarships}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatMoney(stats.disbursedAid, school)} aid disbursed
+                  </p>
                 </div>
                 <div className="w-12 h-12 bg-secondary/20 rounded-xl flex items-center justify-center">
                   <Award className="h-6 w-6 text-secondary" />
@@ -151,10 +193,11 @@ export default function AdminDashboard() {
           <CardContent className="p-6">
             <h3 className="font-semibold mb-4">Quick Tips</h3>
             <ul className="space-y-2 text-sm text-muted-foreground">
+              <li>• Go to <strong>Students</strong> to see who has joined and manage their classes</li>
               <li>• Go to <strong>Scholarships</strong> to add and manage scholarship opportunities</li>
               <li>• Go to <strong>Fees</strong> to post fee information for students</li>
               <li>• Go to <strong>Notices</strong> to send announcements to your school community</li>
-              <li>• Share your school code with students so they can join</li>
+              <li>• Share your join code, or create invitation codes in <strong>Settings</strong>, so students can join</li>
             </ul>
           </CardContent>
         </Card>
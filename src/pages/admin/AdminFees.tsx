@@ -6,13 +6,30 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AssignFeeDialog } from '@/components/fees/AssignFeeDialog';
+import { FeeLedgerDialog } from '@/components/fees/FeeLedgerDialog';
+import { FeeDocumentsDialog } from '@/components/fees/FeeDocumentsDialog';
+import { FeeScheduleManager } from '@/components/fees/FeeScheduleManager';
+import { FeeRulesManager } from '@/components/fees/FeeRulesManager';
+import { InstallmentPlansEditor, type InstallmentPlanDraft } from '@/components/fees/InstallmentPlansEditor';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { TermFilter } from '@/components/terms/TermFilter';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
+import { useTerms } from '@/hooks/useTerms';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { CreditCard, Plus, Edit, Trash2, Loader2, Calendar, DollarSign, Tag } from 'lucide-react';
+import { audienceLabel, type Audience } from '@/lib/classes';
+import { currencySymbol, formatDate, formatMoney } from '@/lib/format';
+import { installmentsTotal, type InstallmentPlan } from '@/lib/installments';
+import { ACTIVE_TERM_FILTER, termLabel } from '@/lib/terms';
+import { CreditCard, Plus, Edit, Trash2, Loader2, Calendar, Banknote, Tag, UserPlus, Receipt, Users, CalendarRange, Repeat, CalendarClock, Layers, FileText } from 'lucide-react';
 
 interface Fee {
   id: string;
@@ -21,12 +38,21 @@ interface Fee {
   amount: number;
   due_date: string | null;
   category: string | null;
+  class_id: string | null;
+  section_id: string | null;
+  term_id: string | null;
+  recurs_each_term: boolean;
+  archived_at: string | null;
+  schedule_id: string | null;
+  fee_installment_plans: { id: string }[];
 }
 
 export default function AdminFees() {
   const { loading: authLoading } = useAuth();
   const { isAdmin, loading: roleLoading } = useUserRole();
   const { school, loading: schoolLoading } = useSchool();
+  const { classes } = useClasses(school?.school_code);
+  const { years } = useTerms(school?.school_code);
   const { toast } = useToast();
   
   const [fees, setFees] = useState<Fee[]>([]);
@@ -34,6 +60,14 @@ export default function AdminFees() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [assignToAll, setAssignToAll] = useState(true);
+  const [assigningFee, setAssigningFee] = useState<Fee | null>(null);
+  const [ledgerFee, setLedgerFee] = useState<Fee | null>(null);
+  const [isDocumentsOpen, setIsDocumentsOpen] = useState(false);
+  const [termFilter, setTermFilter] = useState(ACTIVE_TERM_FILTER);
+  const [plans, setPlans] = useState<InstallmentPlan[]>([]);
+  const [planDrafts, setPlanDrafts] = useState<InstallmentPlanDraft[]>([]);
+  const [removedPlanIds, setRemovedPlanIds] = useState<string[]>([]);
   
   const [formData, setFormData] = useState({
     title: '',
@@ -41,19 +75,26 @@ export default function AdminFees() {
     amount: '',
     due_date: '',
     category: '',
+    audience: { class_id: null, section_id: null } as Audience,
+    recurs_each_term: false,
   });
 
   useEffect(() => {
     if (!school?.school_code) return;
     fetchFees();
-  }, [school?.school_code]);
+  }, [school?.school_code, termFilter]);
+
+  // Keep the list in step with changes made by other administrators
+  useRealtimeTable('fees', school?.school_code, () => fetchFees());
 
   const fetchFees = async () => {
-    const { data, error } = await supabase
+    let query = supabase
       .from('fees')
-      .select('*')
-      .eq('school_code', school!.school_code)
-      .order('due_date', { ascending: true });
+      .select('*, fee_installment_plans(id)')
+      .eq('school_code', school!.school_code);
+    query = termFilter === ACTIVE_TERM_FILTER ? query.is('archived_at', null) : query.eq('term_id', termFilter);
+
+    const { data, error } = await query.order('due_date', { ascending: true });
 
     if (!error && data) {
       setFees(data);
@@ -62,8 +103,30 @@ export default function AdminFees() {
   };
 
   const resetForm = () => {
-    setFormData({ title: '', description: '', amount: '', due_date: '', category: '' });
+    setFormData({
+      title: '',
+      description: '',
+      amount: '',
+      due_date: '',
+      category: '',
+      audience: { class_id: null, section_id: null },
+      recurs_each_term: false,
+    });
     setEditingId(null);
+    setAssignToAll(true);
+    setPlans([]);
+    setPlanDrafts([]);
+    setRemovedPlanIds([]);
+  };
+
+  const fetchPlans = async (feeId: string) => {
+    const { data } = await supabase
+      .from('fee_installment_plans')
+      .select('id, fee_id, name, fee_installments(position, amount, due_date)')
+      .eq('fee_id', feeId)
+      .order('created_at', { ascending: true });
+
+    setPlans(data ?? []);
   };
 
   const openEditDialog = (fee: Fee) => {
@@ -73,9 +136,12 @@ export default function AdminFees() {
       amount: fee.amount.toString(),
       due_date: fee.due_date || '',
       category: fee.category || '',
+      audience: { class_id: fee.class_id, section_id: fee.section_id },
+      recurs_each_term: fee.recurs_each_term,
     });
     setEditingId(fee.id);
     setIsDialogOpen(true);
+    fetchPlans(fee.id);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -91,18 +157,45 @@ export default function AdminFees() {
       return;
     }
 
+    const amount = parseFloat(formData.amount);
+    const keptPlans = plans.filter((p) => !removedPlanIds.includes(p.id));
+    const editingFee = fees.find((f) => f.id === editingId);
+
+    // Saved plans were split from the old amount, so they cannot follow it
+    if (editingFee && keptPlans.length > 0 && editingFee.amount !== amount) {
+      toast({
+        variant: 'destructive',
+        title: 'Installment plans no longer fit',
+        description: 'Remove the existing installment plans before changing the amount.',
+      });
+      return;
+    }
+
+    if (planDrafts.some((d) => installmentsTotal(d.installments) !== amount)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid installment plan',
+        description: 'Each plan\'s installments must add up to the fee amount.',
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     const feeData = {
       school_code: school.school_code,
       title: formData.title,
       description: formData.description || null,
-      amount: parseFloat(formData.amount),
+      amount,
       due_date: formData.due_date || null,
       category: formData.category || null,
+      class_id: formData.audience.class_id,
+      section_id: formData.audience.section_id,
+      recurs_each_term: formData.recurs_each_term,
     };
 
     let error;
+    let feeId = editingId;
     if (editingId) {
       const { error: updateError } = await supabase
         .from('fees')
@@ -110,10 +203,33 @@ export default function AdminFees() {
         .eq('id', editingId);
       error = updateError;
     } else {
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from('fees')
-        .insert(feeData);
+        .insert(feeData)
+        .select('id')
+        .single();
       error = insertError;
+      feeId = inserted?.id ?? null;
+
+      if (!insertError && inserted && assignToAll) {
+        const { error: assignError } = await supabase.rpc('assign_fee', { _fee_id: inserted.id });
+        error = assignError;
+      }
+    }
+
+    if (!error && feeId && removedPlanIds.length > 0) {
+      const { error: removeError } = await supabase.from('fee_installment_plans').delete().in('id', removedPlanIds);
+      error = removeError;
+    }
+
+    for (const draft of planDrafts) {
+      if (error || !feeId) break;
+      const { error: planError } = await supabase.rpc('create_installment_plan', {
+        _fee_id: feeId,
+        _name: draft.name,
+        _installments: draft.installments.map(({ amount, due_date }) => ({ amount, due_date })),
+      });
+      error = planError;
     }
 
     setIsSubmitting(false);
@@ -137,11 +253,9 @@ export default function AdminFees() {
     fetchFees();
   };
 
+  // Fees that have been paid or adjusted are archived, keeping their payments on record
   const handleDelete = async (id: string) => {
-    const { error } = await supabase
-      .from('fees')
-      .delete()
-      .eq('id', id);
+    const { data: archived, error } = await supabase.rpc('remove_fee', { _fee_id: id });
 
     if (error) {
       toast({
@@ -153,8 +267,10 @@ export default function AdminFees() {
     }
 
     toast({
-      title: 'Fee deleted',
-      description: 'The fee has been removed.',
+      title: archived ? 'Fee archived' : 'Fee deleted',
+      description: archived
+        ? 'Payments have been made against this fee, so it has been archived with its records.'
+        : 'The fee has been removed.',
     });
     fetchFees();
   };
@@ -190,151 +306,272 @@ export default function AdminFees() {
             </div>
           </div>
 
-          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Fee
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>{editingId ? 'Edit Fee' : 'Add New Fee'}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    rows={3}
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsDocumentsOpen(true)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Invoices & Receipts
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Fee
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingId ? 'Edit Fee' : 'Add New Fee'}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="amount">Amount ($) *</Label>
+                    <Label htmlFor="title">Title *</Label>
                     <Input
-                      id="amount"
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      value={formData.amount}
-                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      id="title"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="due_date">Due Date</Label>
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="amount">Amount ({currencySymbol(school)}) *</Label>
+                      <Input
+                        id="amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.amount}
+                        onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="due_date">Due Date</Label>
+                      <Input
+                        id="due_date"
+                        type="date"
+                        value={formData.due_date}
+                        onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
                     <Input
-                      id="due_date"
-                      type="date"
-                      value={formData.due_date}
-                      onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                      id="category"
+                      placeholder="e.g., Tuition, Lab, Library"
+                      value={formData.category}
+                      onChange={(e) => setFormData({ ...formData, category: e.target.value })}
                     />
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category</Label>
-                  <Input
-                    id="category"
-                    placeholder="e.g., Tuition, Lab, Library"
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  <AudienceSelect
+                    classes={classes}
+                    value={formData.audience}
+                    onChange={(audience) => setFormData({ ...formData, audience })}
                   />
-                </div>
-                <DialogFooter>
-                  <Button type="submit" disabled={isSubmitting}>
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Saving...
-                      </>
-                    ) : editingId ? 'Update' : 'Add Fee'}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <Label htmlFor="recurs_each_term">Repeat every term</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Offered for carrying over when the next term starts
+                      </p>
+                    </div>
+                    <Switch
+                      id="recurs_each_term"
+                      checked={formData.recurs_each_term}
+                      onCheckedChange={(recurs_each_term) => setFormData({ ...formData, recurs_each_term })}
+                    />
+                  </div>
+                  <InstallmentPlansEditor
+                    school={school}
+                    amount={parseFloat(formData.amount) || 0}
+                    dueDate={formData.due_date}
+                    plans={plans.filter((p) => !removedPlanIds.includes(p.id))}
+                    drafts={planDrafts}
+                    onDraftsChange={setPlanDrafts}
+                    onRemovePlan={(planId) => setRemovedPlanIds([...removedPlanIds, planId])}
+                  />
+                  {!editingId && (
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="assign_to_all">
+                          {formData.audience.class_id ? 'Assign to everyone in the audience' : 'Assign to all students'}
+                        </Label>
+                        <p className="text-xs text-muted-foreground">
+                          Turn off to choose specific students afterwards
+                        </p>
+                      </div>
+                      <Switch id="assign_to_all" checked={assignToAll} onCheckedChange={setAssignToAll} />
+                    </div>
+                  )}
+                  <DialogFooter>
+                    <Button type="submit" disabled={isSubmitting}>
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Saving...
+                        </>
+                      ) : editingId ? 'Update' : 'Add Fee'}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        {/* Content */}
-        {loading ? (
-          <div className="flex justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        ) : fees.length === 0 ? (
-          <Card className="text-center py-12">
-            <CardContent>
-              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
-                <CreditCard className="h-8 w-8 text-muted-foreground" />
+        <Tabs defaultValue="fees">
+          <TabsList>
+            <TabsTrigger value="fees">Fees</TabsTrigger>
+            <TabsTrigger value="schedules">Schedules</TabsTrigger>
+            <TabsTrigger value="rules">Penalties & Discounts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="fees" className="space-y-4">
+            {years.length > 0 && <TermFilter years={years} value={termFilter} onChange={setTermFilter} />}
+
+            {/* Content */}
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
-              <h3 className="text-lg font-semibold mb-2">No fees yet</h3>
-              <p className="text-muted-foreground mb-4">
-                Add fee information for your students.
-              </p>
-              <Button onClick={() => setIsDialogOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Fee
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            {fees.map((fee) => (
-              <Card key={fee.id} className="hover:shadow-md transition-shadow">
-                <CardContent className="p-6">
-                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-2">
-                        <h3 className="font-semibold text-lg">{fee.title}</h3>
-                        {fee.category && (
-                          <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
-                            <Tag className="h-3 w-3" />
-                            {fee.category}
-                          </span>
-                        )}
-                      </div>
-                      {fee.description && (
-                        <p className="text-muted-foreground mb-3">{fee.description}</p>
-                      )}
-                      <div className="flex flex-wrap gap-4 text-sm">
-                        <div className="flex items-center gap-1 text-green-600 font-semibold">
-                          <DollarSign className="h-4 w-4" />
-                          <span>{fee.amount.toLocaleString()}</span>
-                        </div>
-                        {fee.due_date && (
-                          <div className="flex items-center gap-1 text-muted-foreground">
-                            <Calendar className="h-4 w-4" />
-                            <span>Due: {new Date(fee.due_date).toLocaleDateString()}</span>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button variant="outline" size="icon" onClick={() => openEditDialog(fee)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="outline" size="icon" onClick={() => handleDelete(fee.id)}>
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
+            ) : fees.length === 0 ? (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                    <CreditCard className="h-8 w-8 text-muted-foreground" />
                   </div>
+                  <h3 className="text-lg font-semibold mb-2">No fees yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Add fee information for your students.
+                  </p>
+                  <Button onClick={() => setIsDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Fee
+                  </Button>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="space-y-4">
+                {fees.map((fee) => (
+                  <Card key={fee.id} className="hover:shadow-md transition-shadow">
+                    <CardContent className="p-6">
+                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <h3 className="font-semibold text-lg">{fee.title}</h3>
+                            {fee.category && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <Tag className="h-3 w-3" />
+                                {fee.category}
+                              </span>
+                            )}
+                            {fee.class_id && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <Users className="h-3 w-3" />
+                                {audienceLabel(classes, fee) ?? 'Class'}
+                              </span>
+                            )}
+                            {fee.term_id && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <CalendarRange className="h-3 w-3" />
+                                {termLabel(years, fee.term_id) ?? 'Term'}
+                              </span>
+                            )}
+                            {fee.recurs_each_term && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <Repeat className="h-3 w-3" />
+                                Every term
+                              </span>
+                            )}
+                            {fee.schedule_id && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <CalendarClock className="h-3 w-3" />
+                                Scheduled
+                              </span>
+                            )}
+                            {fee.fee_installment_plans.length > 0 && (
+                              <span className="text-xs bg-muted px-2 py-1 rounded flex items-center gap-1">
+                                <Layers className="h-3 w-3" />
+                                {fee.fee_installment_plans.length === 1
+                                  ? 'Installment plan'
+                                  : `${fee.fee_installment_plans.length} installment plans`}
+                              </span>
+                            )}
+                          </div>
+                          {fee.description && (
+                            <p className="text-muted-foreground mb-3">{fee.description}</p>
+                          )}
+                          <div className="flex flex-wrap gap-4 text-sm">
+                            <div className="flex items-center gap-1 text-green-600 font-semibold">
+                              <Banknote className="h-4 w-4" />
+                              <span>{formatMoney(fee.amount, school)}</span>
+                            </div>
+                            {fee.due_date && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Calendar className="h-4 w-4" />
+                                <span>Due: {formatDate(fee.due_date, school)}</span>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="icon" title="Assign to students" onClick={() => setAssigningFee(fee)}>
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="icon" title="Payments" onClick={() => setLedgerFee(fee)}>
+                            <Receipt className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="icon" onClick={() => openEditDialog(fee)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="icon" onClick={() => handleDelete(fee.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="schedules">
+            <FeeScheduleManager school={school} classes={classes} />
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <FeeRulesManager school={school} fees={fees} />
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <AssignFeeDialog
+        fee={assigningFee}
+        schoolCode={school.school_code}
+        onOpenChange={(open) => !open && setAssigningFee(null)}
+      />
+      <FeeLedgerDialog
+        fee={ledgerFee}
+        schoolCode={school.school_code}
+        onOpenChange={(open) => !open && setLedgerFee(null)}
+      />
+      <FeeDocumentsDialog
+        open={isDocumentsOpen}
+        onOpenChange={setIsDocumentsOpen}
+        school={school}
+        classes={classes}
+      />
     </DashboardLayout>
   );
 }
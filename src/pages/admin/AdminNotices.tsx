@@ -1,171 +1,17 @@
-import { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
-import { Card, CardContent } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
-import { Badge } from '@/components/ui/badge';
+import { NoticeManager } from '@/components/notices/NoticeManager';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useSchool } from '@/hooks/useSchool';
-import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { Bell, Plus, Edit, Trash2, Loader2, AlertTriangle, Info } from 'lucide-react';
-
-interface Notice {
-  id: string;
-  title: string;
-  content: string;
-  priority: string | null;
-  created_at: string;
-}
+import { useClasses } from '@/hooks/useClasses';
+import { Loader2 } from 'lucide-react';
 
 export default function AdminNotices() {
   const { loading: authLoading } = useAuth();
   const { isAdmin, loading: roleLoading } = useUserRole();
   const { school, loading: schoolLoading } = useSchool();
-  const { toast } = useToast();
-  
-  const [notices, setNotices] = useState<Notice[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  
-  const [formData, setFormData] = useState({
-    title: '',
-    content: '',
-    priority: 'normal',
-  });
-
-  useEffect(() => {
-    if (!school?.school_code) return;
-    fetchNotices();
-  }, [school?.school_code]);
-
-  const fetchNotices = async () => {
-    const { data, error } = await supabase
-      .from('notices')
-      .select('*')
-      .eq('school_code', school!.school_code)
-      .order('created_at', { ascending: false });
-
-    if (!error && data) {
-      setNotices(data);
-    }
-    setLoading(false);
-  };
-
-  const resetForm = () => {
-    setFormData({ title: '', content: '', priority: 'normal' });
-    setEditingId(null);
-  };
-
-  const openEditDialog = (notice: Notice) => {
-    setFormData({
-      title: notice.title,
-      content: notice.content,
-      priority: notice.priority || 'normal',
-    });
-    setEditingId(notice.id);
-    setIsDialogOpen(true);
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!school?.school_code) return;
-
-    setIsSubmitting(true);
-
-    const noticeData = {
-      school_code: school.school_code,
-      title: formData.title,
-      content: formData.content,
-      priority: formData.priority,
-    };
-
-    let error;
-    if (editingId) {
-      const { error: updateError } = await supabase
-        .from('notices')
-        .update(noticeData)
-        .eq('id', editingId);
-      error = updateError;
-    } else {
-      const { error: insertError } = await supabase
-        .from('notices')
-        .insert(noticeData);
-      error = insertError;
-    }
-
-    setIsSubmitting(false);
-
-    if (error) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message,
-      });
-      return;
-    }
-
-    toast({
-      title: editingId ? 'Notice updated' : 'Notice published',
-      description: editingId ? 'The notice has been updated.' : 'The notice has been published to students.',
-    });
-
-    setIsDialogOpen(false);
-    resetForm();
-    fetchNotices();
-  };
-
-  const handleDelete = async (id: string) => {
-    const { error } = await supabase
-      .from('notices')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message,
-      });
-      return;
-    }
-
-    toast({
-      title: 'Notice deleted',
-      description: 'The notice has been removed.',
-    });
-    fetchNotices();
-  };
-
-  const getPriorityIcon = (priority: string | null) => {
-    switch (priority) {
-      case 'high':
-        return <AlertTriangle className="h-4 w-4 text-destructive" />;
-      case 'low':
-        return <Info className="h-4 w-4 text-muted-foreground" />;
-      default:
-        return <Bell className="h-4 w-4 text-blue-500" />;
-    }
-  };
-
-  const getPriorityBadge = (priority: string | null) => {
-    switch (priority) {
-      case 'high':
-        return <Badge variant="destructive">Urgent</Badge>;
-      case 'low':
-        return <Badge variant="secondary">Low Priority</Badge>;
-      default:
-        return <Badge variant="outline">Normal</Badge>;
-    }
-  };
+  const { classes } = useClasses(school?.school_code);
 
   if (authLoading || roleLoading || schoolLoading) {
     return (
@@ -185,149 +31,11 @@ export default function AdminNotices() {
 
   return (
     <DashboardLayout>
-      <div className="p-6 lg:p-8 space-y-6">
-        {/* Header */}
-        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-          <div className="flex items-center gap-3">
-            <div className="w-12 h-12 bg-blue-500/10 rounded-xl flex items-center justify-center">
-              <Bell className="h-6 w-6 text-blue-500" />
-            </div>
-            <div>
-              <h1 className="text-2xl font-bold">Notices</h1>
-              <p className="text-muted-foreground">Publish announcements to students</p>
-            </div>
-          </div>
-
-          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Notice
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>{editingId ? 'Edit Notice' : 'Add New Notice'}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="content">Content *</Label>
-                  <Textarea
-                    id="content"
-                    value={formData.content}
-                    onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-                    rows={5}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="priority">Priority</Label>
-                  <Select
-                    value={formData.priority}
-                    onValueChange={(value) => setFormData({ ...formData, priority: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="low">Low</SelectItem>
-                      <SelectItem value="normal">Normal</SelectItem>
-                      <SelectItem value="high">High (Urgent)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <DialogFooter>
-                  <Button type="submit" disabled={isSubmitting}>
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Saving...
-                      </>
-                    ) : editingId ? 'Update' : 'Publish Notice'}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
-        </div>
-
-        {/* Content */}
-        {loading ? (
-          <div className="flex justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        ) : notices.length === 0 ? (
-          <Card className="text-center py-12">
-            <CardContent>
-              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
-                <Bell className="h-8 w-8 text-muted-foreground" />
-              </div>
-              <h3 className="text-lg font-semibold mb-2">No notices yet</h3>
-              <p className="text-muted-foreground mb-4">
-                Publish announcements for your students.
-              </p>
-              <Button onClick={() => setIsDialogOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Notice
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            {notices.map((notice) => (
-              <Card
-                key={notice.id}
-                className={`hover:shadow-md transition-shadow ${
-                  notice.priority === 'high' ? 'border-destructive/30 bg-destructive/5' : ''
-                }`}
-              >
-                <CardContent className="p-6">
-                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
-                    <div className="flex gap-4 flex-1">
-                      <div className="flex-shrink-0 mt-1">
-                        <div
-                          className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                            notice.priority === 'high' ? 'bg-destructive/10' : 'bg-blue-500/10'
-                          }`}
-                        >
-                          {getPriorityIcon(notice.priority)}
-                        </div>
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-2">
-                          <h3 className="font-semibold text-lg">{notice.title}</h3>
-                          {getPriorityBadge(notice.priority)}
-                        </div>
-                        <p className="text-muted-foreground whitespace-pre-wrap mb-2">{notice.content}</p>
-                        <p className="text-xs text-muted-foreground">
-                          Published: {new Date(notice.created_at).toLocaleString()}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button variant="outline" size="icon" onClick={() => openEditDialog(notice)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="outline" size="icon" onClick={() => handleDelete(notice.id)}>
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
-      </div>
+      <NoticeManager
+        schoolCode={school.school_code}
+        classes={classes}
+        description="Publish announcements to students"
+      />
     </DashboardLayout>
   );
 }
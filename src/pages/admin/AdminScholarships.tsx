@@ -7,12 +7,33 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { ApplicationRankings } from '@/components/scholarships/ApplicationRankings';
+import { ApplicationReviewQueue } from '@/components/scholarships/ApplicationReviewQueue';
+import { EligibilityCriteriaEditor } from '@/components/scholarships/EligibilityCriteriaEditor';
+import { ReviewPanelEditor } from '@/components/scholarships/ReviewPanelEditor';
+import { RubricEditor } from '@/components/scholarships/RubricEditor';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { TermFilter } from '@/components/terms/TermFilter';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
+import { useTerms } from '@/hooks/useTerms';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Award, Plus, Edit, Trash2, Loader2, Calendar, DollarSign } from 'lucide-react';
+import { audienceLabel, type Audience } from '@/lib/classes';
+import { currencySymbol, formatDate, formatMoney } from '@/lib/format';
+import {
+  incomeBracketLabels,
+  type EligibilityCriteria,
+  type IncomeBracket,
+  type RubricCriterion,
+} from '@/lib/scholarships';
+import { ACTIVE_TERM_FILTER, termLabel } from '@/lib/terms';
+import { Award, Plus, Edit, Trash2, Loader2, Calendar, Banknote, GraduationCap, Users, X, CalendarRange, Repeat, EyeOff } from 'lucide-react';
 
 interface Scholarship {
   id: string;
@@ -21,12 +42,31 @@ interface Scholarship {
   amount: number | null;
   deadline: string | null;
   eligibility: string | null;
+  slots: number | null;
+  class_id: string | null;
+  section_id: string | null;
+  term_id: string | null;
+  recurs_each_term: boolean;
+  archived_at: string | null;
+  eligible_class_ids: string[];
+  max_income_bracket: string | null;
+  required_documents: string[];
+  blind_review: boolean;
+  scoring_closed_at: string | null;
+}
+
+interface QuestionDraft {
+  id?: string;
+  prompt: string;
+  required: boolean;
 }
 
 export default function AdminScholarships() {
   const { loading: authLoading } = useAuth();
   const { isAdmin, loading: roleLoading } = useUserRole();
-  const { school, loading: schoolLoading } = useSchool();
+  const { school, canManageSchool, loading: schoolLoading } = useSchool();
+  const { classes } = useClasses(school?.school_code);
+  const { years } = useTerms(school?.school_code);
   const { toast } = useToast();
   
   const [scholarships, setScholarships] = useState<Scholarship[]>([]);
@@ -34,6 +74,11 @@ export default function AdminScholarships() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  const [rubric, setRubric] = useState<RubricCriterion[]>([]);
+  const [panel, setPanel] = useState<string[]>([]);
+  const [savedPanel, setSavedPanel] = useState<string[]>([]);
+  const [termFilter, setTermFilter] = useState(ACTIVE_TERM_FILTER);
   
   const [formData, setFormData] = useState({
     title: '',
@@ -41,19 +86,29 @@ export default function AdminScholarships() {
     amount: '',
     deadline: '',
     eligibility: '',
+    slots: '',
+    audience: { class_id: null, section_id: null } as Audience,
+    recurs_each_term: false,
+    criteria: { eligible_class_ids: [], max_income_bracket: null, required_documents: [] } as EligibilityCriteria,
+    blind_review: false,
   });
 
   useEffect(() => {
     if (!school?.school_code) return;
     fetchScholarships();
-  }, [school?.school_code]);
+  }, [school?.school_code, termFilter]);
+
+  // Keep the list in step with changes made by other administrators
+  useRealtimeTable('scholarships', school?.school_code, () => fetchScholarships());
 
   const fetchScholarships = async () => {
-    const { data, error } = await supabase
+    let query = supabase
       .from('scholarships')
       .select('*')
-      .eq('school_code', school!.school_code)
-      .order('created_at', { ascending: false });
+      .eq('school_code', school!.school_code);
+    query = termFilter === ACTIVE_TERM_FILTER ? query.is('archived_at', null) : query.eq('term_id', termFilter);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (!error && data) {
       setScholarships(data);
@@ -62,20 +117,138 @@ export default function AdminScholarships() {
   };
 
   const resetForm = () => {
-    setFormData({ title: '', description: '', amount: '', deadline: '', eligibility: '' });
+    setFormData({
+      title: '',
+      description: '',
+      amount: '',
+      deadline: '',
+      eligibility: '',
+      slots: '',
+      audience: { class_id: null, section_id: null },
+      recurs_each_term: false,
+      criteria: { eligible_class_ids: [], max_income_bracket: null, required_documents: [] },
+      blind_review: false,
+    });
+    setQuestions([]);
+    setRubric([]);
+    setPanel([]);
+    setSavedPanel([]);
     setEditingId(null);
   };
 
-  const openEditDialog = (scholarship: Scholarship) => {
+  const openEditDialog = async (scholarship: Scholarship) => {
     setFormData({
       title: scholarship.title,
       description: scholarship.description || '',
       amount: scholarship.amount?.toString() || '',
       deadline: scholarship.deadline || '',
       eligibility: scholarship.eligibility || '',
+      slots: scholarship.slots?.toString() || '',
+      audience: { class_id: scholarship.class_id, section_id: scholarship.section_id },
+      recurs_each_term: scholarship.recurs_each_term,
+      criteria: {
+        eligible_class_ids: scholarship.eligible_class_ids,
+        max_income_bracket: scholarship.max_income_bracket,
+        required_documents: scholarship.required_documents,
+      },
+      blind_review: scholarship.blind_review,
     });
     setEditingId(scholarship.id);
     setIsDialogOpen(true);
+
+    const [questionsRes, rubricRes, panelRes] = await Promise.all([
+      supabase
+        .from('scholarship_questions')
+        .select('id, prompt, required')
+        .eq('scholarship_id', scholarship.id)
+        .order('position', { ascending: true }),
+      supabase
+        .from('scholarship_rubric_criteria')
+        .select('id, name, weight, max_score')
+        .eq('scholarship_id', scholarship.id)
+        .order('position', { ascending: true }),
+      supabase.from('scholarship_reviewers').select('reviewer_id').eq('scholarship_id', scholarship.id),
+    ]);
+
+    const reviewerIds = (panelRes.data ?? []).map((r) => r.reviewer_id);
+    setQuestions(questionsRes.data ?? []);
+    setRubric(rubricRes.data ?? []);
+    setPanel(reviewerIds);
+    setSavedPanel(reviewerIds);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const saveQuestions = async (scholarshipId: string) => {
+    const kept = questions.filter((q) => q.prompt.trim());
+    const keptIds = kept.filter((q) => q.id).map((q) => q.id!);
+
+    let removeQuery = supabase.from('scholarship_questions').delete().eq('scholarship_id', scholarshipId);
+    if (keptIds.length > 0) {
+      removeQuery = removeQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: removeError } = await removeQuery;
+    if (removeError) return removeError;
+
+    if (kept.length === 0) return null;
+
+    const rows = kept.map((q, position) => ({
+      ...(q.id ? { id: q.id } : {}),
+      scholarship_id: scholarshipId,
+      prompt: q.prompt.trim(),
+      required: q.required,
+      position,
+    }));
+    const { error } = await supabase.from('scholarship_questions').upsert(rows);
+    return error;
+  };
+
+  const saveRubric = async (scholarshipId: string) => {
+    const kept = rubric.filter((c) => c.name.trim());
+    const keptIds = kept.filter((c) => c.id).map((c) => c.id!);
+
+    let removeQuery = supabase.from('scholarship_rubric_criteria').delete().eq('scholarship_id', scholarshipId);
+    if (keptIds.length > 0) {
+      removeQuery = removeQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: removeError } = await removeQuery;
+    if (removeError) return removeError;
+
+    if (kept.length === 0) return null;
+
+    const rows = kept.map((c, position) => ({
+      ...(c.id ? { id: c.id } : {}),
+      scholarship_id: scholarshipId,
+      name: c.name.trim(),
+      weight: c.weight,
+      max_score: c.max_score,
+      position,
+    }));
+    const { error } = await supabase.from('scholarship_rubric_criteria').upsert(rows);
+    return error;
+  };
+
+  const savePanel = async (scholarshipId: string) => {
+    const removed = savedPanel.filter((id) => !panel.includes(id));
+    const added = panel.filter((id) => !savedPanel.includes(id));
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('scholarship_reviewers')
+        .delete()
+        .eq('scholarship_id', scholarshipId)
+        .in('reviewer_id', removed);
+      if (error) return error;
+    }
+
+    if (added.length === 0) return null;
+
+    const { error } = await supabase
+      .from('scholarship_reviewers')
+      .insert(added.map((reviewer_id) => ({ scholarship_id: scholarshipId, reviewer_id })));
+    return error;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -91,9 +264,18 @@ export default function AdminScholarships() {
       amount: formData.amount ? parseFloat(formData.amount) : null,
       deadline: formData.deadline || null,
       eligibility: formData.eligibility || null,
+      slots: formData.slots ? parseInt(formData.slots, 10) : null,
+      class_id: formData.audience.class_id,
+      section_id: formData.audience.section_id,
+      recurs_each_term: formData.recurs_each_term,
+      eligible_class_ids: formData.criteria.eligible_class_ids,
+      max_income_bracket: formData.criteria.max_income_bracket,
+      required_documents: formData.criteria.required_documents.map((d) => d.trim()).filter(Boolean),
+      blind_review: formData.blind_review,
     };
 
     let error;
+    let scholarshipId = editingId;
     if (editingId) {
       const { error: updateError } = await supabase
         .from('scholarships')
@@ -101,10 +283,23 @@ export default function AdminScholarships() {
         .eq('id', editingId);
       error = updateError;
     } else {
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from('scholarships')
-        .insert(scholarshipData);
+        .insert(scholarshipData)
+        .select('id')
+        .single();
       error = insertError;
+      scholarshipId = inserted?.id ?? null;
+    }
+
+    if (!error && scholarshipId) {
+      error = await saveQuestions(scholarshipId);
+    }
+    if (!error && scholarshipId) {
+      error = await saveRubric(scholarshipId);
+    }
+    if (!error && scholarshipId && canManageSchool) {
+      error = await savePanel(scholarshipId);
     }
 
     setIsSubmitting(false);
@@ -188,7 +383,7 @@ export default function AdminScholarships() {
                 Add Scholarship
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingId ? 'Edit Scholarship' : 'Add New Scholarship'}</DialogTitle>
               </DialogHeader>
@@ -213,7 +408,7 @@ export default function AdminScholarships() {
                 </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="amount">Amount ($)</Label>
+                    <Label htmlFor="amount">Amount ({currencySymbol(school)})</Label>
                     <Input
                       id="amount"
                       type="number"
@@ -233,6 +428,39 @@ export default function AdminScholarships() {
                     />
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slots">Available Slots</Label>
+                  <Input
+                    id="slots"
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Unlimited"
+                    value={formData.slots}
+                    onChange={(e) => setFormData({ ...formData, slots: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Awards are limited to this many students and share the total amount
+                  </p>
+                </div>
+                <AudienceSelect
+                  classes={classes}
+                  value={formData.audience}
+                  onChange={(audience) => setFormData({ ...formData, audience })}
+                />
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="recurs_each_term">Repeat every term</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Offered for carrying over, with its questions, when the next term starts
+                    </p>
+                  </div>
+                  <Switch
+                    id="recurs_each_term"
+                    checked={formData.recurs_each_term}
+                    onCheckedChange={(recurs_each_term) => setFormData({ ...formData, recurs_each_term })}
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="eligibility">Eligibility Requirements</Label>
                   <Textarea
@@ -241,6 +469,67 @@ export default function AdminScholarships() {
                     onChange={(e) => setFormData({ ...formData, eligibility: e.target.value })}
                     rows={2}
                   />
+                  <EligibilityCriteriaEditor
+                    classes={classes}
+                    value={formData.criteria}
+                    onChange={(criteria) => setFormData({ ...formData, criteria })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Application Questions</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setQuestions([...questions, { prompt: '', required: true }])}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                  {questions.map((question, index) => (
+                    <div key={question.id ?? `new-${index}`} className="flex items-center gap-2">
+                      <Input
+                        placeholder="Question"
+                        value={question.prompt}
+                        onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                      />
+                      <Switch
+                        checked={question.required}
+                        onCheckedChange={(required) => updateQuestion(index, { required })}
+                        title="Required"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setQuestions(questions.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <RubricEditor value={rubric} onChange={setRubric} />
+                <ReviewPanelEditor
+                  schoolCode={school.school_code}
+                  value={panel}
+                  onChange={setPanel}
+                  disabled={!canManageSchool}
+                />
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="blind_review">Blind review</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Reviewers see an applicant number instead of the student's name
+                    </p>
+                  </div>
+                  <Switch
+                    id="blind_review"
+                    checked={formData.blind_review}
+                    onCheckedChange={(blind_review) => setFormData({ ...formData, blind_review })}
+                  />
                 </div>
                 <DialogFooter>
                   <Button type="submit" disabled={isSubmitting}>
@@ -257,72 +546,144 @@ export default function AdminScholarships() {
           </Dialog>
         </div>
 
-        {/* Content */}
-        {loading ? (
-          <div className="flex justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        ) : scholarships.length === 0 ? (
-          <Card className="text-center py-12">
-            <CardContent>
-              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
-                <Award className="h-8 w-8 text-muted-foreground" />
+        <Tabs defaultValue="scholarships">
+          <TabsList>
+            <TabsTrigger value="scholarships">Scholarships</TabsTrigger>
+            <TabsTrigger value="applications">Applications</TabsTrigger>
+            {canManageSchool && <TabsTrigger value="rankings">Rankings</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="scholarships" className="space-y-4">
+            {years.length > 0 && <TermFilter years={years} value={termFilter} onChange={setTermFilter} />}
+
+            {/* Content */}
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
-              <h3 className="text-lg font-semibold mb-2">No scholarships yet</h3>
-              <p className="text-muted-foreground mb-4">
-                Add your first scholarship opportunity for students.
-              </p>
-              <Button onClick={() => setIsDialogOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Scholarship
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            {scholarships.map((scholarship) => (
-              <Card key={scholarship.id} className="hover:shadow-md transition-shadow">
-                <CardContent className="p-6">
-                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-lg mb-2">{scholarship.title}</h3>
-                      {scholarship.description && (
-                        <p className="text-muted-foreground mb-3">{scholarship.description}</p>
-                      )}
-                      <div className="flex flex-wrap gap-4 text-sm">
-                        {scholarship.amount && (
-                          <div className="flex items-center gap-1 text-green-600">
-                            <DollarSign className="h-4 w-4" />
-                            <span>{scholarship.amount.toLocaleString()}</span>
-                          </div>
-                        )}
-                        {scholarship.deadline && (
-                          <div className="flex items-center gap-1 text-muted-foreground">
-                            <Calendar className="h-4 w-4" />
-                            <span>Deadline: {new Date(scholarship.deadline).toLocaleDateString()}</span>
-                          </div>
-                        )}
-                      </div>
-                      {scholarship.eligibility && (
-                        <p className="text-sm text-muted-foreground mt-2">
-                          <strong>Eligibility:</strong> {scholarship.eligibility}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex gap-2">
-                      <Button variant="outline" size="icon" onClick={() => openEditDialog(scholarship)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="outline" size="icon" onClick={() => handleDelete(scholarship.id)}>
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
+            ) : scholarships.length === 0 ? (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Award className="h-8 w-8 text-muted-foreground" />
                   </div>
+                  <h3 className="text-lg font-semibold mb-2">No scholarships yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Add your first scholarship opportunity for students.
+                  </p>
+                  <Button onClick={() => setIsDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Scholarship
+                  </Button>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="space-y-4">
+                {scholarships.map((scholarship) => (
+                  <Card key={scholarship.id} className="hover:shadow-md transition-shadow">
+                    <CardContent className="p-6">
+                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <h3 className="font-semibold text-lg mb-2">{scholarship.title}</h3>
+                          {scholarship.description && (
+                            <p className="text-muted-foreground mb-3">{scholarship.description}</p>
+                          )}
+                          <div className="flex flex-wrap gap-4 text-sm">
+                            {scholarship.amount && (
+                              <div className="flex items-center gap-1 text-green-600">
+                                <Banknote className="h-4 w-4" />
+                                <span>{formatMoney(scholarship.amount, school)}</span>
+                              </div>
+                            )}
+                            {scholarship.deadline && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Calendar className="h-4 w-4" />
+                                <span>Deadline: {formatDate(scholarship.deadline, school)}</span>
+                              </div>
+                            )}
+                            {scholarship.slots && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Users className="h-4 w-4" />
+                                <span>{scholarship.slots} slots</span>
+                              </div>
+                            )}
+                            {scholarship.class_id && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <GraduationCap className="h-4 w-4" />
+                                <span>{audienceLabel(classes, scholarship) ?? 'Class'} only</span>
+                              </div>
+                            )}
+                            {scholarship.term_id && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <CalendarRange className="h-4 w-4" />
+                                <span>{termLabel(years, scholarship.term_id) ?? 'Term'}</span>
+                              </div>
+                            )}
+                            {scholarship.recurs_each_term && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Repeat className="h-4 w-4" />
+                                <span>Every term</span>
+                              </div>
+                            )}
+                            {scholarship.blind_review && (
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <EyeOff className="h-4 w-4" />
+                                <span>Blind review</span>
+                              </div>
+                            )}
+                          </div>
+                          {scholarship.eligibility && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                              <strong>Eligibility:</strong> {scholarship.eligibility}
+                            </p>
+                          )}
+                          {(scholarship.eligible_class_ids.length > 0 ||
+                            scholarship.max_income_bracket ||
+                            scholarship.required_documents.length > 0) && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                              <strong>Rules:</strong>{' '}
+                              {[
+                                scholarship.eligible_class_ids.length > 0 &&
+                                  classes
+                                    .filter((c) => scholarship.eligible_class_ids.includes(c.id))
+                                    .map((c) => c.name)
+                                    .join(', '),
+                                scholarship.max_income_bracket &&
+                                  `up to ${incomeBracketLabels[scholarship.max_income_bracket as IncomeBracket].toLowerCase()}`,
+                                scholarship.required_documents.length > 0 &&
+                                  `documents: ${scholarship.required_documents.join(', ')}`,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="icon" onClick={() => openEditDialog(scholarship)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="icon" onClick={() => handleDelete(scholarship.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="applications">
+            <ApplicationReviewQueue schoolCode={school.school_code} scholarships={scholarships} />
+          </TabsContent>
+
+          {canManageSchool && (
+            <TabsContent value="rankings">
+              <ApplicationRankings scholarships={scholarships} onScoringClosed={fetchScholarships} />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </DashboardLayout>
   );
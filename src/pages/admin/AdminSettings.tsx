@@ -2,17 +2,189 @@ import { Navigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { SchoolInvitationsCard } from '@/components/invitations/SchoolInvitationsCard';
+import { JoinRequestQueue } from '@/components/invitations/JoinRequestQueue';
+import { SchoolStaffCard } from '@/components/staff/SchoolStaffCard';
+import { SchoolProfileCard } from '@/components/settings/SchoolProfileCard';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useSchool } from '@/hooks/useSchool';
-import { Settings, Copy, Check, Loader2 } from 'lucide-react';
-import { useState } from 'react';
+import { useClasses } from '@/hooks/useClasses';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { staffLevelLabels } from '@/lib/staff';
+import { Settings, Copy, Check, Loader2, UserPlus, Trash2, RefreshCw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { z } from 'zod';
+
+const emailSchema = z.string().email('Please enter a valid email address');
+
+type InviteRole = 'teacher' | 'admin' | 'staff' | 'institute';
+
+const inviteRoleLabels: Record<InviteRole, string> = {
+  teacher: 'Teacher',
+  admin: 'Co-admin',
+  staff: 'Staff',
+  institute: 'New institute',
+};
+
+interface RoleInvitation {
+  id: string;
+  email: string;
+  role: string;
+  staff_level: string | null;
+  token: string;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+function invitationRoleLabel(invitation: RoleInvitation) {
+  if (invitation.role === 'teacher') return inviteRoleLabels.teacher;
+  if (invitation.staff_level === 'admin' || invitation.staff_level === 'staff') {
+    return inviteRoleLabels[invitation.staff_level];
+  }
+  return inviteRoleLabels.institute;
+}
 
 export default function AdminSettings() {
-  const { profile, loading: authLoading } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
-  const { school, loading: schoolLoading } = useSchool();
+  const { user, profile, loading: authLoading } = useAuth();
+  const { isAdmin, isPlatformReviewer, loading: roleLoading } = useUserRole();
+  const { school, staffLevel, canManageSchool, loading: schoolLoading, refreshSchool } = useSchool();
+  const { classes } = useClasses(school?.school_code);
+  const { toast } = useToast();
   const [copied, setCopied] = useState(false);
+  const [invitations, setInvitations] = useState<RoleInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InviteRole>('teacher');
+  const [isInviting, setIsInviting] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+
+  useEffect(() => {
+    if (!user || !isAdmin) return;
+    fetchInvitations();
+  }, [user, isAdmin]);
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from('role_invitations')
+      .select('id, email, role, staff_level, token, expires_at, accepted_at')
+      .eq('invited_by', user!.id)
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setInvitations(data);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const parsed = emailSchema.safeParse(inviteEmail.trim());
+    if (!parsed.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid email',
+        description: parsed.error.errors[0].message,
+      });
+      return;
+    }
+
+    setIsInviting(true);
+    const { error } = await supabase
+      .from('role_invitations')
+      .insert({
+        email: parsed.data.toLowerCase(),
+        invited_by: user.id,
+        role: inviteRole === 'teacher' ? 'teacher' : 'admin',
+        // Everyone but a new institute joins this school on sign-up; co-admins and staff also join its staff
+        school_code: inviteRole === 'institute' ? null : school?.school_code,
+        staff_level: inviteRole === 'admin' || inviteRole === 'staff' ? inviteRole : null,
+      });
+    setIsInviting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Invitation created',
+      description: `Share the invitation code with the new ${inviteRoleLabels[inviteRole].toLowerCase()}.`,
+    });
+    setInviteEmail('');
+    fetchInvitations();
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await supabase
+      .from('role_invitations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Invitation revoked',
+      description: 'The invitation code can no longer be used.',
+    });
+    fetchInvitations();
+  };
+
+  const handleRotateCode = async () => {
+    setIsRotating(true);
+    const { error } = await supabase.rpc('rotate_join_code', { _school_code: school!.school_code });
+    setIsRotating(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Join code rotated',
+      description: 'The old code no longer works. Share the new one with students.',
+    });
+    refreshSchool();
+  };
+
+  const handleApprovalToggle = async (checked: boolean) => {
+    const { error } = await supabase
+      .from('schools')
+      .update({ requires_join_approval: checked })
+      .eq('id', school!.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    refreshSchool();
+  };
 
   if (authLoading || roleLoading || schoolLoading) {
     return (
@@ -31,7 +203,7 @@ export default function AdminSettings() {
   }
 
   const copyCode = () => {
-    navigator.clipboard.writeText(school.school_code);
+    navigator.clipboard.writeText(school.join_code);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -50,6 +222,8 @@ export default function AdminSettings() {
           </div>
         </div>
 
+        {canManageSchool && <SchoolProfileCard school={school} onSaved={refreshSchool} />}
+
         {/* School Info */}
         <Card>
           <CardHeader>
@@ -62,34 +236,156 @@ export default function AdminSettings() {
               <p className="text-lg font-semibold">{school.name}</p>
             </div>
             <div>
-              <p className="text-sm text-muted-foreground mb-2">School Code</p>
-              <div className="flex items-center gap-3">
+              <p className="text-sm text-muted-foreground mb-2">Join Code</p>
+              <div className="flex flex-wrap items-center gap-3">
                 <span className="text-2xl font-bold font-mono tracking-widest bg-muted px-4 py-2 rounded-lg">
-                  {school.school_code}
+                  {school.join_code}
                 </span>
                 <Button variant="outline" onClick={copyCode}>
                   {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
                   {copied ? 'Copied!' : 'Copy'}
                 </Button>
+                {canManageSchool && (
+                  <Button variant="outline" onClick={handleRotateCode} disabled={isRotating}>
+                    {isRotating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    Rotate
+                  </Button>
+                )}
               </div>
               <p className="text-sm text-muted-foreground mt-2">
-                Share this code with students so they can join your school.
+                Share this code with students so they can join your school. Rotate it if it reaches the wrong people.
               </p>
             </div>
+            {canManageSchool && (
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="requires_join_approval">Approve new members</Label>
+                  <p className="text-sm text-muted-foreground">
+                    People using the join code wait for an admin. Invitation codes still join straight away.
+                  </p>
+                </div>
+                <Switch
+                  id="requires_join_approval"
+                  checked={school.requires_join_approval}
+                  onCheckedChange={handleApprovalToggle}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {canManageSchool && (
+          <>
+            {school.requires_join_approval && <JoinRequestQueue schoolCode={school.school_code} />}
+
+            <SchoolInvitationsCard schoolCode={school.school_code} classes={classes} />
+
+            <SchoolStaffCard
+              schoolCode={school.school_code}
+              staffLevel={staffLevel!}
+              onOwnershipTransferred={refreshSchool}
+            />
+
+            {/* Admin Invitations */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Staff Invitations</CardTitle>
+                <CardDescription>
+                  Teachers, co-admins and staff need an invitation code to join your school. New institute accounts need one from a platform reviewer, or a platform review, before they can create a school
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    type="email"
+                    placeholder="colleague@school.edu"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    required
+                  />
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                    <SelectTrigger className="sm:w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {/* Only platform reviewers invite new institutes */}
+                      {Object.entries(inviteRoleLabels)
+                        .filter(([value]) => value !== 'institute' || isPlatformReviewer)
+                        .map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" disabled={isInviting}>
+                    {isInviting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <UserPlus className="h-4 w-4 mr-2" />
+                    )}
+                    Invite
+                  </Button>
+                </form>
+
+                {invitations.length > 0 && (
+                  <div className="divide-y rounded-lg border">
+                    {invitations.map((invitation) => {
+                      const expired = new Date(invitation.expires_at) < new Date();
+                      return (
+                        <div key={invitation.id} className="flex items-center justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{invitation.email}</p>
+                            <p className="text-sm text-muted-foreground font-mono tracking-widest">
+                              {invitation.token}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">
+                              {invitationRoleLabel(invitation)}
+                            </Badge>
+                            {invitation.accepted_at ? (
+                              <Badge variant="secondary">Accepted</Badge>
+                            ) : expired ? (
+                              <Badge variant="outline">Expired</Badge>
+                            ) : (
+                              <>
+                                <Badge variant="outline">
+                                  Expires {new Date(invitation.expires_at).toLocaleDateString()}
+                                </Badge>
+                                <Button variant="outline" size="icon" onClick={() => handleRevoke(invitation.id)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
         {/* Admin Info */}
         <Card>
           <CardHeader>
             <CardTitle>Administrator</CardTitle>
             <CardDescription>Your account details</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div>
               <p className="text-sm text-muted-foreground">Name</p>
               <p className="text-lg font-semibold">{profile?.full_name}</p>
             </div>
+            {staffLevel && (
+              <div>
+                <p className="text-sm text-muted-foreground">Access</p>
+                <p className="text-lg font-semibold">{staffLevelLabels[staffLevel]}</p>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
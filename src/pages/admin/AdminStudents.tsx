@@ -0,0 +1,477 @@
+import { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AudienceSelect } from '@/components/classes/AudienceSelect';
+import { FormerStudentsCard } from '@/components/students/FormerStudentsCard';
+import { StudentDetailSheet, type DirectoryStudent } from '@/components/students/StudentDetailSheet';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSchool } from '@/hooks/useSchool';
+import { useClasses } from '@/hooks/useClasses';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Audience } from '@/lib/classes';
+import { downloadCsv } from '@/lib/csv';
+import { formatDate, formatMoney } from '@/lib/format';
+import { ArrowRightLeft, ChevronLeft, ChevronRight, Download, GraduationCap, Loader2, Search, UserMinus } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+const ALL_CLASSES = 'all';
+const NO_CLASS = 'none';
+
+export default function AdminStudents() {
+  const { loading: authLoading } = useAuth();
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { school, loading: schoolLoading } = useSchool();
+  const { classes } = useClasses(school?.school_code);
+  const { toast } = useToast();
+
+  const [students, setStudents] = useState<DirectoryStudent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [page, setPage] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [viewing, setViewing] = useState<DirectoryStudent | null>(null);
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+  const [moveTo, setMoveTo] = useState<Audience>({ class_id: null, section_id: null });
+  const [isRemoveOpen, setIsRemoveOpen] = useState(false);
+  const [removeReason, setRemoveReason] = useState('');
+  const [removals, setRemovals] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!school?.school_code) return;
+    fetchStudents();
+  }, [school?.school_code, search, classFilter, page]);
+
+  // Filters apply to both the visible page and the CSV export
+  const directoryQuery = () => {
+    let query = supabase
+      .from('student_directory')
+      .select('user_id, full_name, joined_at, class_ids, class_names, balance', { count: 'exact' })
+      .eq('school_code', school!.school_code);
+
+    if (search.trim()) {
+      query = query.ilike('full_name', `%${search.trim()}%`);
+    }
+    if (classFilter === NO_CLASS) {
+      query = query.filter('class_ids', 'eq', '{}');
+    } else if (classFilter !== ALL_CLASSES) {
+      query = query.contains('class_ids', [classFilter]);
+    }
+
+    return query.order('full_name', { ascending: true });
+  };
+
+  const toStudent = (row: {
+    user_id: string | null;
+    full_name: string | null;
+    joined_at: string | null;
+    class_ids: string[] | null;
+    class_names: string | null;
+    balance: number | null;
+  }): DirectoryStudent => ({
+    user_id: row.user_id!,
+    full_name: row.full_name!,
+    joined_at: row.joined_at!,
+    class_ids: row.class_ids ?? [],
+    class_names: row.class_names,
+    balance: row.balance ?? 0,
+  });
+
+  const fetchStudents = async () => {
+    setLoading(true);
+    const { data, count, error } = await directoryQuery().range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } else if (data) {
+      setStudents(data.map(toStudent));
+      setTotal(count ?? 0);
+    }
+    setLoading(false);
+  };
+
+  const updateFilters = (next: { search?: string; classFilter?: string }) => {
+    if (next.search !== undefined) setSearch(next.search);
+    if (next.classFilter !== undefined) setClassFilter(next.classFilter);
+    setPage(0);
+    setSelectedIds([]);
+  };
+
+  const toggleStudent = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)));
+  };
+
+  const allOnPageSelected = students.length > 0 && students.every((s) => selectedIds.includes(s.user_id));
+
+  const toggleAllOnPage = (checked: boolean) => {
+    const pageIds = students.map((s) => s.user_id);
+    setSelectedIds((prev) =>
+      checked ? [...new Set([...prev, ...pageIds])] : prev.filter((id) => !pageIds.includes(id))
+    );
+  };
+
+  const handleExport = async () => {
+    const query = directoryQuery();
+    const { data, error } = selectedIds.length
+      ? await query.in('user_id', selectedIds)
+      : await query;
+
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error?.message ?? 'Could not export students.',
+      });
+      return;
+    }
+
+    downloadCsv(
+      `${school!.school_code.toLowerCase()}-students.csv`,
+      ['Name', 'Joined', 'Classes', 'Balance'],
+      data.map(toStudent).map((s) => [
+        s.full_name,
+        formatDate(s.joined_at, school),
+        s.class_names,
+        s.balance.toFixed(2),
+      ])
+    );
+  };
+
+  const handleMove = async () => {
+    if (!moveTo.class_id) return;
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('move_students_to_class', {
+      _student_ids: selectedIds,
+      _class_id: moveTo.class_id,
+      _section_id: moveTo.section_id ?? undefined,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Students moved',
+      description: `${data} student${data === 1 ? '' : 's'} moved to the new class.`,
+    });
+    setIsMoveOpen(false);
+    setSelectedIds([]);
+    fetchStudents();
+  };
+
+  const handleRemove = async () => {
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('remove_students_from_school', {
+      _school_code: school!.school_code,
+      _student_ids: selectedIds,
+      _reason: removeReason.trim(),
+    });
+    setIsSubmitting(false);
+    setIsRemoveOpen(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Students removed',
+      description: `${data} student${data === 1 ? '' : 's'} removed from your school.`,
+    });
+    setSelectedIds([]);
+    setRemovals((n) => n + 1);
+    fetchStudents();
+  };
+
+  if (authLoading || roleLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/admin/create-school" replace />;
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+              <GraduationCap className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Students</h1>
+              <p className="text-muted-foreground">
+                {total} student{total === 1 ? '' : 's'} in {school.name}
+              </p>
+            </div>
+          </div>
+
+          <Button variant="outline" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            {selectedIds.length ? `Export ${selectedIds.length} Selected` : 'Export CSV'}
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search students"
+              value={search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="pl-10"
+            />
+          </div>
+          <Select value={classFilter} onValueChange={(value) => updateFilters({ classFilter: value })}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CLASSES}>All classes</SelectItem>
+              <SelectItem value={NO_CLASS}>Not in a class</SelectItem>
+              {classes.map((schoolClass) => (
+                <SelectItem key={schoolClass.id} value={schoolClass.id}>
+                  {schoolClass.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Bulk Actions */}
+        {selectedIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-muted/50 p-3">
+            <span className="text-sm font-medium">{selectedIds.length} selected</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setMoveTo({ class_id: null, section_id: null });
+                setIsMoveOpen(true);
+              }}
+              disabled={classes.length === 0}
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Move to Class
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setRemoveReason('');
+                setIsRemoveOpen(true);
+              }}
+            >
+              <UserMinus className="h-4 w-4 mr-2 text-destructive" />
+              Remove from School
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {/* Content */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : students.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <GraduationCap className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No students found</h3>
+              <p className="text-muted-foreground">
+                {search || classFilter !== ALL_CLASSES
+                  ? 'Try a different search or class.'
+                  : 'Share your join code so students can join.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allOnPageSelected}
+                      onCheckedChange={(checked) => toggleAllOnPage(checked === true)}
+                      aria-label="Select page"
+                    />
+                  </TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map((student) => (
+                  <TableRow
+                    key={student.user_id}
+                    className="cursor-pointer"
+                    onClick={() => setViewing(student)}
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.includes(student.user_id)}
+                        onCheckedChange={(checked) => toggleStudent(student.user_id, checked === true)}
+                        aria-label={`Select ${student.full_name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{student.full_name}</TableCell>
+                    <TableCell>
+                      {student.class_names ?? <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell>{formatDate(student.joined_at, school)}</TableCell>
+                    <TableCell className={`text-right ${student.balance > 0 ? 'text-destructive font-medium' : ''}`}>
+                      {formatMoney(student.balance, school)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Former Students */}
+        <FormerStudentsCard schoolCode={school.school_code} refreshKey={removals} />
+      </div>
+
+      <StudentDetailSheet
+        student={viewing}
+        schoolCode={school.school_code}
+        onOpenChange={(open) => !open && setViewing(null)}
+      />
+
+      <Dialog open={isMoveOpen} onOpenChange={setIsMoveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move to Class</DialogTitle>
+            <DialogDescription>
+              {selectedIds.length} student{selectedIds.length === 1 ? '' : 's'} will leave their current classes
+            </DialogDescription>
+          </DialogHeader>
+          <AudienceSelect classes={classes} value={moveTo} onChange={setMoveTo} classRequired label="Class" />
+          <DialogFooter>
+            <Button onClick={handleMove} disabled={isSubmitting || !moveTo.class_id}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Moving...
+                </>
+              ) : 'Move Students'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isRemoveOpen} onOpenChange={setIsRemoveOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Remove {selectedIds.length} student{selectedIds.length === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They will lose access to your school and be taken off every class roster. Their fee, scholarship and
+              notice records are archived and restored if they rejoin with your school code.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="remove-reason">Reason</Label>
+            <Textarea
+              id="remove-reason"
+              value={removeReason}
+              onChange={(e) => setRemoveReason(e.target.value)}
+              placeholder="e.g. Graduated, moved away, duplicate account"
+              rows={3}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              disabled={isSubmitting || !removeReason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { RolloverWizard } from '@/components/terms/RolloverWizard';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSchool } from '@/hooks/useSchool';
+import { useTerms } from '@/hooks/useTerms';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDate } from '@/lib/format';
+import { shiftDate, suggestAcademicYear, type AcademicYear } from '@/lib/terms';
+import { CalendarRange, Plus, Trash2, Loader2, ArrowRightLeft } from 'lucide-react';
+
+const emptyPeriod = { name: '', starts_on: '', ends_on: '' };
+
+export default function AdminTerms() {
+  const { loading: authLoading } = useAuth();
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { school, canManageSchool, loading: schoolLoading, refreshSchool } = useSchool();
+  const { years, loading, refreshTerms } = useTerms(school?.school_code);
+  const { toast } = useToast();
+
+  const [isYearDialogOpen, setIsYearDialogOpen] = useState(false);
+  const [termYear, setTermYear] = useState<AcademicYear | null>(null);
+  const [isRolloverOpen, setIsRolloverOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(emptyPeriod);
+
+  const openYearDialog = () => {
+    setFormData(school ? suggestAcademicYear(school.academic_year_start_month) : emptyPeriod);
+    setIsYearDialogOpen(true);
+  };
+
+  const openTermDialog = (year: AcademicYear) => {
+    // Suggest the next term starting the day after the last one ends
+    const lastTerm = year.terms[year.terms.length - 1];
+    setFormData({
+      name: `Term ${year.terms.length + 1}`,
+      starts_on: lastTerm ? shiftDate(lastTerm.ends_on, 1) : year.starts_on,
+      ends_on: '',
+    });
+    setTermYear(year);
+  };
+
+  const showError = (message: string) => {
+    toast({
+      variant: 'destructive',
+      title: 'Error',
+      description: message,
+    });
+  };
+
+  const validatePeriod = () => {
+    if (formData.ends_on <= formData.starts_on) {
+      showError('The end date must be after the start date.');
+      return false;
+    }
+    return true;
+  };
+
+  const handleCreateYear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!school?.school_code || !validatePeriod()) return;
+
+    setIsSubmitting(true);
+    const { error } = await supabase.from('academic_years').insert({
+      school_code: school.school_code,
+      name: formData.name.trim(),
+      starts_on: formData.starts_on,
+      ends_on: formData.ends_on,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      showError(error.code === '23505' ? 'An academic year with this name already exists.' : error.message);
+      return;
+    }
+
+    toast({
+      title: 'Academic year added',
+      description: 'Add its terms to start filing content under them.',
+    });
+    setIsYearDialogOpen(false);
+    refreshTerms();
+  };
+
+  const handleCreateTerm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!school?.school_code || !termYear || !validatePeriod()) return;
+
+    setIsSubmitting(true);
+    const { error } = await supabase.from('academic_terms').insert({
+      academic_year_id: termYear.id,
+      school_code: school.school_code,
+      name: formData.name.trim(),
+      starts_on: formData.starts_on,
+      ends_on: formData.ends_on,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      showError(error.code === '23505' ? 'This year already has a term with this name.' : error.message);
+      return;
+    }
+
+    toast({
+      title: 'Term added',
+      description: `${formData.name.trim()} has been added to ${termYear.name}.`,
+    });
+    setTermYear(null);
+    refreshTerms();
+  };
+
+  const handleDelete = async (table: 'academic_years' | 'academic_terms', id: string) => {
+    const { error } = await supabase.from(table).delete().eq('id', id);
+
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    toast({
+      title: table === 'academic_years' ? 'Academic year deleted' : 'Term deleted',
+      description: 'Content filed under it is kept, without a term.',
+    });
+    refreshTerms();
+    refreshSchool();
+  };
+
+  if (authLoading || roleLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/admin/create-school" replace />;
+  }
+
+  const periodFields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="period-name">Name *</Label>
+        <Input
+          id="period-name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          required
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="starts_on">Starts *</Label>
+          <Input
+            id="starts_on"
+            type="date"
+            value={formData.starts_on}
+            onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ends_on">Ends *</Label>
+          <Input
+            id="ends_on"
+            type="date"
+            value={formData.ends_on}
+            onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+    </>
+  );
+
+  const submitLabel = (label: string) =>
+    isSubmitting ? (
+      <>
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Saving...
+      </>
+    ) : label;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+              <CalendarRange className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Terms</h1>
+              <p className="text-muted-foreground">Academic years, their terms, and moving into the next one</p>
+            </div>
+          </div>
+
+          {canManageSchool && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={openYearDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Year
+              </Button>
+              <Button onClick={() => setIsRolloverOpen(true)} disabled={years.every((y) => y.terms.length === 0)}>
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Start Next Term
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Content */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : years.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <CalendarRange className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No academic years yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Set up the school year and its terms so fees, scholarships and notices can be filed by term.
+              </p>
+              {canManageSchool && (
+                <Button onClick={openYearDialog}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Year
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {[...years].reverse().map((year) => (
+              <Card key={year.id}>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div>
+                    <CardTitle>{year.name}</CardTitle>
+                    <CardDescription>
+                      {formatDate(year.starts_on, school)} – {formatDate(year.ends_on, school)}
+                    </CardDescription>
+                  </div>
+                  {canManageSchool && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openTermDialog(year)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Term
+                      </Button>
+                      <Button variant="outline" size="icon" onClick={() => handleDelete('academic_years', year.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {year.terms.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No terms in this year yet.</p>
+                  ) : (
+                    <div className="divide-y rounded-lg border">
+                      {year.terms.map((term) => (
+                        <div key={term.id} className="flex flex-wrap items-center justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{term.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {formatDate(term.starts_on, school)} – {formatDate(term.ends_on, school)}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {term.id === school.current_term_id && <Badge>Current</Badge>}
+                            {term.archived_at && <Badge variant="secondary">Archived</Badge>}
+                            {canManageSchool && term.id !== school.current_term_id && (
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete('academic_terms', term.id)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isYearDialogOpen} onOpenChange={setIsYearDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Academic Year</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreateYear} className="space-y-4">
+            {periodFields}
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting || !formData.name.trim()}>
+                {submitLabel('Add Year')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!termYear} onOpenChange={(open) => !open && setTermYear(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Term to {termYear?.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreateTerm} className="space-y-4">
+            {periodFields}
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting || !formData.name.trim()}>
+                {submitLabel('Add Term')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <RolloverWizard
+        open={isRolloverOpen}
+        onOpenChange={setIsRolloverOpen}
+        school={school}
+        years={years}
+        onRolledOver={() => {
+          refreshTerms();
+          refreshSchool();
+        }}
+      />
+    </DashboardLayout>
+  );
+}
@@ -15,8 +15,8 @@ export default function CreateSchool() {
   const [schoolCode, setSchoolCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [copied, setCopied] = useState(false);
-  const { user, profile, signOut, loading: authLoading, refreshProfile } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { user, signOut, loading: authLoading } = useAuth();
+  const { isAdmin, canCreateSchools, loading: roleLoading } = useUserRole();
   const { school, loading: schoolLoading, createSchool } = useSchool();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -40,8 +40,8 @@ export default function CreateSchool() {
     return <Navigate to="/join-school" replace />;
   }
 
-  // Redirect if already has school
-  if (school || profile?.school_code) {
+  // Redirect if already has school, or only runs schools as staff
+  if (school || !canCreateSchools) {
     return <Navigate to="/admin" replace />;
   }
 
@@ -96,7 +96,6 @@ export default function CreateSchool() {
       return;
     }
 
-    await refreshProfile();
     setIsLoading(false);
     
     toast({
@@ -1,11 +1,16 @@
 import { useEffect, useState } from 'react';
 import { Link, Navigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { GuardianLinkCard } from '@/components/guardians/GuardianLinkCard';
+import { LeaveSchoolCard } from '@/components/students/LeaveSchoolCard';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
 import { supabase } from '@/integrations/supabase/client';
+import { formatDate } from '@/lib/format';
 import { Award, CreditCard, Bell, ArrowRight, Calendar, Loader2, Mic } from 'lucide-react';
 
 interface Stats {
@@ -15,39 +20,51 @@ interface Stats {
 
 export default function Dashboard() {
   const { profile, user, loading: authLoading } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isAdmin, isTeacher, isGuardian, loading: roleLoading } = useUserRole();
   const [stats, setStats] = useState<Stats>({ scholarships: 0, notices: 0 });
   const [recentNotices, setRecentNotices] = useState<any[]>([]);
 
   useEffect(() => {
-    if (!profile?.school_code) return;
-
-    const fetchStats = async () => {
-      const [scholarshipsRes, noticesRes] = await Promise.all([
-        supabase.from('scholarships').select('id', { count: 'exact' }).eq('school_code', profile.school_code),
-        supabase.from('notices').select('id', { count: 'exact' }).eq('school_code', profile.school_code),
-      ]);
+    if (!school) return;
+    fetchStats();
+  }, [school?.school_code]);
 
-      setStats({
-        scholarships: scholarshipsRes.count || 0,
-        notices: noticesRes.count || 0,
-      });
+  useRealtimeTable('notices', school?.school_code, () => fetchStats());
+  useRealtimeTable('scholarships', school?.school_code, () => fetchStats());
 
-      // Fetch recent notices
-      const { data: notices } = await supabase
+  const fetchStats = async () => {
+    const [scholarshipsRes, noticesRes] = await Promise.all([
+      supabase
+        .from('scholarships')
+        .select('id', { count: 'exact' })
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null),
+      supabase
         .from('notices')
-        .select('*')
-        .eq('school_code', profile.school_code)
-        .order('created_at', { ascending: false })
-        .limit(3);
+        .select('id', { count: 'exact' })
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null),
+    ]);
 
-      if (notices) setRecentNotices(notices);
-    };
+    setStats({
+      scholarships: scholarshipsRes.count || 0,
+      notices: noticesRes.count || 0,
+    });
 
-    fetchStats();
-  }, [profile?.school_code]);
+    // Fetch recent notices
+    const { data: notices } = await supabase
+      .from('notices')
+      .select('*')
+      .eq('school_code', school!.school_code)
+      .is('archived_at', null)
+      .order('publish_at', { ascending: false })
+      .limit(3);
 
-  if (authLoading || roleLoading) {
+    if (notices) setRecentNotices(notices);
+  };
+
+  if (authLoading || roleLoading || schoolLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -63,7 +80,15 @@ export default function Dashboard() {
     return <Navigate to="/admin" replace />;
   }
 
-  if (!profile?.school_code) {
+  if (isTeacher) {
+    return <Navigate to="/teacher" replace />;
+  }
+
+  if (isGuardian) {
+    return <Navigate to="/guardian" replace />;
+  }
+
+  if (!school) {
     return <Navigate to="/join-school" replace />;
   }
 
@@ -227,7 +252,7 @@ export default function Dashboard() {
                         </p>
                         <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          {new Date(notice.created_at).toLocaleDateString()}
+                          {formatDate(notice.publish_at ?? notice.created_at, school)}
                         </p>
                       </div>
                     </div>
@@ -237,6 +262,12 @@ export default function Dashboard() {
             </div>
           </div>
         )}
+
+        {/* Guardian Access */}
+        <GuardianLinkCard />
+
+        {/* Leave or Transfer */}
+        <LeaveSchoolCard />
       </div>
     </DashboardLayout>
   );
@@ -3,67 +3,110 @@ import { Navigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
 import { useUserRole } from '@/hooks/useUserRole';
+import { applyRealtimeChange, useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Bell, Calendar, AlertTriangle, Info, Megaphone, Loader2 } from 'lucide-react';
+import { isNoticeLive } from '@/lib/notices';
+import { formatDate } from '@/lib/format';
+import { Bell, BellRing, Calendar, AlertTriangle, Info, Megaphone, Loader2, CheckCircle2 } from 'lucide-react';
 
 interface Notice {
   id: string;
   title: string;
   content: string;
   priority: string | null;
+  requires_acknowledgement: boolean;
+  publish_at: string | null;
+  expires_at: string | null;
+  archived_at: string | null;
   created_at: string;
 }
 
+interface Receipt {
+  notice_id: string;
+  read_at: string | null;
+  acknowledged_at: string | null;
+  reminded_at: string | null;
+}
+
 export default function Notices() {
-  const { profile, user, loading: authLoading } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { user, loading: authLoading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isAdmin, isTeacher, isGuardian, loading: roleLoading } = useUserRole();
   const [notices, setNotices] = useState<Notice[]>([]);
   const [loading, setLoading] = useState(true);
+  const [receipts, setReceipts] = useState<Record<string, Receipt>>({});
+  const [unreadIds, setUnreadIds] = useState<string[]>([]);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
-    if (!profile?.school_code) return;
+    if (!school?.school_code || !user) return;
 
     const fetchNotices = async () => {
-      const { data, error } = await supabase
-        .from('notices')
-        .select('*')
-        .eq('school_code', profile.school_code)
-        .order('created_at', { ascending: false });
+      const [{ data, error }, { data: receiptData }] = await Promise.all([
+        supabase
+          .from('notices')
+          .select('*')
+          .eq('school_code', school.school_code)
+          .is('archived_at', null)
+          .order('publish_at', { ascending: false }),
+        supabase
+          .from('notice_receipts')
+          .select('notice_id, read_at, acknowledged_at, reminded_at')
+          .eq('user_id', user.id),
+      ]);
 
       if (!error && data) {
+        const byNotice = Object.fromEntries((receiptData ?? []).map((r) => [r.notice_id, r]));
+        const unread = data.filter((n) => !byNotice[n.id]?.read_at).map((n) => n.id);
+
         setNotices(data);
+        setReceipts(byNotice);
+        setUnreadIds(unread);
+
+        if (unread.length > 0) {
+          await supabase.rpc('mark_notices_read', { _notice_ids: unread });
+        }
       }
       setLoading(false);
     };
 
     fetchNotices();
+  }, [school?.school_code, user]);
 
-    // Subscribe to realtime updates
-    const channel = supabase
-      .channel('notices-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'notices',
-          filter: `school_code=eq.${profile.school_code}`,
-        },
-        (payload) => {
-          setNotices((prev) => [payload.new as Notice, ...prev]);
-        }
-      )
-      .subscribe();
+  // Scheduled notices arrive as an update once the server stamps them live,
+  // since RLS hides them from students until then
+  useRealtimeTable('notices', school?.school_code, (change) => {
+    setNotices((prev) =>
+      applyRealtimeChange<Notice>(prev, change, (n) => isNoticeLive(n) && !n.archived_at).sort((a, b) => b.publish_at!.localeCompare(a.publish_at!))
+    );
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [profile?.school_code]);
+    if (change.eventType !== 'DELETE' && isNoticeLive(change.new) && !change.new.archived_at) {
+      const id = change.new.id;
+      setUnreadIds((prev) => (prev.includes(id) || receipts[id]?.read_at ? prev : [...prev, id]));
+      supabase.rpc('mark_notices_read', { _notice_ids: [id] }).then();
+    }
+  });
 
-  if (authLoading || roleLoading) {
+  // Drop notices from the board as they expire
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNotices((prev) => {
+        const live = prev.filter((n) => isNoticeLive(n));
+        return live.length === prev.length ? prev : live;
+      });
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  if (authLoading || roleLoading || schoolLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -79,10 +122,44 @@ export default function Notices() {
     return <Navigate to="/admin/notices" replace />;
   }
 
-  if (!profile?.school_code) {
+  if (isTeacher) {
+    return <Navigate to="/teacher/notices" replace />;
+  }
+
+  if (isGuardian) {
+    return <Navigate to="/guardian/notices" replace />;
+  }
+
+  if (!school) {
     return <Navigate to="/join-school" replace />;
   }
 
+  const handleAcknowledge = async (noticeId: string) => {
+    setAcknowledgingId(noticeId);
+    const { error } = await supabase.rpc('acknowledge_notice', { _notice_id: noticeId });
+    setAcknowledgingId(null);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    setReceipts((prev) => ({
+      ...prev,
+      [noticeId]: {
+        notice_id: noticeId,
+        read_at: prev[noticeId]?.read_at ?? now,
+        acknowledged_at: now,
+        reminded_at: prev[noticeId]?.reminded_at ?? null,
+      },
+    }));
+  };
+
   const getPriorityIcon = (priority: string | null) => {
     switch (priority) {
       case 'high':
@@ -105,7 +182,7 @@ export default function Notices() {
     }
   };
 
-  const formatDate = (dateString: string) => {
+  const formatNoticeDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
@@ -117,11 +194,7 @@ export default function Notices() {
     } else if (diffInHours < 48) {
       return 'Yesterday';
     } else {
-      return date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
-      });
+      return formatDate(dateString, school);
     }
   };
 
@@ -168,11 +241,18 @@ export default function Notices() {
           </Card>
         ) : (
           <div className="space-y-4">
-            {notices.map((notice) => (
+            {notices.map((notice) => {
+              const receipt = receipts[notice.id];
+              const awaitingAcknowledgement = notice.requires_acknowledgement && !receipt?.acknowledged_at;
+              const reminded = !!receipt?.reminded_at && awaitingAcknowledgement;
+
+              return (
               <Card
                 key={notice.id}
                 className={`transition-all duration-200 hover:shadow-md ${
-                  notice.priority === 'high'
+                  reminded
+                    ? 'border-orange-500/50 bg-orange-500/5'
+                    : notice.priority === 'high'
                     ? 'border-destructive/30 bg-destructive/5'
                     : ''
                 }`}
@@ -196,22 +276,57 @@ export default function Notices() {
                         <h3 className="font-semibold text-lg leading-tight">
                           {notice.title}
                         </h3>
-                        {getPriorityBadge(notice.priority)}
+                        <div className="flex flex-wrap gap-2 justify-end">
+                          {unreadIds.includes(notice.id) && <Badge>New</Badge>}
+                          {getPriorityBadge(notice.priority)}
+                        </div>
                       </div>
 
+                      {reminded && (
+                        <div className="flex items-center gap-2 text-sm text-orange-600 mb-2">
+                          <BellRing className="h-4 w-4" />
+                          <span>Your school has asked you to acknowledge this notice.</span>
+                        </div>
+                      )}
+
                       <p className="text-muted-foreground whitespace-pre-wrap mb-3">
                         {notice.content}
                       </p>
 
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <Calendar className="h-4 w-4" />
-                        <span>{formatDate(notice.created_at)}</span>
+                        <span>{formatNoticeDate(notice.publish_at ?? notice.created_at)}</span>
                       </div>
+
+                      {notice.requires_acknowledgement && (
+                        <div className="mt-4">
+                          {receipt?.acknowledged_at ? (
+                            <Badge variant="outline" className="border-green-600 text-green-600">
+                              <CheckCircle2 className="h-3 w-3 mr-1" />
+                              Acknowledged {formatDate(receipt.acknowledged_at, school)}
+                            </Badge>
+                          ) : (
+                            <Button
+                              size="sm"
+                              onClick={() => handleAcknowledge(notice.id)}
+                              disabled={acknowledgingId === notice.id}
+                            >
+                              {acknowledgingId === notice.id ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <CheckCircle2 className="h-4 w-4 mr-2" />
+                              )}
+                              Acknowledge
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
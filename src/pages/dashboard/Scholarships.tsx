@@ -4,10 +4,19 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { ApplyScholarshipDialog } from '@/components/scholarships/ApplyScholarshipDialog';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { IncomeBracketCard } from '@/components/scholarships/IncomeBracketCard';
 import { useAuth } from '@/hooks/useAuth';
+import { useClasses } from '@/hooks/useClasses';
+import { useSchool } from '@/hooks/useSchool';
 import { useUserRole } from '@/hooks/useUserRole';
+import { applyRealtimeChange, useRealtimeTable } from '@/hooks/useRealtimeTable';
 import { supabase } from '@/integrations/supabase/client';
-import { Award, Calendar, DollarSign, Loader2 } from 'lucide-react';
+import { formatDate, formatMoney, schoolToday } from '@/lib/format';
+import { hasEligibilityRules, ineligibilityReasons, type EligibilityCheck } from '@/lib/scholarships';
+import { Award, Calendar, Banknote, Loader2, FileText } from 'lucide-react';
 
 interface Scholarship {
   id: string;
@@ -16,22 +25,61 @@ interface Scholarship {
   amount: number | null;
   deadline: string | null;
   eligibility: string | null;
+  archived_at: string | null;
+  eligible_class_ids: string[];
+  max_income_bracket: string | null;
+  required_documents: string[];
+}
+
+interface Application {
+  scholarship_id: string;
+  status: string;
+  awarded_amount: number | null;
 }
 
 export default function Scholarships() {
-  const { profile, user, loading: authLoading } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { user, profile, loading: authLoading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { classes } = useClasses(school?.school_code);
+  const { isAdmin, isTeacher, isGuardian, loading: roleLoading } = useUserRole();
   const [scholarships, setScholarships] = useState<Scholarship[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [checks, setChecks] = useState<EligibilityCheck[]>([]);
+  const [applyingTo, setApplyingTo] = useState<Scholarship | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const fetchApplications = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('scholarship_applications')
+      .select('scholarship_id, status, awarded_amount')
+      .eq('student_id', user.id);
+
+    if (!error && data) {
+      setApplications(data);
+    }
+  };
+
+  const fetchEligibility = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('scholarship_eligibility', { _student_id: user.id });
+
+    if (!error && data) {
+      setChecks(data);
+    }
+  };
+
   useEffect(() => {
-    if (!profile?.school_code) return;
+    if (!school) return;
 
     const fetchScholarships = async () => {
       const { data, error } = await supabase
         .from('scholarships')
         .select('*')
-        .eq('school_code', profile.school_code)
+        .eq('school_code', school.school_code)
+        .is('archived_at', null)
         .order('deadline', { ascending: true });
 
       if (!error && data) {
@@ -41,9 +89,18 @@ export default function Scholarships() {
     };
 
     fetchScholarships();
-  }, [profile?.school_code]);
+    fetchApplications();
+    fetchEligibility();
+  }, [school?.school_code]);
+
+  useRealtimeTable('scholarships', school?.school_code, (change) => {
+    setScholarships((prev) =>
+      applyRealtimeChange(prev, change, (s) => !s.archived_at).sort((a, b) => (a.deadline ?? '9999').localeCompare(b.deadline ?? '9999'))
+    );
+    fetchEligibility();
+  });
 
-  if (authLoading || roleLoading) {
+  if (authLoading || roleLoading || schoolLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -59,19 +116,27 @@ export default function Scholarships() {
     return <Navigate to="/admin/scholarships" replace />;
   }
 
-  if (!profile?.school_code) {
+  if (isTeacher) {
+    return <Navigate to="/teacher" replace />;
+  }
+
+  if (isGuardian) {
+    return <Navigate to="/guardian/scholarships" replace />;
+  }
+
+  if (!school) {
     return <Navigate to="/join-school" replace />;
   }
 
   const isDeadlineSoon = (deadline: string | null) => {
     if (!deadline) return false;
-    const days = Math.ceil((new Date(deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    const days = (Date.parse(deadline) - Date.parse(schoolToday(school))) / (1000 * 60 * 60 * 24);
     return days <= 7 && days >= 0;
   };
 
   const isExpired = (deadline: string | null) => {
     if (!deadline) return false;
-    return new Date(deadline) < new Date();
+    return deadline < schoolToday(school);
   };
 
   return (
@@ -90,6 +155,8 @@ export default function Scholarships() {
           </div>
         </div>
 
+        {scholarships.some((s) => s.max_income_bracket) && <IncomeBracketCard onSaved={fetchEligibility} />}
+
         {/* Content */}
         {loading ? (
           <div className="space-y-4">
@@ -120,6 +187,15 @@ export default function Scholarships() {
             {scholarships.map((scholarship) => {
               const expired = isExpired(scholarship.deadline);
               const deadlineSoon = isDeadlineSoon(scholarship.deadline);
+              const application = applications.find((a) => a.scholarship_id === scholarship.id);
+              const hasRules = hasEligibilityRules(scholarship);
+              const reasons = ineligibilityReasons(
+                scholarship,
+                checks.filter((c) => c.scholarship_id === scholarship.id),
+                classes,
+                profile?.income_bracket ?? null
+              );
+              const qualifies = reasons.length === 0;
 
               return (
                 <Card
@@ -133,8 +209,18 @@ export default function Scholarships() {
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2 flex-wrap">
                           <h3 className="font-semibold text-lg">{scholarship.title}</h3>
-                          {expired && <Badge variant="secondary">Expired</Badge>}
-                          {deadlineSoon && !expired && (
+                          {application && <ApplicationStatusBadge status={application.status} />}
+                          {hasRules && !application && !expired && (
+                            qualifies ? (
+                              <Badge className="bg-green-600 hover:bg-green-600/80">You qualify</Badge>
+                            ) : (
+                              <Badge variant="outline" className="border-destructive text-destructive">
+                                You don't qualify
+                              </Badge>
+                            )
+                          )}
+                          {expired && !application && <Badge variant="secondary">Expired</Badge>}
+                          {deadlineSoon && !expired && !application && (
                             <Badge variant="outline" className="border-orange-500 text-orange-500">
                               Deadline Soon
                             </Badge>
@@ -148,8 +234,8 @@ export default function Scholarships() {
                         <div className="flex flex-wrap gap-4 text-sm">
                           {scholarship.amount && (
                             <div className="flex items-center gap-1 text-green-600 font-medium">
-                              <DollarSign className="h-4 w-4" />
-                              <span>{scholarship.amount.toLocaleString()}</span>
+                              <Banknote className="h-4 w-4" />
+                              <span>{formatMoney(scholarship.amount, school)}</span>
                             </div>
                           )}
                           {scholarship.deadline && (
@@ -157,7 +243,7 @@ export default function Scholarships() {
                               expired ? 'text-muted-foreground' : deadlineSoon ? 'text-orange-500' : 'text-muted-foreground'
                             }`}>
                               <Calendar className="h-4 w-4" />
-                              <span>Deadline: {new Date(scholarship.deadline).toLocaleDateString()}</span>
+                              <span>Deadline: {formatDate(scholarship.deadline, school)}</span>
                             </div>
                           )}
                         </div>
@@ -167,7 +253,32 @@ export default function Scholarships() {
                             <strong>Eligibility:</strong> {scholarship.eligibility}
                           </p>
                         )}
+
+                        {!qualifies && !application && !expired && (
+                          <p className="text-sm text-destructive mt-2">
+                            You don't qualify because {reasons.join(' and ')}.
+                          </p>
+                        )}
+
+                        {scholarship.required_documents.length > 0 && (
+                          <p className="text-sm text-muted-foreground mt-2 flex items-center gap-1">
+                            <FileText className="h-4 w-4" />
+                            Requires: {scholarship.required_documents.join(', ')}
+                          </p>
+                        )}
+
+                        {application?.status === 'awarded' && application.awarded_amount && (
+                          <p className="text-sm text-green-600 font-medium mt-3">
+                            You were awarded {formatMoney(application.awarded_amount, school)}
+                          </p>
+                        )}
                       </div>
+
+                      {!application && !expired && (
+                        <Button onClick={() => setApplyingTo(scholarship)} disabled={!qualifies}>
+                          Apply
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -176,6 +287,12 @@ export default function Scholarships() {
           </div>
         )}
       </div>
+
+      <ApplyScholarshipDialog
+        scholarship={applyingTo}
+        onOpenChange={(open) => !open && setApplyingTo(null)}
+        onSubmitted={fetchApplications}
+      />
     </DashboardLayout>
   );
 }
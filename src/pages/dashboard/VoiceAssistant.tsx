@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
 import { supabase } from '@/integrations/supabase/client';
+import { formatMoney } from '@/lib/format';
 import { Mic, MicOff, Volume2, VolumeX, Loader2, MessageSquare, Bot, User } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
@@ -18,6 +20,7 @@ interface Message {
 
 export default function VoiceAssistant() {
   const { profile } = useAuth();
+  const { school } = useSchool();
   const { toast } = useToast();
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -53,33 +56,36 @@ export default function VoiceAssistant() {
 
   // Fetch context for AI (scholarships, notices, fees)
   const fetchContext = useCallback(async () => {
-    if (!profile?.school_code) return '';
+    if (!profile || !school) return '';
 
     const [scholarshipsRes, noticesRes, feesRes] = await Promise.all([
       supabase
         .from('scholarships')
         .select('title, description, amount, deadline')
-        .eq('school_code', profile.school_code)
+        .eq('school_code', school.school_code)
+        .is('archived_at', null)
         .limit(5),
       supabase
         .from('notices')
         .select('title, content, priority, created_at')
-        .eq('school_code', profile.school_code)
+        .eq('school_code', school.school_code)
+        .is('archived_at', null)
         .order('created_at', { ascending: false })
         .limit(5),
       supabase
         .from('fees')
         .select('title, amount, due_date, category')
-        .eq('school_code', profile.school_code)
+        .eq('school_code', school.school_code)
+        .is('archived_at', null)
         .limit(5),
     ]);
 
-    let context = `User: ${profile.full_name}\nSchool Code: ${profile.school_code}\n\n`;
+    let context = `User: ${profile.full_name}\nSchool Code: ${school.school_code}\n\n`;
 
     if (scholarshipsRes.data?.length) {
       context += 'Recent Scholarships:\n';
       scholarshipsRes.data.forEach((s) => {
-        context += `- ${s.title}: ${s.description || 'No description'}. Amount: $${s.amount || 'N/A'}. Deadline: ${s.deadline || 'N/A'}\n`;
+        context += `- ${s.title}: ${s.description || 'No description'}. Amount: ${s.amount ? formatMoney(s.amount, school) : 'N/A'}. Deadline: ${s.deadline || 'N/A'}\n`;
       });
     }
 
@@ -93,7 +99,7 @@ export default function VoiceAssistant() {
     if (feesRes.data?.length) {
       context += '\nFees:\n';
       feesRes.data.forEach((f) => {
-        context += `- ${f.title}: $${f.amount}. Category: ${f.category || 'General'}. Due: ${f.due_date || 'N/A'}\n`;
+        context += `- ${f.title}: ${formatMoney(f.amount, school)}. Category: ${f.category || 'General'}. Due: ${f.due_date || 'N/A'}\n`;
       });
     }
 
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LinkChildForm } from '@/components/guardians/LinkChildForm';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useSchool } from '@/hooks/useSchool';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { audienceFilter } from '@/lib/classes';
+import { formatMoney } from '@/lib/format';
+import { ArrowRight, Award, Bell, CreditCard, Loader2, School, Trash2 } from 'lucide-react';
+
+interface ChildStats {
+  balance: number;
+  notices: number;
+  applications: number;
+}
+
+export default function GuardianDashboard() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const { isGuardian, loading: roleLoading } = useUserRole();
+  const { linkedChildren, activeChild, loading: childrenLoading, refreshChildren } = useGuardian();
+  const { school, loading: schoolLoading } = useSchool();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<ChildStats>({ balance: 0, notices: 0, applications: 0 });
+
+  useEffect(() => {
+    if (!activeChild || !school) return;
+
+    const fetchStats = async () => {
+      // RLS lets through notices for every linked child, so narrow to this child's classes and sections
+      const { data: enrollments } = await supabase
+        .from('class_enrollments')
+        .select('class_id, section_id')
+        .eq('student_id', activeChild.student_id);
+
+      const [balancesRes, noticesRes, applicationsRes] = await Promise.all([
+        supabase
+          .from('fee_assignment_balances')
+          .select('balance')
+          .eq('student_id', activeChild.student_id)
+          .eq('school_code', school.school_code)
+          .is('archived_at', null),
+        supabase
+          .from('notices')
+          .select('id', { count: 'exact' })
+          .eq('school_code', school.school_code)
+          .is('archived_at', null)
+          .or(audienceFilter(enrollments ?? [])),
+        supabase
+          .from('scholarship_applications')
+          .select('id', { count: 'exact' })
+          .eq('student_id', activeChild.student_id)
+          .eq('school_code', school.school_code),
+      ]);
+
+      setStats({
+        balance: (balancesRes.data ?? []).reduce((sum, b) => sum + (b.balance ?? 0), 0),
+        notices: noticesRes.count || 0,
+        applications: applicationsRes.count || 0,
+      });
+    };
+
+    fetchStats();
+  }, [activeChild, school?.school_code]);
+
+  const handleUnlink = async (studentId: string) => {
+    const { error } = await supabase
+      .from('guardian_links')
+      .delete()
+      .eq('guardian_id', user!.id)
+      .eq('student_id', studentId);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: 'Child unlinked',
+      description: 'Ask your child for a new link code to reconnect.',
+    });
+    refreshChildren();
+  };
+
+  if (authLoading || roleLoading || childrenLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isGuardian) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const childName = activeChild?.full_name.split(' ')[0];
+
+  const quickActions = [
+    {
+      href: '/guardian/fees',
+      label: 'Fees',
+      description: `${formatMoney(stats.balance, school)} outstanding`,
+      icon: CreditCard,
+      color: 'bg-accent/10 text-accent',
+    },
+    {
+      href: '/guardian/notices',
+      label: 'Notices',
+      description: `${stats.notices} announcement${stats.notices === 1 ? '' : 's'}`,
+      icon: Bell,
+      color: 'bg-blue-500/10 text-blue-500',
+    },
+    {
+      href: '/guardian/scholarships',
+      label: 'Scholarships',
+      description: `${stats.applications} application${stats.applications === 1 ? '' : 's'}`,
+      icon: Award,
+      color: 'bg-secondary/10 text-secondary',
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-8">
+        {/* Welcome Header */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">
+            Welcome back, {profile?.full_name?.split(' ')[0] || 'there'}! 👋
+          </h1>
+          <p className="text-muted-foreground">
+            {activeChild
+              ? `Here's how things are going for ${childName}${school ? ` at ${school.name}` : ''}.`
+              : 'Link your child\'s account to follow their school life.'}
+          </p>
+        </div>
+
+        {/* Child Overview */}
+        {activeChild && (
+          school ? (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {quickActions.map((action) => {
+                const Icon = action.icon;
+                return (
+                  <Link key={action.href} to={action.href}>
+                    <Card className="h-full transition-all duration-200 hover:shadow-lg hover:scale-[1.02] cursor-pointer group">
+                      <CardContent className="p-5">
+                        <div className={`w-12 h-12 rounded-xl ${action.color} flex items-center justify-center mb-4`}>
+                          <Icon className="h-6 w-6" />
+                        </div>
+                        <h3 className="font-semibold">{action.label}</h3>
+                        <p className="text-sm text-muted-foreground mt-1">{action.description}</p>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground mt-4 group-hover:translate-x-1 transition-transform" />
+                      </CardContent>
+                    </Card>
+                  </Link>
+                );
+              })}
+            </div>
+          ) : (
+            <Card className="text-center py-12">
+              <CardContent>
+                <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                  <School className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-semibold mb-2">{childName} hasn't joined a school yet</h3>
+                <p className="text-muted-foreground">
+                  Their fees, notices and scholarships will appear once they join with their school code.
+                </p>
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        {/* Linked Children */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{linkedChildren.length > 0 ? 'Your Children' : 'Link Your Child'}</CardTitle>
+            <CardDescription>
+              Your child can create a link code from their SchoolConnect dashboard
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <LinkChildForm />
+
+            {linkedChildren.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {linkedChildren.map((child) => (
+                  <div key={child.student_id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{child.full_name}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {child.schools.map((s) => s.name).join(', ') || 'No school yet'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {child.student_id === activeChild?.student_id && (
+                        <Badge variant="secondary">Viewing</Badge>
+                      )}
+                      <Button variant="outline" size="icon" title="Unlink" onClick={() => handleUnlink(child.student_id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,48 @@
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { FeeStatement } from '@/components/fees/FeeStatement';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useSchool } from '@/hooks/useSchool';
+import { Loader2 } from 'lucide-react';
+
+export default function GuardianFees() {
+  const { user, loading: authLoading } = useAuth();
+  const { isGuardian, loading: roleLoading } = useUserRole();
+  const { activeChild, loading: childrenLoading } = useGuardian();
+  const { school, loading: schoolLoading } = useSchool();
+
+  if (authLoading || roleLoading || childrenLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isGuardian) {
+    return <Navigate to="/dashboard/fees" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/guardian" replace />;
+  }
+
+  const childName = activeChild.full_name.split(' ')[0];
+
+  return (
+    <DashboardLayout>
+      <FeeStatement
+        studentId={activeChild.student_id}
+        schoolCode={school.school_code}
+        description={`${childName}'s balance, due dates and payment history`}
+        emptyMessage={`Fees assigned to ${childName} will appear here.`}
+      />
+    </DashboardLayout>
+  );
+}
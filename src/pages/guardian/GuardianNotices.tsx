@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useSchool } from '@/hooks/useSchool';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { supabase } from '@/integrations/supabase/client';
+import { audienceFilter } from '@/lib/classes';
+import { formatDate } from '@/lib/format';
+import { Bell, Calendar, CheckCircle2, Clock, Loader2, Megaphone } from 'lucide-react';
+
+interface Notice {
+  id: string;
+  title: string;
+  content: string;
+  priority: string | null;
+  requires_acknowledgement: boolean;
+  publish_at: string | null;
+  created_at: string;
+}
+
+interface Receipt {
+  notice_id: string;
+  read_at: string | null;
+  acknowledged_at: string | null;
+}
+
+export default function GuardianNotices() {
+  const { user, loading: authLoading } = useAuth();
+  const { isGuardian, loading: roleLoading } = useUserRole();
+  const { activeChild, loading: childrenLoading } = useGuardian();
+  const { school, loading: schoolLoading } = useSchool();
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [receipts, setReceipts] = useState<Record<string, Receipt>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!activeChild || !school) return;
+    setLoading(true);
+    fetchNotices();
+  }, [activeChild, school?.school_code]);
+
+  useRealtimeTable('notices', school?.school_code, () => fetchNotices());
+
+  const fetchNotices = async () => {
+    // RLS lets through notices for every linked child, so narrow to this child's classes and sections
+    const { data: enrollments } = await supabase
+      .from('class_enrollments')
+      .select('class_id, section_id')
+      .eq('student_id', activeChild!.student_id);
+
+    const [{ data, error }, { data: receiptData }] = await Promise.all([
+      supabase
+        .from('notices')
+        .select('id, title, content, priority, requires_acknowledgement, publish_at, created_at')
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null)
+        .or(audienceFilter(enrollments ?? []))
+        .order('publish_at', { ascending: false }),
+      supabase
+        .from('notice_receipts')
+        .select('notice_id, read_at, acknowledged_at')
+        .eq('user_id', activeChild!.student_id),
+    ]);
+
+    if (!error && data) {
+      setNotices(data);
+      setReceipts(Object.fromEntries((receiptData ?? []).map((r) => [r.notice_id, r])));
+    }
+    setLoading(false);
+  };
+
+  if (authLoading || roleLoading || childrenLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isGuardian) {
+    return <Navigate to="/dashboard/notices" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/guardian" replace />;
+  }
+
+  const childName = activeChild.full_name.split(' ')[0];
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-blue-500/10 rounded-xl flex items-center justify-center">
+            <Bell className="h-6 w-6 text-blue-500" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Notices</h1>
+            <p className="text-muted-foreground">
+              Announcements sent to {childName}
+            </p>
+          </div>
+        </div>
+
+        {/* Content */}
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-6 w-2/3 mb-2" />
+                  <Skeleton className="h-4 w-full mb-2" />
+                  <Skeleton className="h-4 w-3/4" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : notices.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <Megaphone className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No notices yet</h3>
+              <p className="text-muted-foreground">
+                Announcements sent to {childName} will appear here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {notices.map((notice) => {
+              const receipt = receipts[notice.id];
+              return (
+                <Card
+                  key={notice.id}
+                  className={`transition-all duration-200 hover:shadow-md ${
+                    notice.priority === 'high' ? 'border-destructive/30 bg-destructive/5' : ''
+                  }`}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <h3 className="font-semibold text-lg leading-tight">{notice.title}</h3>
+                      {notice.priority === 'high' && <Badge variant="destructive">Urgent</Badge>}
+                    </div>
+
+                    <p className="text-muted-foreground whitespace-pre-wrap mb-3">{notice.content}</p>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDate(notice.publish_at ?? notice.created_at, school)}</span>
+                      </div>
+                      {notice.requires_acknowledgement ? (
+                        receipt?.acknowledged_at ? (
+                          <Badge variant="outline" className="border-green-600 text-green-600">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            {childName} acknowledged {formatDate(receipt.acknowledged_at, school)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-orange-500 text-orange-500">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Awaiting {childName}'s acknowledgement
+                          </Badge>
+                        )
+                      ) : (
+                        <span>{receipt?.read_at ? `Read by ${childName}` : `Not yet read by ${childName}`}</span>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
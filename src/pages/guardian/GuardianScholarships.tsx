@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ApplicationStatusBadge } from '@/components/scholarships/ApplicationStatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useGuardian } from '@/hooks/useGuardian';
+import { useSchool } from '@/hooks/useSchool';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { supabase } from '@/integrations/supabase/client';
+import { audienceFilter } from '@/lib/classes';
+import { formatDate, formatMoney, schoolToday } from '@/lib/format';
+import { Award, Calendar, Banknote, Loader2 } from 'lucide-react';
+
+interface Scholarship {
+  id: string;
+  title: string;
+  amount: number | null;
+  deadline: string | null;
+}
+
+interface Application {
+  id: string;
+  scholarship_id: string;
+  status: string;
+  awarded_amount: number | null;
+  submitted_at: string;
+}
+
+export default function GuardianScholarships() {
+  const { user, loading: authLoading } = useAuth();
+  const { isGuardian, loading: roleLoading } = useUserRole();
+  const { activeChild, loading: childrenLoading } = useGuardian();
+  const { school, loading: schoolLoading } = useSchool();
+  const [scholarships, setScholarships] = useState<Scholarship[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!activeChild || !school) return;
+    setLoading(true);
+    fetchScholarships();
+  }, [activeChild, school?.school_code]);
+
+  useRealtimeTable('scholarships', school?.school_code, () => fetchScholarships());
+
+  const fetchScholarships = async () => {
+    // RLS lets through scholarships for every linked child, so narrow to this child's classes and sections
+    const { data: enrollments } = await supabase
+      .from('class_enrollments')
+      .select('class_id, section_id')
+      .eq('student_id', activeChild!.student_id);
+
+    const [scholarshipsRes, applicationsRes] = await Promise.all([
+      supabase
+        .from('scholarships')
+        .select('id, title, amount, deadline')
+        .eq('school_code', school!.school_code)
+        .is('archived_at', null)
+        .or(audienceFilter(enrollments ?? []))
+        .order('deadline', { ascending: true }),
+      supabase
+        .from('scholarship_applications')
+        .select('id, scholarship_id, status, awarded_amount, submitted_at')
+        .eq('student_id', activeChild!.student_id)
+        .order('submitted_at', { ascending: false }),
+    ]);
+
+    if (!scholarshipsRes.error && scholarshipsRes.data) {
+      setScholarships(scholarshipsRes.data);
+    }
+    if (!applicationsRes.error && applicationsRes.data) {
+      setApplications(applicationsRes.data);
+    }
+    setLoading(false);
+  };
+
+  if (authLoading || roleLoading || childrenLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isGuardian) {
+    return <Navigate to="/dashboard/scholarships" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/guardian" replace />;
+  }
+
+  const childName = activeChild.full_name.split(' ')[0];
+  const appliedIds = applications.map((a) => a.scholarship_id);
+  const today = schoolToday(school);
+  const open = scholarships.filter((s) => !appliedIds.includes(s.id) && (!s.deadline || s.deadline >= today));
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-secondary/10 rounded-xl flex items-center justify-center">
+            <Award className="h-6 w-6 text-secondary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Scholarships</h1>
+            <p className="text-muted-foreground">
+              {childName}'s applications and open opportunities
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <Skeleton className="h-6 w-1/3" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-2/3" />
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Applications */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Applications</CardTitle>
+                <CardDescription>Scholarships {childName} has applied for</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {applications.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">
+                    {childName} hasn't applied for any scholarships yet.
+                  </p>
+                ) : (
+                  <div className="divide-y rounded-lg border">
+                    {applications.map((application) => {
+                      const scholarship = scholarships.find((s) => s.id === application.scholarship_id);
+                      return (
+                        <div key={application.id} className="flex items-center justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{scholarship?.title ?? 'Scholarship'}</p>
+                            <p className="text-sm text-muted-foreground">
+                              Submitted {formatDate(application.submitted_at, school)}
+                              {application.status === 'awarded' && application.awarded_amount &&
+                                ` · Awarded ${formatMoney(application.awarded_amount, school)}`}
+                            </p>
+                          </div>
+                          <ApplicationStatusBadge status={application.status} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Open Scholarships */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Open Scholarships</CardTitle>
+                <CardDescription>{childName} can apply for these from their own account</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {open.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No open scholarships right now.</p>
+                ) : (
+                  <div className="divide-y rounded-lg border">
+                    {open.map((scholarship) => (
+                      <div key={scholarship.id} className="flex flex-wrap items-center justify-between gap-4 p-3">
+                        <p className="font-medium">{scholarship.title}</p>
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          {scholarship.amount && (
+                            <div className="flex items-center gap-1 text-green-600 font-medium">
+                              <Banknote className="h-4 w-4" />
+                              <span>{formatMoney(scholarship.amount, school)}</span>
+                            </div>
+                          )}
+                          {scholarship.deadline && (
+                            <div className="flex items-center gap-1 text-muted-foreground">
+                              <Calendar className="h-4 w-4" />
+                              <span>Deadline: {formatDate(scholarship.deadline, school)}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
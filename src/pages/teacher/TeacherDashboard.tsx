@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useClasses } from '@/hooks/useClasses';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowRight, Bell, Loader2, School, Users } from 'lucide-react';
+
+export default function TeacherDashboard() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isTeacher, loading: roleLoading } = useUserRole();
+  const { classes, loading: classesLoading } = useClasses(school?.school_code, user?.id);
+  const [studentCounts, setStudentCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (classes.length === 0) return;
+
+    const fetchCounts = async () => {
+      const { data } = await supabase
+        .from('class_enrollments')
+        .select('class_id')
+        .in('class_id', classes.map((c) => c.id));
+
+      const counts: Record<string, number> = {};
+      (data ?? []).forEach((e) => {
+        counts[e.class_id] = (counts[e.class_id] ?? 0) + 1;
+      });
+      setStudentCounts(counts);
+    };
+
+    fetchCounts();
+  }, [classes]);
+
+  if (authLoading || roleLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isTeacher) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/join-school" replace />;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-8">
+        {/* Welcome Header */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">
+            Welcome back, {profile?.full_name?.split(' ')[0] || 'Teacher'}! 👋
+          </h1>
+          <p className="text-muted-foreground">
+            Here are the classes you teach.
+          </p>
+        </div>
+
+        {/* Classes */}
+        {classesLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : classes.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <School className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No classes yet</h3>
+              <p className="text-muted-foreground">
+                Your school administrator will assign you to your classes.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {classes.map((schoolClass) => (
+              <Link key={schoolClass.id} to={`/teacher/students?class=${schoolClass.id}`}>
+                <Card className="h-full transition-all duration-200 hover:shadow-lg hover:scale-[1.02] cursor-pointer group">
+                  <CardContent className="p-5">
+                    <div className="w-12 h-12 rounded-xl bg-primary/10 text-primary flex items-center justify-center mb-4">
+                      <School className="h-6 w-6" />
+                    </div>
+                    <div className="flex items-start justify-between">
+                      <h3 className="font-semibold">{schoolClass.name}</h3>
+                      <Badge variant="secondary" className="ml-2">
+                        <Users className="h-3 w-3 mr-1" />
+                        {studentCounts[schoolClass.id] ?? 0}
+                      </Badge>
+                    </div>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground mt-4 group-hover:translate-x-1 transition-transform" />
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Quick Actions */}
+        <Link to="/teacher/notices">
+          <Card className="bg-gradient-to-br from-blue-500/10 to-blue-500/5 border-blue-500/20 hover:shadow-lg hover:scale-[1.01] transition-all duration-200 cursor-pointer group">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-16 bg-blue-500/20 rounded-2xl flex items-center justify-center">
+                  <Bell className="h-8 w-8 text-blue-500" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="text-lg font-semibold mb-1">Post a class notice</h3>
+                  <p className="text-muted-foreground">
+                    Share announcements with the students in your classes
+                  </p>
+                </div>
+                <ArrowRight className="h-5 w-5 text-muted-foreground group-hover:translate-x-1 transition-transform" />
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
+      </div>
+    </DashboardLayout>
+  );
+}
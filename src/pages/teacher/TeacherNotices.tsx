@@ -0,0 +1,50 @@
+import { Navigate } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { NoticeManager } from '@/components/notices/NoticeManager';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useClasses } from '@/hooks/useClasses';
+import { Loader2 } from 'lucide-react';
+
+export default function TeacherNotices() {
+  const { user, loading: authLoading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isTeacher, loading: roleLoading } = useUserRole();
+  const { classes, loading: classesLoading } = useClasses(school?.school_code, user?.id);
+
+  if (authLoading || roleLoading || schoolLoading || classesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isTeacher) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/join-school" replace />;
+  }
+
+  return (
+    <DashboardLayout>
+      <NoticeManager
+        schoolCode={school.school_code}
+        classes={classes}
+        classRequired
+        description={
+          classes.length > 0
+            ? 'Post announcements to the classes you teach'
+            : 'You have not been assigned to a class yet'
+        }
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchool } from '@/hooks/useSchool';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useClasses } from '@/hooks/useClasses';
+import { supabase } from '@/integrations/supabase/client';
+import { classLabel } from '@/lib/classes';
+import { Loader2, Search, Users } from 'lucide-react';
+
+interface RosterEntry {
+  student_id: string;
+  full_name: string;
+  class_id: string;
+  section_id: string | null;
+  enrolled_at: string;
+}
+
+export default function TeacherStudents() {
+  const { user, loading: authLoading } = useAuth();
+  const { school, loading: schoolLoading } = useSchool();
+  const { isTeacher, loading: roleLoading } = useUserRole();
+  const { classes, loading: classesLoading } = useClasses(school?.school_code, user?.id);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  const classFilter = searchParams.get('class') ?? 'all';
+
+  useEffect(() => {
+    if (classesLoading) return;
+    if (classes.length === 0) {
+      setRoster([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchRoster = async () => {
+      const { data: enrollments, error } = await supabase
+        .from('class_enrollments')
+        .select('class_id, section_id, student_id, created_at')
+        .in('class_id', classes.map((c) => c.id));
+
+      if (error || !enrollments) {
+        setLoading(false);
+        return;
+      }
+
+      const studentIds = [...new Set(enrollments.map((e) => e.student_id))];
+      const { data: profiles } = studentIds.length
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', studentIds)
+        : { data: [] };
+      const names = new Map((profiles ?? []).map((p) => [p.user_id, p.full_name]));
+
+      setRoster(
+        enrollments
+          .map((e) => ({
+            student_id: e.student_id,
+            full_name: names.get(e.student_id) ?? 'Unknown student',
+            class_id: e.class_id,
+            section_id: e.section_id,
+            enrolled_at: e.created_at,
+          }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+      setLoading(false);
+    };
+
+    fetchRoster();
+  }, [classes, classesLoading]);
+
+  if (authLoading || roleLoading || schoolLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isTeacher) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!school) {
+    return <Navigate to="/join-school" replace />;
+  }
+
+  const className = (entry: RosterEntry) => {
+    const schoolClass = classes.find((c) => c.id === entry.class_id);
+    if (!schoolClass) return '';
+    return classLabel(schoolClass.name, schoolClass.sections.find((s) => s.id === entry.section_id)?.name);
+  };
+  const query = search.trim().toLowerCase();
+  const visible = roster.filter(
+    (entry) =>
+      (classFilter === 'all' || entry.class_id === classFilter) &&
+      (!query || entry.full_name.toLowerCase().includes(query))
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center">
+            <Users className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Students</h1>
+            <p className="text-muted-foreground">Students enrolled in your classes</p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search students"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            value={classFilter}
+            onValueChange={(value) => setSearchParams(value === 'all' ? {} : { class: value })}
+          >
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All my classes</SelectItem>
+              {classes.map((schoolClass) => (
+                <SelectItem key={schoolClass.id} value={schoolClass.id}>
+                  {schoolClass.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Content */}
+        {loading || classesLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : visible.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                <Users className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No students</h3>
+              <p className="text-muted-foreground">
+                {classes.length === 0
+                  ? 'You have not been assigned to a class yet.'
+                  : 'Students enrolled in your classes will appear here.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Enrolled</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((entry) => (
+                  <TableRow key={`${entry.class_id}-${entry.student_id}`}>
+                    <TableCell className="font-medium">{entry.full_name}</TableCell>
+                    <TableCell>{className(entry)}</TableCell>
+                    <TableCell>{new Date(entry.enrolled_at).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { describeFeeRule, type FeeRule } from "@/lib/feeRules";
+import { formatMoney } from "@/lib/format";
+
+const school = { currency: "USD", timezone: "UTC" };
+
+const rule = (changes: Partial<FeeRule>): FeeRule => ({
+  id: "rule",
+  fee_id: null,
+  category: null,
+  kind: "penalty",
+  value_type: "percent",
+  value: 5,
+  grace_days: 0,
+  recurrence: "once",
+  max_amount: null,
+  days_before_due: 0,
+  ...changes,
+});
+
+describe("describeFeeRule", () => {
+  it("describes a one-off penalty", () => {
+    expect(describeFeeRule(rule({}), school)).toBe("5% once after the due date");
+  });
+
+  it("describes a daily penalty with grace days and a cap", () => {
+    expect(describeFeeRule(rule({ recurrence: "daily", grace_days: 7, max_amount: 50 }), school)).toBe(
+      `5% per day from 7 days after the due date, up to ${formatMoney(50, school)}`
+    );
+  });
+
+  it("uses the singular for one day", () => {
+    expect(describeFeeRule(rule({ grace_days: 1 }), school)).toBe("5% once from 1 day after the due date");
+  });
+
+  it("describes flat discounts", () => {
+    expect(describeFeeRule(rule({ kind: "discount", value_type: "flat", value: 10, days_before_due: 14 }), school)).toBe(
+      `${formatMoney(10, school)} off when paid in full 14 days before the due date`
+    );
+    expect(describeFeeRule(rule({ kind: "discount" }), school)).toBe("5% off when paid in full by the due date");
+  });
+});
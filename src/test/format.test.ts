@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { formatDate, formatMoney, schoolToday } from "@/lib/format";
+
+const lagos = { currency: "NGN", timezone: "Africa/Lagos" };
+const auckland = { currency: "NZD", timezone: "Pacific/Auckland" };
+const newYork = { currency: "USD", timezone: "America/New_York" };
+
+describe("schoolToday", () => {
+  it("uses the school's calendar date rather than UTC", () => {
+    const instant = new Date("2025-03-31T20:00:00Z");
+    expect(schoolToday(auckland, instant)).toBe("2025-04-01");
+    expect(schoolToday(newYork, instant)).toBe("2025-03-31");
+    expect(schoolToday(lagos, instant)).toBe("2025-03-31");
+  });
+
+  it("falls back to UTC without a school", () => {
+    expect(schoolToday(null, new Date("2025-12-31T23:59:59Z"))).toBe("2025-12-31");
+  });
+});
+
+describe("formatDate", () => {
+  it("never shifts date-only values between timezones", () => {
+    const expected = new Date("2025-01-01T00:00:00Z").toLocaleDateString(undefined, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+    expect(formatDate("2025-01-01", newYork)).toBe(expected);
+    expect(formatDate("2025-01-01", auckland)).toBe(expected);
+  });
+
+  it("shows timestamps on the school's calendar day", () => {
+    const instant = "2025-03-31T20:00:00Z";
+    expect(formatDate(instant, auckland)).toBe(formatDate("2025-04-01", null));
+    expect(formatDate(instant, newYork)).toBe(formatDate("2025-03-31", null));
+  });
+});
+
+describe("formatMoney", () => {
+  it("uses the school's currency", () => {
+    expect(formatMoney(1234.5, lagos)).toBe(
+      new Intl.NumberFormat(undefined, { style: "currency", currency: "NGN" }).format(1234.5)
+    );
+  });
+
+  it("defaults to US dollars", () => {
+    expect(formatMoney(0.5, null)).toBe(
+      new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(0.5)
+    );
+  });
+});
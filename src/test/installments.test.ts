@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { addMonths, installmentsTotal, splitInstallments } from "@/lib/installments";
+
+describe("addMonths", () => {
+  it("moves to the same day of a later month", () => {
+    expect(addMonths("2025-01-15", 1)).toBe("2025-02-15");
+    expect(addMonths("2025-11-10", 3)).toBe("2026-02-10");
+  });
+
+  it("keeps month-end dates at the end of shorter months", () => {
+    expect(addMonths("2025-01-31", 1)).toBe("2025-02-28");
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonths("2025-03-31", 1)).toBe("2025-04-30");
+  });
+
+  it("does not carry a shortened day into later months", () => {
+    expect(addMonths("2025-01-31", 2)).toBe("2025-03-31");
+  });
+});
+
+describe("splitInstallments", () => {
+  it("splits evenly when the amount divides", () => {
+    const parts = splitInstallments(300, 3, "2025-01-31");
+    expect(parts.map((p) => p.amount)).toEqual([100, 100, 100]);
+    expect(parts.map((p) => p.due_date)).toEqual(["2025-01-31", "2025-02-28", "2025-03-31"]);
+    expect(parts.map((p) => p.position)).toEqual([1, 2, 3]);
+  });
+
+  it("puts the rounding remainder on the last installment", () => {
+    const parts = splitInstallments(100, 3, "2025-01-01");
+    expect(parts.map((p) => p.amount)).toEqual([33.33, 33.33, 33.34]);
+    expect(installmentsTotal(parts)).toBe(100);
+  });
+
+  it("adds up exactly for amounts with cents", () => {
+    const parts = splitInstallments(0.1 + 0.2, 2, "2025-06-01");
+    expect(installmentsTotal(parts)).toBe(0.3);
+  });
+});
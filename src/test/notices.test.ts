@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { getNoticeStatus, isNoticeLive } from "@/lib/notices";
+
+const now = new Date("2025-05-10T12:00:00Z");
+
+describe("getNoticeStatus", () => {
+  it("treats notices without a publish time as drafts", () => {
+    expect(getNoticeStatus({ publish_at: null, expires_at: null }, now)).toBe("draft");
+  });
+
+  it("schedules notices that publish later", () => {
+    expect(getNoticeStatus({ publish_at: "2025-05-10T12:00:01Z", expires_at: null }, now)).toBe("scheduled");
+  });
+
+  it("is live from the publish time until it expires", () => {
+    expect(getNoticeStatus({ publish_at: "2025-05-10T12:00:00Z", expires_at: null }, now)).toBe("live");
+    expect(getNoticeStatus({ publish_at: "2025-05-01T00:00:00Z", expires_at: "2025-05-10T12:00:01Z" }, now)).toBe(
+      "live"
+    );
+  });
+
+  it("expires exactly at the expiry time", () => {
+    expect(getNoticeStatus({ publish_at: "2025-05-01T00:00:00Z", expires_at: "2025-05-10T12:00:00Z" }, now)).toBe(
+      "expired"
+    );
+    expect(isNoticeLive({ publish_at: "2025-05-01T00:00:00Z", expires_at: "2025-05-10T12:00:00Z" }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { ineligibilityReasons, weightedScore, type EligibilityCriteria } from "@/lib/scholarships";
+
+describe("weightedScore", () => {
+  const criteria = [
+    { id: "merit", name: "Merit", weight: 3, max_score: 10 },
+    { id: "need", name: "Need", weight: 1, max_score: 5 },
+  ];
+
+  it("weights each criterion by its share of the total weight", () => {
+    expect(weightedScore(criteria, { merit: 10, need: 0 })).toBe(75);
+    expect(weightedScore(criteria, { merit: 0, need: 5 })).toBe(25);
+  });
+
+  it("rounds to one decimal place", () => {
+    expect(weightedScore(criteria, { merit: 7, need: 3 })).toBe(67.5);
+    expect(weightedScore([{ id: "a", name: "A", weight: 1, max_score: 3 }], { a: 1 })).toBe(33.3);
+  });
+
+  it("counts unscored criteria as zero", () => {
+    expect(weightedScore(criteria, { merit: 10 })).toBe(75);
+  });
+
+  it("is zero for an empty rubric", () => {
+    expect(weightedScore([], {})).toBe(0);
+  });
+});
+
+describe("ineligibilityReasons", () => {
+  const classes = [
+    { id: "g10", name: "Grade 10" },
+    { id: "g11", name: "Grade 11" },
+  ];
+  const criteria: EligibilityCriteria = {
+    eligible_class_ids: ["g10", "g11"],
+    max_income_bracket: "lower_middle",
+    required_documents: [],
+  };
+
+  it("explains each unmet criterion", () => {
+    const checks = [
+      { scholarship_id: "s", criterion: "class", met: false },
+      { scholarship_id: "s", criterion: "income", met: false },
+    ];
+    expect(ineligibilityReasons(criteria, checks, classes, "high")).toEqual([
+      "you are not in Grade 10 or Grade 11",
+      "it is for households up to lower-middle income",
+    ]);
+  });
+
+  it("asks students to declare their bracket first", () => {
+    const checks = [{ scholarship_id: "s", criterion: "income", met: false }];
+    expect(ineligibilityReasons(criteria, checks, classes, null)).toEqual([
+      "you have not declared your household income bracket",
+    ]);
+  });
+
+  it("skips criteria that are met", () => {
+    const checks = [{ scholarship_id: "s", criterion: "class", met: true }];
+    expect(ineligibilityReasons(criteria, checks, classes, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { daysBetween, shiftDate, suggestAcademicYear } from "@/lib/terms";
+
+describe("shiftDate", () => {
+  it("crosses month and year ends", () => {
+    expect(shiftDate("2025-01-31", 1)).toBe("2025-02-01");
+    expect(shiftDate("2025-12-31", 1)).toBe("2026-01-01");
+    expect(shiftDate("2025-03-01", -1)).toBe("2025-02-28");
+    expect(shiftDate("2024-03-01", -1)).toBe("2024-02-29");
+  });
+
+  it("round-trips with daysBetween", () => {
+    const days = daysBetween("2025-01-06", "2025-04-21");
+    expect(shiftDate("2025-01-06", days)).toBe("2025-04-21");
+  });
+});
+
+describe("suggestAcademicYear", () => {
+  it("starts in the current year once the start month has arrived", () => {
+    expect(suggestAcademicYear(9, new Date(2025, 8, 1))).toEqual({
+      name: "2025/26",
+      starts_on: "2025-09-01",
+      ends_on: "2026-08-31",
+    });
+  });
+
+  it("starts in the previous year before the start month", () => {
+    expect(suggestAcademicYear(9, new Date(2026, 7, 31))).toEqual({
+      name: "2025/26",
+      starts_on: "2025-09-01",
+      ends_on: "2026-08-31",
+    });
+  });
+
+  it("names calendar-year schools by a single year", () => {
+    expect(suggestAcademicYear(1, new Date(2025, 5, 15))).toEqual({
+      name: "2025",
+      starts_on: "2025-01-01",
+      ends_on: "2025-12-31",
+    });
+  });
+
+  it("ends a March start on the last day of February in leap years", () => {
+    expect(suggestAcademicYear(3, new Date(2023, 5, 1)).ends_on).toBe("2024-02-29");
+  });
+});
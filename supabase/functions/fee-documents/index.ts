@@ -0,0 +1,310 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createDocumentWriter, formatAmount, formatDay, type DocumentLine, type DocumentSchool } from "./pdf.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+
+// Numbers are only ever issued here, with the service role
+const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type DocumentRequest =
+  | { action: 'invoice'; school_code: string; student_id: string; origin: string }
+  | { action: 'receipt'; payment_id: string; origin: string }
+  | {
+      action: 'batch';
+      kind: 'invoice' | 'receipt';
+      school_code: string;
+      class_id: string;
+      section_id?: string | null;
+      from?: string | null;
+      to?: string | null;
+      origin: string;
+    };
+
+interface ReceiptPayment {
+  id: string;
+  school_code: string;
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  paid_at: string;
+  fee_assignments: { student_id: string; fees: { title: string } | null };
+}
+
+interface Issue {
+  school_code: string;
+  student_id: string;
+  student_name: string;
+  kind: 'invoice' | 'receipt';
+  lines: DocumentLine[];
+  total: number;
+  payment_id?: string;
+}
+
+// A client acting as the signed-in caller, so RLS decides which fees and payments they can print
+async function callerClient(req: Request) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) throw new HttpError(401, 'Not signed in');
+
+  const client = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) throw new HttpError(401, 'Not signed in');
+
+  return { client, user };
+}
+
+// Documents send readers to the app's own verify page. The origin comes from the caller, so it
+// must be one of the origins listed in APP_ORIGINS, or the request's own Origin when none are set.
+function verificationUrl(req: Request, value: unknown) {
+  const configured = Deno.env.get('APP_ORIGINS');
+  const origins = configured
+    ? configured.split(',').map((origin) => origin.trim()).filter(Boolean)
+    : [req.headers.get('Origin')].filter(Boolean);
+
+  if (typeof value !== 'string' || !origins.includes(value)) {
+    throw new HttpError(400, 'Origin is not allowed');
+  }
+  return `${value}/verify`;
+}
+
+// The instant a calendar day starts in the school's timezone, for filtering by the days staff pick
+function startOfDay(day: string, timeZone: string) {
+  const [year, month, date] = day.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date);
+  if (Number.isNaN(wallClock)) throw new HttpError(400, 'Invalid date');
+
+  const offsetAt = (instant: number) => {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      }).formatToParts(new Date(instant)).map((p) => [p.type, Number(p.value)]),
+    );
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+  };
+
+  // Checked twice so a day that starts next to a daylight saving change still lands on its midnight
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant).toISOString();
+}
+
+async function loadSchool(schoolCode: string): Promise<DocumentSchool> {
+  const { data } = await admin
+    .from('schools')
+    .select('name, address, contact_email, logo_url, currency, timezone')
+    .eq('school_code', schoolCode)
+    .single();
+  if (!data) throw new HttpError(404, 'School not found');
+  return data;
+}
+
+// Logos are read from the school-logos bucket with the storage client. logo_url is free text, so
+// anything that is not the public URL of an object in that bucket is never fetched.
+async function loadLogo(logoUrl: string | null) {
+  const prefix = `${SUPABASE_URL}/storage/v1/object/public/school-logos/`;
+  if (!logoUrl?.startsWith(prefix)) return null;
+
+  const path = decodeURIComponent(logoUrl.slice(prefix.length).split(/[?#]/)[0]);
+  if (!path || path.split('/').includes('..')) return null;
+
+  const { data, error } = await admin.storage.from('school-logos').download(path);
+  if (error || !data) {
+    console.error('Could not load school logo:', error);
+    return null;
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+async function studentNames(studentIds: string[]) {
+  const { data } = await admin.from('profiles').select('user_id, full_name').in('user_id', studentIds);
+  return new Map((data ?? []).map((p) => [p.user_id, p.full_name as string]));
+}
+
+// One invoice per student for everything they still owe
+async function invoiceIssues(client: SupabaseClient, school: DocumentSchool, schoolCode: string, studentIds: string[]) {
+  const { data: balances, error } = await client
+    .from('fee_assignment_balances')
+    .select('student_id, amount, penalty_amount, discount_amount, amount_paid, waived_amount, credited_amount, scholarship_amount, balance, fees(title, category, due_date)')
+    .eq('school_code', schoolCode)
+    .in('student_id', studentIds)
+    .is('archived_at', null)
+    .gt('balance', 0);
+  if (error) throw new Error(error.message);
+
+  const names = await studentNames(studentIds);
+  const issues: Issue[] = [];
+
+  for (const studentId of studentIds) {
+    const owed = (balances ?? []).filter((b) => b.student_id === studentId && b.fees);
+    if (owed.length === 0) continue;
+
+    issues.push({
+      school_code: schoolCode,
+      student_id: studentId,
+      student_name: names.get(studentId) ?? 'Student',
+      kind: 'invoice',
+      lines: owed.map((b) => ({
+        description: b.fees.title,
+        detail: [
+          b.fees.category,
+          b.fees.due_date && `Due ${formatDay(b.fees.due_date, school)}`,
+          `Fee ${formatAmount(b.amount, school)}`,
+          b.penalty_amount > 0 && `late penalty ${formatAmount(b.penalty_amount, school)}`,
+          b.discount_amount > 0 && `discount ${formatAmount(b.discount_amount, school)}`,
+          b.amount_paid > 0 && `paid ${formatAmount(b.amount_paid, school)}`,
+          b.waived_amount > 0 && `waived ${formatAmount(b.waived_amount, school)}`,
+          b.credited_amount > 0 && `credit ${formatAmount(b.credited_amount, school)}`,
+          b.scholarship_amount > 0 && `scholarship ${formatAmount(b.scholarship_amount, school)}`,
+        ].filter(Boolean).join(' · '),
+        amount: Number(b.balance),
+      })),
+      total: owed.reduce((sum, b) => sum + Number(b.balance), 0),
+    });
+  }
+  return issues;
+}
+
+// One receipt per payment
+async function receiptIssues(school: DocumentSchool, payments: ReceiptPayment[]) {
+  const names = await studentNames([...new Set(payments.map((p) => p.fee_assignments.student_id))]);
+
+  return payments.map((p): Issue => ({
+    school_code: p.school_code,
+    student_id: p.fee_assignments.student_id,
+    student_name: names.get(p.fee_assignments.student_id) ?? 'Student',
+    kind: 'receipt',
+    lines: [{
+      description: p.fee_assignments.fees?.title ?? 'Fee payment',
+      detail: [`Paid ${formatDay(p.paid_at, school)}`, p.method, p.reference].filter(Boolean).join(' · '),
+      amount: Number(p.amount),
+    }],
+    total: Number(p.amount),
+    payment_id: p.id,
+  }));
+}
+
+const paymentColumns = 'id, school_code, amount, method, reference, paid_at, fee_assignments!inner(student_id, fees(title))';
+
+async function render(req: Request, body: DocumentRequest) {
+  const { client, user } = await callerClient(req);
+  const verifyUrl = verificationUrl(req, body.origin);
+  let school: DocumentSchool;
+  let issues: Issue[];
+
+  if (body.action === 'receipt') {
+    const { data: payment } = await client.from('fee_payments').select(paymentColumns).eq('id', body.payment_id).maybeSingle();
+    if (!payment) throw new HttpError(404, 'Payment not found');
+
+    school = await loadSchool(payment.school_code);
+    issues = await receiptIssues(school, [payment as ReceiptPayment]);
+  } else if (body.action === 'invoice') {
+    school = await loadSchool(body.school_code);
+    issues = await invoiceIssues(client, school, body.school_code, [body.student_id]);
+    if (issues.length === 0) throw new HttpError(400, 'Nothing is owed, so there is nothing to invoice');
+  } else if (body.action === 'batch') {
+    const schoolCode = body.school_code;
+    const { data: isAdmin } = await client.rpc('is_school_admin', { _user_id: user.id, _school_code: schoolCode });
+    if (!isAdmin) throw new HttpError(403, 'Only school administrators can print documents for a class');
+
+    let enrollments = client.from('class_enrollments').select('student_id').eq('class_id', body.class_id);
+    if (body.section_id) enrollments = enrollments.eq('section_id', body.section_id);
+    const { data: students } = await enrollments;
+    const studentIds = (students ?? []).map((s) => s.student_id);
+    if (studentIds.length === 0) throw new HttpError(400, 'No students are enrolled in this class');
+
+    school = await loadSchool(schoolCode);
+    if (body.kind === 'invoice') {
+      issues = await invoiceIssues(client, school, schoolCode, studentIds);
+    } else {
+      let payments = client
+        .from('fee_payments')
+        .select(paymentColumns)
+        .eq('school_code', schoolCode)
+        .in('fee_assignments.student_id', studentIds);
+      if (body.from) payments = payments.gte('paid_at', startOfDay(body.from, school.timezone));
+      if (body.to) {
+        const nextDay = new Date(`${body.to}T00:00:00Z`);
+        nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+        payments = payments.lt('paid_at', startOfDay(nextDay.toISOString().slice(0, 10), school.timezone));
+      }
+      const { data, error } = await payments.order('paid_at', { ascending: true });
+      if (error) throw new Error(error.message);
+      issues = await receiptIssues(school, (data ?? []) as ReceiptPayment[]);
+    }
+    if (issues.length === 0) throw new HttpError(400, `There are no ${body.kind}s to print for this class`);
+  } else {
+    throw new HttpError(400, 'Unknown action');
+  }
+
+  const writer = await createDocumentWriter(school, verifyUrl, await loadLogo(school.logo_url));
+
+  for (const issue of issues) {
+    const { data: document, error } = await admin.rpc('issue_fee_document', {
+      _school_code: issue.school_code,
+      _student_id: issue.student_id,
+      _kind: issue.kind,
+      _total: issue.total,
+      _items: issue.lines,
+      _issued_by: user.id,
+      _payment_id: issue.payment_id ?? null,
+    });
+    if (error) throw new Error(error.message);
+
+    writer.addDocument({
+      kind: issue.kind,
+      reference: document.reference,
+      issued_at: document.issued_at,
+      student_name: issue.student_name,
+      lines: issue.lines,
+      total: issue.total,
+      verification_code: document.verification_code,
+    });
+  }
+
+  return await writer.pdf.save();
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const pdf = await render(req, await req.json());
+
+    // Sent as octet-stream so the client library hands it back as a Blob
+    return new Response(pdf, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' },
+    });
+  } catch (error) {
+    console.error('Fee documents error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: error instanceof HttpError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,138 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+
+export interface DocumentSchool {
+  name: string;
+  address: string | null;
+  contact_email: string | null;
+  logo_url: string | null;
+  currency: string;
+  timezone: string;
+}
+
+export interface DocumentLine {
+  description: string;
+  detail?: string;
+  amount: number;
+}
+
+export interface FeeDocument {
+  kind: 'invoice' | 'receipt';
+  reference: string;
+  issued_at: string;
+  student_name: string;
+  lines: DocumentLine[];
+  total: number;
+  verification_code: string;
+}
+
+const PAGE = { width: 595, height: 842, margin: 50 };
+const grey = rgb(0.4, 0.4, 0.4);
+const black = rgb(0, 0, 0);
+
+// The standard PDF fonts only cover Latin-1, so anything else is replaced rather than failing the whole document
+const printable = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•…]/g, '?');
+
+export const formatAmount = (amount: number, school: DocumentSchool) =>
+  new Intl.NumberFormat('en', { style: 'currency', currency: school.currency, currencyDisplay: 'code' }).format(amount);
+
+export const formatDay = (value: string, school: DocumentSchool) =>
+  new Intl.DateTimeFormat('en', { dateStyle: 'medium', timeZone: school.timezone }).format(new Date(value));
+
+export interface DocumentWriter {
+  pdf: PDFDocument;
+  addDocument(document: FeeDocument): void;
+}
+
+/**
+ * A PDF that invoices and receipts are written into, one or more pages each, all carrying
+ * the school's letterhead. Batches put many students' documents in one file.
+ */
+export async function createDocumentWriter(
+  school: DocumentSchool,
+  verifyBaseUrl: string,
+  logoBytes: Uint8Array | null,
+): Promise<DocumentWriter> {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const logo = await embedLogo(pdf, logoBytes);
+
+  const text = (page: PDFPage, value: string, x: number, y: number, size = 10, font: PDFFont = regular, color = black) =>
+    page.drawText(printable(value), { x, y, size, font, color });
+
+  const textRight = (page: PDFPage, value: string, right: number, y: number, size = 10, font: PDFFont = regular, color = black) =>
+    text(page, value, right - font.widthOfTextAtSize(printable(value), size), y, size, font, color);
+
+  const newPage = (document: FeeDocument) => {
+    const page = pdf.addPage([PAGE.width, PAGE.height]);
+    const right = PAGE.width - PAGE.margin;
+    let y = PAGE.height - PAGE.margin;
+
+    // Letterhead
+    let left = PAGE.margin;
+    if (logo) {
+      const scaled = logo.scaleToFit(56, 56);
+      page.drawImage(logo, { x: left, y: y - scaled.height, width: scaled.width, height: scaled.height });
+      left += scaled.width + 12;
+    }
+    text(page, school.name, left, y - 16, 16, bold);
+    if (school.address) text(page, school.address, left, y - 32, 9, regular, grey);
+    if (school.contact_email) text(page, school.contact_email, left, y - 44, 9, regular, grey);
+
+    textRight(page, document.kind === 'invoice' ? 'INVOICE' : 'RECEIPT', right, y - 16, 18, bold);
+    textRight(page, document.reference, right, y - 32, 10);
+    textRight(page, formatDay(document.issued_at, school), right, y - 44, 9, regular, grey);
+    y -= 90;
+
+    text(page, document.kind === 'invoice' ? 'Billed to' : 'Received from', PAGE.margin, y, 9, regular, grey);
+    text(page, document.student_name, PAGE.margin, y - 14, 12, bold);
+    y -= 44;
+
+    text(page, 'Description', PAGE.margin, y, 9, bold);
+    textRight(page, 'Amount', right, y, 9, bold);
+    page.drawLine({ start: { x: PAGE.margin, y: y - 6 }, end: { x: right, y: y - 6 }, thickness: 0.5, color: grey });
+
+    // Footer, so every page can be checked on its own
+    text(page, `Verification code ${document.verification_code}`, PAGE.margin, PAGE.margin, 9, bold);
+    text(page, `Check this document at ${verifyBaseUrl}/${document.verification_code}`, PAGE.margin, PAGE.margin - 12, 8, regular, grey);
+
+    return { page, y: y - 24 };
+  };
+
+  return {
+    pdf,
+    addDocument(document: FeeDocument) {
+      const right = PAGE.width - PAGE.margin;
+      let { page, y } = newPage(document);
+
+      for (const line of document.lines) {
+        if (y < PAGE.margin + 80) ({ page, y } = newPage(document));
+
+        text(page, line.description, PAGE.margin, y, 10);
+        textRight(page, formatAmount(line.amount, school), right, y, 10);
+        if (line.detail) {
+          text(page, line.detail, PAGE.margin, y - 12, 8, regular, grey);
+          y -= 12;
+        }
+        y -= 20;
+      }
+
+      page.drawLine({ start: { x: PAGE.margin, y: y + 8 }, end: { x: right, y: y + 8 }, thickness: 0.5, color: grey });
+      text(page, document.kind === 'invoice' ? 'Balance due' : 'Amount received', PAGE.margin, y - 8, 11, bold);
+      textRight(page, formatAmount(document.total, school), right, y - 8, 11, bold);
+    },
+  };
+}
+
+// Logos are optional; one that is not a PNG or JPEG is left out
+async function embedLogo(pdf: PDFDocument, bytes: Uint8Array | null): Promise<PDFImage | null> {
+  if (!bytes) return null;
+
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+  } catch (error) {
+    console.error('Could not load school logo:', error);
+  }
+  return null;
+}
@@ -0,0 +1,232 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProvider, mockPaymentsEnabled } from "./providers.ts";
+import { mockProvider } from "./mock.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const webhookUrl = `${SUPABASE_URL}/functions/v1/payments/webhook`;
+
+// Checkouts are only ever written here, with the service role
+const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// A client acting as the signed-in caller, so database checks and RLS apply to them
+async function callerClient(req: Request) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) throw new HttpError(401, 'Not signed in');
+
+  const client = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) throw new HttpError(401, 'Not signed in');
+
+  return { client, user };
+}
+
+// Where the provider may send the payer back to: the app's own origins, listed in
+// PAYMENT_RETURN_ORIGINS, or the calling page's origin when none are configured
+function allowedReturnUrl(req: Request, value: unknown) {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new HttpError(400, 'Invalid return URL');
+  }
+
+  const configured = Deno.env.get('PAYMENT_RETURN_ORIGINS');
+  const origins = configured
+    ? configured.split(',').map((origin) => origin.trim()).filter(Boolean)
+    : [req.headers.get('Origin')].filter(Boolean);
+
+  if (!['http:', 'https:'].includes(url.protocol) || !origins.includes(url.origin)) {
+    throw new HttpError(400, 'Return URL is not allowed');
+  }
+  return url;
+}
+
+async function createCheckout(req: Request, body: { assignment_id: string; amount: number; return_url: string }) {
+  const { user } = await callerClient(req);
+  const provider = getProvider();
+  const returnUrl = allowedReturnUrl(req, body.return_url);
+
+  const { data: checkout, error } = await admin.rpc('create_payment_checkout', {
+    _assignment_id: body.assignment_id,
+    _amount: body.amount,
+    _provider: provider.name,
+    _payer_id: user.id,
+  });
+  if (error) throw new HttpError(400, error.message);
+
+  const { data: assignment } = await admin
+    .from('fee_assignments')
+    .select('fees(title)')
+    .eq('id', checkout.assignment_id)
+    .single();
+
+  returnUrl.searchParams.set('checkout', checkout.id);
+
+  // A checkout the provider never opened cannot be paid, so it must not hold back the balance
+  const failCheckout = () => admin.rpc('complete_payment_checkout', { _checkout_id: checkout.id, _succeeded: false });
+
+  let created: { reference: string; url: string };
+  try {
+    created = await provider.createCheckout({
+      checkoutId: checkout.id,
+      amount: Number(checkout.amount),
+      currency: checkout.currency,
+      description: assignment?.fees?.title ?? 'School fee',
+      returnUrl: returnUrl.toString(),
+    });
+  } catch (error) {
+    await failCheckout();
+    throw error;
+  }
+
+  const { error: updateError } = await admin
+    .from('payment_checkouts')
+    .update({ provider_reference: created.reference, checkout_url: created.url })
+    .eq('id', checkout.id);
+  if (updateError) {
+    await failCheckout();
+    throw new Error(updateError.message);
+  }
+
+  return { checkout_id: checkout.id, url: created.url };
+}
+
+async function handleWebhook(req: Request) {
+  const provider = getProvider();
+  const event = await provider.parseWebhook(req).catch((error) => {
+    throw new HttpError(400, error.message);
+  });
+  if (!event) return { received: true };
+
+  const { data: checkout } = await admin
+    .from('payment_checkouts')
+    .select('id')
+    .eq('provider', provider.name)
+    .eq('provider_reference', event.reference)
+    .maybeSingle();
+  if (!checkout) throw new HttpError(404, 'Checkout not found');
+
+  const { error } = await admin.rpc('complete_payment_checkout', {
+    _checkout_id: checkout.id,
+    _succeeded: event.succeeded,
+  });
+  if (error) throw new Error(error.message);
+
+  return { received: true };
+}
+
+async function refund(req: Request, body: { checkout_id: string }) {
+  const { client, user } = await callerClient(req);
+
+  // Staff can see every checkout in their school, but only owners and admins can give money back
+  const { data: checkout } = await client
+    .from('payment_checkouts')
+    .select('*')
+    .eq('id', body.checkout_id)
+    .maybeSingle();
+  const { data: isManager } = checkout
+    ? await client.rpc('is_school_manager', { _user_id: user.id, _school_code: checkout.school_code })
+    : { data: false };
+  if (!checkout || !isManager) throw new HttpError(404, 'Payment not found');
+
+  // Claim the refund first so a second request for the same payment stops here. A refund the
+  // provider already made comes back claimed with its reference, and is only recorded.
+  const { data: claimed, error: claimError } = await admin.rpc('claim_payment_refund', {
+    _checkout_id: checkout.id,
+    _refunded_by: user.id,
+  });
+  if (claimError) throw new HttpError(400, claimError.message);
+
+  let refundReference = claimed.refund_reference;
+  if (!refundReference) {
+    try {
+      const refunded = await getProvider(checkout.provider).refund(checkout.provider_reference, Number(checkout.amount));
+      refundReference = refunded.reference;
+    } catch (error) {
+      await admin.rpc('release_payment_refund', { _checkout_id: checkout.id });
+      throw error;
+    }
+
+    // Kept straight away, so the refund can still be recorded if the step below fails
+    const { error: saveError } = await admin
+      .from('payment_checkouts')
+      .update({ refund_reference: refundReference })
+      .eq('id', checkout.id);
+    if (saveError) console.error('Could not save refund reference:', checkout.id, refundReference, saveError);
+  }
+
+  const { error } = await admin.rpc('refund_payment_checkout', {
+    _checkout_id: checkout.id,
+    _refund_reference: refundReference,
+    _refunded_by: user.id,
+  });
+  if (error) throw new Error(`The refund was made but not yet recorded; refund it again to finish. ${error.message}`);
+
+  return { refunded: true };
+}
+
+// Stands in for the payer completing the provider's hosted checkout page
+async function completeMockCheckout(req: Request, body: { reference: string; succeeded: boolean }) {
+  if (!mockPaymentsEnabled() || getProvider().name !== mockProvider.name) throw new HttpError(404, 'Not found');
+
+  const { client } = await callerClient(req);
+  const { data: checkout } = await client
+    .from('payment_checkouts')
+    .select('id')
+    .eq('provider_reference', body.reference)
+    .maybeSingle();
+  if (!checkout) throw new HttpError(404, 'Checkout not found');
+
+  await mockProvider.simulate(body.reference, body.succeeded, webhookUrl);
+  return { checkout_id: checkout.id };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (new URL(req.url).pathname.endsWith('/webhook')) {
+      return json(await handleWebhook(req));
+    }
+
+    const body = await req.json().catch(() => {
+      throw new HttpError(400, 'Invalid request body');
+    });
+    switch (body.action) {
+      case 'checkout':
+        return json(await createCheckout(req, body));
+      case 'refund':
+        return json(await refund(req, body));
+      case 'mock_complete':
+        return json(await completeMockCheckout(req, body));
+      default:
+        throw new HttpError(400, `Unknown action: ${body.action}`);
+    }
+  } catch (error) {
+    console.error('Payments error:', error);
+    return json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof HttpError ? error.status : 500
+    );
+  }
+});
@@ -0,0 +1,70 @@
+import type { CheckoutRequest, PaymentProvider, WebhookEvent } from "./providers.ts";
+
+// A stand-in provider for local development. Its "hosted" checkout page is the app's own
+// /pay/mock route, and it signs its webhooks like a real provider would.
+function secret() {
+  const value = Deno.env.get('MOCK_PAYMENT_SECRET');
+  if (!value) {
+    throw new Error('MOCK_PAYMENT_SECRET is not set');
+  }
+  return value;
+}
+
+const encoder = new TextEncoder();
+
+async function sign(body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const mockProvider: PaymentProvider & {
+  simulate(reference: string, succeeded: boolean, webhookUrl: string): Promise<void>;
+} = {
+  name: 'mock',
+
+  async createCheckout(request: CheckoutRequest) {
+    const reference = `mock_${crypto.randomUUID()}`;
+    const url = new URL('/pay/mock', request.returnUrl);
+    url.searchParams.set('reference', reference);
+    url.searchParams.set('return', request.returnUrl);
+    return { reference, url: url.toString() };
+  },
+
+  async parseWebhook(req: Request): Promise<WebhookEvent | null> {
+    const body = await req.text();
+    if (req.headers.get('x-mock-signature') !== await sign(body)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(body);
+    if (event.type !== 'checkout.succeeded' && event.type !== 'checkout.failed') {
+      return null;
+    }
+    return { reference: event.reference, succeeded: event.type === 'checkout.succeeded' };
+  },
+
+  async refund() {
+    return { reference: `mock_refund_${crypto.randomUUID()}` };
+  },
+
+  // What the payer's choice on the mock checkout page sets off: a signed webhook, as a real provider would send
+  async simulate(reference: string, succeeded: boolean, webhookUrl: string) {
+    const body = JSON.stringify({ type: succeeded ? 'checkout.succeeded' : 'checkout.failed', reference });
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-mock-signature': await sign(body) },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook failed: ${response.status} ${await response.text()}`);
+    }
+  },
+};
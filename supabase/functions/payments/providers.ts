@@ -0,0 +1,49 @@
+import { mockProvider } from "./mock.ts";
+
+export interface CheckoutRequest {
+  checkoutId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  // Where the provider sends the payer back to once they have paid or given up
+  returnUrl: string;
+}
+
+export interface CreatedCheckout {
+  reference: string;
+  url: string;
+}
+
+export interface WebhookEvent {
+  reference: string;
+  succeeded: boolean;
+}
+
+/**
+ * What the payments function needs from a payment provider. Adding a live provider means
+ * implementing this and registering it below; the function and database stay the same.
+ */
+export interface PaymentProvider {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<CreatedCheckout>;
+  // Verify a webhook really came from the provider, then read the checkout it is about.
+  // Returns null for events the payments function does not act on.
+  parseWebhook(req: Request): Promise<WebhookEvent | null>;
+  refund(reference: string, amount: number): Promise<{ reference: string }>;
+}
+
+// The mock lets the payer mark their own checkout paid, so it only exists in development
+export const mockPaymentsEnabled = () => Deno.env.get('ENABLE_MOCK_PAYMENTS') === 'true';
+
+const providers: Record<string, PaymentProvider> = mockPaymentsEnabled() ? { mock: mockProvider } : {};
+
+export function getProvider(name = Deno.env.get('PAYMENT_PROVIDER')): PaymentProvider {
+  if (!name) {
+    throw new Error('PAYMENT_PROVIDER is not set');
+  }
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Payment provider "${name}" is not configured`);
+  }
+  return provider;
+}
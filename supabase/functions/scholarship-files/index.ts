@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const BUCKET = 'scholarship-documents';
+
+// Staff cannot read blind applications' files themselves, so links to them are signed here
+const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// A client acting as the signed-in caller, so database checks and RLS apply to them
+async function callerClient(req: Request) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) throw new HttpError(401, 'Not signed in');
+
+  const client = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) throw new HttpError(401, 'Not signed in');
+
+  return { client, user };
+}
+
+// Files are stored under the student's id and named by the student, so while blind review is open
+// reviewers get a link to a copy kept under the file's own id instead
+async function openFile(req: Request, body: { application_id: string; file_id: string }) {
+  const { client } = await callerClient(req);
+
+  // The caller's own listing decides whether they may open the file
+  const { data: files, error } = await client.rpc('get_scholarship_application_files', {
+    _application_id: body.application_id,
+  });
+  if (error) throw new HttpError(400, error.message);
+  if (!(files ?? []).some((f: { id: string }) => f.id === body.file_id)) throw new HttpError(404, 'File not found');
+
+  const { data: file } = await admin
+    .from('scholarship_application_files')
+    .select('id, file_path, scholarship_applications!inner(scholarship_id)')
+    .eq('id', body.file_id)
+    .eq('application_id', body.application_id)
+    .single();
+  if (!file) throw new HttpError(404, 'File not found');
+
+  const { data: blind, error: blindError } = await admin.rpc('is_blind_review_open', {
+    _scholarship_id: file.scholarship_applications.scholarship_id,
+  });
+  if (blindError) throw new Error(blindError.message);
+
+  let path = file.file_path;
+  if (blind) {
+    path = `blind-review/${file.id}`;
+    const { error: copyError } = await admin.storage.from(BUCKET).copy(file.file_path, path);
+    // The copy is made the first time the file is opened and reused after that
+    if (copyError && !/already exists/i.test(copyError.message)) throw new Error(copyError.message);
+  }
+
+  const { data: signed, error: signError } = await admin.storage.from(BUCKET).createSignedUrl(path, 60);
+  if (signError || !signed) throw new Error(signError?.message ?? 'Could not sign the file link');
+
+  return { url: signed.signedUrl };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => {
+      throw new HttpError(400, 'Invalid request body');
+    });
+    return json(await openFile(req, body));
+  } catch (error) {
+    console.error('Scholarship files error:', error);
+    return json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof HttpError ? error.status : 500
+    );
+  }
+});
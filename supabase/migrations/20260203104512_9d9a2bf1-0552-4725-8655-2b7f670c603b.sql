@@ -0,0 +1,181 @@
+-- Stop clients from choosing their own role
+DROP POLICY IF EXISTS "Users can insert own role" ON public.user_roles;
+
+-- Create table for admin invitations issued by existing administrators
+CREATE TABLE public.role_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT NOT NULL,
+    role app_role NOT NULL DEFAULT 'admin',
+    token TEXT UNIQUE NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + interval '14 days') NOT NULL,
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create table for institute accounts awaiting approval
+CREATE TABLE public.admin_access_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    institute_name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.role_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_access_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for role_invitations
+CREATE POLICY "Admins can view invitations they issued" ON public.role_invitations
+    FOR SELECT USING (invited_by = auth.uid());
+
+CREATE POLICY "Admins can issue invitations" ON public.role_invitations
+    FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'admin') AND invited_by = auth.uid());
+
+CREATE POLICY "Admins can revoke invitations they issued" ON public.role_invitations
+    FOR DELETE USING (invited_by = auth.uid() AND accepted_at IS NULL);
+
+-- RLS Policies for admin_access_requests (reviews happen with the service role)
+CREATE POLICY "Users can view own access request" ON public.admin_access_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_admin_access_requests_updated_at
+    BEFORE UPDATE ON public.admin_access_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Grant a role to a user, replacing whatever role they held before
+CREATE OR REPLACE FUNCTION public.assign_role(_user_id uuid, _role app_role)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role <> _role;
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, _role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_role(uuid, app_role) FROM PUBLIC, anon, authenticated;
+
+-- Consume an invitation token for a user, returning whether it was valid
+CREATE OR REPLACE FUNCTION public.consume_role_invitation(_user_id uuid, _email text, _token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _invitation public.role_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO _invitation
+    FROM public.role_invitations
+    WHERE token = upper(trim(_token))
+      AND lower(email) = lower(_email)
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.role_invitations
+    SET accepted_by = _user_id, accepted_at = now()
+    WHERE id = _invitation.id;
+
+    PERFORM public.assign_role(_user_id, _invitation.role);
+
+    UPDATE public.admin_access_requests
+    SET status = 'approved', reviewed_at = now()
+    WHERE user_id = _user_id AND status = 'pending';
+
+    RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_role_invitation(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Let a signed-in user redeem an invitation sent to their email
+CREATE OR REPLACE FUNCTION public.redeem_role_invitation(_token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN public.consume_role_invitation(auth.uid(), auth.email(), _token);
+END;
+$$;
+
+-- Provision profile and role for every new auth user
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _full_name TEXT := coalesce(nullif(trim(NEW.raw_user_meta_data->>'full_name'), ''), split_part(NEW.email, '@', 1));
+    _requested_role TEXT := NEW.raw_user_meta_data->>'requested_role';
+    _invite_token TEXT := NEW.raw_user_meta_data->>'invite_token';
+BEGIN
+    INSERT INTO public.profiles (user_id, full_name)
+    VALUES (NEW.id, _full_name)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student')
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    IF _requested_role = 'admin' THEN
+        IF _invite_token IS NULL
+           OR NOT public.consume_role_invitation(NEW.id, NEW.email, _invite_token) THEN
+            INSERT INTO public.admin_access_requests (user_id, institute_name)
+            VALUES (NEW.id, _full_name)
+            ON CONFLICT (user_id) DO NOTHING;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_new_user();
+
+-- Grant the admin role when an access request is approved
+CREATE OR REPLACE FUNCTION public.handle_admin_access_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+        PERFORM public.assign_role(NEW.user_id, 'admin');
+        NEW.reviewed_at = coalesce(NEW.reviewed_at, now());
+    ELSIF NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM 'rejected' THEN
+        NEW.reviewed_at = coalesce(NEW.reviewed_at, now());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_admin_access_request_reviewed
+    BEFORE UPDATE OF status ON public.admin_access_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_admin_access_review();
@@ -0,0 +1,151 @@
+-- Let admins see the students who joined their school
+CREATE POLICY "Admins can view profiles in their school" ON public.profiles
+    FOR SELECT USING (school_code IS NOT NULL AND public.is_school_admin(auth.uid(), school_code));
+
+-- Create table linking a fee to the students who owe it
+CREATE TABLE public.fee_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    fee_id UUID REFERENCES public.fees(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (fee_id, student_id)
+);
+
+-- Create table recording payments against an assignment
+CREATE TABLE public.fee_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assignment_id UUID REFERENCES public.fee_assignments(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    method TEXT,
+    reference TEXT,
+    notes TEXT,
+    paid_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX fee_assignments_student_id_idx ON public.fee_assignments (student_id);
+CREATE INDEX fee_assignments_school_code_idx ON public.fee_assignments (school_code);
+CREATE INDEX fee_payments_assignment_id_idx ON public.fee_payments (assignment_id);
+
+ALTER TABLE public.fee_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_payments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for fee_assignments
+CREATE POLICY "Students can view own fee assignments" ON public.fee_assignments
+    FOR SELECT USING (auth.uid() = student_id OR public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can insert fee assignments" ON public.fee_assignments
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can update fee assignments" ON public.fee_assignments
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can delete fee assignments" ON public.fee_assignments
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- RLS Policies for fee_payments
+CREATE POLICY "Students can view own fee payments" ON public.fee_payments
+    FOR SELECT USING (
+        public.is_school_admin(auth.uid(), school_code)
+        OR EXISTS (
+            SELECT 1 FROM public.fee_assignments a
+            WHERE a.id = assignment_id AND a.student_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can record fee payments" ON public.fee_payments
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), school_code) AND recorded_by = auth.uid());
+
+CREATE POLICY "Admins can delete fee payments" ON public.fee_payments
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE TRIGGER update_fee_assignments_updated_at
+    BEFORE UPDATE ON public.fee_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep school_code on payments consistent with the assignment
+CREATE OR REPLACE FUNCTION public.set_fee_payment_school_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    SELECT school_code INTO NEW.school_code
+    FROM public.fee_assignments
+    WHERE id = NEW.assignment_id;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_fee_payment_school_code
+    BEFORE INSERT ON public.fee_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_fee_payment_school_code();
+
+-- Balance and payment state per assignment
+CREATE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    a.id,
+    a.fee_id,
+    a.student_id,
+    a.school_code,
+    a.amount,
+    coalesce(sum(p.amount), 0)::DECIMAL(10, 2) AS amount_paid,
+    greatest(a.amount - coalesce(sum(p.amount), 0), 0)::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN coalesce(sum(p.amount), 0) >= a.amount THEN 'paid'
+        WHEN coalesce(sum(p.amount), 0) > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    max(p.paid_at) AS last_paid_at,
+    a.created_at
+FROM public.fee_assignments a
+LEFT JOIN public.fee_payments p ON p.assignment_id = a.id
+GROUP BY a.id;
+
+-- Assign a fee to a set of students, or every student in the school when none are given
+CREATE OR REPLACE FUNCTION public.assign_fee(_fee_id uuid, _student_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fee public.fees%ROWTYPE;
+    _inserted integer;
+BEGIN
+    SELECT * INTO _fee FROM public.fees WHERE id = _fee_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _fee.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+    SELECT _fee.id, p.user_id, _fee.school_code, _fee.amount
+    FROM public.profiles p
+    WHERE p.school_code = _fee.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND (_student_ids IS NULL OR p.user_id = ANY (_student_ids))
+    ON CONFLICT (fee_id, student_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    RETURN _inserted;
+END;
+$$;
+
+-- Existing catalogue fees applied to every student, so keep that behaviour for them
+INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+SELECT f.id, p.user_id, f.school_code, f.amount
+FROM public.fees f
+JOIN public.profiles p ON p.school_code = f.school_code
+WHERE public.has_role(p.user_id, 'student')
+ON CONFLICT (fee_id, student_id) DO NOTHING;
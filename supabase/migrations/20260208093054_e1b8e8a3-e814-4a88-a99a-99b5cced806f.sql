@@ -0,0 +1,278 @@
+-- Create enum for scholarship application review states
+CREATE TYPE public.application_status AS ENUM ('submitted', 'under_review', 'shortlisted', 'awarded', 'rejected');
+
+-- Limit how many students a scholarship can be awarded to
+ALTER TABLE public.scholarships
+    ADD COLUMN slots INTEGER CHECK (slots IS NULL OR slots > 0);
+
+-- Create table for admin-defined application questions
+CREATE TABLE public.scholarship_questions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scholarship_id UUID REFERENCES public.scholarships(id) ON DELETE CASCADE NOT NULL,
+    prompt TEXT NOT NULL,
+    required BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create table for student applications
+CREATE TABLE public.scholarship_applications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scholarship_id UUID REFERENCES public.scholarships(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    statement TEXT NOT NULL,
+    answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status application_status NOT NULL DEFAULT 'submitted',
+    reviewer_notes TEXT,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    awarded_amount DECIMAL(10, 2) CHECK (awarded_amount IS NULL OR awarded_amount >= 0),
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (scholarship_id, student_id)
+);
+
+-- Create table for supporting documents uploaded with an application
+CREATE TABLE public.scholarship_application_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    application_id UUID REFERENCES public.scholarship_applications(id) ON DELETE CASCADE NOT NULL,
+    file_path TEXT UNIQUE NOT NULL,
+    file_name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX scholarship_questions_scholarship_id_idx ON public.scholarship_questions (scholarship_id);
+CREATE INDEX scholarship_applications_school_code_idx ON public.scholarship_applications (school_code);
+
+ALTER TABLE public.scholarship_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scholarship_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scholarship_application_files ENABLE ROW LEVEL SECURITY;
+
+-- Helper to resolve the school of a scholarship
+CREATE OR REPLACE FUNCTION public.get_scholarship_school_code(_scholarship_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT school_code
+  FROM public.scholarships
+  WHERE id = _scholarship_id
+$$;
+
+-- RLS Policies for scholarship_questions
+CREATE POLICY "Users can view questions of their school scholarships" ON public.scholarship_questions
+    FOR SELECT USING (
+        public.get_scholarship_school_code(scholarship_id) = public.get_user_school_code(auth.uid())
+        OR public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id))
+    );
+
+CREATE POLICY "Admins can insert scholarship questions" ON public.scholarship_questions
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Admins can update scholarship questions" ON public.scholarship_questions
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Admins can delete scholarship questions" ON public.scholarship_questions
+    FOR DELETE USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+-- RLS Policies for scholarship_applications
+CREATE POLICY "Students can view own applications" ON public.scholarship_applications
+    FOR SELECT USING (auth.uid() = student_id OR public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Students can submit applications" ON public.scholarship_applications
+    FOR INSERT WITH CHECK (
+        auth.uid() = student_id
+        AND status = 'submitted'
+        AND school_code = public.get_user_school_code(auth.uid())
+    );
+
+CREATE POLICY "Students can withdraw unreviewed applications" ON public.scholarship_applications
+    FOR DELETE USING (auth.uid() = student_id AND status = 'submitted');
+
+CREATE POLICY "Admins can review applications" ON public.scholarship_applications
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- RLS Policies for scholarship_application_files
+CREATE POLICY "Users can view files of visible applications" ON public.scholarship_application_files
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id
+              AND (a.student_id = auth.uid() OR public.is_school_admin(auth.uid(), a.school_code))
+        )
+    );
+
+CREATE POLICY "Students can attach files to own applications" ON public.scholarship_application_files
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id AND a.student_id = auth.uid() AND a.status = 'submitted'
+        )
+    );
+
+CREATE TRIGGER update_scholarship_applications_updated_at
+    BEFORE UPDATE ON public.scholarship_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reject applications for other schools or after the deadline
+CREATE OR REPLACE FUNCTION public.validate_scholarship_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+BEGIN
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id;
+
+    IF NOT FOUND OR _scholarship.school_code <> NEW.school_code THEN
+        RAISE EXCEPTION 'Scholarship not found';
+    END IF;
+
+    IF _scholarship.deadline IS NOT NULL AND _scholarship.deadline < current_date THEN
+        RAISE EXCEPTION 'The application deadline for this scholarship has passed';
+    END IF;
+
+    NEW.submitted_at = now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_scholarship_application
+    BEFORE INSERT ON public.scholarship_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_scholarship_application();
+
+-- Stamp reviews and keep awards within the scholarship's amount and slots
+CREATE OR REPLACE FUNCTION public.handle_scholarship_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+    _awarded_count INTEGER;
+    _awarded_total DECIMAL(10, 2);
+BEGIN
+    -- Only reviewers change these; keep the submission itself immutable
+    NEW.scholarship_id = OLD.scholarship_id;
+    NEW.student_id = OLD.student_id;
+    NEW.school_code = OLD.school_code;
+    NEW.statement = OLD.statement;
+    NEW.answers = OLD.answers;
+    NEW.submitted_at = OLD.submitted_at;
+
+    IF NEW.status IS DISTINCT FROM OLD.status OR NEW.reviewer_notes IS DISTINCT FROM OLD.reviewer_notes THEN
+        NEW.reviewed_by = auth.uid();
+        NEW.reviewed_at = now();
+    END IF;
+
+    IF NEW.status <> 'awarded' THEN
+        NEW.awarded_amount = NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id FOR UPDATE;
+
+    IF NEW.awarded_amount IS NULL THEN
+        NEW.awarded_amount = CASE
+            WHEN _scholarship.amount IS NOT NULL AND _scholarship.slots IS NOT NULL
+                THEN round(_scholarship.amount / _scholarship.slots, 2)
+            ELSE _scholarship.amount
+        END;
+    END IF;
+
+    SELECT count(*), coalesce(sum(awarded_amount), 0)
+    INTO _awarded_count, _awarded_total
+    FROM public.scholarship_applications
+    WHERE scholarship_id = NEW.scholarship_id
+      AND status = 'awarded'
+      AND id <> NEW.id;
+
+    IF _scholarship.slots IS NOT NULL AND _awarded_count + 1 > _scholarship.slots THEN
+        RAISE EXCEPTION 'All % slots for this scholarship have already been awarded', _scholarship.slots;
+    END IF;
+
+    IF _scholarship.amount IS NOT NULL AND _awarded_total + coalesce(NEW.awarded_amount, 0) > _scholarship.amount THEN
+        RAISE EXCEPTION 'Awarding % would exceed the scholarship amount of %',
+            NEW.awarded_amount, _scholarship.amount;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_scholarship_review
+    BEFORE UPDATE ON public.scholarship_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_scholarship_review();
+
+-- Apply the same decision to several applications, one row at a time so award limits hold
+CREATE OR REPLACE FUNCTION public.review_scholarship_applications(
+    _application_ids uuid[],
+    _status application_status,
+    _reviewer_notes text DEFAULT NULL,
+    _awarded_amount numeric DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _id uuid;
+    _updated integer := 0;
+BEGIN
+    FOREACH _id IN ARRAY _application_ids LOOP
+        UPDATE public.scholarship_applications
+        SET status = _status,
+            reviewer_notes = coalesce(_reviewer_notes, reviewer_notes),
+            awarded_amount = _awarded_amount
+        WHERE id = _id;
+
+        IF FOUND THEN
+            _updated := _updated + 1;
+        END IF;
+    END LOOP;
+
+    RETURN _updated;
+END;
+$$;
+
+-- Storage bucket for supporting documents, foldered by student id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scholarship-documents', 'scholarship-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload own scholarship documents" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'scholarship-documents'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Students and admins can read scholarship documents" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'scholarship-documents'
+        AND (
+            (storage.foldername(name))[1] = auth.uid()::text
+            OR EXISTS (
+                SELECT 1
+                FROM public.scholarship_application_files f
+                JOIN public.scholarship_applications a ON a.id = f.application_id
+                WHERE f.file_path = name
+                  AND public.is_school_admin(auth.uid(), a.school_code)
+            )
+        )
+    );
+
+CREATE POLICY "Students can delete own scholarship documents" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'scholarship-documents'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
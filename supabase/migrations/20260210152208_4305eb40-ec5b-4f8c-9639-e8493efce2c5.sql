@@ -0,0 +1,134 @@
+-- Let admins require students to acknowledge a notice
+ALTER TABLE public.notices
+    ADD COLUMN requires_acknowledgement BOOLEAN NOT NULL DEFAULT false;
+
+-- Create table tracking who read, acknowledged or was reminded about a notice
+CREATE TABLE public.notice_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    notice_id UUID REFERENCES public.notices(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    reminded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (notice_id, user_id)
+);
+
+CREATE INDEX notice_receipts_user_id_idx ON public.notice_receipts (user_id);
+
+ALTER TABLE public.notice_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are written through the functions below so students cannot forge reminders
+CREATE POLICY "Users can view own notice receipts" ON public.notice_receipts
+    FOR SELECT USING (auth.uid() = user_id OR public.is_school_admin(auth.uid(), school_code));
+
+-- Mark notices as read for the signed-in user
+CREATE OR REPLACE FUNCTION public.mark_notices_read(_notice_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at)
+    SELECT n.id, auth.uid(), n.school_code, now()
+    FROM public.notices n
+    WHERE n.id = ANY (_notice_ids)
+      AND n.school_code = public.get_user_school_code(auth.uid())
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+-- Acknowledge a notice for the signed-in user (acknowledging implies reading)
+CREATE OR REPLACE FUNCTION public.acknowledge_notice(_notice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+BEGIN
+    SELECT school_code INTO _school_code
+    FROM public.notices
+    WHERE id = _notice_id
+      AND school_code = public.get_user_school_code(auth.uid());
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at, acknowledged_at)
+    VALUES (_notice_id, auth.uid(), _school_code, now(), now())
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET
+        read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at),
+        acknowledged_at = coalesce(notice_receipts.acknowledged_at, EXCLUDED.acknowledged_at);
+END;
+$$;
+
+-- Per-student read and acknowledgement status of a notice, for admins
+CREATE OR REPLACE FUNCTION public.get_notice_receipts(_notice_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    full_name text,
+    read_at timestamptz,
+    acknowledged_at timestamptz,
+    reminded_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+BEGIN
+    SELECT school_code INTO _school_code FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.user_id, p.full_name, r.read_at, r.acknowledged_at, r.reminded_at
+    FROM public.profiles p
+    LEFT JOIN public.notice_receipts r ON r.notice_id = _notice_id AND r.user_id = p.user_id
+    WHERE p.school_code = _school_code
+      AND public.has_role(p.user_id, 'student')
+    ORDER BY p.full_name;
+END;
+$$;
+
+-- Flag students who have neither read nor acknowledged a notice as reminded
+CREATE OR REPLACE FUNCTION public.remind_notice_recipients(_notice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+    _reminded integer;
+BEGIN
+    SELECT school_code INTO _school_code FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, reminded_at)
+    SELECT _notice_id, p.user_id, _school_code, now()
+    FROM public.profiles p
+    WHERE p.school_code = _school_code
+      AND public.has_role(p.user_id, 'student')
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET reminded_at = EXCLUDED.reminded_at
+    WHERE notice_receipts.read_at IS NULL AND notice_receipts.acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS _reminded = ROW_COUNT;
+    RETURN _reminded;
+END;
+$$;
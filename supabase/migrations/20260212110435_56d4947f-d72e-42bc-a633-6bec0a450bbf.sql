@@ -0,0 +1,168 @@
+-- Schedule notices: a NULL publish_at is a draft, a future one is scheduled
+ALTER TABLE public.notices
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN went_live_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.notices SET publish_at = created_at, went_live_at = created_at;
+
+ALTER TABLE public.notices
+    ADD CONSTRAINT notices_expiry_after_publish CHECK (expires_at IS NULL OR publish_at IS NULL OR expires_at > publish_at);
+
+CREATE INDEX notices_publish_window_idx ON public.notices (school_code, publish_at, expires_at);
+
+-- Whether a notice is currently visible to students
+CREATE OR REPLACE FUNCTION public.is_notice_live(_publish_at timestamptz, _expires_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT _publish_at IS NOT NULL
+       AND _publish_at <= now()
+       AND (_expires_at IS NULL OR _expires_at > now())
+$$;
+
+-- Students only see live notices; admins see drafts, scheduled and expired ones too
+DROP POLICY "Users can view notices of their school" ON public.notices;
+
+CREATE POLICY "Users can view notices of their school" ON public.notices
+    FOR SELECT USING (
+        public.is_school_admin(auth.uid(), school_code)
+        OR (
+            school_code = public.get_user_school_code(auth.uid())
+            AND public.is_notice_live(publish_at, expires_at)
+        )
+    );
+
+-- Keep went_live_at in step with publish_at so the row changes when it goes live
+CREATE OR REPLACE FUNCTION public.set_notice_went_live_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.publish_at IS NULL OR NEW.publish_at > now() THEN
+        NEW.went_live_at := NULL;
+    ELSIF NEW.went_live_at IS NULL THEN
+        NEW.went_live_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_notice_went_live_at
+    BEFORE INSERT OR UPDATE OF publish_at, went_live_at ON public.notices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_notice_went_live_at();
+
+-- Stamp scheduled notices whose time has come. The update is broadcast over
+-- realtime, which is how students' open notice boards pick them up.
+CREATE OR REPLACE FUNCTION public.publish_due_notices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _published integer;
+BEGIN
+    UPDATE public.notices
+    SET went_live_at = now()
+    WHERE went_live_at IS NULL
+      AND publish_at <= now();
+
+    GET DIAGNOSTICS _published = ROW_COUNT;
+    RETURN _published;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_due_notices() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-due-notices', '* * * * *', $$SELECT public.publish_due_notices()$$);
+
+-- Receipts can only be recorded against notices the student can actually see
+CREATE OR REPLACE FUNCTION public.mark_notices_read(_notice_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at)
+    SELECT n.id, auth.uid(), n.school_code, now()
+    FROM public.notices n
+    WHERE n.id = ANY (_notice_ids)
+      AND n.school_code = public.get_user_school_code(auth.uid())
+      AND public.is_notice_live(n.publish_at, n.expires_at)
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_notice(_notice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+BEGIN
+    SELECT school_code INTO _school_code
+    FROM public.notices
+    WHERE id = _notice_id
+      AND school_code = public.get_user_school_code(auth.uid())
+      AND public.is_notice_live(publish_at, expires_at);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at, acknowledged_at)
+    VALUES (_notice_id, auth.uid(), _school_code, now(), now())
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET
+        read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at),
+        acknowledged_at = coalesce(notice_receipts.acknowledged_at, EXCLUDED.acknowledged_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remind_notice_recipients(_notice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+    _is_live boolean;
+    _reminded integer;
+BEGIN
+    SELECT school_code, public.is_notice_live(publish_at, expires_at)
+    INTO _school_code, _is_live
+    FROM public.notices
+    WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    IF NOT _is_live THEN
+        RAISE EXCEPTION 'Only live notices can be reminded';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, reminded_at)
+    SELECT _notice_id, p.user_id, _school_code, now()
+    FROM public.profiles p
+    WHERE p.school_code = _school_code
+      AND public.has_role(p.user_id, 'student')
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET reminded_at = EXCLUDED.reminded_at
+    WHERE notice_receipts.read_at IS NULL AND notice_receipts.acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS _reminded = ROW_COUNT;
+    RETURN _reminded;
+END;
+$$;
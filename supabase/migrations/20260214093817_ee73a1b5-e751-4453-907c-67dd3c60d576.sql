@@ -0,0 +1,3 @@
+-- Enable realtime for fees and scholarships alongside notices
+ALTER PUBLICATION supabase_realtime ADD TABLE public.fees;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scholarships;
@@ -0,0 +1,2 @@
+-- Add the teacher role (committed on its own so later migrations can use it)
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'teacher';
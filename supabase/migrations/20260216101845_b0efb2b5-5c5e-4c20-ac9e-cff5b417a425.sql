@@ -0,0 +1,446 @@
+-- Create classes table
+CREATE TABLE public.classes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (school_code, name)
+);
+
+-- Create table linking teachers to the classes they teach
+CREATE TABLE public.class_teachers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+    teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (class_id, teacher_id)
+);
+
+-- Create table linking students to their classes
+CREATE TABLE public.class_enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (class_id, student_id)
+);
+
+CREATE INDEX class_teachers_teacher_id_idx ON public.class_teachers (teacher_id);
+CREATE INDEX class_enrollments_student_id_idx ON public.class_enrollments (student_id);
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_teachers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_classes_updated_at
+    BEFORE UPDATE ON public.classes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function to get the school a class belongs to
+CREATE OR REPLACE FUNCTION public.get_class_school_code(_class_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT school_code
+  FROM public.classes
+  WHERE id = _class_id
+$$;
+
+-- Create function to check if user teaches a class
+CREATE OR REPLACE FUNCTION public.is_class_teacher(_user_id uuid, _class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_teachers
+    WHERE teacher_id = _user_id
+      AND class_id = _class_id
+  )
+$$;
+
+-- Create function to check if user is enrolled in a class
+CREATE OR REPLACE FUNCTION public.is_class_student(_user_id uuid, _class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_enrollments
+    WHERE student_id = _user_id
+      AND class_id = _class_id
+  )
+$$;
+
+-- Create function to check if user teaches any class a student is enrolled in
+CREATE OR REPLACE FUNCTION public.is_teacher_of_student(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_teachers t
+    JOIN public.class_enrollments e ON e.class_id = t.class_id
+    WHERE t.teacher_id = _user_id
+      AND e.student_id = _student_id
+  )
+$$;
+
+-- RLS Policies for classes
+CREATE POLICY "Users can view classes of their school" ON public.classes
+    FOR SELECT USING (school_code = public.get_user_school_code(auth.uid()) OR public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can insert classes" ON public.classes
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can update classes" ON public.classes
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can delete classes" ON public.classes
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- RLS Policies for class_teachers
+CREATE POLICY "Teachers and admins can view class teachers" ON public.class_teachers
+    FOR SELECT USING (teacher_id = auth.uid() OR public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+CREATE POLICY "Admins can assign class teachers" ON public.class_teachers
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND public.has_role(teacher_id, 'teacher')
+        AND public.get_user_school_code(teacher_id) = public.get_class_school_code(class_id)
+    );
+
+CREATE POLICY "Admins can unassign class teachers" ON public.class_teachers
+    FOR DELETE USING (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+-- RLS Policies for class_enrollments
+CREATE POLICY "Users can view relevant class enrollments" ON public.class_enrollments
+    FOR SELECT USING (
+        student_id = auth.uid()
+        OR public.is_class_teacher(auth.uid(), class_id)
+        OR public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+    );
+
+CREATE POLICY "Admins can enroll students" ON public.class_enrollments
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND public.has_role(student_id, 'student')
+        AND public.get_user_school_code(student_id) = public.get_class_school_code(class_id)
+    );
+
+CREATE POLICY "Admins can unenroll students" ON public.class_enrollments
+    FOR DELETE USING (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+-- Teachers can see the students in their classes
+CREATE POLICY "Teachers can view profiles of their students" ON public.profiles
+    FOR SELECT USING (public.is_teacher_of_student(auth.uid(), user_id));
+
+-- Admins and teachers need to tell students and staff apart
+CREATE POLICY "Admins can view roles in their school" ON public.user_roles
+    FOR SELECT USING (public.is_school_admin(auth.uid(), public.get_user_school_code(user_id)));
+
+CREATE POLICY "Teachers can view roles of their students" ON public.user_roles
+    FOR SELECT USING (public.is_teacher_of_student(auth.uid(), user_id));
+
+-- Create view listing each school's members with their role
+CREATE VIEW public.school_members
+WITH (security_invoker = on) AS
+SELECT
+    p.user_id,
+    p.full_name,
+    p.school_code,
+    r.role,
+    p.created_at AS joined_at
+FROM public.profiles p
+JOIN public.user_roles r ON r.user_id = p.user_id
+WHERE p.school_code IS NOT NULL;
+
+-- Teacher invitations attach the new teacher to the inviting school
+ALTER TABLE public.role_invitations
+    ADD COLUMN school_code TEXT,
+    ADD CONSTRAINT role_invitations_teacher_school CHECK (role <> 'teacher' OR school_code IS NOT NULL);
+
+DROP POLICY "Admins can issue invitations" ON public.role_invitations;
+
+CREATE POLICY "Admins can issue invitations" ON public.role_invitations
+    FOR INSERT WITH CHECK (
+        public.has_role(auth.uid(), 'admin')
+        AND invited_by = auth.uid()
+        AND (school_code IS NULL OR public.is_school_admin(auth.uid(), school_code))
+    );
+
+CREATE OR REPLACE FUNCTION public.consume_role_invitation(_user_id uuid, _email text, _token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _invitation public.role_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO _invitation
+    FROM public.role_invitations
+    WHERE token = upper(trim(_token))
+      AND lower(email) = lower(_email)
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.role_invitations
+    SET accepted_by = _user_id, accepted_at = now()
+    WHERE id = _invitation.id;
+
+    PERFORM public.assign_role(_user_id, _invitation.role);
+
+    IF _invitation.school_code IS NOT NULL THEN
+        UPDATE public.profiles
+        SET school_code = _invitation.school_code
+        WHERE user_id = _user_id;
+    END IF;
+
+    UPDATE public.admin_access_requests
+    SET status = 'approved', reviewed_at = now()
+    WHERE user_id = _user_id AND status = 'pending' AND _invitation.role = 'admin';
+
+    RETURN true;
+END;
+$$;
+
+-- Teachers sign up with an invitation; without a valid one they stay students
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _full_name TEXT := coalesce(nullif(trim(NEW.raw_user_meta_data->>'full_name'), ''), split_part(NEW.email, '@', 1));
+    _requested_role TEXT := NEW.raw_user_meta_data->>'requested_role';
+    _invite_token TEXT := NEW.raw_user_meta_data->>'invite_token';
+BEGIN
+    INSERT INTO public.profiles (user_id, full_name)
+    VALUES (NEW.id, _full_name)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student')
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    IF _requested_role = 'admin' THEN
+        IF _invite_token IS NULL
+           OR NOT public.consume_role_invitation(NEW.id, NEW.email, _invite_token) THEN
+            INSERT INTO public.admin_access_requests (user_id, institute_name)
+            VALUES (NEW.id, _full_name)
+            ON CONFLICT (user_id) DO NOTHING;
+        END IF;
+    ELSIF _invite_token IS NOT NULL THEN
+        PERFORM public.consume_role_invitation(NEW.id, NEW.email, _invite_token);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Notices can target a single class instead of the whole school
+ALTER TABLE public.notices
+    ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE;
+
+CREATE INDEX notices_class_id_idx ON public.notices (class_id);
+
+-- Whether a user is meant to receive a notice once it is live
+CREATE OR REPLACE FUNCTION public.is_notice_recipient(_user_id uuid, _school_code text, _class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _school_code = public.get_user_school_code(_user_id)
+     AND (_class_id IS NULL OR public.is_class_student(_user_id, _class_id) OR public.is_class_teacher(_user_id, _class_id))
+$$;
+
+-- Whether a user may manage a notice: school admins, or the class's teachers
+CREATE OR REPLACE FUNCTION public.can_manage_notice(_user_id uuid, _school_code text, _class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_school_admin(_user_id, _school_code)
+      OR (
+          _class_id IS NOT NULL
+          AND public.is_class_teacher(_user_id, _class_id)
+          AND public.get_class_school_code(_class_id) = _school_code
+      )
+$$;
+
+DROP POLICY "Users can view notices of their school" ON public.notices;
+DROP POLICY "Admins can insert notices" ON public.notices;
+DROP POLICY "Admins can update notices" ON public.notices;
+DROP POLICY "Admins can delete notices" ON public.notices;
+
+CREATE POLICY "Users can view notices addressed to them" ON public.notices
+    FOR SELECT USING (
+        public.can_manage_notice(auth.uid(), school_code, class_id)
+        OR (
+            public.is_notice_recipient(auth.uid(), school_code, class_id)
+            AND public.is_notice_live(publish_at, expires_at)
+        )
+    );
+
+CREATE POLICY "Admins and class teachers can insert notices" ON public.notices
+    FOR INSERT WITH CHECK (public.can_manage_notice(auth.uid(), school_code, class_id));
+
+CREATE POLICY "Admins and class teachers can update notices" ON public.notices
+    FOR UPDATE USING (public.can_manage_notice(auth.uid(), school_code, class_id))
+    WITH CHECK (public.can_manage_notice(auth.uid(), school_code, class_id));
+
+CREATE POLICY "Admins and class teachers can delete notices" ON public.notices
+    FOR DELETE USING (public.can_manage_notice(auth.uid(), school_code, class_id));
+
+-- Receipts follow the notice's audience
+CREATE OR REPLACE FUNCTION public.mark_notices_read(_notice_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at)
+    SELECT n.id, auth.uid(), n.school_code, now()
+    FROM public.notices n
+    WHERE n.id = ANY (_notice_ids)
+      AND public.is_notice_recipient(auth.uid(), n.school_code, n.class_id)
+      AND public.is_notice_live(n.publish_at, n.expires_at)
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_notice(_notice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+BEGIN
+    SELECT school_code INTO _school_code
+    FROM public.notices
+    WHERE id = _notice_id
+      AND public.is_notice_recipient(auth.uid(), school_code, class_id)
+      AND public.is_notice_live(publish_at, expires_at);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at, acknowledged_at)
+    VALUES (_notice_id, auth.uid(), _school_code, now(), now())
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET
+        read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at),
+        acknowledged_at = coalesce(notice_receipts.acknowledged_at, EXCLUDED.acknowledged_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_notice_receipts(_notice_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    full_name text,
+    read_at timestamptz,
+    acknowledged_at timestamptz,
+    reminded_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.user_id, p.full_name, r.read_at, r.acknowledged_at, r.reminded_at
+    FROM public.profiles p
+    LEFT JOIN public.notice_receipts r ON r.notice_id = _notice_id AND r.user_id = p.user_id
+    WHERE p.school_code = _notice.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND (_notice.class_id IS NULL OR public.is_class_student(p.user_id, _notice.class_id))
+    ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remind_notice_recipients(_notice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+    _reminded integer;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    IF NOT public.is_notice_live(_notice.publish_at, _notice.expires_at) THEN
+        RAISE EXCEPTION 'Only live notices can be reminded';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, reminded_at)
+    SELECT _notice_id, p.user_id, _notice.school_code, now()
+    FROM public.profiles p
+    WHERE p.school_code = _notice.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND (_notice.class_id IS NULL OR public.is_class_student(p.user_id, _notice.class_id))
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET reminded_at = EXCLUDED.reminded_at
+    WHERE notice_receipts.read_at IS NULL AND notice_receipts.acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS _reminded = ROW_COUNT;
+    RETURN _reminded;
+END;
+$$;
+
+-- Receipt rows are readable by whoever manages the notice
+DROP POLICY "Users can view own notice receipts" ON public.notice_receipts;
+
+CREATE POLICY "Users can view own notice receipts" ON public.notice_receipts
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM public.notices n
+            WHERE n.id = notice_id
+              AND public.can_manage_notice(auth.uid(), n.school_code, n.class_id)
+        )
+    );
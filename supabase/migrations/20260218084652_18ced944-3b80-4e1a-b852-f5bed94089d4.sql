@@ -0,0 +1,210 @@
+-- Create table for link codes students hand to a parent or guardian
+CREATE TABLE public.guardian_link_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    code TEXT UNIQUE NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + interval '7 days') NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create table linking guardians to the students they look after
+CREATE TABLE public.guardian_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    guardian_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (guardian_id, student_id)
+);
+
+CREATE INDEX guardian_links_student_id_idx ON public.guardian_links (student_id);
+
+ALTER TABLE public.guardian_link_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guardian_links ENABLE ROW LEVEL SECURITY;
+
+-- Create function to check if user is a linked guardian of a student
+CREATE OR REPLACE FUNCTION public.is_guardian_of(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.guardian_links
+    WHERE guardian_id = _user_id
+      AND student_id = _student_id
+  )
+$$;
+
+-- Create function to check if user is a guardian of any student in a school
+CREATE OR REPLACE FUNCTION public.is_guardian_in_school(_user_id uuid, _school_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.guardian_links g
+    JOIN public.profiles p ON p.user_id = g.student_id
+    WHERE g.guardian_id = _user_id
+      AND p.school_code = _school_code
+  )
+$$;
+
+-- RLS Policies for guardian_link_codes (codes are issued and redeemed through functions)
+CREATE POLICY "Students can view own link code" ON public.guardian_link_codes
+    FOR SELECT USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can revoke own link code" ON public.guardian_link_codes
+    FOR DELETE USING (auth.uid() = student_id);
+
+-- RLS Policies for guardian_links (either side may remove a link)
+CREATE POLICY "Guardians and students can view their links" ON public.guardian_links
+    FOR SELECT USING (auth.uid() = guardian_id OR auth.uid() = student_id);
+
+CREATE POLICY "Guardians and students can remove their links" ON public.guardian_links
+    FOR DELETE USING (auth.uid() = guardian_id OR auth.uid() = student_id);
+
+-- Issue a fresh link code for the signed-in student, replacing any earlier one
+CREATE OR REPLACE FUNCTION public.create_guardian_link_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _code TEXT;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'student') THEN
+        RAISE EXCEPTION 'Only students can issue link codes';
+    END IF;
+
+    DELETE FROM public.guardian_link_codes WHERE student_id = auth.uid();
+
+    INSERT INTO public.guardian_link_codes (student_id)
+    VALUES (auth.uid())
+    RETURNING code INTO _code;
+
+    RETURN _code;
+END;
+$$;
+
+-- Redeem a student's link code as the signed-in guardian, returning the student id
+CREATE OR REPLACE FUNCTION public.link_guardian(_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _student_id UUID;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'guardian') THEN
+        RAISE EXCEPTION 'Only guardian accounts can link to a student';
+    END IF;
+
+    DELETE FROM public.guardian_link_codes
+    WHERE code = upper(trim(_code))
+      AND expires_at > now()
+    RETURNING student_id INTO _student_id;
+
+    IF _student_id IS NULL THEN
+        RAISE EXCEPTION 'Invalid or expired link code';
+    END IF;
+
+    INSERT INTO public.guardian_links (guardian_id, student_id)
+    VALUES (auth.uid(), _student_id)
+    ON CONFLICT (guardian_id, student_id) DO NOTHING;
+
+    RETURN _student_id;
+END;
+$$;
+
+-- Guardians sign up without an invitation; they only see data once a student links them
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _full_name TEXT := coalesce(nullif(trim(NEW.raw_user_meta_data->>'full_name'), ''), split_part(NEW.email, '@', 1));
+    _requested_role TEXT := NEW.raw_user_meta_data->>'requested_role';
+    _invite_token TEXT := NEW.raw_user_meta_data->>'invite_token';
+BEGIN
+    INSERT INTO public.profiles (user_id, full_name)
+    VALUES (NEW.id, _full_name)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    IF _requested_role = 'guardian' THEN
+        PERFORM public.assign_role(NEW.id, 'guardian');
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student')
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    IF _requested_role = 'admin' THEN
+        IF _invite_token IS NULL
+           OR NOT public.consume_role_invitation(NEW.id, NEW.email, _invite_token) THEN
+            INSERT INTO public.admin_access_requests (user_id, institute_name)
+            VALUES (NEW.id, _full_name)
+            ON CONFLICT (user_id) DO NOTHING;
+        END IF;
+    ELSIF _invite_token IS NOT NULL THEN
+        PERFORM public.consume_role_invitation(NEW.id, NEW.email, _invite_token);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Read-only access for guardians, scoped to their linked children
+CREATE POLICY "Guardians can view profiles of their children" ON public.profiles
+    FOR SELECT USING (public.is_guardian_of(auth.uid(), user_id));
+
+CREATE POLICY "Students can view profiles of their guardians" ON public.profiles
+    FOR SELECT USING (public.is_guardian_of(user_id, auth.uid()));
+
+CREATE POLICY "Guardians can view fees of their children's schools" ON public.fees
+    FOR SELECT USING (public.is_guardian_in_school(auth.uid(), school_code));
+
+CREATE POLICY "Guardians can view fee assignments of their children" ON public.fee_assignments
+    FOR SELECT USING (public.is_guardian_of(auth.uid(), student_id));
+
+CREATE POLICY "Guardians can view fee payments of their children" ON public.fee_payments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.fee_assignments a
+            WHERE a.id = assignment_id AND public.is_guardian_of(auth.uid(), a.student_id)
+        )
+    );
+
+CREATE POLICY "Guardians can view scholarships of their children's schools" ON public.scholarships
+    FOR SELECT USING (public.is_guardian_in_school(auth.uid(), school_code));
+
+CREATE POLICY "Guardians can view applications of their children" ON public.scholarship_applications
+    FOR SELECT USING (public.is_guardian_of(auth.uid(), student_id));
+
+CREATE POLICY "Guardians can view notices addressed to their children" ON public.notices
+    FOR SELECT USING (
+        public.is_notice_live(publish_at, expires_at)
+        AND EXISTS (
+            SELECT 1 FROM public.guardian_links g
+            WHERE g.guardian_id = auth.uid()
+              AND public.is_notice_recipient(g.student_id, school_code, class_id)
+        )
+    );
+
+CREATE POLICY "Guardians can view notice receipts of their children" ON public.notice_receipts
+    FOR SELECT USING (public.is_guardian_of(auth.uid(), user_id));
+
+CREATE POLICY "Guardians can view classes of their children" ON public.classes
+    FOR SELECT USING (public.is_guardian_in_school(auth.uid(), school_code));
+
+CREATE POLICY "Guardians can view class enrollments of their children" ON public.class_enrollments
+    FOR SELECT USING (public.is_guardian_of(auth.uid(), student_id));
@@ -0,0 +1,356 @@
+-- Create sections within a class, e.g. "B" in "Grade 10-B"
+CREATE TABLE public.class_sections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (class_id, name)
+);
+
+ALTER TABLE public.class_sections ENABLE ROW LEVEL SECURITY;
+
+-- Students on a class roster may be placed in one of its sections
+ALTER TABLE public.class_enrollments
+    ADD COLUMN section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL;
+
+-- Create function to get the class a section belongs to
+CREATE OR REPLACE FUNCTION public.get_section_class_id(_section_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT class_id
+  FROM public.class_sections
+  WHERE id = _section_id
+$$;
+
+-- Whether a user falls inside a class (and optionally section) audience; no class means everyone
+CREATE OR REPLACE FUNCTION public.is_in_class_audience(_user_id uuid, _class_id uuid, _section_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _class_id IS NULL
+      OR EXISTS (
+          SELECT 1
+          FROM public.class_enrollments
+          WHERE student_id = _user_id
+            AND class_id = _class_id
+            AND (_section_id IS NULL OR section_id = _section_id)
+      )
+$$;
+
+-- RLS Policies for class_sections
+CREATE POLICY "Users can view sections of visible classes" ON public.class_sections
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.classes c WHERE c.id = class_id)
+    );
+
+CREATE POLICY "Admins can insert sections" ON public.class_sections
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+CREATE POLICY "Admins can update sections" ON public.class_sections
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+CREATE POLICY "Admins can delete sections" ON public.class_sections
+    FOR DELETE USING (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)));
+
+-- Enrollment sections must belong to the enrollment's class
+DROP POLICY "Admins can enroll students" ON public.class_enrollments;
+
+CREATE POLICY "Admins can enroll students" ON public.class_enrollments
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND public.has_role(student_id, 'student')
+        AND public.get_user_school_code(student_id) = public.get_class_school_code(class_id)
+        AND (section_id IS NULL OR public.get_section_class_id(section_id) = class_id)
+    );
+
+CREATE POLICY "Admins can move students between sections" ON public.class_enrollments
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), public.get_class_school_code(class_id)))
+    WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND (section_id IS NULL OR public.get_section_class_id(section_id) = class_id)
+    );
+
+-- Let a student who just joined a school pick their class; after that the school manages the roster
+CREATE OR REPLACE FUNCTION public.choose_class(_class_id uuid, _section_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT := public.get_user_school_code(auth.uid());
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'student') THEN
+        RAISE EXCEPTION 'Only students can choose a class';
+    END IF;
+
+    IF _school_code IS NULL OR public.get_class_school_code(_class_id) IS DISTINCT FROM _school_code THEN
+        RAISE EXCEPTION 'Class not found';
+    END IF;
+
+    IF _section_id IS NOT NULL AND public.get_section_class_id(_section_id) IS DISTINCT FROM _class_id THEN
+        RAISE EXCEPTION 'Section not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.class_enrollments WHERE student_id = auth.uid()) THEN
+        RAISE EXCEPTION 'You are already on a class roster; ask your school to move you';
+    END IF;
+
+    INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+    VALUES (_class_id, _section_id, auth.uid());
+END;
+$$;
+
+-- Notices, fees and scholarships can target a class, or one section of it
+ALTER TABLE public.notices
+    ADD COLUMN section_id UUID REFERENCES public.class_sections(id) ON DELETE CASCADE,
+    ADD CONSTRAINT notices_section_needs_class CHECK (section_id IS NULL OR class_id IS NOT NULL);
+
+ALTER TABLE public.fees
+    ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+    ADD COLUMN section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL,
+    ADD CONSTRAINT fees_section_needs_class CHECK (section_id IS NULL OR class_id IS NOT NULL);
+
+ALTER TABLE public.scholarships
+    ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+    ADD COLUMN section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL,
+    ADD CONSTRAINT scholarships_section_needs_class CHECK (section_id IS NULL OR class_id IS NOT NULL);
+
+-- Notice recipients now honour the section as well as the class
+CREATE OR REPLACE FUNCTION public.is_notice_recipient(_user_id uuid, _school_code text, _class_id uuid, _section_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _school_code = public.get_user_school_code(_user_id)
+     AND (public.is_in_class_audience(_user_id, _class_id, _section_id) OR public.is_class_teacher(_user_id, _class_id))
+$$;
+
+DROP POLICY "Users can view notices addressed to them" ON public.notices;
+DROP POLICY "Guardians can view notices addressed to their children" ON public.notices;
+
+CREATE POLICY "Users can view notices addressed to them" ON public.notices
+    FOR SELECT USING (
+        public.can_manage_notice(auth.uid(), school_code, class_id)
+        OR (
+            public.is_notice_recipient(auth.uid(), school_code, class_id, section_id)
+            AND public.is_notice_live(publish_at, expires_at)
+        )
+    );
+
+CREATE POLICY "Guardians can view notices addressed to their children" ON public.notices
+    FOR SELECT USING (
+        public.is_notice_live(publish_at, expires_at)
+        AND EXISTS (
+            SELECT 1 FROM public.guardian_links g
+            WHERE g.guardian_id = auth.uid()
+              AND public.is_notice_recipient(g.student_id, school_code, class_id, section_id)
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.mark_notices_read(_notice_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at)
+    SELECT n.id, auth.uid(), n.school_code, now()
+    FROM public.notices n
+    WHERE n.id = ANY (_notice_ids)
+      AND public.is_notice_recipient(auth.uid(), n.school_code, n.class_id, n.section_id)
+      AND public.is_notice_live(n.publish_at, n.expires_at)
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_notice(_notice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT;
+BEGIN
+    SELECT school_code INTO _school_code
+    FROM public.notices
+    WHERE id = _notice_id
+      AND public.is_notice_recipient(auth.uid(), school_code, class_id, section_id)
+      AND public.is_notice_live(publish_at, expires_at);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, read_at, acknowledged_at)
+    VALUES (_notice_id, auth.uid(), _school_code, now(), now())
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET
+        read_at = coalesce(notice_receipts.read_at, EXCLUDED.read_at),
+        acknowledged_at = coalesce(notice_receipts.acknowledged_at, EXCLUDED.acknowledged_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_notice_receipts(_notice_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    full_name text,
+    read_at timestamptz,
+    acknowledged_at timestamptz,
+    reminded_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.user_id, p.full_name, r.read_at, r.acknowledged_at, r.reminded_at
+    FROM public.profiles p
+    LEFT JOIN public.notice_receipts r ON r.notice_id = _notice_id AND r.user_id = p.user_id
+    WHERE p.school_code = _notice.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND public.is_in_class_audience(p.user_id, _notice.class_id, _notice.section_id)
+    ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remind_notice_recipients(_notice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+    _reminded integer;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    IF NOT public.is_notice_live(_notice.publish_at, _notice.expires_at) THEN
+        RAISE EXCEPTION 'Only live notices can be reminded';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, reminded_at)
+    SELECT _notice_id, p.user_id, _notice.school_code, now()
+    FROM public.profiles p
+    WHERE p.school_code = _notice.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND public.is_in_class_audience(p.user_id, _notice.class_id, _notice.section_id)
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET reminded_at = EXCLUDED.reminded_at
+    WHERE notice_receipts.read_at IS NULL AND notice_receipts.acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS _reminded = ROW_COUNT;
+    RETURN _reminded;
+END;
+$$;
+
+DROP FUNCTION public.is_notice_recipient(uuid, text, uuid);
+
+-- Fees assigned to "everyone" only reach the fee's class or section
+CREATE OR REPLACE FUNCTION public.assign_fee(_fee_id uuid, _student_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fee public.fees%ROWTYPE;
+    _inserted integer;
+BEGIN
+    SELECT * INTO _fee FROM public.fees WHERE id = _fee_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _fee.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+    SELECT _fee.id, p.user_id, _fee.school_code, _fee.amount
+    FROM public.profiles p
+    WHERE p.school_code = _fee.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND public.is_in_class_audience(p.user_id, _fee.class_id, _fee.section_id)
+      AND (_student_ids IS NULL OR p.user_id = ANY (_student_ids))
+    ON CONFLICT (fee_id, student_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    RETURN _inserted;
+END;
+$$;
+
+-- Students and guardians only see scholarships open to the student's class
+DROP POLICY "Users can view scholarships of their school" ON public.scholarships;
+DROP POLICY "Guardians can view scholarships of their children's schools" ON public.scholarships;
+
+CREATE POLICY "Users can view scholarships open to them" ON public.scholarships
+    FOR SELECT USING (
+        public.is_school_admin(auth.uid(), school_code)
+        OR (
+            school_code = public.get_user_school_code(auth.uid())
+            AND public.is_in_class_audience(auth.uid(), class_id, section_id)
+        )
+    );
+
+CREATE POLICY "Guardians can view scholarships open to their children" ON public.scholarships
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.guardian_links g
+            WHERE g.guardian_id = auth.uid()
+              AND public.get_user_school_code(g.student_id) = school_code
+              AND public.is_in_class_audience(g.student_id, class_id, section_id)
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.validate_scholarship_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+BEGIN
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id;
+
+    IF NOT FOUND OR _scholarship.school_code <> NEW.school_code THEN
+        RAISE EXCEPTION 'Scholarship not found';
+    END IF;
+
+    IF NOT public.is_in_class_audience(NEW.student_id, _scholarship.class_id, _scholarship.section_id) THEN
+        RAISE EXCEPTION 'This scholarship is not open to your class';
+    END IF;
+
+    IF _scholarship.deadline IS NOT NULL AND _scholarship.deadline < current_date THEN
+        RAISE EXCEPTION 'The application deadline for this scholarship has passed';
+    END IF;
+
+    NEW.submitted_at = now();
+    RETURN NEW;
+END;
+$$;
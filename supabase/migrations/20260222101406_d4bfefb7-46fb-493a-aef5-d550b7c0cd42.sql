@@ -0,0 +1,97 @@
+-- Create view listing each school's students with their classes and outstanding fees
+CREATE VIEW public.student_directory
+WITH (security_invoker = on) AS
+SELECT
+    p.user_id,
+    p.full_name,
+    p.school_code,
+    p.created_at AS joined_at,
+    coalesce(e.class_ids, '{}') AS class_ids,
+    e.class_names,
+    coalesce(b.balance, 0)::DECIMAL(10, 2) AS balance
+FROM public.profiles p
+JOIN public.user_roles r ON r.user_id = p.user_id AND r.role = 'student'
+LEFT JOIN LATERAL (
+    SELECT
+        array_agg(ce.class_id) AS class_ids,
+        string_agg(c.name || coalesce('-' || s.name, ''), ', ' ORDER BY c.name) AS class_names
+    FROM public.class_enrollments ce
+    JOIN public.classes c ON c.id = ce.class_id
+    LEFT JOIN public.class_sections s ON s.id = ce.section_id
+    WHERE ce.student_id = p.user_id
+      AND c.school_code = p.school_code
+) e ON true
+LEFT JOIN LATERAL (
+    SELECT sum(fab.balance) AS balance
+    FROM public.fee_assignment_balances fab
+    WHERE fab.student_id = p.user_id
+      AND fab.school_code = p.school_code
+) b ON true
+WHERE p.school_code IS NOT NULL;
+
+-- Remove students from the admin's school, dropping them from its classes
+CREATE OR REPLACE FUNCTION public.remove_students_from_school(_student_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _removed integer;
+BEGIN
+    DELETE FROM public.class_enrollments ce
+    USING public.classes c
+    WHERE c.id = ce.class_id
+      AND ce.student_id = ANY (_student_ids)
+      AND public.is_school_admin(auth.uid(), c.school_code);
+
+    UPDATE public.profiles
+    SET school_code = NULL
+    WHERE user_id = ANY (_student_ids)
+      AND school_code IS NOT NULL
+      AND public.has_role(user_id, 'student')
+      AND public.is_school_admin(auth.uid(), school_code);
+
+    GET DIAGNOSTICS _removed = ROW_COUNT;
+    RETURN _removed;
+END;
+$$;
+
+-- Move students into one class (and optionally a section), leaving their other classes in the school
+CREATE OR REPLACE FUNCTION public.move_students_to_class(_student_ids uuid[], _class_id uuid, _section_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code text := public.get_class_school_code(_class_id);
+    _moved integer;
+BEGIN
+    IF _school_code IS NULL OR NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Class not found';
+    END IF;
+
+    IF _section_id IS NOT NULL AND public.get_section_class_id(_section_id) IS DISTINCT FROM _class_id THEN
+        RAISE EXCEPTION 'Section not found';
+    END IF;
+
+    DELETE FROM public.class_enrollments ce
+    USING public.classes c
+    WHERE c.id = ce.class_id
+      AND c.school_code = _school_code
+      AND ce.class_id <> _class_id
+      AND ce.student_id = ANY (_student_ids);
+
+    INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+    SELECT _class_id, _section_id, p.user_id
+    FROM public.profiles p
+    WHERE p.user_id = ANY (_student_ids)
+      AND p.school_code = _school_code
+      AND public.has_role(p.user_id, 'student')
+    ON CONFLICT (class_id, student_id) DO UPDATE SET section_id = EXCLUDED.section_id;
+
+    GET DIAGNOSTICS _moved = ROW_COUNT;
+    RETURN _moved;
+END;
+$$;
@@ -0,0 +1,276 @@
+-- The public join code is separate from the school code that keys every record, so it can be rotated
+ALTER TABLE public.schools
+    ADD COLUMN join_code TEXT UNIQUE,
+    ADD COLUMN requires_join_approval BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.schools SET join_code = school_code;
+
+ALTER TABLE public.schools ALTER COLUMN join_code SET NOT NULL;
+
+-- New schools start with their school code as the join code
+CREATE OR REPLACE FUNCTION public.set_school_join_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.join_code := coalesce(NEW.join_code, NEW.school_code);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_school_join_code
+    BEFORE INSERT ON public.schools
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_school_join_code();
+
+-- Create table for admin-issued invitation codes
+CREATE TABLE public.school_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT NOT NULL,
+    code TEXT UNIQUE NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+    label TEXT,
+    class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+    section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL,
+    max_uses INTEGER CHECK (max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT school_invitations_section_needs_class CHECK (section_id IS NULL OR class_id IS NOT NULL)
+);
+
+-- Create table for join requests waiting on an admin
+CREATE TABLE public.school_join_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+    section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX school_invitations_school_code_idx ON public.school_invitations (school_code);
+CREATE INDEX school_join_requests_school_code_idx ON public.school_join_requests (school_code);
+CREATE UNIQUE INDEX school_join_requests_one_pending_idx ON public.school_join_requests (user_id) WHERE status = 'pending';
+
+ALTER TABLE public.school_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.school_join_requests ENABLE ROW LEVEL SECURITY;
+
+-- Admins see new join requests arrive without refreshing
+ALTER PUBLICATION supabase_realtime ADD TABLE public.school_join_requests;
+
+-- RLS Policies for school_invitations
+CREATE POLICY "Admins can view invitations" ON public.school_invitations
+    FOR SELECT USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can create invitations" ON public.school_invitations
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), school_code)
+        AND created_by = auth.uid()
+        AND (class_id IS NULL OR public.get_class_school_code(class_id) = school_code)
+        AND (section_id IS NULL OR public.get_section_class_id(section_id) = class_id)
+    );
+
+CREATE POLICY "Admins can update invitations" ON public.school_invitations
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can delete invitations" ON public.school_invitations
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- RLS Policies for school_join_requests
+CREATE POLICY "Users can view own join requests" ON public.school_join_requests
+    FOR SELECT USING (user_id = auth.uid() OR public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Users can withdraw pending join requests" ON public.school_join_requests
+    FOR DELETE USING (user_id = auth.uid() AND status = 'pending');
+
+-- Admins need the names of people asking to join before they belong to the school
+CREATE POLICY "Admins can view profiles of join requesters" ON public.profiles
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.school_join_requests r
+            WHERE r.user_id = profiles.user_id
+              AND r.status = 'pending'
+              AND public.is_school_admin(auth.uid(), r.school_code)
+        )
+    );
+
+-- Schools are no longer listed to everyone, since that exposed every join code
+DROP POLICY "Anyone can view schools" ON public.schools;
+
+CREATE POLICY "Members can view their school" ON public.schools
+    FOR SELECT USING (
+        admin_id = auth.uid()
+        OR school_code = public.get_user_school_code(auth.uid())
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+        OR EXISTS (
+            SELECT 1 FROM public.school_join_requests r
+            WHERE r.school_code = schools.school_code
+              AND r.user_id = auth.uid()
+              AND r.status = 'pending'
+        )
+    );
+
+-- Users can no longer write their own school code; joining goes through join_school
+CREATE OR REPLACE FUNCTION public.guard_profile_school_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.school_code IS DISTINCT FROM OLD.school_code
+       AND current_user IN ('anon', 'authenticated')
+       AND NEW.school_code IS NOT NULL
+       AND NOT public.is_school_admin(NEW.user_id, NEW.school_code) THEN
+        RAISE EXCEPTION 'Join a school with its join code or an invitation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_school_code
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_profile_school_code();
+
+-- Attach a user to a school, enrolling them in a class when one was chosen for them
+CREATE OR REPLACE FUNCTION public.admit_to_school(_user_id uuid, _school_code text, _class_id uuid, _section_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.profiles
+    SET school_code = _school_code
+    WHERE user_id = _user_id;
+
+    IF _class_id IS NOT NULL AND public.has_role(_user_id, 'student') THEN
+        INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+        VALUES (_class_id, _section_id, _user_id)
+        ON CONFLICT (class_id, student_id) DO NOTHING;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admit_to_school(uuid, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Join with a school's join code or an invitation code; returns 'joined' or 'pending'
+CREATE OR REPLACE FUNCTION public.join_school(_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school public.schools%ROWTYPE;
+    _invitation public.school_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF public.get_user_school_code(auth.uid()) IS NOT NULL THEN
+        RAISE EXCEPTION 'You have already joined a school';
+    END IF;
+
+    SELECT * INTO _school FROM public.schools WHERE join_code = upper(trim(_code));
+
+    IF NOT FOUND THEN
+        SELECT * INTO _invitation
+        FROM public.school_invitations
+        WHERE code = upper(trim(_code))
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > now())
+          AND (max_uses IS NULL OR use_count < max_uses)
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invalid or expired code. Please check with your school administrator.';
+        END IF;
+
+        UPDATE public.school_invitations
+        SET use_count = use_count + 1
+        WHERE id = _invitation.id;
+
+        -- Invitations are issued to specific people, so they skip the approval queue
+        PERFORM public.admit_to_school(auth.uid(), _invitation.school_code, _invitation.class_id, _invitation.section_id);
+        RETURN 'joined';
+    END IF;
+
+    IF _school.requires_join_approval THEN
+        DELETE FROM public.school_join_requests WHERE user_id = auth.uid() AND status = 'pending';
+
+        INSERT INTO public.school_join_requests (school_code, user_id)
+        VALUES (_school.school_code, auth.uid());
+        RETURN 'pending';
+    END IF;
+
+    PERFORM public.admit_to_school(auth.uid(), _school.school_code, NULL, NULL);
+    RETURN 'joined';
+END;
+$$;
+
+-- Approve or reject pending join requests for the admin's school
+CREATE OR REPLACE FUNCTION public.review_join_requests(_request_ids uuid[], _approve boolean)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _request public.school_join_requests%ROWTYPE;
+    _reviewed integer := 0;
+BEGIN
+    FOR _request IN
+        SELECT * FROM public.school_join_requests
+        WHERE id = ANY (_request_ids)
+          AND status = 'pending'
+          AND public.is_school_admin(auth.uid(), school_code)
+        FOR UPDATE
+    LOOP
+        -- Someone who joined elsewhere in the meantime cannot be approved
+        IF _approve AND public.get_user_school_code(_request.user_id) IS NULL THEN
+            PERFORM public.admit_to_school(_request.user_id, _request.school_code, _request.class_id, _request.section_id);
+        END IF;
+
+        UPDATE public.school_join_requests
+        SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+            reviewed_by = auth.uid(),
+            reviewed_at = now()
+        WHERE id = _request.id;
+
+        _reviewed := _reviewed + 1;
+    END LOOP;
+
+    RETURN _reviewed;
+END;
+$$;
+
+-- Replace a school's join code so a leaked one stops working
+CREATE OR REPLACE FUNCTION public.rotate_join_code(_school_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _join_code TEXT := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8));
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'School not found';
+    END IF;
+
+    UPDATE public.schools
+    SET join_code = _join_code
+    WHERE school_code = _school_code;
+
+    RETURN _join_code;
+END;
+$$;
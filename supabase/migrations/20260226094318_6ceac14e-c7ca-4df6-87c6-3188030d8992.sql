@@ -0,0 +1,335 @@
+-- Create enum for how much of a school a staff member may manage
+CREATE TYPE public.staff_level AS ENUM ('owner', 'admin', 'staff');
+
+-- Create table of the people who run each school
+CREATE TABLE public.school_staff (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    level staff_level NOT NULL DEFAULT 'staff',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (school_code, user_id)
+);
+
+CREATE INDEX school_staff_user_id_idx ON public.school_staff (user_id);
+CREATE UNIQUE INDEX school_staff_one_owner_idx ON public.school_staff (school_code) WHERE level = 'owner';
+
+ALTER TABLE public.school_staff ENABLE ROW LEVEL SECURITY;
+
+-- Every existing school is owned by the admin who created it
+INSERT INTO public.school_staff (school_code, user_id, level)
+SELECT school_code, admin_id, 'owner'
+FROM public.schools;
+
+-- Anyone on the staff runs the day-to-day: notices, fees, scholarships, classes and students
+CREATE OR REPLACE FUNCTION public.is_school_admin(_user_id uuid, _school_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.school_staff
+    WHERE user_id = _user_id
+      AND school_code = _school_code
+  )
+$$;
+
+-- Owners and admins also manage settings, invitations and the staff itself
+CREATE OR REPLACE FUNCTION public.is_school_manager(_user_id uuid, _school_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.school_staff
+    WHERE user_id = _user_id
+      AND school_code = _school_code
+      AND level IN ('owner', 'admin')
+  )
+$$;
+
+-- The creator of a school becomes its owner
+CREATE OR REPLACE FUNCTION public.add_school_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.school_staff (school_code, user_id, level)
+    VALUES (NEW.school_code, NEW.admin_id, 'owner');
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_school_owner
+    AFTER INSERT ON public.schools
+    FOR EACH ROW
+    EXECUTE FUNCTION public.add_school_owner();
+
+-- RLS Policies for school_staff; changes go through the functions below
+CREATE POLICY "Staff can view their colleagues" ON public.school_staff
+    FOR SELECT USING (user_id = auth.uid() OR public.is_school_admin(auth.uid(), school_code));
+
+-- Schools are managed by their owners and admins rather than the single admin_id
+DROP POLICY "Admins can update own schools" ON public.schools;
+
+CREATE POLICY "Managers can update their schools" ON public.schools
+    FOR UPDATE USING (public.is_school_manager(auth.uid(), school_code));
+
+-- admin_id stays in sync with the owner and covers the row returned while the school is being created
+DROP POLICY "Members can view their school" ON public.schools;
+
+CREATE POLICY "Members can view their school" ON public.schools
+    FOR SELECT USING (
+        admin_id = auth.uid()
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR school_code = public.get_user_school_code(auth.uid())
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+        OR EXISTS (
+            SELECT 1 FROM public.school_join_requests r
+            WHERE r.school_code = schools.school_code
+              AND r.user_id = auth.uid()
+              AND r.status = 'pending'
+        )
+    );
+
+DROP POLICY "Admins can view invitations" ON public.school_invitations;
+DROP POLICY "Admins can create invitations" ON public.school_invitations;
+DROP POLICY "Admins can update invitations" ON public.school_invitations;
+DROP POLICY "Admins can delete invitations" ON public.school_invitations;
+
+CREATE POLICY "Managers can view invitations" ON public.school_invitations
+    FOR SELECT USING (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can create invitations" ON public.school_invitations
+    FOR INSERT WITH CHECK (
+        public.is_school_manager(auth.uid(), school_code)
+        AND created_by = auth.uid()
+        AND (class_id IS NULL OR public.get_class_school_code(class_id) = school_code)
+        AND (section_id IS NULL OR public.get_section_class_id(section_id) = class_id)
+    );
+
+CREATE POLICY "Managers can update invitations" ON public.school_invitations
+    FOR UPDATE USING (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can delete invitations" ON public.school_invitations
+    FOR DELETE USING (public.is_school_manager(auth.uid(), school_code));
+
+-- Staff invitations carry the level the new colleague will have
+ALTER TABLE public.role_invitations
+    ADD COLUMN staff_level staff_level,
+    ADD CONSTRAINT role_invitations_staff_school CHECK (staff_level IS NULL OR (role = 'admin' AND school_code IS NOT NULL));
+
+DROP POLICY "Admins can issue invitations" ON public.role_invitations;
+
+CREATE POLICY "Admins can issue invitations" ON public.role_invitations
+    FOR INSERT WITH CHECK (
+        public.has_role(auth.uid(), 'admin')
+        AND invited_by = auth.uid()
+        AND (school_code IS NULL OR public.is_school_manager(auth.uid(), school_code))
+        AND (staff_level IS DISTINCT FROM 'owner')
+    );
+
+CREATE OR REPLACE FUNCTION public.consume_role_invitation(_user_id uuid, _email text, _token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _invitation public.role_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO _invitation
+    FROM public.role_invitations
+    WHERE token = upper(trim(_token))
+      AND lower(email) = lower(_email)
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.role_invitations
+    SET accepted_by = _user_id, accepted_at = now()
+    WHERE id = _invitation.id;
+
+    PERFORM public.assign_role(_user_id, _invitation.role);
+
+    IF _invitation.school_code IS NOT NULL THEN
+        UPDATE public.profiles
+        SET school_code = _invitation.school_code
+        WHERE user_id = _user_id;
+    END IF;
+
+    IF _invitation.staff_level IS NOT NULL THEN
+        INSERT INTO public.school_staff (school_code, user_id, level)
+        VALUES (_invitation.school_code, _user_id, _invitation.staff_level)
+        ON CONFLICT (school_code, user_id) DO NOTHING;
+    END IF;
+
+    UPDATE public.admin_access_requests
+    SET status = 'approved', reviewed_at = now()
+    WHERE user_id = _user_id AND status = 'pending' AND _invitation.role = 'admin';
+
+    RETURN true;
+END;
+$$;
+
+-- Join requests and the join code are managed by owners and admins
+CREATE OR REPLACE FUNCTION public.review_join_requests(_request_ids uuid[], _approve boolean)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _request public.school_join_requests%ROWTYPE;
+    _reviewed integer := 0;
+BEGIN
+    FOR _request IN
+        SELECT * FROM public.school_join_requests
+        WHERE id = ANY (_request_ids)
+          AND status = 'pending'
+          AND public.is_school_manager(auth.uid(), school_code)
+        FOR UPDATE
+    LOOP
+        -- Someone who joined elsewhere in the meantime cannot be approved
+        IF _approve AND public.get_user_school_code(_request.user_id) IS NULL THEN
+            PERFORM public.admit_to_school(_request.user_id, _request.school_code, _request.class_id, _request.section_id);
+        END IF;
+
+        UPDATE public.school_join_requests
+        SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+            reviewed_by = auth.uid(),
+            reviewed_at = now()
+        WHERE id = _request.id;
+
+        _reviewed := _reviewed + 1;
+    END LOOP;
+
+    RETURN _reviewed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rotate_join_code(_school_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _join_code TEXT := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8));
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'School not found';
+    END IF;
+
+    UPDATE public.schools
+    SET join_code = _join_code
+    WHERE school_code = _school_code;
+
+    RETURN _join_code;
+END;
+$$;
+
+-- Promote or demote a colleague between admin and staff; the owner only changes through a transfer
+CREATE OR REPLACE FUNCTION public.set_staff_level(_school_code text, _user_id uuid, _level staff_level)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can manage staff';
+    END IF;
+
+    IF _level = 'owner' THEN
+        RAISE EXCEPTION 'Use an ownership transfer to change the owner';
+    END IF;
+
+    UPDATE public.school_staff
+    SET level = _level
+    WHERE school_code = _school_code
+      AND user_id = _user_id
+      AND level <> 'owner';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Staff member not found';
+    END IF;
+END;
+$$;
+
+-- Remove a colleague from the school's staff
+CREATE OR REPLACE FUNCTION public.remove_staff_member(_school_code text, _user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can manage staff';
+    END IF;
+
+    DELETE FROM public.school_staff
+    WHERE school_code = _school_code
+      AND user_id = _user_id
+      AND level <> 'owner';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Staff member not found';
+    END IF;
+
+    UPDATE public.profiles
+    SET school_code = NULL
+    WHERE user_id = _user_id
+      AND school_code = _school_code;
+END;
+$$;
+
+-- Hand the school to another staff member; the previous owner stays on as an admin
+CREATE OR REPLACE FUNCTION public.transfer_school_ownership(_school_code text, _user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.school_staff
+        WHERE school_code = _school_code AND user_id = auth.uid() AND level = 'owner'
+    ) THEN
+        RAISE EXCEPTION 'Only the owner can transfer the school';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.school_staff
+        WHERE school_code = _school_code AND user_id = _user_id AND level <> 'owner'
+    ) THEN
+        RAISE EXCEPTION 'The new owner must already be on the staff';
+    END IF;
+
+    UPDATE public.school_staff
+    SET level = 'admin'
+    WHERE school_code = _school_code AND user_id = auth.uid();
+
+    UPDATE public.school_staff
+    SET level = 'owner'
+    WHERE school_code = _school_code AND user_id = _user_id;
+
+    UPDATE public.schools
+    SET admin_id = _user_id
+    WHERE school_code = _school_code;
+END;
+$$;
@@ -0,0 +1,645 @@
+-- Create table for school memberships, so one account can belong to several schools
+CREATE TABLE public.school_memberships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (school_code, user_id)
+);
+
+CREATE INDEX school_memberships_user_id_idx ON public.school_memberships (user_id);
+
+ALTER TABLE public.school_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Carry over the single school each profile belonged to, and make sure staff are members of their schools
+INSERT INTO public.school_memberships (school_code, user_id, joined_at)
+SELECT p.school_code, p.user_id, p.created_at
+FROM public.profiles p
+JOIN public.schools s ON s.school_code = p.school_code;
+
+INSERT INTO public.school_memberships (school_code, user_id, joined_at)
+SELECT school_code, user_id, created_at
+FROM public.school_staff
+ON CONFLICT (school_code, user_id) DO NOTHING;
+
+-- Create function to check whether a user belongs to a school
+CREATE OR REPLACE FUNCTION public.is_school_member(_user_id uuid, _school_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.school_memberships
+    WHERE user_id = _user_id
+      AND school_code = _school_code
+  )
+$$;
+
+-- RLS Policies for school_memberships; joining and leaving go through functions
+CREATE POLICY "Users can view relevant memberships" ON public.school_memberships
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_of(auth.uid(), user_id)
+    );
+
+-- Policies that compared against the profile's single school code now check membership
+DROP POLICY "Users can view fees of their school" ON public.fees;
+
+CREATE POLICY "Users can view fees of their school" ON public.fees
+    FOR SELECT USING (public.is_school_member(auth.uid(), school_code) OR public.is_school_admin(auth.uid(), school_code));
+
+DROP POLICY "Users can view questions of their school scholarships" ON public.scholarship_questions;
+
+CREATE POLICY "Users can view questions of their school scholarships" ON public.scholarship_questions
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), public.get_scholarship_school_code(scholarship_id))
+        OR public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id))
+    );
+
+DROP POLICY "Students can submit applications" ON public.scholarship_applications;
+
+CREATE POLICY "Students can submit applications" ON public.scholarship_applications
+    FOR INSERT WITH CHECK (
+        auth.uid() = student_id
+        AND status = 'submitted'
+        AND public.is_school_member(auth.uid(), school_code)
+    );
+
+DROP POLICY "Users can view classes of their school" ON public.classes;
+
+CREATE POLICY "Users can view classes of their school" ON public.classes
+    FOR SELECT USING (public.is_school_member(auth.uid(), school_code) OR public.is_school_admin(auth.uid(), school_code));
+
+DROP POLICY "Admins can assign class teachers" ON public.class_teachers;
+
+CREATE POLICY "Admins can assign class teachers" ON public.class_teachers
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND public.has_role(teacher_id, 'teacher')
+        AND public.is_school_member(teacher_id, public.get_class_school_code(class_id))
+    );
+
+DROP POLICY "Admins can enroll students" ON public.class_enrollments;
+
+CREATE POLICY "Admins can enroll students" ON public.class_enrollments
+    FOR INSERT WITH CHECK (
+        public.is_school_admin(auth.uid(), public.get_class_school_code(class_id))
+        AND public.has_role(student_id, 'student')
+        AND public.is_school_member(student_id, public.get_class_school_code(class_id))
+        AND (section_id IS NULL OR public.get_section_class_id(section_id) = class_id)
+    );
+
+DROP POLICY "Admins can view roles in their school" ON public.user_roles;
+
+CREATE POLICY "Admins can view roles in their school" ON public.user_roles
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.school_memberships m
+            WHERE m.user_id = user_roles.user_id
+              AND public.is_school_admin(auth.uid(), m.school_code)
+        )
+    );
+
+DROP POLICY "Users can view scholarships open to them" ON public.scholarships;
+
+CREATE POLICY "Users can view scholarships open to them" ON public.scholarships
+    FOR SELECT USING (
+        public.is_school_admin(auth.uid(), school_code)
+        OR (
+            public.is_school_member(auth.uid(), school_code)
+            AND public.is_in_class_audience(auth.uid(), class_id, section_id)
+        )
+    );
+
+DROP POLICY "Guardians can view scholarships open to their children" ON public.scholarships;
+
+CREATE POLICY "Guardians can view scholarships open to their children" ON public.scholarships
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.guardian_links g
+            WHERE g.guardian_id = auth.uid()
+              AND public.is_school_member(g.student_id, school_code)
+              AND public.is_in_class_audience(g.student_id, class_id, section_id)
+        )
+    );
+
+DROP POLICY "Admins can view profiles in their school" ON public.profiles;
+
+CREATE POLICY "Admins can view profiles in their school" ON public.profiles
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.school_memberships m
+            WHERE m.user_id = profiles.user_id
+              AND public.is_school_admin(auth.uid(), m.school_code)
+        )
+    );
+
+DROP POLICY "Members can view their school" ON public.schools;
+
+CREATE POLICY "Members can view their school" ON public.schools
+    FOR SELECT USING (
+        admin_id = auth.uid()
+        OR public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+        OR EXISTS (
+            SELECT 1 FROM public.school_join_requests r
+            WHERE r.school_code = schools.school_code
+              AND r.user_id = auth.uid()
+              AND r.status = 'pending'
+        )
+    );
+
+-- Guardians reach every school any of their children belongs to
+CREATE OR REPLACE FUNCTION public.is_guardian_in_school(_user_id uuid, _school_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.guardian_links g
+    JOIN public.school_memberships m ON m.user_id = g.student_id
+    WHERE g.guardian_id = _user_id
+      AND m.school_code = _school_code
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_notice_recipient(_user_id uuid, _school_code text, _class_id uuid, _section_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_school_member(_user_id, _school_code)
+     AND (public.is_in_class_audience(_user_id, _class_id, _section_id) OR public.is_class_teacher(_user_id, _class_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_fee(_fee_id uuid, _student_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fee public.fees%ROWTYPE;
+    _inserted integer;
+BEGIN
+    SELECT * INTO _fee FROM public.fees WHERE id = _fee_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _fee.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+    SELECT _fee.id, m.user_id, _fee.school_code, _fee.amount
+    FROM public.school_memberships m
+    WHERE m.school_code = _fee.school_code
+      AND public.has_role(m.user_id, 'student')
+      AND public.is_in_class_audience(m.user_id, _fee.class_id, _fee.section_id)
+      AND (_student_ids IS NULL OR m.user_id = ANY (_student_ids))
+    ON CONFLICT (fee_id, student_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    RETURN _inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_notice_receipts(_notice_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    full_name text,
+    read_at timestamptz,
+    acknowledged_at timestamptz,
+    reminded_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.user_id, p.full_name, r.read_at, r.acknowledged_at, r.reminded_at
+    FROM public.school_memberships m
+    JOIN public.profiles p ON p.user_id = m.user_id
+    LEFT JOIN public.notice_receipts r ON r.notice_id = _notice_id AND r.user_id = p.user_id
+    WHERE m.school_code = _notice.school_code
+      AND public.has_role(p.user_id, 'student')
+      AND public.is_in_class_audience(p.user_id, _notice.class_id, _notice.section_id)
+    ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remind_notice_recipients(_notice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _notice public.notices%ROWTYPE;
+    _reminded integer;
+BEGIN
+    SELECT * INTO _notice FROM public.notices WHERE id = _notice_id;
+
+    IF NOT FOUND OR NOT public.can_manage_notice(auth.uid(), _notice.school_code, _notice.class_id) THEN
+        RAISE EXCEPTION 'Notice not found';
+    END IF;
+
+    IF NOT public.is_notice_live(_notice.publish_at, _notice.expires_at) THEN
+        RAISE EXCEPTION 'Only live notices can be reminded';
+    END IF;
+
+    INSERT INTO public.notice_receipts (notice_id, user_id, school_code, reminded_at)
+    SELECT _notice_id, m.user_id, _notice.school_code, now()
+    FROM public.school_memberships m
+    WHERE m.school_code = _notice.school_code
+      AND public.has_role(m.user_id, 'student')
+      AND public.is_in_class_audience(m.user_id, _notice.class_id, _notice.section_id)
+    ON CONFLICT (notice_id, user_id)
+    DO UPDATE SET reminded_at = EXCLUDED.reminded_at
+    WHERE notice_receipts.read_at IS NULL AND notice_receipts.acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS _reminded = ROW_COUNT;
+    RETURN _reminded;
+END;
+$$;
+
+-- Students pick one class per school they belong to
+CREATE OR REPLACE FUNCTION public.choose_class(_class_id uuid, _section_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code TEXT := public.get_class_school_code(_class_id);
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'student') THEN
+        RAISE EXCEPTION 'Only students can choose a class';
+    END IF;
+
+    IF _school_code IS NULL OR NOT public.is_school_member(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Class not found';
+    END IF;
+
+    IF _section_id IS NOT NULL AND public.get_section_class_id(_section_id) IS DISTINCT FROM _class_id THEN
+        RAISE EXCEPTION 'Section not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.class_enrollments ce
+        JOIN public.classes c ON c.id = ce.class_id
+        WHERE ce.student_id = auth.uid()
+          AND c.school_code = _school_code
+    ) THEN
+        RAISE EXCEPTION 'You are already on a class roster; ask your school to move you';
+    END IF;
+
+    INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+    VALUES (_class_id, _section_id, auth.uid());
+END;
+$$;
+
+-- Removing students now needs the school they are removed from
+DROP FUNCTION public.remove_students_from_school(uuid[]);
+
+CREATE OR REPLACE FUNCTION public.remove_students_from_school(_school_code text, _student_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _removed integer;
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'School not found';
+    END IF;
+
+    DELETE FROM public.class_enrollments ce
+    USING public.classes c
+    WHERE c.id = ce.class_id
+      AND c.school_code = _school_code
+      AND ce.student_id = ANY (_student_ids);
+
+    DELETE FROM public.school_memberships
+    WHERE school_code = _school_code
+      AND user_id = ANY (_student_ids)
+      AND public.has_role(user_id, 'student');
+
+    GET DIAGNOSTICS _removed = ROW_COUNT;
+    RETURN _removed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.move_students_to_class(_student_ids uuid[], _class_id uuid, _section_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school_code text := public.get_class_school_code(_class_id);
+    _moved integer;
+BEGIN
+    IF _school_code IS NULL OR NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Class not found';
+    END IF;
+
+    IF _section_id IS NOT NULL AND public.get_section_class_id(_section_id) IS DISTINCT FROM _class_id THEN
+        RAISE EXCEPTION 'Section not found';
+    END IF;
+
+    DELETE FROM public.class_enrollments ce
+    USING public.classes c
+    WHERE c.id = ce.class_id
+      AND c.school_code = _school_code
+      AND ce.class_id <> _class_id
+      AND ce.student_id = ANY (_student_ids);
+
+    INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+    SELECT _class_id, _section_id, m.user_id
+    FROM public.school_memberships m
+    WHERE m.user_id = ANY (_student_ids)
+      AND m.school_code = _school_code
+      AND public.has_role(m.user_id, 'student')
+    ON CONFLICT (class_id, student_id) DO UPDATE SET section_id = EXCLUDED.section_id;
+
+    GET DIAGNOSTICS _moved = ROW_COUNT;
+    RETURN _moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admit_to_school(_user_id uuid, _school_code text, _class_id uuid, _section_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.school_memberships (school_code, user_id)
+    VALUES (_school_code, _user_id)
+    ON CONFLICT (school_code, user_id) DO NOTHING;
+
+    IF _class_id IS NOT NULL AND public.has_role(_user_id, 'student') THEN
+        INSERT INTO public.class_enrollments (class_id, section_id, student_id)
+        VALUES (_class_id, _section_id, _user_id)
+        ON CONFLICT (class_id, student_id) DO NOTHING;
+    END IF;
+END;
+$$;
+
+-- Members can join further schools; only joining the same one twice is refused
+CREATE OR REPLACE FUNCTION public.join_school(_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _school public.schools%ROWTYPE;
+    _invitation public.school_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _school FROM public.schools WHERE join_code = upper(trim(_code));
+
+    IF NOT FOUND THEN
+        SELECT * INTO _invitation
+        FROM public.school_invitations
+        WHERE code = upper(trim(_code))
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > now())
+          AND (max_uses IS NULL OR use_count < max_uses)
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invalid or expired code. Please check with your school administrator.';
+        END IF;
+
+        IF public.is_school_member(auth.uid(), _invitation.school_code) THEN
+            RAISE EXCEPTION 'You are already a member of this school';
+        END IF;
+
+        UPDATE public.school_invitations
+        SET use_count = use_count + 1
+        WHERE id = _invitation.id;
+
+        -- Invitations are issued to specific people, so they skip the approval queue
+        PERFORM public.admit_to_school(auth.uid(), _invitation.school_code, _invitation.class_id, _invitation.section_id);
+        RETURN 'joined';
+    END IF;
+
+    IF public.is_school_member(auth.uid(), _school.school_code) THEN
+        RAISE EXCEPTION 'You are already a member of this school';
+    END IF;
+
+    IF _school.requires_join_approval THEN
+        DELETE FROM public.school_join_requests WHERE user_id = auth.uid() AND status = 'pending';
+
+        INSERT INTO public.school_join_requests (school_code, user_id)
+        VALUES (_school.school_code, auth.uid());
+        RETURN 'pending';
+    END IF;
+
+    PERFORM public.admit_to_school(auth.uid(), _school.school_code, NULL, NULL);
+    RETURN 'joined';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_join_requests(_request_ids uuid[], _approve boolean)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _request public.school_join_requests%ROWTYPE;
+    _reviewed integer := 0;
+BEGIN
+    FOR _request IN
+        SELECT * FROM public.school_join_requests
+        WHERE id = ANY (_request_ids)
+          AND status = 'pending'
+          AND public.is_school_manager(auth.uid(), school_code)
+        FOR UPDATE
+    LOOP
+        IF _approve THEN
+            PERFORM public.admit_to_school(_request.user_id, _request.school_code, _request.class_id, _request.section_id);
+        END IF;
+
+        UPDATE public.school_join_requests
+        SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+            reviewed_by = auth.uid(),
+            reviewed_at = now()
+        WHERE id = _request.id;
+
+        _reviewed := _reviewed + 1;
+    END LOOP;
+
+    RETURN _reviewed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.consume_role_invitation(_user_id uuid, _email text, _token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _invitation public.role_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO _invitation
+    FROM public.role_invitations
+    WHERE token = upper(trim(_token))
+      AND lower(email) = lower(_email)
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.role_invitations
+    SET accepted_by = _user_id, accepted_at = now()
+    WHERE id = _invitation.id;
+
+    PERFORM public.assign_role(_user_id, _invitation.role);
+
+    IF _invitation.school_code IS NOT NULL THEN
+        INSERT INTO public.school_memberships (school_code, user_id)
+        VALUES (_invitation.school_code, _user_id)
+        ON CONFLICT (school_code, user_id) DO NOTHING;
+    END IF;
+
+    IF _invitation.staff_level IS NOT NULL THEN
+        INSERT INTO public.school_staff (school_code, user_id, level)
+        VALUES (_invitation.school_code, _user_id, _invitation.staff_level)
+        ON CONFLICT (school_code, user_id) DO NOTHING;
+    END IF;
+
+    UPDATE public.admin_access_requests
+    SET status = 'approved', reviewed_at = now()
+    WHERE user_id = _user_id AND status = 'pending' AND _invitation.role = 'admin';
+
+    RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_staff_member(_school_code text, _user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can manage staff';
+    END IF;
+
+    DELETE FROM public.school_staff
+    WHERE school_code = _school_code
+      AND user_id = _user_id
+      AND level <> 'owner';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Staff member not found';
+    END IF;
+
+    DELETE FROM public.school_memberships
+    WHERE school_code = _school_code
+      AND user_id = _user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_school_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.school_memberships (school_code, user_id)
+    VALUES (NEW.school_code, NEW.admin_id);
+
+    INSERT INTO public.school_staff (school_code, user_id, level)
+    VALUES (NEW.school_code, NEW.admin_id, 'owner');
+
+    RETURN NEW;
+END;
+$$;
+
+-- Views listed each profile under its one school; list memberships instead
+DROP VIEW public.student_directory;
+DROP VIEW public.school_members;
+
+CREATE VIEW public.school_members
+WITH (security_invoker = on) AS
+SELECT
+    m.user_id,
+    p.full_name,
+    m.school_code,
+    r.role,
+    m.joined_at
+FROM public.school_memberships m
+JOIN public.profiles p ON p.user_id = m.user_id
+JOIN public.user_roles r ON r.user_id = m.user_id;
+
+CREATE VIEW public.student_directory
+WITH (security_invoker = on) AS
+SELECT
+    m.user_id,
+    p.full_name,
+    m.school_code,
+    m.joined_at,
+    coalesce(e.class_ids, '{}') AS class_ids,
+    e.class_names,
+    coalesce(b.balance, 0)::DECIMAL(10, 2) AS balance
+FROM public.school_memberships m
+JOIN public.profiles p ON p.user_id = m.user_id
+JOIN public.user_roles r ON r.user_id = m.user_id AND r.role = 'student'
+LEFT JOIN LATERAL (
+    SELECT
+        array_agg(ce.class_id) AS class_ids,
+        string_agg(c.name || coalesce('-' || s.name, ''), ', ' ORDER BY c.name) AS class_names
+    FROM public.class_enrollments ce
+    JOIN public.classes c ON c.id = ce.class_id
+    LEFT JOIN public.class_sections s ON s.id = ce.section_id
+    WHERE ce.student_id = m.user_id
+      AND c.school_code = m.school_code
+) e ON true
+LEFT JOIN LATERAL (
+    SELECT sum(fab.balance) AS balance
+    FROM public.fee_assignment_balances fab
+    WHERE fab.student_id = m.user_id
+      AND fab.school_code = m.school_code
+) b ON true;
+
+-- The single school code on profiles is replaced by school_memberships
+DROP TRIGGER guard_profile_school_code ON public.profiles;
+DROP FUNCTION public.guard_profile_school_code();
+DROP FUNCTION public.get_user_school_code(uuid);
+
+ALTER TABLE public.profiles DROP COLUMN school_code;
@@ -0,0 +1,251 @@
+-- Per-school records are archived when a member leaves and restored if they rejoin
+ALTER TABLE public.fee_assignments ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.fee_payments ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.scholarship_applications ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.notice_receipts ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    a.id,
+    a.fee_id,
+    a.student_id,
+    a.school_code,
+    a.amount,
+    coalesce(sum(p.amount), 0)::DECIMAL(10, 2) AS amount_paid,
+    greatest(a.amount - coalesce(sum(p.amount), 0), 0)::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN coalesce(sum(p.amount), 0) >= a.amount THEN 'paid'
+        WHEN coalesce(sum(p.amount), 0) > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    max(p.paid_at) AS last_paid_at,
+    a.created_at,
+    a.archived_at
+FROM public.fee_assignments a
+LEFT JOIN public.fee_payments p ON p.assignment_id = a.id
+GROUP BY a.id;
+
+-- Create table recording who left each school, how and why
+CREATE TABLE public.school_departures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('left', 'transferred', 'removed')),
+    reason TEXT,
+    departed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    departed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    restored_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX school_departures_school_code_idx ON public.school_departures (school_code);
+CREATE INDEX school_departures_user_id_idx ON public.school_departures (user_id);
+
+ALTER TABLE public.school_departures ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for school_departures; they are written by the functions below
+CREATE POLICY "Users can view relevant departures" ON public.school_departures
+    FOR SELECT USING (user_id = auth.uid() OR public.is_school_admin(auth.uid(), school_code));
+
+-- Take a member out of a school, archiving their records there instead of deleting them
+CREATE OR REPLACE FUNCTION public.archive_school_member(_user_id uuid, _school_code text, _kind text, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.class_enrollments ce
+    USING public.classes c
+    WHERE c.id = ce.class_id
+      AND c.school_code = _school_code
+      AND ce.student_id = _user_id;
+
+    DELETE FROM public.class_teachers ct
+    USING public.classes c
+    WHERE c.id = ct.class_id
+      AND c.school_code = _school_code
+      AND ct.teacher_id = _user_id;
+
+    UPDATE public.fee_payments p
+    SET archived_at = now()
+    FROM public.fee_assignments a
+    WHERE a.id = p.assignment_id
+      AND a.student_id = _user_id
+      AND p.school_code = _school_code
+      AND p.archived_at IS NULL;
+
+    UPDATE public.fee_assignments
+    SET archived_at = now()
+    WHERE student_id = _user_id
+      AND school_code = _school_code
+      AND archived_at IS NULL;
+
+    UPDATE public.scholarship_applications
+    SET archived_at = now()
+    WHERE student_id = _user_id
+      AND school_code = _school_code
+      AND archived_at IS NULL;
+
+    UPDATE public.notice_receipts
+    SET archived_at = now()
+    WHERE user_id = _user_id
+      AND school_code = _school_code
+      AND archived_at IS NULL;
+
+    DELETE FROM public.school_memberships
+    WHERE school_code = _school_code
+      AND user_id = _user_id;
+
+    INSERT INTO public.school_departures (school_code, user_id, kind, reason, departed_by)
+    VALUES (_school_code, _user_id, _kind, nullif(trim(_reason), ''), auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.archive_school_member(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Rejoining a school, by any route, brings the archived records back
+CREATE OR REPLACE FUNCTION public.restore_school_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.fee_assignments
+    SET archived_at = NULL
+    WHERE student_id = NEW.user_id
+      AND school_code = NEW.school_code
+      AND archived_at IS NOT NULL;
+
+    UPDATE public.fee_payments p
+    SET archived_at = NULL
+    FROM public.fee_assignments a
+    WHERE a.id = p.assignment_id
+      AND a.student_id = NEW.user_id
+      AND p.school_code = NEW.school_code
+      AND p.archived_at IS NOT NULL;
+
+    UPDATE public.scholarship_applications
+    SET archived_at = NULL
+    WHERE student_id = NEW.user_id
+      AND school_code = NEW.school_code
+      AND archived_at IS NOT NULL;
+
+    UPDATE public.notice_receipts
+    SET archived_at = NULL
+    WHERE user_id = NEW.user_id
+      AND school_code = NEW.school_code
+      AND archived_at IS NOT NULL;
+
+    UPDATE public.school_departures
+    SET restored_at = now()
+    WHERE user_id = NEW.user_id
+      AND school_code = NEW.school_code
+      AND restored_at IS NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restore_school_records
+    AFTER INSERT ON public.school_memberships
+    FOR EACH ROW
+    EXECUTE FUNCTION public.restore_school_records();
+
+-- Leave a school, optionally joining another one in the same step
+CREATE OR REPLACE FUNCTION public.leave_school(_school_code text, _reason text DEFAULT NULL, _transfer_code text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result text := 'left';
+BEGIN
+    IF NOT public.is_school_member(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'You are not a member of this school';
+    END IF;
+
+    IF public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Staff must be removed from the staff by an owner or admin';
+    END IF;
+
+    -- An invalid code aborts the transfer before anything is archived
+    IF _transfer_code IS NOT NULL THEN
+        _result := public.join_school(_transfer_code);
+    END IF;
+
+    PERFORM public.archive_school_member(
+        auth.uid(),
+        _school_code,
+        CASE WHEN _transfer_code IS NULL THEN 'left' ELSE 'transferred' END,
+        _reason
+    );
+
+    RETURN _result;
+END;
+$$;
+
+-- Admin removal now archives the students' records and records a reason
+DROP FUNCTION public.remove_students_from_school(text, uuid[]);
+
+CREATE OR REPLACE FUNCTION public.remove_students_from_school(_school_code text, _student_ids uuid[], _reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _student_id uuid;
+    _removed integer := 0;
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'School not found';
+    END IF;
+
+    FOR _student_id IN
+        SELECT user_id FROM public.school_memberships
+        WHERE school_code = _school_code
+          AND user_id = ANY (_student_ids)
+          AND public.has_role(user_id, 'student')
+    LOOP
+        PERFORM public.archive_school_member(_student_id, _school_code, 'removed', _reason);
+        _removed := _removed + 1;
+    END LOOP;
+
+    RETURN _removed;
+END;
+$$;
+
+-- Former members of a school with their names, for admins
+CREATE OR REPLACE FUNCTION public.get_school_departures(_school_code text)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    full_name text,
+    kind text,
+    reason text,
+    departed_by_name text,
+    departed_at timestamptz,
+    restored_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'School not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id, d.user_id, p.full_name, d.kind, d.reason, b.full_name, d.departed_at, d.restored_at
+    FROM public.school_departures d
+    JOIN public.profiles p ON p.user_id = d.user_id
+    LEFT JOIN public.profiles b ON b.user_id = d.departed_by AND d.departed_by <> d.user_id
+    WHERE d.school_code = _school_code
+    ORDER BY d.departed_at DESC;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- School profile and the settings that control how money and dates are shown
+ALTER TABLE public.schools
+    ADD COLUMN logo_url TEXT,
+    ADD COLUMN address TEXT,
+    ADD COLUMN contact_email TEXT,
+    ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+    ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+    ADD COLUMN academic_year_start_month SMALLINT NOT NULL DEFAULT 9
+        CHECK (academic_year_start_month BETWEEN 1 AND 12);
+
+-- Timezones must be ones Postgres knows, so dates can also be converted server-side
+CREATE OR REPLACE FUNCTION public.validate_school_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_school_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.schools
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_school_timezone();
+
+-- Public storage bucket for school logos, foldered by school code
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('school-logos', 'school-logos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Managers can upload school logos" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'school-logos'
+        AND public.is_school_manager(auth.uid(), (storage.foldername(name))[1])
+    );
+
+CREATE POLICY "Managers can replace school logos" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'school-logos'
+        AND public.is_school_manager(auth.uid(), (storage.foldername(name))[1])
+    );
+
+CREATE POLICY "Managers can delete school logos" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'school-logos'
+        AND public.is_school_manager(auth.uid(), (storage.foldername(name))[1])
+    );
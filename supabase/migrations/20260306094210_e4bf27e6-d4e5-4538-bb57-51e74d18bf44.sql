@@ -0,0 +1,280 @@
+-- Create table of academic years, e.g. "2025/26"
+CREATE TABLE public.academic_years (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (school_code, name),
+    CHECK (ends_on > starts_on)
+);
+
+-- Create table of the terms within each academic year
+CREATE TABLE public.academic_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    academic_year_id UUID REFERENCES public.academic_years(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (academic_year_id, name),
+    CHECK (ends_on > starts_on)
+);
+
+CREATE INDEX academic_years_school_code_idx ON public.academic_years (school_code);
+CREATE INDEX academic_terms_school_code_idx ON public.academic_terms (school_code);
+
+ALTER TABLE public.academic_years ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.academic_terms ENABLE ROW LEVEL SECURITY;
+
+-- Keep school_code on terms consistent with their year
+CREATE OR REPLACE FUNCTION public.set_term_school_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    SELECT school_code INTO NEW.school_code
+    FROM public.academic_years
+    WHERE id = NEW.academic_year_id;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_term_school_code
+    BEFORE INSERT OR UPDATE OF academic_year_id ON public.academic_terms
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_term_school_code();
+
+-- RLS Policies for academic_years and academic_terms
+CREATE POLICY "Members can view academic years" ON public.academic_years
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+    );
+
+CREATE POLICY "Managers can create academic years" ON public.academic_years
+    FOR INSERT WITH CHECK (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can update academic years" ON public.academic_years
+    FOR UPDATE USING (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can delete academic years" ON public.academic_years
+    FOR DELETE USING (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Members can view academic terms" ON public.academic_terms
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+    );
+
+CREATE POLICY "Managers can create academic terms" ON public.academic_terms
+    FOR INSERT WITH CHECK (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can update academic terms" ON public.academic_terms
+    FOR UPDATE USING (public.is_school_manager(auth.uid(), school_code));
+
+CREATE POLICY "Managers can delete academic terms" ON public.academic_terms
+    FOR DELETE USING (public.is_school_manager(auth.uid(), school_code));
+
+-- The term new fees, scholarships and notices are filed under
+ALTER TABLE public.schools
+    ADD COLUMN current_term_id UUID REFERENCES public.academic_terms(id) ON DELETE SET NULL;
+
+-- Tag content with its term; recurring fees and scholarships are offered again at rollover
+ALTER TABLE public.fees
+    ADD COLUMN term_id UUID REFERENCES public.academic_terms(id) ON DELETE SET NULL,
+    ADD COLUMN recurs_each_term BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.scholarships
+    ADD COLUMN term_id UUID REFERENCES public.academic_terms(id) ON DELETE SET NULL,
+    ADD COLUMN recurs_each_term BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.notices
+    ADD COLUMN term_id UUID REFERENCES public.academic_terms(id) ON DELETE SET NULL,
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- A school's current term must be one of its own
+CREATE OR REPLACE FUNCTION public.validate_current_term()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.current_term_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.academic_terms
+        WHERE id = NEW.current_term_id AND school_code = NEW.school_code
+    ) THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_current_term
+    BEFORE UPDATE OF current_term_id ON public.schools
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_current_term();
+
+CREATE INDEX fees_term_id_idx ON public.fees (term_id);
+CREATE INDEX scholarships_term_id_idx ON public.scholarships (term_id);
+CREATE INDEX notices_term_id_idx ON public.notices (term_id);
+
+-- Content without a term goes into the school's current one; a given term must belong to the same school
+CREATE OR REPLACE FUNCTION public.set_content_term()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' AND NEW.term_id IS NULL THEN
+        SELECT current_term_id INTO NEW.term_id
+        FROM public.schools
+        WHERE school_code = NEW.school_code;
+    END IF;
+
+    IF NEW.term_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.academic_terms
+        WHERE id = NEW.term_id AND school_code = NEW.school_code
+    ) THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_fee_term
+    BEFORE INSERT OR UPDATE OF term_id ON public.fees
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_content_term();
+
+CREATE TRIGGER set_scholarship_term
+    BEFORE INSERT OR UPDATE OF term_id ON public.scholarships
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_content_term();
+
+CREATE TRIGGER set_notice_term
+    BEFORE INSERT OR UPDATE OF term_id ON public.notices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_content_term();
+
+-- Move a school into its next term: clone the chosen recurring fees and scholarships with their dates
+-- shifted by the gap between the two terms, then archive everything filed under the previous term
+CREATE OR REPLACE FUNCTION public.rollover_term(
+    _school_code text,
+    _next_term_id uuid,
+    _fee_ids uuid[] DEFAULT '{}',
+    _scholarship_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (cloned_fees integer, cloned_scholarships integer, archived integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current public.academic_terms%ROWTYPE;
+    _next public.academic_terms%ROWTYPE;
+    _offset integer;
+    _fee public.fees%ROWTYPE;
+    _scholarship public.scholarships%ROWTYPE;
+    _new_id uuid;
+    _count integer;
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can roll over a term';
+    END IF;
+
+    SELECT * INTO _next
+    FROM public.academic_terms
+    WHERE id = _next_term_id AND school_code = _school_code AND archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    SELECT t.* INTO _current
+    FROM public.schools s
+    JOIN public.academic_terms t ON t.id = s.current_term_id
+    WHERE s.school_code = _school_code;
+
+    IF _current.id = _next.id THEN
+        RAISE EXCEPTION 'The school is already in this term';
+    END IF;
+
+    _offset := coalesce(_next.starts_on - _current.starts_on, 0);
+    cloned_fees := 0;
+    cloned_scholarships := 0;
+    archived := 0;
+
+    FOR _fee IN
+        SELECT * FROM public.fees
+        WHERE id = ANY (_fee_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.fees (school_code, title, description, amount, due_date, category, class_id, section_id, term_id, recurs_each_term)
+        VALUES (_fee.school_code, _fee.title, _fee.description, _fee.amount, _fee.due_date + _offset, _fee.category,
+                _fee.class_id, _fee.section_id, _next.id, true)
+        RETURNING id INTO _new_id;
+
+        -- Students who owed it last term owe it again, as long as they are still at the school
+        INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+        SELECT _new_id, a.student_id, a.school_code, _fee.amount
+        FROM public.fee_assignments a
+        WHERE a.fee_id = _fee.id
+          AND a.archived_at IS NULL
+          AND public.is_school_member(a.student_id, _school_code);
+
+        cloned_fees := cloned_fees + 1;
+    END LOOP;
+
+    FOR _scholarship IN
+        SELECT * FROM public.scholarships
+        WHERE id = ANY (_scholarship_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.scholarships (school_code, title, description, amount, deadline, eligibility, slots, class_id, section_id, term_id, recurs_each_term)
+        VALUES (_scholarship.school_code, _scholarship.title, _scholarship.description, _scholarship.amount,
+                _scholarship.deadline + _offset, _scholarship.eligibility, _scholarship.slots,
+                _scholarship.class_id, _scholarship.section_id, _next.id, true)
+        RETURNING id INTO _new_id;
+
+        INSERT INTO public.scholarship_questions (scholarship_id, prompt, required, position)
+        SELECT _new_id, prompt, required, position
+        FROM public.scholarship_questions
+        WHERE scholarship_id = _scholarship.id;
+
+        cloned_scholarships := cloned_scholarships + 1;
+    END LOOP;
+
+    IF _current.id IS NOT NULL THEN
+        UPDATE public.fees SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.scholarships SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.notices SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.academic_terms SET archived_at = now() WHERE id = _current.id;
+    END IF;
+
+    UPDATE public.schools SET current_term_id = _next.id WHERE school_code = _school_code;
+
+    RETURN NEXT;
+END;
+$$;
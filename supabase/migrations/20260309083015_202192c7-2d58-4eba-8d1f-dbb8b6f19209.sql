@@ -0,0 +1,365 @@
+-- Create table of recurring fee schedules; each occurrence generates a dated fee
+CREATE TABLE public.fee_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    category TEXT,
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+    section_id UUID REFERENCES public.class_sections(id) ON DELETE SET NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('monthly', 'termly', 'yearly', 'custom')),
+    day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+    month_of_year SMALLINT CHECK (month_of_year BETWEEN 1 AND 12),
+    -- Custom rules use the date fields of a cron expression: "day-of-month month day-of-week"
+    rule TEXT,
+    starts_on DATE NOT NULL,
+    ends_on DATE,
+    -- Fees are generated this many days ahead of their due date
+    lead_days SMALLINT NOT NULL DEFAULT 7 CHECK (lead_days BETWEEN 0 AND 90),
+    assign_to_audience BOOLEAN NOT NULL DEFAULT true,
+    active BOOLEAN NOT NULL DEFAULT true,
+    next_due_on DATE,
+    last_generated_on DATE,
+    created_by UUID DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT fee_schedules_section_needs_class CHECK (section_id IS NULL OR class_id IS NOT NULL),
+    CHECK (frequency NOT IN ('monthly', 'yearly') OR day_of_month IS NOT NULL),
+    CHECK (frequency <> 'yearly' OR month_of_year IS NOT NULL),
+    CHECK (frequency <> 'custom' OR rule IS NOT NULL),
+    CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX fee_schedules_school_code_idx ON public.fee_schedules (school_code);
+CREATE INDEX fee_schedules_next_due_on_idx ON public.fee_schedules (next_due_on) WHERE active;
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view fee schedules" ON public.fee_schedules
+    FOR SELECT USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can create fee schedules" ON public.fee_schedules
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can update fee schedules" ON public.fee_schedules
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can delete fee schedules" ON public.fee_schedules
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- Each generated fee remembers its schedule, and a schedule never generates the same due date twice
+ALTER TABLE public.fees
+    ADD COLUMN schedule_id UUID REFERENCES public.fee_schedules(id) ON DELETE SET NULL,
+    ADD CONSTRAINT fees_schedule_due_date_key UNIQUE (schedule_id, due_date);
+
+-- Does one cron field ("*", "5", "1-15", "*/2", "1,15") allow this value?
+CREATE OR REPLACE FUNCTION public.cron_field_matches(_field text, _value integer, _min integer, _max integer)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    _part text;
+    _range text;
+    _step integer;
+    _low integer;
+    _high integer;
+BEGIN
+    FOREACH _part IN ARRAY string_to_array(_field, ',') LOOP
+        IF _part !~ '^(\*|\d+(-\d+)?)(/\d+)?$' THEN
+            RAISE EXCEPTION 'Invalid schedule rule: %', _field;
+        END IF;
+
+        _range := split_part(_part, '/', 1);
+        _step := coalesce(nullif(split_part(_part, '/', 2), '')::integer, 1);
+
+        IF _range = '*' THEN
+            _low := _min;
+            _high := _max;
+        ELSIF _range LIKE '%-%' THEN
+            _low := split_part(_range, '-', 1)::integer;
+            _high := split_part(_range, '-', 2)::integer;
+        ELSE
+            _low := _range::integer;
+            -- "5/2" means every second value from 5 on
+            _high := CASE WHEN _part LIKE '%/%' THEN _max ELSE _low END;
+        END IF;
+
+        IF _step < 1 OR _low < _min OR _high > _max OR _low > _high THEN
+            RAISE EXCEPTION 'Invalid schedule rule: %', _field;
+        END IF;
+
+        IF _value BETWEEN _low AND _high AND (_value - _low) % _step = 0 THEN
+            RETURN true;
+        END IF;
+    END LOOP;
+
+    RETURN false;
+END;
+$$;
+
+-- Does a custom rule fall on this day? As in cron, a restricted day-of-month and day-of-week match either
+CREATE OR REPLACE FUNCTION public.fee_schedule_rule_matches(_rule text, _day date)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    _fields text[] := regexp_split_to_array(trim(_rule), '\s+');
+    _dom_matches boolean;
+    _dow_matches boolean;
+BEGIN
+    IF array_length(_fields, 1) <> 3 THEN
+        RAISE EXCEPTION 'Schedule rules need three fields: day-of-month month day-of-week';
+    END IF;
+
+    IF NOT public.cron_field_matches(_fields[2], extract(month FROM _day)::integer, 1, 12) THEN
+        RETURN false;
+    END IF;
+
+    _dom_matches := public.cron_field_matches(_fields[1], extract(day FROM _day)::integer, 1, 31);
+    -- Sunday is both 0 and 7
+    _dow_matches := public.cron_field_matches(_fields[3], extract(dow FROM _day)::integer, 0, 7)
+        OR (extract(dow FROM _day) = 0 AND public.cron_field_matches(_fields[3], 7, 0, 7));
+
+    IF _fields[1] <> '*' AND _fields[3] <> '*' THEN
+        RETURN _dom_matches OR _dow_matches;
+    END IF;
+
+    RETURN _dom_matches AND _dow_matches;
+END;
+$$;
+
+-- The next due dates of a schedule on or after _from. Termly fees fall due on the first day of each term;
+-- monthly and yearly days past the end of a short month fall on its last day.
+CREATE OR REPLACE FUNCTION public.fee_schedule_occurrences(
+    _school_code text,
+    _frequency text,
+    _day_of_month integer,
+    _month_of_year integer,
+    _rule text,
+    _from date,
+    _until date,
+    _count integer
+)
+RETURNS SETOF date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _month date;
+    _day date;
+    _found integer := 0;
+    _horizon date := _from + interval '10 years';
+BEGIN
+    IF _frequency = 'termly' THEN
+        RETURN QUERY
+        SELECT t.starts_on
+        FROM public.academic_terms t
+        WHERE t.school_code = _school_code
+          AND t.starts_on >= _from
+          AND (_until IS NULL OR t.starts_on <= _until)
+        ORDER BY t.starts_on
+        LIMIT _count;
+        RETURN;
+    END IF;
+
+    IF _frequency IN ('monthly', 'yearly') THEN
+        _month := date_trunc('month', _from)::date;
+        WHILE _found < _count AND _month <= _horizon AND (_until IS NULL OR _month <= _until) LOOP
+            IF _frequency = 'monthly' OR extract(month FROM _month) = _month_of_year THEN
+                _day := _month + (least(_day_of_month, extract(day FROM _month + interval '1 month - 1 day')::integer) - 1);
+                IF _day >= _from AND (_until IS NULL OR _day <= _until) THEN
+                    RETURN NEXT _day;
+                    _found := _found + 1;
+                END IF;
+            END IF;
+            _month := (_month + interval '1 month')::date;
+        END LOOP;
+        RETURN;
+    END IF;
+
+    -- Custom rules are checked day by day, over at most five years
+    _day := _from;
+    _horizon := _from + interval '5 years';
+    WHILE _found < _count AND _day <= _horizon AND (_until IS NULL OR _day <= _until) LOOP
+        IF public.fee_schedule_rule_matches(_rule, _day) THEN
+            RETURN NEXT _day;
+            _found := _found + 1;
+        END IF;
+        _day := _day + 1;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fee_schedule_occurrences(text, text, integer, integer, text, date, date, integer) FROM PUBLIC, anon, authenticated;
+
+-- The day it is at a school, in its own timezone
+CREATE OR REPLACE FUNCTION public.school_today(_school_code text)
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (now() AT TIME ZONE timezone)::date FROM public.schools WHERE school_code = _school_code
+$$;
+
+-- Validate the rule and work out the next due date whenever the schedule itself changes
+CREATE OR REPLACE FUNCTION public.set_fee_schedule_next_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.frequency = 'custom' THEN
+        PERFORM public.fee_schedule_rule_matches(NEW.rule, NEW.starts_on);
+    END IF;
+
+    -- Never reach back before today, so pausing or editing a schedule does not bill for missed dates
+    SELECT d INTO NEW.next_due_on
+    FROM public.fee_schedule_occurrences(
+        NEW.school_code, NEW.frequency, NEW.day_of_month, NEW.month_of_year, NEW.rule,
+        greatest(NEW.starts_on, NEW.last_generated_on + 1, public.school_today(NEW.school_code)),
+        NEW.ends_on, 1
+    ) d;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_fee_schedule_next_due
+    BEFORE INSERT OR UPDATE OF frequency, day_of_month, month_of_year, rule, starts_on, ends_on, active
+    ON public.fee_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_fee_schedule_next_due();
+
+-- Preview a schedule's next due dates before it is saved
+CREATE OR REPLACE FUNCTION public.preview_fee_schedule(
+    _school_code text,
+    _frequency text,
+    _starts_on date,
+    _day_of_month integer DEFAULT NULL,
+    _month_of_year integer DEFAULT NULL,
+    _rule text DEFAULT NULL,
+    _ends_on date DEFAULT NULL,
+    _count integer DEFAULT 6
+)
+RETURNS SETOF date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only school staff can preview fee schedules';
+    END IF;
+
+    RETURN QUERY
+    SELECT d
+    FROM public.fee_schedule_occurrences(
+        _school_code, _frequency, _day_of_month, _month_of_year, _rule,
+        greatest(_starts_on, public.school_today(_school_code)), _ends_on, least(_count, 24)
+    ) d;
+END;
+$$;
+
+-- Generate the fees of every schedule whose next due date is within its lead time, assigning each to
+-- its audience. Runs hourly so each school's day starts on time in its own timezone.
+CREATE OR REPLACE FUNCTION public.generate_scheduled_fees()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _schedule public.fee_schedules%ROWTYPE;
+    _today date;
+    _due date;
+    _last date;
+    _fee_id uuid;
+    _period text;
+    _generated integer := 0;
+BEGIN
+    FOR _schedule IN
+        SELECT * FROM public.fee_schedules
+        WHERE active AND next_due_on IS NOT NULL
+          AND next_due_on - lead_days <= public.school_today(school_code)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        _today := public.school_today(_schedule.school_code);
+        _due := _schedule.next_due_on;
+        _last := _schedule.last_generated_on;
+
+        -- A schedule can owe more than one fee if generation was held up
+        WHILE _due IS NOT NULL AND _due - _schedule.lead_days <= _today LOOP
+            _period := CASE _schedule.frequency
+                WHEN 'monthly' THEN to_char(_due, 'FMMonth YYYY')
+                WHEN 'yearly' THEN to_char(_due, 'YYYY')
+                WHEN 'termly' THEN (
+                    SELECT name FROM public.academic_terms
+                    WHERE school_code = _schedule.school_code AND starts_on = _due
+                    LIMIT 1
+                )
+                ELSE to_char(_due, 'FMMon FMDD, YYYY')
+            END;
+
+            INSERT INTO public.fees (school_code, title, description, amount, due_date, category, class_id, section_id, term_id, schedule_id)
+            VALUES (
+                _schedule.school_code,
+                _schedule.title || coalesce(' — ' || _period, ''),
+                _schedule.description,
+                _schedule.amount,
+                _due,
+                _schedule.category,
+                _schedule.class_id,
+                _schedule.section_id,
+                (
+                    SELECT id FROM public.academic_terms
+                    WHERE school_code = _schedule.school_code AND _due BETWEEN starts_on AND ends_on
+                    ORDER BY starts_on
+                    LIMIT 1
+                ),
+                _schedule.id
+            )
+            ON CONFLICT (schedule_id, due_date) DO NOTHING
+            RETURNING id INTO _fee_id;
+
+            IF _fee_id IS NOT NULL THEN
+                _generated := _generated + 1;
+
+                IF _schedule.assign_to_audience THEN
+                    INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+                    SELECT _fee_id, m.user_id, _schedule.school_code, _schedule.amount
+                    FROM public.school_memberships m
+                    WHERE m.school_code = _schedule.school_code
+                      AND public.has_role(m.user_id, 'student')
+                      AND public.is_in_class_audience(m.user_id, _schedule.class_id, _schedule.section_id)
+                    ON CONFLICT (fee_id, student_id) DO NOTHING;
+                END IF;
+            END IF;
+
+            _last := _due;
+            SELECT d INTO _due
+            FROM public.fee_schedule_occurrences(
+                _schedule.school_code, _schedule.frequency, _schedule.day_of_month, _schedule.month_of_year,
+                _schedule.rule, _due + 1, _schedule.ends_on, 1
+            ) d;
+        END LOOP;
+
+        UPDATE public.fee_schedules
+        SET last_generated_on = _last, next_due_on = _due
+        WHERE id = _schedule.id;
+    END LOOP;
+
+    RETURN _generated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_scheduled_fees() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('generate-scheduled-fees', '5 * * * *', $$SELECT public.generate_scheduled_fees()$$);
@@ -0,0 +1,221 @@
+-- Create table of late penalty and early-payment discount rules, set per fee or per fee category
+CREATE TABLE public.fee_adjustment_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    fee_id UUID REFERENCES public.fees(id) ON DELETE CASCADE,
+    category TEXT,
+    kind TEXT NOT NULL CHECK (kind IN ('penalty', 'discount')),
+    value_type TEXT NOT NULL CHECK (value_type IN ('flat', 'percent')),
+    value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+    -- Penalties start once this many days have passed after the due date
+    grace_days SMALLINT NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+    recurrence TEXT NOT NULL DEFAULT 'once' CHECK (recurrence IN ('once', 'daily')),
+    max_amount DECIMAL(10, 2) CHECK (max_amount > 0),
+    -- Discounts apply when the fee is paid in full at least this many days before it is due
+    days_before_due SMALLINT NOT NULL DEFAULT 0 CHECK (days_before_due >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CHECK (num_nonnulls(fee_id, category) = 1),
+    CHECK (value_type <> 'percent' OR value <= 100)
+);
+
+-- One penalty and one discount per fee, and per category
+CREATE UNIQUE INDEX fee_adjustment_rules_fee_kind_idx
+    ON public.fee_adjustment_rules (fee_id, kind) WHERE fee_id IS NOT NULL;
+CREATE UNIQUE INDEX fee_adjustment_rules_category_kind_idx
+    ON public.fee_adjustment_rules (school_code, lower(category), kind) WHERE category IS NOT NULL;
+
+ALTER TABLE public.fee_adjustment_rules ENABLE ROW LEVEL SECURITY;
+
+-- Keep school_code on fee rules consistent with their fee
+CREATE OR REPLACE FUNCTION public.set_fee_adjustment_rule_school_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.fee_id IS NOT NULL THEN
+        SELECT school_code INTO NEW.school_code
+        FROM public.fees
+        WHERE id = NEW.fee_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_fee_adjustment_rule_school_code
+    BEFORE INSERT OR UPDATE OF fee_id ON public.fee_adjustment_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_fee_adjustment_rule_school_code();
+
+-- Students and guardians can read the rules, so fee cards can explain them
+CREATE POLICY "Members can view fee rules" ON public.fee_adjustment_rules
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+    );
+
+CREATE POLICY "Admins can create fee rules" ON public.fee_adjustment_rules
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can update fee rules" ON public.fee_adjustment_rules
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Admins can delete fee rules" ON public.fee_adjustment_rules
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+-- The rule of a kind that applies to a fee: its own rule, otherwise its category's
+CREATE OR REPLACE FUNCTION public.get_fee_adjustment_rule(_fee_id uuid, _kind text)
+RETURNS SETOF public.fee_adjustment_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT r.*
+    FROM public.fees f
+    JOIN public.fee_adjustment_rules r
+      ON r.school_code = f.school_code
+     AND r.kind = _kind
+     AND (r.fee_id = f.id OR (r.fee_id IS NULL AND lower(r.category) = lower(f.category)))
+    WHERE f.id = _fee_id
+    ORDER BY r.fee_id IS NULL
+    LIMIT 1
+$$;
+
+-- Penalty and discount on one assignment as of today in the school's timezone. Runs as the caller,
+-- so it only sees assignments, payments and rules they may read.
+CREATE OR REPLACE FUNCTION public.fee_assignment_adjustments(_assignment_id uuid)
+RETURNS TABLE (penalty numeric, discount numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _assignment public.fee_assignments%ROWTYPE;
+    _due date;
+    _timezone text;
+    _today date;
+    _rule public.fee_adjustment_rules%ROWTYPE;
+    _cutoff date;
+    _paid numeric;
+    _owed numeric;
+    _cleared_on date;
+BEGIN
+    penalty := 0;
+    discount := 0;
+
+    SELECT a.* INTO _assignment FROM public.fee_assignments a WHERE a.id = _assignment_id;
+    SELECT f.due_date, s.timezone INTO _due, _timezone
+    FROM public.fees f
+    JOIN public.schools s ON s.school_code = f.school_code
+    WHERE f.id = _assignment.fee_id;
+
+    IF _due IS NULL THEN
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    _today := (now() AT TIME ZONE _timezone)::date;
+
+    -- Early-payment discount: on offer until the cutoff, then kept only if the fee was paid in full by it
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'discount');
+    IF FOUND THEN
+        discount := least(
+            CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_assignment.amount * _rule.value / 100, 2) END,
+            _assignment.amount
+        );
+        _cutoff := _due - _rule.days_before_due;
+
+        IF _today > _cutoff THEN
+            SELECT coalesce(sum(p.amount), 0) INTO _paid
+            FROM public.fee_payments p
+            WHERE p.assignment_id = _assignment_id
+              AND (p.paid_at AT TIME ZONE _timezone)::date <= _cutoff;
+
+            IF _paid < _assignment.amount - discount THEN
+                discount := 0;
+            END IF;
+        END IF;
+    END IF;
+
+    -- Late penalty: charged on whatever was still owed when the grace period ran out
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'penalty');
+    IF FOUND THEN
+        _cutoff := _due + _rule.grace_days;
+
+        IF _today > _cutoff THEN
+            SELECT coalesce(sum(p.amount), 0) INTO _paid
+            FROM public.fee_payments p
+            WHERE p.assignment_id = _assignment_id
+              AND (p.paid_at AT TIME ZONE _timezone)::date <= _cutoff;
+            _owed := _assignment.amount - discount - _paid;
+
+            IF _owed > 0 THEN
+                penalty := CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_owed * _rule.value / 100, 2) END;
+
+                -- Daily penalties accrue until the day the fee itself was cleared
+                IF _rule.recurrence = 'daily' THEN
+                    SELECT min(x.paid_on) INTO _cleared_on
+                    FROM (
+                        SELECT
+                            (p.paid_at AT TIME ZONE _timezone)::date AS paid_on,
+                            sum(p.amount) OVER (ORDER BY p.paid_at) AS running
+                        FROM public.fee_payments p
+                        WHERE p.assignment_id = _assignment_id
+                    ) x
+                    WHERE x.running >= _assignment.amount - discount;
+
+                    penalty := penalty * greatest(least(coalesce(_cleared_on, _today), _today) - _cutoff, 1);
+                END IF;
+
+                IF _rule.max_amount IS NOT NULL THEN
+                    penalty := least(penalty, _rule.max_amount);
+                END IF;
+            END IF;
+        END IF;
+    END IF;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Balances now owe the fee plus any penalty, less any discount. New columns go last so dependants keep working.
+CREATE OR REPLACE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.fee_id,
+    b.student_id,
+    b.school_code,
+    b.amount,
+    b.amount_paid,
+    greatest(b.amount + adj.penalty - adj.discount - b.amount_paid, 0)::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN b.amount_paid >= b.amount + adj.penalty - adj.discount THEN 'paid'
+        WHEN b.amount_paid > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    b.last_paid_at,
+    b.created_at,
+    b.archived_at,
+    adj.penalty::DECIMAL(10, 2) AS penalty_amount,
+    adj.discount::DECIMAL(10, 2) AS discount_amount,
+    (b.amount + adj.penalty - adj.discount)::DECIMAL(10, 2) AS amount_due
+FROM (
+    SELECT
+        a.id,
+        a.fee_id,
+        a.student_id,
+        a.school_code,
+        a.amount,
+        coalesce(sum(p.amount), 0)::DECIMAL(10, 2) AS amount_paid,
+        max(p.paid_at) AS last_paid_at,
+        a.created_at,
+        a.archived_at
+    FROM public.fee_assignments a
+    LEFT JOIN public.fee_payments p ON p.assignment_id = a.id
+    GROUP BY a.id
+) b
+CROSS JOIN LATERAL public.fee_assignment_adjustments(b.id) adj;
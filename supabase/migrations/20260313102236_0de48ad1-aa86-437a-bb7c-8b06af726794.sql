@@ -0,0 +1,322 @@
+-- Create table of the installment plans a fee can be paid by
+CREATE TABLE public.fee_installment_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    fee_id UUID REFERENCES public.fees(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Create table of the parts of each plan, paid in order
+CREATE TABLE public.fee_installments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan_id UUID REFERENCES public.fee_installment_plans(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    position SMALLINT NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    due_date DATE NOT NULL,
+    UNIQUE (plan_id, position)
+);
+
+CREATE INDEX fee_installment_plans_fee_id_idx ON public.fee_installment_plans (fee_id);
+
+ALTER TABLE public.fee_installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_installments ENABLE ROW LEVEL SECURITY;
+
+-- The plan a student has opted into, if any
+ALTER TABLE public.fee_assignments
+    ADD COLUMN plan_id UUID REFERENCES public.fee_installment_plans(id) ON DELETE SET NULL;
+
+CREATE POLICY "Members can view installment plans" ON public.fee_installment_plans
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+    );
+
+CREATE POLICY "Admins can delete installment plans" ON public.fee_installment_plans
+    FOR DELETE USING (public.is_school_admin(auth.uid(), school_code));
+
+CREATE POLICY "Members can view installments" ON public.fee_installments
+    FOR SELECT USING (
+        public.is_school_member(auth.uid(), school_code)
+        OR public.is_school_admin(auth.uid(), school_code)
+        OR public.is_guardian_in_school(auth.uid(), school_code)
+    );
+
+-- Plans are saved whole, so their parts always add up to the fee
+CREATE OR REPLACE FUNCTION public.create_installment_plan(_fee_id uuid, _name text, _installments jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fee public.fees%ROWTYPE;
+    _plan_id uuid;
+    _total numeric;
+    _count integer;
+BEGIN
+    SELECT * INTO _fee FROM public.fees WHERE id = _fee_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _fee.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    SELECT count(*), sum((i ->> 'amount')::numeric) INTO _count, _total
+    FROM jsonb_array_elements(_installments) i;
+
+    IF _count < 2 OR _count > 24 THEN
+        RAISE EXCEPTION 'A plan needs between 2 and 24 installments';
+    END IF;
+
+    IF _total <> _fee.amount THEN
+        RAISE EXCEPTION 'Installments add up to % but the fee is %', _total, _fee.amount;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM (
+            SELECT (i ->> 'due_date')::date AS due_date,
+                   lag((i ->> 'due_date')::date) OVER (ORDER BY n) AS previous_due_date
+            FROM jsonb_array_elements(_installments) WITH ORDINALITY AS t (i, n)
+        ) d
+        WHERE d.due_date IS NULL OR d.due_date <= d.previous_due_date
+    ) THEN
+        RAISE EXCEPTION 'Each installment needs a due date after the one before it';
+    END IF;
+
+    INSERT INTO public.fee_installment_plans (fee_id, school_code, name)
+    VALUES (_fee.id, _fee.school_code, coalesce(nullif(trim(_name), ''), _count || ' installments'))
+    RETURNING id INTO _plan_id;
+
+    INSERT INTO public.fee_installments (plan_id, school_code, position, amount, due_date)
+    SELECT _plan_id, _fee.school_code, n, (i ->> 'amount')::numeric, (i ->> 'due_date')::date
+    FROM jsonb_array_elements(_installments) WITH ORDINALITY AS t (i, n);
+
+    RETURN _plan_id;
+END;
+$$;
+
+-- Students and their guardians opt into a plan, or back out of one, until the first payment is made
+CREATE OR REPLACE FUNCTION public.choose_installment_plan(_assignment_id uuid, _plan_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _assignment public.fee_assignments%ROWTYPE;
+BEGIN
+    SELECT * INTO _assignment FROM public.fee_assignments WHERE id = _assignment_id AND archived_at IS NULL;
+
+    IF NOT FOUND OR NOT (
+        _assignment.student_id = auth.uid()
+        OR public.is_guardian_of(auth.uid(), _assignment.student_id)
+        OR public.is_school_admin(auth.uid(), _assignment.school_code)
+    ) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF _plan_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.fee_installment_plans WHERE id = _plan_id AND fee_id = _assignment.fee_id
+    ) THEN
+        RAISE EXCEPTION 'Plan not found';
+    END IF;
+
+    -- Plans are split from the fee amount, so they only fit students who owe exactly that
+    IF _plan_id IS NOT NULL
+       AND (SELECT sum(amount) FROM public.fee_installments WHERE plan_id = _plan_id) <> _assignment.amount THEN
+        RAISE EXCEPTION 'This plan does not match the amount owed';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.fee_payments WHERE assignment_id = _assignment_id) THEN
+        RAISE EXCEPTION 'The plan cannot be changed once payments have been made';
+    END IF;
+
+    UPDATE public.fee_assignments SET plan_id = _plan_id WHERE id = _assignment_id;
+END;
+$$;
+
+-- Payments settle installments in order; each installment has its own status and is overdue
+-- once its due date has passed in the school's timezone
+CREATE VIEW public.fee_installment_balances
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    a.id AS assignment_id,
+    a.student_id,
+    a.school_code,
+    i.plan_id,
+    i.position,
+    i.amount,
+    i.due_date,
+    least(i.amount, greatest(paid.total - (i.cumulative - i.amount), 0))::DECIMAL(10, 2) AS amount_paid,
+    CASE
+        WHEN paid.total >= i.cumulative THEN 'paid'
+        WHEN paid.total > i.cumulative - i.amount THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    (paid.total < i.cumulative AND i.due_date < public.school_today(a.school_code)) AS overdue
+FROM public.fee_assignments a
+JOIN (
+    SELECT fi.*, sum(fi.amount) OVER (PARTITION BY fi.plan_id ORDER BY fi.position) AS cumulative
+    FROM public.fee_installments fi
+) i ON i.plan_id = a.plan_id
+CROSS JOIN LATERAL (
+    SELECT coalesce(sum(p.amount), 0) AS total
+    FROM public.fee_payments p
+    WHERE p.assignment_id = a.id
+) paid;
+
+-- Penalties on a plan are charged per late installment; early-payment discounts are for paying
+-- the whole fee up front, so they do not apply to plans
+CREATE OR REPLACE FUNCTION public.fee_assignment_adjustments(_assignment_id uuid)
+RETURNS TABLE (penalty numeric, discount numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _assignment public.fee_assignments%ROWTYPE;
+    _due date;
+    _timezone text;
+    _today date;
+    _rule public.fee_adjustment_rules%ROWTYPE;
+    _cutoff date;
+    _paid numeric;
+    _owed numeric;
+    _cleared_on date;
+    _charge numeric;
+    _milestone record;
+BEGIN
+    penalty := 0;
+    discount := 0;
+
+    SELECT a.* INTO _assignment FROM public.fee_assignments a WHERE a.id = _assignment_id;
+    SELECT f.due_date, s.timezone INTO _due, _timezone
+    FROM public.fees f
+    JOIN public.schools s ON s.school_code = f.school_code
+    WHERE f.id = _assignment.fee_id;
+
+    IF _due IS NULL AND _assignment.plan_id IS NULL THEN
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    _today := (now() AT TIME ZONE _timezone)::date;
+
+    -- Early-payment discount: on offer until the cutoff, then kept only if the fee was paid in full by it
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'discount');
+    IF FOUND AND _assignment.plan_id IS NULL THEN
+        discount := least(
+            CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_assignment.amount * _rule.value / 100, 2) END,
+            _assignment.amount
+        );
+        _cutoff := _due - _rule.days_before_due;
+
+        IF _today > _cutoff THEN
+            SELECT coalesce(sum(p.amount), 0) INTO _paid
+            FROM public.fee_payments p
+            WHERE p.assignment_id = _assignment_id
+              AND (p.paid_at AT TIME ZONE _timezone)::date <= _cutoff;
+
+            IF _paid < _assignment.amount - discount THEN
+                discount := 0;
+            END IF;
+        END IF;
+    END IF;
+
+    -- Late penalty: charged on whatever was still owed on each due date when its grace period ran out
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'penalty');
+    IF NOT FOUND THEN
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    FOR _milestone IN
+        SELECT _due AS due_date, _assignment.amount - discount AS amount, _assignment.amount - discount AS cumulative
+        WHERE _assignment.plan_id IS NULL
+        UNION ALL
+        SELECT i.due_date, i.amount, sum(i.amount) OVER (ORDER BY i.position)
+        FROM public.fee_installments i
+        WHERE i.plan_id = _assignment.plan_id
+    LOOP
+        _cutoff := _milestone.due_date + _rule.grace_days;
+        CONTINUE WHEN _today <= _cutoff;
+
+        SELECT coalesce(sum(p.amount), 0) INTO _paid
+        FROM public.fee_payments p
+        WHERE p.assignment_id = _assignment_id
+          AND (p.paid_at AT TIME ZONE _timezone)::date <= _cutoff;
+        _owed := least(_milestone.cumulative - _paid, _milestone.amount);
+        CONTINUE WHEN _owed <= 0;
+
+        _charge := CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_owed * _rule.value / 100, 2) END;
+
+        -- Daily penalties accrue until the day the amount due was cleared
+        IF _rule.recurrence = 'daily' THEN
+            SELECT min(x.paid_on) INTO _cleared_on
+            FROM (
+                SELECT
+                    (p.paid_at AT TIME ZONE _timezone)::date AS paid_on,
+                    sum(p.amount) OVER (ORDER BY p.paid_at) AS running
+                FROM public.fee_payments p
+                WHERE p.assignment_id = _assignment_id
+            ) x
+            WHERE x.running >= _milestone.cumulative;
+
+            _charge := _charge * greatest(least(coalesce(_cleared_on, _today), _today) - _cutoff, 1);
+        END IF;
+
+        penalty := penalty + _charge;
+    END LOOP;
+
+    IF _rule.max_amount IS NOT NULL THEN
+        penalty := least(penalty, _rule.max_amount);
+    END IF;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Expose the chosen plan on balances; new columns go last so dependants keep working
+CREATE OR REPLACE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.fee_id,
+    b.student_id,
+    b.school_code,
+    b.amount,
+    b.amount_paid,
+    greatest(b.amount + adj.penalty - adj.discount - b.amount_paid, 0)::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN b.amount_paid >= b.amount + adj.penalty - adj.discount THEN 'paid'
+        WHEN b.amount_paid > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    b.last_paid_at,
+    b.created_at,
+    b.archived_at,
+    adj.penalty::DECIMAL(10, 2) AS penalty_amount,
+    adj.discount::DECIMAL(10, 2) AS discount_amount,
+    (b.amount + adj.penalty - adj.discount)::DECIMAL(10, 2) AS amount_due,
+    b.plan_id
+FROM (
+    SELECT
+        a.id,
+        a.fee_id,
+        a.student_id,
+        a.school_code,
+        a.amount,
+        coalesce(sum(p.amount), 0)::DECIMAL(10, 2) AS amount_paid,
+        max(p.paid_at) AS last_paid_at,
+        a.created_at,
+        a.archived_at,
+        a.plan_id
+    FROM public.fee_assignments a
+    LEFT JOIN public.fee_payments p ON p.assignment_id = a.id
+    GROUP BY a.id
+) b
+CROSS JOIN LATERAL public.fee_assignment_adjustments(b.id) adj;
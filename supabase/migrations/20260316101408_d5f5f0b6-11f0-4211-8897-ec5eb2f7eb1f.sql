@@ -0,0 +1,142 @@
+-- Create table of online payments taken through a payment provider
+CREATE TABLE public.payment_checkouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assignment_id UUID REFERENCES public.fee_assignments(id) ON DELETE CASCADE NOT NULL,
+    school_code TEXT NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    currency TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    -- The provider's own id for the checkout, set once it has been created there
+    provider_reference TEXT,
+    checkout_url TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded')),
+    payment_id UUID REFERENCES public.fee_payments(id) ON DELETE SET NULL,
+    refund_reference TEXT,
+    refunded_at TIMESTAMP WITH TIME ZONE,
+    refunded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (provider, provider_reference)
+);
+
+CREATE INDEX payment_checkouts_assignment_id_idx ON public.payment_checkouts (assignment_id);
+
+ALTER TABLE public.payment_checkouts ENABLE ROW LEVEL SECURITY;
+
+-- Checkouts are written by the payments edge function only; payers and admins can follow them
+CREATE POLICY "Members can view their payment checkouts" ON public.payment_checkouts
+    FOR SELECT USING (
+        student_id = auth.uid()
+        OR created_by = auth.uid()
+        OR public.is_guardian_of(auth.uid(), student_id)
+        OR public.is_school_admin(auth.uid(), school_code)
+    );
+
+-- Let the Fees page hear when a webhook confirms a payment
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payment_checkouts;
+
+-- Start paying part or all of a fee's balance online. Students pay their own fees and guardians
+-- their children's; the caller's balance is checked here so the edge function never trusts the amount.
+CREATE OR REPLACE FUNCTION public.create_payment_checkout(_assignment_id uuid, _amount numeric, _provider text)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    SELECT b.* INTO _balance
+    FROM public.fee_assignment_balances b
+    WHERE b.id = _assignment_id AND b.archived_at IS NULL;
+
+    IF NOT FOUND OR NOT (
+        _balance.student_id = auth.uid()
+        OR public.is_guardian_of(auth.uid(), _balance.student_id)
+    ) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance THEN
+        RAISE EXCEPTION 'Amount must be more than 0 and no more than the balance of %', _balance.balance;
+    END IF;
+
+    INSERT INTO public.payment_checkouts (assignment_id, school_code, student_id, amount, currency, provider, created_by)
+    SELECT _balance.id, _balance.school_code, _balance.student_id, round(_amount, 2), s.currency, _provider, auth.uid()
+    FROM public.schools s
+    WHERE s.school_code = _balance.school_code
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+-- Record a confirmed checkout as a fee payment. Called from the webhook handler, which may
+-- be sent the same event more than once, so only pending checkouts are completed.
+CREATE OR REPLACE FUNCTION public.complete_payment_checkout(_checkout_id uuid, _succeeded boolean)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+    _payment_id uuid;
+BEGIN
+    SELECT * INTO _checkout FROM public.payment_checkouts WHERE id = _checkout_id FOR UPDATE;
+
+    IF NOT FOUND OR _checkout.status <> 'pending' THEN
+        RETURN _checkout;
+    END IF;
+
+    IF _succeeded THEN
+        INSERT INTO public.fee_payments (assignment_id, school_code, amount, method, reference, recorded_by)
+        VALUES (_checkout.assignment_id, _checkout.school_code, _checkout.amount, 'Online', _checkout.provider_reference, _checkout.created_by)
+        RETURNING id INTO _payment_id;
+    END IF;
+
+    UPDATE public.payment_checkouts
+    SET status = CASE WHEN _succeeded THEN 'succeeded' ELSE 'failed' END,
+        payment_id = _payment_id,
+        completed_at = now()
+    WHERE id = _checkout_id
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+-- Record a refund the provider has made. The fee payment is removed so the amount is owed again;
+-- the checkout keeps the record of what was paid and refunded.
+CREATE OR REPLACE FUNCTION public.refund_payment_checkout(_checkout_id uuid, _refund_reference text, _refunded_by uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    UPDATE public.payment_checkouts
+    SET status = 'refunded',
+        refund_reference = _refund_reference,
+        refunded_at = now(),
+        refunded_by = _refunded_by
+    WHERE id = _checkout_id AND status = 'succeeded'
+    RETURNING * INTO _checkout;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    DELETE FROM public.fee_payments WHERE id = _checkout.payment_id;
+
+    RETURN _checkout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payment_checkout(uuid, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_payment_checkout(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
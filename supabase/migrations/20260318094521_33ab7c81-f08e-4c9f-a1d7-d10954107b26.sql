@@ -0,0 +1,109 @@
+-- Create table of the invoices and receipts issued to students, numbered per school
+CREATE TABLE public.fee_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+    number INTEGER NOT NULL,
+    reference TEXT GENERATED ALWAYS AS (
+        CASE kind WHEN 'receipt' THEN 'RCT-' ELSE 'INV-' END || lpad(number::text, 6, '0')
+    ) STORED,
+    -- The payment a receipt is for; each payment gets one receipt, however often it is printed
+    payment_id UUID REFERENCES public.fee_payments(id) ON DELETE SET NULL,
+    total DECIMAL(10, 2) NOT NULL,
+    -- The lines as printed, so a document can still be verified after balances move on
+    items JSONB NOT NULL DEFAULT '[]',
+    verification_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 12)),
+    issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (school_code, kind, number)
+);
+
+CREATE UNIQUE INDEX fee_documents_payment_id_idx ON public.fee_documents (payment_id) WHERE kind = 'receipt';
+CREATE INDEX fee_documents_student_id_idx ON public.fee_documents (student_id);
+
+-- The last number used for each kind of document in each school
+CREATE TABLE public.fee_document_counters (
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+    last_number INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (school_code, kind)
+);
+
+ALTER TABLE public.fee_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_document_counters ENABLE ROW LEVEL SECURITY;
+
+-- Documents are issued by the fee-documents edge function only
+CREATE POLICY "Members can view their fee documents" ON public.fee_documents
+    FOR SELECT USING (
+        student_id = auth.uid()
+        OR public.is_guardian_of(auth.uid(), student_id)
+        OR public.is_school_admin(auth.uid(), school_code)
+    );
+
+-- Take the next number and record the document in one go, so numbers are never skipped or reused.
+-- Receipts already issued for a payment are returned as they are.
+CREATE OR REPLACE FUNCTION public.issue_fee_document(
+    _school_code text,
+    _student_id uuid,
+    _kind text,
+    _total numeric,
+    _items jsonb,
+    _issued_by uuid,
+    _payment_id uuid DEFAULT NULL
+)
+RETURNS public.fee_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _document public.fee_documents%ROWTYPE;
+    _number integer;
+BEGIN
+    IF _kind = 'receipt' THEN
+        SELECT * INTO _document FROM public.fee_documents WHERE kind = 'receipt' AND payment_id = _payment_id;
+        IF FOUND THEN
+            RETURN _document;
+        END IF;
+    END IF;
+
+    INSERT INTO public.fee_document_counters AS c (school_code, kind, last_number)
+    VALUES (_school_code, _kind, 1)
+    ON CONFLICT (school_code, kind) DO UPDATE SET last_number = c.last_number + 1
+    RETURNING last_number INTO _number;
+
+    INSERT INTO public.fee_documents (school_code, student_id, kind, number, payment_id, total, items, issued_by)
+    VALUES (_school_code, _student_id, _kind, _number, _payment_id, _total, _items, _issued_by)
+    RETURNING * INTO _document;
+
+    RETURN _document;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_fee_document(text, uuid, text, numeric, jsonb, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Anyone holding a printed document can check it is genuine from its verification code
+CREATE OR REPLACE FUNCTION public.verify_fee_document(_code text)
+RETURNS TABLE (
+    reference text,
+    kind text,
+    school_name text,
+    student_name text,
+    total numeric,
+    currency text,
+    issued_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT d.reference, d.kind, s.name, p.full_name, d.total, s.currency, d.issued_at
+    FROM public.fee_documents d
+    JOIN public.schools s ON s.school_code = d.school_code
+    LEFT JOIN public.profiles p ON p.user_id = d.student_id
+    WHERE d.verification_code = upper(trim(_code))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_fee_document(text) TO anon, authenticated;
@@ -0,0 +1,462 @@
+-- Create an append-only ledger of corrections to what students owe: waivers, refunds and credit notes
+CREATE TABLE public.fee_ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_code TEXT REFERENCES public.schools(school_code) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- Credit notes belong to the student; every other entry is against one of their fees
+    assignment_id UUID REFERENCES public.fee_assignments(id),
+    kind TEXT NOT NULL CHECK (kind IN ('waiver', 'refund', 'credit_note', 'credit_applied')),
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    payment_id UUID REFERENCES public.fee_payments(id),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CHECK ((kind = 'credit_note') = (assignment_id IS NULL)),
+    CHECK ((kind = 'refund') = (payment_id IS NOT NULL))
+);
+
+CREATE INDEX fee_ledger_entries_assignment_id_idx ON public.fee_ledger_entries (assignment_id);
+CREATE INDEX fee_ledger_entries_student_id_idx ON public.fee_ledger_entries (student_id, school_code);
+
+ALTER TABLE public.fee_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written through the functions below only
+CREATE POLICY "Members can view their fee ledger entries" ON public.fee_ledger_entries
+    FOR SELECT USING (
+        student_id = auth.uid()
+        OR public.is_guardian_of(auth.uid(), student_id)
+        OR public.is_school_admin(auth.uid(), school_code)
+    );
+
+-- Mistakes are corrected with a new entry, never by editing an old one. Removing a whole school
+-- or student still cascades, as those deletes reach the ledger from inside a foreign key trigger.
+CREATE OR REPLACE FUNCTION public.prevent_fee_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+
+    RAISE EXCEPTION 'Fee ledger entries cannot be changed or removed';
+END;
+$$;
+
+CREATE TRIGGER prevent_fee_ledger_changes
+    BEFORE UPDATE OR DELETE ON public.fee_ledger_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_fee_ledger_changes();
+
+-- Everything that settles an assignment, in the order it happened: payments, less refunds, plus waivers and credit
+CREATE OR REPLACE FUNCTION public.fee_assignment_settlements(_assignment_id uuid)
+RETURNS TABLE (amount numeric, settled_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT p.amount, p.paid_at
+    FROM public.fee_payments p
+    WHERE p.assignment_id = _assignment_id
+    UNION ALL
+    SELECT CASE e.kind WHEN 'refund' THEN -e.amount ELSE e.amount END, e.created_at
+    FROM public.fee_ledger_entries e
+    WHERE e.assignment_id = _assignment_id
+$$;
+
+-- Penalties and discounts now count waivers and credit as settling the fee, and refunds as undoing payments
+CREATE OR REPLACE FUNCTION public.fee_assignment_adjustments(_assignment_id uuid)
+RETURNS TABLE (penalty numeric, discount numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _assignment public.fee_assignments%ROWTYPE;
+    _due date;
+    _timezone text;
+    _today date;
+    _rule public.fee_adjustment_rules%ROWTYPE;
+    _cutoff date;
+    _paid numeric;
+    _owed numeric;
+    _cleared_on date;
+    _charge numeric;
+    _milestone record;
+BEGIN
+    penalty := 0;
+    discount := 0;
+
+    SELECT a.* INTO _assignment FROM public.fee_assignments a WHERE a.id = _assignment_id;
+    SELECT f.due_date, s.timezone INTO _due, _timezone
+    FROM public.fees f
+    JOIN public.schools s ON s.school_code = f.school_code
+    WHERE f.id = _assignment.fee_id;
+
+    IF _due IS NULL AND _assignment.plan_id IS NULL THEN
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    _today := (now() AT TIME ZONE _timezone)::date;
+
+    -- Early-payment discount: on offer until the cutoff, then kept only if the fee was settled in full by it
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'discount');
+    IF FOUND AND _assignment.plan_id IS NULL THEN
+        discount := least(
+            CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_assignment.amount * _rule.value / 100, 2) END,
+            _assignment.amount
+        );
+        _cutoff := _due - _rule.days_before_due;
+
+        IF _today > _cutoff THEN
+            SELECT coalesce(sum(s.amount), 0) INTO _paid
+            FROM public.fee_assignment_settlements(_assignment_id) s
+            WHERE (s.settled_at AT TIME ZONE _timezone)::date <= _cutoff;
+
+            IF _paid < _assignment.amount - discount THEN
+                discount := 0;
+            END IF;
+        END IF;
+    END IF;
+
+    -- Late penalty: charged on whatever was still owed on each due date when its grace period ran out
+    SELECT * INTO _rule FROM public.get_fee_adjustment_rule(_assignment.fee_id, 'penalty');
+    IF NOT FOUND THEN
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    FOR _milestone IN
+        SELECT _due AS due_date, _assignment.amount - discount AS amount, _assignment.amount - discount AS cumulative
+        WHERE _assignment.plan_id IS NULL
+        UNION ALL
+        SELECT i.due_date, i.amount, sum(i.amount) OVER (ORDER BY i.position)
+        FROM public.fee_installments i
+        WHERE i.plan_id = _assignment.plan_id
+    LOOP
+        _cutoff := _milestone.due_date + _rule.grace_days;
+        CONTINUE WHEN _today <= _cutoff;
+
+        SELECT coalesce(sum(s.amount), 0) INTO _paid
+        FROM public.fee_assignment_settlements(_assignment_id) s
+        WHERE (s.settled_at AT TIME ZONE _timezone)::date <= _cutoff;
+        _owed := least(_milestone.cumulative - _paid, _milestone.amount);
+        CONTINUE WHEN _owed <= 0;
+
+        _charge := CASE _rule.value_type WHEN 'flat' THEN _rule.value ELSE round(_owed * _rule.value / 100, 2) END;
+
+        -- Daily penalties accrue until the day the amount due was settled
+        IF _rule.recurrence = 'daily' THEN
+            SELECT min(x.settled_on) INTO _cleared_on
+            FROM (
+                SELECT
+                    (s.settled_at AT TIME ZONE _timezone)::date AS settled_on,
+                    sum(s.amount) OVER (ORDER BY s.settled_at) AS running
+                FROM public.fee_assignment_settlements(_assignment_id) s
+            ) x
+            WHERE x.running >= _milestone.cumulative;
+
+            _charge := _charge * greatest(least(coalesce(_cleared_on, _today), _today) - _cutoff, 1);
+        END IF;
+
+        penalty := penalty + _charge;
+    END LOOP;
+
+    IF _rule.max_amount IS NOT NULL THEN
+        penalty := least(penalty, _rule.max_amount);
+    END IF;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Balances owe what is due less net payments, waivers and credit. amount_paid is now net of refunds;
+-- new columns go last so dependants keep working.
+CREATE OR REPLACE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.fee_id,
+    b.student_id,
+    b.school_code,
+    b.amount,
+    b.amount_paid,
+    greatest(
+        b.amount + adj.penalty - adj.discount - b.amount_paid - b.waived_amount - b.credited_amount, 0
+    )::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN b.amount_paid + b.waived_amount + b.credited_amount >= b.amount + adj.penalty - adj.discount THEN 'paid'
+        WHEN b.amount_paid + b.waived_amount + b.credited_amount > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    b.last_paid_at,
+    b.created_at,
+    b.archived_at,
+    adj.penalty::DECIMAL(10, 2) AS penalty_amount,
+    adj.discount::DECIMAL(10, 2) AS discount_amount,
+    (b.amount + adj.penalty - adj.discount)::DECIMAL(10, 2) AS amount_due,
+    b.plan_id,
+    b.waived_amount,
+    b.refunded_amount,
+    b.credited_amount
+FROM (
+    SELECT
+        a.id,
+        a.fee_id,
+        a.student_id,
+        a.school_code,
+        a.amount,
+        (coalesce(p.paid, 0) - coalesce(l.refunded, 0))::DECIMAL(10, 2) AS amount_paid,
+        p.last_paid_at,
+        a.created_at,
+        a.archived_at,
+        a.plan_id,
+        coalesce(l.waived, 0)::DECIMAL(10, 2) AS waived_amount,
+        coalesce(l.refunded, 0)::DECIMAL(10, 2) AS refunded_amount,
+        coalesce(l.credited, 0)::DECIMAL(10, 2) AS credited_amount
+    FROM public.fee_assignments a
+    LEFT JOIN LATERAL (
+        SELECT sum(fp.amount) AS paid, max(fp.paid_at) AS last_paid_at
+        FROM public.fee_payments fp
+        WHERE fp.assignment_id = a.id
+    ) p ON true
+    LEFT JOIN LATERAL (
+        SELECT
+            sum(e.amount) FILTER (WHERE e.kind = 'waiver') AS waived,
+            sum(e.amount) FILTER (WHERE e.kind = 'refund') AS refunded,
+            sum(e.amount) FILTER (WHERE e.kind = 'credit_applied') AS credited
+        FROM public.fee_ledger_entries e
+        WHERE e.assignment_id = a.id
+    ) l ON true
+) b
+CROSS JOIN LATERAL public.fee_assignment_adjustments(b.id) adj;
+
+-- Installments are settled in order by the same payments, waivers and credit
+CREATE OR REPLACE VIEW public.fee_installment_balances
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    a.id AS assignment_id,
+    a.student_id,
+    a.school_code,
+    i.plan_id,
+    i.position,
+    i.amount,
+    i.due_date,
+    least(i.amount, greatest(paid.total - (i.cumulative - i.amount), 0))::DECIMAL(10, 2) AS amount_paid,
+    CASE
+        WHEN paid.total >= i.cumulative THEN 'paid'
+        WHEN paid.total > i.cumulative - i.amount THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    (paid.total < i.cumulative AND i.due_date < public.school_today(a.school_code)) AS overdue
+FROM public.fee_assignments a
+JOIN (
+    SELECT fi.*, sum(fi.amount) OVER (PARTITION BY fi.plan_id ORDER BY fi.position) AS cumulative
+    FROM public.fee_installments fi
+) i ON i.plan_id = a.plan_id
+CROSS JOIN LATERAL (
+    SELECT coalesce(sum(s.amount), 0) AS total
+    FROM public.fee_assignment_settlements(a.id) s
+) paid;
+
+-- Credit each student holds in a school: credit notes issued less credit already applied to fees
+CREATE VIEW public.student_fee_credits
+WITH (security_invoker = true) AS
+SELECT
+    e.school_code,
+    e.student_id,
+    coalesce(sum(e.amount) FILTER (WHERE e.kind = 'credit_note'), 0)::DECIMAL(10, 2) AS issued,
+    coalesce(sum(e.amount) FILTER (WHERE e.kind = 'credit_applied'), 0)::DECIMAL(10, 2) AS applied,
+    (
+        coalesce(sum(e.amount) FILTER (WHERE e.kind = 'credit_note'), 0)
+        - coalesce(sum(e.amount) FILTER (WHERE e.kind = 'credit_applied'), 0)
+    )::DECIMAL(10, 2) AS available
+FROM public.fee_ledger_entries e
+WHERE e.kind IN ('credit_note', 'credit_applied')
+GROUP BY e.school_code, e.student_id;
+
+-- Spend a student's available credit on their outstanding fees, earliest due first
+CREATE OR REPLACE FUNCTION public.apply_student_credit(_student_id uuid, _school_code text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _available numeric;
+    _applied numeric := 0;
+    _part numeric;
+    _balance record;
+BEGIN
+    -- One application at a time per student, so credit is never spent twice
+    PERFORM pg_advisory_xact_lock(hashtext('fee-credit:' || _school_code || ':' || _student_id));
+
+    SELECT coalesce(sum(CASE kind WHEN 'credit_note' THEN amount ELSE -amount END), 0) INTO _available
+    FROM public.fee_ledger_entries
+    WHERE student_id = _student_id
+      AND school_code = _school_code
+      AND kind IN ('credit_note', 'credit_applied');
+
+    FOR _balance IN
+        SELECT b.id, b.balance
+        FROM public.fee_assignment_balances b
+        JOIN public.fees f ON f.id = b.fee_id
+        WHERE b.student_id = _student_id
+          AND b.school_code = _school_code
+          AND b.archived_at IS NULL
+          AND b.balance > 0
+        ORDER BY f.due_date NULLS LAST, b.created_at
+    LOOP
+        EXIT WHEN _available <= 0;
+
+        _part := least(_available, _balance.balance);
+        INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason)
+        VALUES (_school_code, _student_id, _balance.id, 'credit_applied', _part, 'Credit carried forward');
+
+        _available := _available - _part;
+        _applied := _applied + _part;
+    END LOOP;
+
+    RETURN _applied;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_student_credit(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Credit left over is carried forward to fees assigned later
+CREATE OR REPLACE FUNCTION public.apply_credit_to_new_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.apply_student_credit(NEW.student_id, NEW.school_code);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_credit_to_new_fee
+    AFTER INSERT ON public.fee_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.apply_credit_to_new_fee();
+
+-- Waive part or all of what a student owes on a fee
+CREATE OR REPLACE FUNCTION public.waive_fee(_assignment_id uuid, _amount numeric, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+BEGIN
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _balance.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance THEN
+        RAISE EXCEPTION 'A waiver must be more than 0 and no more than the balance of %', _balance.balance;
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, created_by)
+    VALUES (_balance.school_code, _balance.student_id, _balance.id, 'waiver', _amount, trim(_reason), auth.uid());
+END;
+$$;
+
+-- Refund part or all of a payment recorded at the office. Online payments go back through their provider.
+CREATE OR REPLACE FUNCTION public.refund_fee_payment(_payment_id uuid, _amount numeric, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _payment public.fee_payments%ROWTYPE;
+    _student_id uuid;
+    _refundable numeric;
+BEGIN
+    SELECT * INTO _payment FROM public.fee_payments WHERE id = _payment_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _payment.school_code) THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.payment_checkouts WHERE payment_id = _payment_id) THEN
+        RAISE EXCEPTION 'Online payments are refunded through the payment provider';
+    END IF;
+
+    SELECT _payment.amount - coalesce(sum(amount), 0) INTO _refundable
+    FROM public.fee_ledger_entries
+    WHERE payment_id = _payment_id AND kind = 'refund';
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _refundable THEN
+        RAISE EXCEPTION 'A refund must be more than 0 and no more than the % left on this payment', _refundable;
+    END IF;
+
+    SELECT student_id INTO _student_id FROM public.fee_assignments WHERE id = _payment.assignment_id;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, payment_id, created_by)
+    VALUES (_payment.school_code, _student_id, _payment.assignment_id, 'refund', _amount, trim(_reason), _payment_id, auth.uid());
+END;
+$$;
+
+-- Give a student credit, spent straight away on anything they owe and carried forward after that
+CREATE OR REPLACE FUNCTION public.issue_credit_note(_school_code text, _student_id uuid, _amount numeric, _reason text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_admin(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only school administrators can issue credit notes';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+        RAISE EXCEPTION 'A credit note must be for more than 0';
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, kind, amount, reason, created_by)
+    VALUES (_school_code, _student_id, 'credit_note', _amount, trim(_reason), auth.uid());
+
+    RETURN public.apply_student_credit(_student_id, _school_code);
+END;
+$$;
+
+-- Online refunds are now recorded in the ledger; the payment itself stays on record
+CREATE OR REPLACE FUNCTION public.refund_payment_checkout(_checkout_id uuid, _refund_reference text, _refunded_by uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    UPDATE public.payment_checkouts
+    SET status = 'refunded',
+        refund_reference = _refund_reference,
+        refunded_at = now(),
+        refunded_by = _refunded_by
+    WHERE id = _checkout_id AND status = 'succeeded'
+    RETURNING * INTO _checkout;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, payment_id, created_by)
+    VALUES (
+        _checkout.school_code, _checkout.student_id, _checkout.assignment_id, 'refund', _checkout.amount,
+        'Refunded online (' || _refund_reference || ')', _checkout.payment_id, _refunded_by
+    );
+
+    RETURN _checkout;
+END;
+$$;
@@ -0,0 +1,281 @@
+-- Scholarship awards are paid out as credit against the student's fees, recorded in the fee ledger
+ALTER TABLE public.fee_ledger_entries
+    ADD COLUMN application_id UUID REFERENCES public.scholarship_applications(id),
+    ADD COLUMN installment_id UUID REFERENCES public.fee_installments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.fee_ledger_entries DROP CONSTRAINT fee_ledger_entries_kind_check;
+ALTER TABLE public.fee_ledger_entries
+    ADD CONSTRAINT fee_ledger_entries_kind_check
+        CHECK (kind IN ('waiver', 'refund', 'credit_note', 'credit_applied', 'scholarship')),
+    ADD CONSTRAINT fee_ledger_entries_application_check
+        CHECK ((kind = 'scholarship') = (application_id IS NOT NULL));
+
+CREATE INDEX fee_ledger_entries_application_id_idx ON public.fee_ledger_entries (application_id);
+
+-- Foreign keys may still tidy up after a plan is deleted; everything else stays as recorded
+CREATE OR REPLACE FUNCTION public.prevent_fee_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN CASE TG_OP WHEN 'DELETE' THEN OLD ELSE NEW END;
+    END IF;
+
+    RAISE EXCEPTION 'Fee ledger entries cannot be changed or removed';
+END;
+$$;
+
+-- Awards already credited to fees cannot be withdrawn or cut below what was credited
+CREATE OR REPLACE FUNCTION public.guard_credited_scholarship_award()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _credited numeric;
+BEGIN
+    SELECT coalesce(sum(amount), 0) INTO _credited
+    FROM public.fee_ledger_entries
+    WHERE application_id = NEW.id;
+
+    IF _credited > 0 AND NEW.status <> 'awarded' THEN
+        RAISE EXCEPTION 'This award has already been credited to fees and cannot be withdrawn';
+    END IF;
+
+    IF NEW.awarded_amount IS NOT NULL AND NEW.awarded_amount < _credited THEN
+        RAISE EXCEPTION '% of this award has already been credited to fees', _credited;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_credited_scholarship_award
+    BEFORE UPDATE ON public.scholarship_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_credited_scholarship_award();
+
+-- Balances also take off scholarship credit; the new column goes last so dependants keep working
+CREATE OR REPLACE VIEW public.fee_assignment_balances
+WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.fee_id,
+    b.student_id,
+    b.school_code,
+    b.amount,
+    b.amount_paid,
+    greatest(
+        b.amount + adj.penalty - adj.discount - b.amount_paid - b.waived_amount - b.credited_amount - b.scholarship_amount, 0
+    )::DECIMAL(10, 2) AS balance,
+    CASE
+        WHEN b.amount_paid + b.waived_amount + b.credited_amount + b.scholarship_amount
+            >= b.amount + adj.penalty - adj.discount THEN 'paid'
+        WHEN b.amount_paid + b.waived_amount + b.credited_amount + b.scholarship_amount > 0 THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    b.last_paid_at,
+    b.created_at,
+    b.archived_at,
+    adj.penalty::DECIMAL(10, 2) AS penalty_amount,
+    adj.discount::DECIMAL(10, 2) AS discount_amount,
+    (b.amount + adj.penalty - adj.discount)::DECIMAL(10, 2) AS amount_due,
+    b.plan_id,
+    b.waived_amount,
+    b.refunded_amount,
+    b.credited_amount,
+    b.scholarship_amount
+FROM (
+    SELECT
+        a.id,
+        a.fee_id,
+        a.student_id,
+        a.school_code,
+        a.amount,
+        (coalesce(p.paid, 0) - coalesce(l.refunded, 0))::DECIMAL(10, 2) AS amount_paid,
+        p.last_paid_at,
+        a.created_at,
+        a.archived_at,
+        a.plan_id,
+        coalesce(l.waived, 0)::DECIMAL(10, 2) AS waived_amount,
+        coalesce(l.refunded, 0)::DECIMAL(10, 2) AS refunded_amount,
+        coalesce(l.credited, 0)::DECIMAL(10, 2) AS credited_amount,
+        coalesce(l.scholarship, 0)::DECIMAL(10, 2) AS scholarship_amount
+    FROM public.fee_assignments a
+    LEFT JOIN LATERAL (
+        SELECT sum(fp.amount) AS paid, max(fp.paid_at) AS last_paid_at
+        FROM public.fee_payments fp
+        WHERE fp.assignment_id = a.id
+    ) p ON true
+    LEFT JOIN LATERAL (
+        SELECT
+            sum(e.amount) FILTER (WHERE e.kind = 'waiver') AS waived,
+            sum(e.amount) FILTER (WHERE e.kind = 'refund') AS refunded,
+            sum(e.amount) FILTER (WHERE e.kind = 'credit_applied') AS credited,
+            sum(e.amount) FILTER (WHERE e.kind = 'scholarship') AS scholarship
+        FROM public.fee_ledger_entries e
+        WHERE e.assignment_id = a.id
+    ) l ON true
+) b
+CROSS JOIN LATERAL public.fee_assignment_adjustments(b.id) adj;
+
+-- Credit spread across installments comes off each installment it names; everything else
+-- settles the remaining amounts in order as before
+CREATE OR REPLACE VIEW public.fee_installment_balances
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    a.id AS assignment_id,
+    a.student_id,
+    a.school_code,
+    i.plan_id,
+    i.position,
+    i.amount,
+    i.due_date,
+    (i.targeted + least(i.net, greatest(paid.total - paid.targeted - (i.cumulative - i.net), 0)))::DECIMAL(10, 2) AS amount_paid,
+    CASE
+        WHEN paid.total - paid.targeted >= i.cumulative THEN 'paid'
+        WHEN i.targeted > 0 OR paid.total - paid.targeted > i.cumulative - i.net THEN 'partial'
+        ELSE 'outstanding'
+    END AS status,
+    (paid.total - paid.targeted < i.cumulative AND i.due_date < public.school_today(a.school_code)) AS overdue,
+    i.targeted::DECIMAL(10, 2) AS scholarship_amount
+FROM public.fee_assignments a
+CROSS JOIN LATERAL (
+    SELECT t.*, sum(t.net) OVER (ORDER BY t.position) AS cumulative
+    FROM (
+        SELECT
+            fi.*,
+            coalesce(c.targeted, 0) AS targeted,
+            fi.amount - coalesce(c.targeted, 0) AS net
+        FROM public.fee_installments fi
+        LEFT JOIN LATERAL (
+            SELECT sum(e.amount) AS targeted
+            FROM public.fee_ledger_entries e
+            WHERE e.assignment_id = a.id AND e.installment_id = fi.id
+        ) c ON true
+        WHERE fi.plan_id = a.plan_id
+    ) t
+) i
+CROSS JOIN LATERAL (
+    SELECT
+        (SELECT coalesce(sum(s.amount), 0) FROM public.fee_assignment_settlements(a.id) s) AS total,
+        (
+            SELECT coalesce(sum(e.amount), 0)
+            FROM public.fee_ledger_entries e
+            JOIN public.fee_installments fi ON fi.id = e.installment_id AND fi.plan_id = a.plan_id
+            WHERE e.assignment_id = a.id
+        ) AS targeted
+) paid;
+
+-- Credit an awarded scholarship to one of the student's fees, in one sum or spread over its open installments
+CREATE OR REPLACE FUNCTION public.apply_scholarship_award(
+    _application_id uuid,
+    _assignment_id uuid,
+    _amount numeric,
+    _spread boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _application public.scholarship_applications%ROWTYPE;
+    _title text;
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _remaining numeric;
+    _open numeric;
+    _allocated numeric := 0;
+    _part numeric;
+    _installment record;
+BEGIN
+    SELECT * INTO _application FROM public.scholarship_applications WHERE id = _application_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _application.school_code) THEN
+        RAISE EXCEPTION 'Application not found';
+    END IF;
+
+    IF _application.status <> 'awarded' OR _application.awarded_amount IS NULL THEN
+        RAISE EXCEPTION 'Only scholarships awarded with an amount can be credited to fees';
+    END IF;
+
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF NOT FOUND OR _balance.student_id <> _application.student_id OR _balance.school_code <> _application.school_code THEN
+        RAISE EXCEPTION 'Fee not found for this student';
+    END IF;
+
+    SELECT _application.awarded_amount - coalesce(sum(amount), 0) INTO _remaining
+    FROM public.fee_ledger_entries
+    WHERE application_id = _application_id;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _remaining THEN
+        RAISE EXCEPTION 'Only % of this award is left to credit', _remaining;
+    END IF;
+
+    IF _amount > _balance.balance THEN
+        RAISE EXCEPTION 'This fee only has % left to pay', _balance.balance;
+    END IF;
+
+    SELECT title INTO _title FROM public.scholarships WHERE id = _application.scholarship_id;
+
+    IF NOT _spread THEN
+        INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, application_id, created_by)
+        VALUES (_balance.school_code, _balance.student_id, _balance.id, 'scholarship', _amount, 'Scholarship: ' || _title, _application_id, auth.uid());
+        RETURN;
+    END IF;
+
+    IF _balance.plan_id IS NULL THEN
+        RAISE EXCEPTION 'This fee is not on an installment plan';
+    END IF;
+
+    SELECT coalesce(sum(amount - amount_paid), 0) INTO _open
+    FROM public.fee_installment_balances
+    WHERE assignment_id = _assignment_id AND status <> 'paid';
+
+    IF _amount > _open THEN
+        RAISE EXCEPTION 'The open installments only have % left to pay', _open;
+    END IF;
+
+    -- Each open installment gets a share in proportion to what is left on it; the last takes the rounding
+    FOR _installment IN
+        SELECT id, position, amount - amount_paid AS open_amount,
+               row_number() OVER (ORDER BY position DESC) = 1 AS is_last
+        FROM public.fee_installment_balances
+        WHERE assignment_id = _assignment_id AND status <> 'paid'
+        ORDER BY position
+    LOOP
+        _part := CASE
+            WHEN _installment.is_last THEN _amount - _allocated
+            ELSE round(_amount * _installment.open_amount / _open, 2)
+        END;
+        CONTINUE WHEN _part <= 0;
+
+        INSERT INTO public.fee_ledger_entries (
+            school_code, student_id, assignment_id, kind, amount, reason, application_id, installment_id, created_by
+        )
+        VALUES (
+            _balance.school_code, _balance.student_id, _balance.id, 'scholarship', _part,
+            'Scholarship: ' || _title || ' (installment ' || _installment.position || ')',
+            _application_id, _installment.id, auth.uid()
+        );
+        _allocated := _allocated + _part;
+    END LOOP;
+END;
+$$;
+
+-- Total scholarship money credited to students' fees in a school
+CREATE OR REPLACE FUNCTION public.get_disbursed_aid(_school_code text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT coalesce(sum(amount), 0)
+    FROM public.fee_ledger_entries
+    WHERE school_code = _school_code AND kind = 'scholarship'
+$$;
@@ -0,0 +1,211 @@
+-- Household income brackets, lowest first, declared by students for need-based scholarships
+CREATE OR REPLACE FUNCTION public.income_bracket_rank(_bracket text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT array_position(ARRAY['low', 'lower_middle', 'middle', 'upper_middle', 'high'], _bracket)
+$$;
+
+ALTER TABLE public.profiles
+    ADD COLUMN income_bracket TEXT CHECK (income_bracket IN ('low', 'lower_middle', 'middle', 'upper_middle', 'high'));
+
+-- Structured eligibility next to the free-text description: which classes may apply, the highest
+-- income bracket that qualifies, and the documents every application must include
+ALTER TABLE public.scholarships
+    ADD COLUMN eligible_class_ids UUID[] NOT NULL DEFAULT '{}',
+    ADD COLUMN max_income_bracket TEXT CHECK (max_income_bracket IN ('low', 'lower_middle', 'middle', 'upper_middle', 'high')),
+    ADD COLUMN required_documents TEXT[] NOT NULL DEFAULT '{}';
+
+-- Which required document an uploaded file was attached for, if any
+ALTER TABLE public.scholarship_application_files
+    ADD COLUMN requirement TEXT;
+
+-- Each eligibility criterion a scholarship sets, and whether the student meets it. Callable for
+-- yourself, a linked child, or any student of a school you administer.
+CREATE OR REPLACE FUNCTION public.scholarship_eligibility(_student_id uuid, _scholarship_id uuid DEFAULT NULL)
+RETURNS TABLE (scholarship_id uuid, criterion text, met boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH visible AS (
+        SELECT s.*
+        FROM public.scholarships s
+        WHERE s.archived_at IS NULL
+          AND (_scholarship_id IS NULL OR s.id = _scholarship_id)
+          AND public.is_school_member(_student_id, s.school_code)
+          AND (
+              _student_id = auth.uid()
+              OR public.is_guardian_of(auth.uid(), _student_id)
+              OR public.is_school_admin(auth.uid(), s.school_code)
+          )
+    )
+    SELECT v.id, 'class', EXISTS (
+        SELECT 1
+        FROM public.class_enrollments e
+        WHERE e.student_id = _student_id AND e.class_id = ANY (v.eligible_class_ids)
+    )
+    FROM visible v
+    WHERE cardinality(v.eligible_class_ids) > 0
+    UNION ALL
+    SELECT v.id, 'income', coalesce(
+        public.income_bracket_rank(p.income_bracket) <= public.income_bracket_rank(v.max_income_bracket),
+        false
+    )
+    FROM visible v
+    LEFT JOIN public.profiles p ON p.user_id = _student_id
+    WHERE v.max_income_bracket IS NOT NULL
+$$;
+
+-- Applications are refused unless the student meets every criterion
+CREATE OR REPLACE FUNCTION public.validate_scholarship_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+    _unmet text;
+BEGIN
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id;
+
+    IF NOT FOUND OR _scholarship.school_code <> NEW.school_code THEN
+        RAISE EXCEPTION 'Scholarship not found';
+    END IF;
+
+    IF NOT public.is_in_class_audience(NEW.student_id, _scholarship.class_id, _scholarship.section_id) THEN
+        RAISE EXCEPTION 'This scholarship is not open to your class';
+    END IF;
+
+    IF _scholarship.deadline IS NOT NULL AND _scholarship.deadline < current_date THEN
+        RAISE EXCEPTION 'The application deadline for this scholarship has passed';
+    END IF;
+
+    SELECT string_agg(CASE criterion WHEN 'class' THEN 'class' ELSE 'income bracket' END, ' and ')
+    INTO _unmet
+    FROM public.scholarship_eligibility(NEW.student_id, NEW.scholarship_id)
+    WHERE NOT met;
+
+    IF _unmet IS NOT NULL THEN
+        RAISE EXCEPTION 'You do not meet the % requirement for this scholarship', _unmet;
+    END IF;
+
+    NEW.submitted_at = now();
+    RETURN NEW;
+END;
+$$;
+
+-- Recurring scholarships keep their eligibility criteria when rolled over into the next term
+CREATE OR REPLACE FUNCTION public.rollover_term(
+    _school_code text,
+    _next_term_id uuid,
+    _fee_ids uuid[] DEFAULT '{}',
+    _scholarship_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (cloned_fees integer, cloned_scholarships integer, archived integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current public.academic_terms%ROWTYPE;
+    _next public.academic_terms%ROWTYPE;
+    _offset integer;
+    _fee public.fees%ROWTYPE;
+    _scholarship public.scholarships%ROWTYPE;
+    _new_id uuid;
+    _count integer;
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can roll over a term';
+    END IF;
+
+    SELECT * INTO _next
+    FROM public.academic_terms
+    WHERE id = _next_term_id AND school_code = _school_code AND archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    SELECT t.* INTO _current
+    FROM public.schools s
+    JOIN public.academic_terms t ON t.id = s.current_term_id
+    WHERE s.school_code = _school_code;
+
+    IF _current.id = _next.id THEN
+        RAISE EXCEPTION 'The school is already in this term';
+    END IF;
+
+    _offset := coalesce(_next.starts_on - _current.starts_on, 0);
+    cloned_fees := 0;
+    cloned_scholarships := 0;
+    archived := 0;
+
+    FOR _fee IN
+        SELECT * FROM public.fees
+        WHERE id = ANY (_fee_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.fees (school_code, title, description, amount, due_date, category, class_id, section_id, term_id, recurs_each_term)
+        VALUES (_fee.school_code, _fee.title, _fee.description, _fee.amount, _fee.due_date + _offset, _fee.category,
+                _fee.class_id, _fee.section_id, _next.id, true)
+        RETURNING id INTO _new_id;
+
+        -- Students who owed it last term owe it again, as long as they are still at the school
+        INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+        SELECT _new_id, a.student_id, a.school_code, _fee.amount
+        FROM public.fee_assignments a
+        WHERE a.fee_id = _fee.id
+          AND a.archived_at IS NULL
+          AND public.is_school_member(a.student_id, _school_code);
+
+        cloned_fees := cloned_fees + 1;
+    END LOOP;
+
+    FOR _scholarship IN
+        SELECT * FROM public.scholarships
+        WHERE id = ANY (_scholarship_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.scholarships (
+            school_code, title, description, amount, deadline, eligibility, slots, class_id, section_id, term_id,
+            recurs_each_term, eligible_class_ids, max_income_bracket, required_documents
+        )
+        VALUES (_scholarship.school_code, _scholarship.title, _scholarship.description, _scholarship.amount,
+                _scholarship.deadline + _offset, _scholarship.eligibility, _scholarship.slots,
+                _scholarship.class_id, _scholarship.section_id, _next.id, true,
+                _scholarship.eligible_class_ids, _scholarship.max_income_bracket, _scholarship.required_documents)
+        RETURNING id INTO _new_id;
+
+        INSERT INTO public.scholarship_questions (scholarship_id, prompt, required, position)
+        SELECT _new_id, prompt, required, position
+        FROM public.scholarship_questions
+        WHERE scholarship_id = _scholarship.id;
+
+        cloned_scholarships := cloned_scholarships + 1;
+    END LOOP;
+
+    IF _current.id IS NOT NULL THEN
+        UPDATE public.fees SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.scholarships SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.notices SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.academic_terms SET archived_at = now() WHERE id = _current.id;
+    END IF;
+
+    UPDATE public.schools SET current_term_id = _next.id WHERE school_code = _school_code;
+
+    RETURN NEXT;
+END;
+$$;
+
@@ -0,0 +1,356 @@
+-- Hide applicant names from reviewers while a committee scores a scholarship
+ALTER TABLE public.scholarships
+    ADD COLUMN blind_review BOOLEAN NOT NULL DEFAULT false;
+
+-- Weighted criteria each application is scored against
+CREATE TABLE public.scholarship_rubric_criteria (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scholarship_id UUID REFERENCES public.scholarships(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    description TEXT,
+    weight DECIMAL(6, 2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+    max_score INTEGER NOT NULL DEFAULT 10 CHECK (max_score > 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Staff on the committee that scores a scholarship's applications
+CREATE TABLE public.scholarship_reviewers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scholarship_id UUID REFERENCES public.scholarships(id) ON DELETE CASCADE NOT NULL,
+    reviewer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (scholarship_id, reviewer_id)
+);
+
+-- One reviewer's score for one criterion of one application
+CREATE TABLE public.scholarship_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    application_id UUID REFERENCES public.scholarship_applications(id) ON DELETE CASCADE NOT NULL,
+    criterion_id UUID REFERENCES public.scholarship_rubric_criteria(id) ON DELETE CASCADE NOT NULL,
+    reviewer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    score DECIMAL(6, 2) NOT NULL CHECK (score >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (application_id, criterion_id, reviewer_id)
+);
+
+-- Conflicts of interest reviewers declare with an applicant
+CREATE TABLE public.scholarship_review_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    application_id UUID REFERENCES public.scholarship_applications(id) ON DELETE CASCADE NOT NULL,
+    reviewer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (application_id, reviewer_id)
+);
+
+CREATE INDEX scholarship_rubric_criteria_scholarship_id_idx ON public.scholarship_rubric_criteria (scholarship_id);
+CREATE INDEX scholarship_reviewers_scholarship_id_idx ON public.scholarship_reviewers (scholarship_id);
+CREATE INDEX scholarship_scores_application_id_idx ON public.scholarship_scores (application_id);
+
+ALTER TABLE public.scholarship_rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scholarship_reviewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scholarship_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scholarship_review_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- A reviewer is conflicted when they declared it, or when the applicant is themselves or their child
+CREATE OR REPLACE FUNCTION public.has_review_conflict(_reviewer_id uuid, _application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.scholarship_applications a
+    WHERE a.id = _application_id
+      AND (
+        a.student_id = _reviewer_id
+        OR public.is_guardian_of(_reviewer_id, a.student_id)
+        OR EXISTS (
+          SELECT 1 FROM public.scholarship_review_conflicts c
+          WHERE c.application_id = a.id AND c.reviewer_id = _reviewer_id
+        )
+      )
+  )
+$$;
+
+-- RLS Policies for scholarship_rubric_criteria
+CREATE POLICY "Admins can view scholarship rubrics" ON public.scholarship_rubric_criteria
+    FOR SELECT USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Admins can insert scholarship rubrics" ON public.scholarship_rubric_criteria
+    FOR INSERT WITH CHECK (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Admins can update scholarship rubrics" ON public.scholarship_rubric_criteria
+    FOR UPDATE USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Admins can delete scholarship rubrics" ON public.scholarship_rubric_criteria
+    FOR DELETE USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+-- RLS Policies for scholarship_reviewers: any staff can see the panel, owners and admins pick it
+CREATE POLICY "Admins can view review panels" ON public.scholarship_reviewers
+    FOR SELECT USING (public.is_school_admin(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+CREATE POLICY "Managers can add reviewers" ON public.scholarship_reviewers
+    FOR INSERT WITH CHECK (
+        public.is_school_manager(auth.uid(), public.get_scholarship_school_code(scholarship_id))
+        AND public.is_school_admin(reviewer_id, public.get_scholarship_school_code(scholarship_id))
+    );
+
+CREATE POLICY "Managers can remove reviewers" ON public.scholarship_reviewers
+    FOR DELETE USING (public.is_school_manager(auth.uid(), public.get_scholarship_school_code(scholarship_id)));
+
+-- RLS Policies for scholarship_scores: reviewers score independently, so they only see their own
+CREATE POLICY "Reviewers and managers can view scores" ON public.scholarship_scores
+    FOR SELECT USING (
+        reviewer_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id AND public.is_school_manager(auth.uid(), a.school_code)
+        )
+    );
+
+CREATE POLICY "Reviewers can add their scores" ON public.scholarship_scores
+    FOR INSERT WITH CHECK (reviewer_id = auth.uid());
+
+CREATE POLICY "Reviewers can change their scores" ON public.scholarship_scores
+    FOR UPDATE USING (reviewer_id = auth.uid()) WITH CHECK (reviewer_id = auth.uid());
+
+CREATE POLICY "Reviewers can delete their scores" ON public.scholarship_scores
+    FOR DELETE USING (reviewer_id = auth.uid());
+
+-- RLS Policies for scholarship_review_conflicts
+CREATE POLICY "Reviewers and managers can view conflicts" ON public.scholarship_review_conflicts
+    FOR SELECT USING (
+        reviewer_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id AND public.is_school_manager(auth.uid(), a.school_code)
+        )
+    );
+
+CREATE POLICY "Staff can declare conflicts" ON public.scholarship_review_conflicts
+    FOR INSERT WITH CHECK (
+        reviewer_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id AND public.is_school_admin(auth.uid(), a.school_code)
+        )
+    );
+
+CREATE POLICY "Reviewers can withdraw conflicts" ON public.scholarship_review_conflicts
+    FOR DELETE USING (reviewer_id = auth.uid());
+
+-- Only panel members without a conflict may score, against their scholarship's own rubric
+CREATE OR REPLACE FUNCTION public.validate_scholarship_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _application public.scholarship_applications%ROWTYPE;
+    _criterion public.scholarship_rubric_criteria%ROWTYPE;
+BEGIN
+    SELECT * INTO _application FROM public.scholarship_applications WHERE id = NEW.application_id;
+    SELECT * INTO _criterion FROM public.scholarship_rubric_criteria WHERE id = NEW.criterion_id;
+
+    IF _criterion.scholarship_id IS DISTINCT FROM _application.scholarship_id THEN
+        RAISE EXCEPTION 'This criterion is not part of the scholarship''s rubric';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.scholarship_reviewers
+        WHERE scholarship_id = _application.scholarship_id AND reviewer_id = NEW.reviewer_id
+    ) THEN
+        RAISE EXCEPTION 'Only members of the review panel can score this scholarship';
+    END IF;
+
+    IF public.has_review_conflict(NEW.reviewer_id, NEW.application_id) THEN
+        RAISE EXCEPTION 'You have a conflict of interest with this applicant';
+    END IF;
+
+    IF NEW.score > _criterion.max_score THEN
+        RAISE EXCEPTION 'Scores for % go up to %', _criterion.name, _criterion.max_score;
+    END IF;
+
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_scholarship_score
+    BEFORE INSERT OR UPDATE ON public.scholarship_scores
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_scholarship_score();
+
+-- Aggregate panel scores per application. Each reviewer's complete scorecard becomes a weighted
+-- percentage; scorecards from conflicted reviewers are left out of the average and the rank.
+CREATE VIEW public.scholarship_application_rankings
+WITH (security_invoker = true) AS
+WITH rubric AS (
+    SELECT scholarship_id, count(*) AS criteria, sum(weight) AS total_weight
+    FROM public.scholarship_rubric_criteria
+    GROUP BY scholarship_id
+),
+scorecards AS (
+    SELECT s.application_id, s.reviewer_id, count(*) AS scored, sum(s.score / c.max_score * c.weight) AS weighted
+    FROM public.scholarship_scores s
+    JOIN public.scholarship_rubric_criteria c ON c.id = s.criterion_id
+    GROUP BY s.application_id, s.reviewer_id
+),
+reviews AS (
+    SELECT sc.application_id, round(sc.weighted / r.total_weight * 100, 1) AS percent
+    FROM scorecards sc
+    JOIN public.scholarship_applications a ON a.id = sc.application_id
+    JOIN rubric r ON r.scholarship_id = a.scholarship_id
+    WHERE sc.scored = r.criteria
+      AND NOT public.has_review_conflict(sc.reviewer_id, sc.application_id)
+)
+SELECT
+    a.id AS application_id,
+    a.scholarship_id,
+    a.school_code,
+    a.student_id,
+    a.status,
+    (SELECT count(*) FROM public.scholarship_reviewers p WHERE p.scholarship_id = a.scholarship_id) AS panel_size,
+    count(rv.percent) AS review_count,
+    (
+        SELECT count(*) FROM public.scholarship_reviewers p
+        WHERE p.scholarship_id = a.scholarship_id AND public.has_review_conflict(p.reviewer_id, a.id)
+    ) AS conflict_count,
+    round(avg(rv.percent), 1) AS average_score,
+    min(rv.percent) AS lowest_score,
+    max(rv.percent) AS highest_score,
+    rank() OVER (PARTITION BY a.scholarship_id ORDER BY avg(rv.percent) DESC NULLS LAST) AS rank
+FROM public.scholarship_applications a
+JOIN rubric ON rubric.scholarship_id = a.scholarship_id
+LEFT JOIN reviews rv ON rv.application_id = a.id
+WHERE a.archived_at IS NULL
+GROUP BY a.id;
+
+-- Recurring scholarships keep their rubric, review panel and blind review setting when rolled over
+CREATE OR REPLACE FUNCTION public.rollover_term(
+    _school_code text,
+    _next_term_id uuid,
+    _fee_ids uuid[] DEFAULT '{}',
+    _scholarship_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (cloned_fees integer, cloned_scholarships integer, archived integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current public.academic_terms%ROWTYPE;
+    _next public.academic_terms%ROWTYPE;
+    _offset integer;
+    _fee public.fees%ROWTYPE;
+    _scholarship public.scholarships%ROWTYPE;
+    _new_id uuid;
+    _count integer;
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can roll over a term';
+    END IF;
+
+    SELECT * INTO _next
+    FROM public.academic_terms
+    WHERE id = _next_term_id AND school_code = _school_code AND archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    SELECT t.* INTO _current
+    FROM public.schools s
+    JOIN public.academic_terms t ON t.id = s.current_term_id
+    WHERE s.school_code = _school_code;
+
+    IF _current.id = _next.id THEN
+        RAISE EXCEPTION 'The school is already in this term';
+    END IF;
+
+    _offset := coalesce(_next.starts_on - _current.starts_on, 0);
+    cloned_fees := 0;
+    cloned_scholarships := 0;
+    archived := 0;
+
+    FOR _fee IN
+        SELECT * FROM public.fees
+        WHERE id = ANY (_fee_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.fees (school_code, title, description, amount, due_date, category, class_id, section_id, term_id, recurs_each_term)
+        VALUES (_fee.school_code, _fee.title, _fee.description, _fee.amount, _fee.due_date + _offset, _fee.category,
+                _fee.class_id, _fee.section_id, _next.id, true)
+        RETURNING id INTO _new_id;
+
+        -- Students who owed it last term owe it again, as long as they are still at the school
+        INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+        SELECT _new_id, a.student_id, a.school_code, _fee.amount
+        FROM public.fee_assignments a
+        WHERE a.fee_id = _fee.id
+          AND a.archived_at IS NULL
+          AND public.is_school_member(a.student_id, _school_code);
+
+        cloned_fees := cloned_fees + 1;
+    END LOOP;
+
+    FOR _scholarship IN
+        SELECT * FROM public.scholarships
+        WHERE id = ANY (_scholarship_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.scholarships (
+            school_code, title, description, amount, deadline, eligibility, slots, class_id, section_id, term_id,
+            recurs_each_term, eligible_class_ids, max_income_bracket, required_documents, blind_review
+        )
+        VALUES (_scholarship.school_code, _scholarship.title, _scholarship.description, _scholarship.amount,
+                _scholarship.deadline + _offset, _scholarship.eligibility, _scholarship.slots,
+                _scholarship.class_id, _scholarship.section_id, _next.id, true,
+                _scholarship.eligible_class_ids, _scholarship.max_income_bracket, _scholarship.required_documents,
+                _scholarship.blind_review)
+        RETURNING id INTO _new_id;
+
+        INSERT INTO public.scholarship_questions (scholarship_id, prompt, required, position)
+        SELECT _new_id, prompt, required, position
+        FROM public.scholarship_questions
+        WHERE scholarship_id = _scholarship.id;
+
+        INSERT INTO public.scholarship_rubric_criteria (scholarship_id, name, description, weight, max_score, position)
+        SELECT _new_id, name, description, weight, max_score, position
+        FROM public.scholarship_rubric_criteria
+        WHERE scholarship_id = _scholarship.id;
+
+        INSERT INTO public.scholarship_reviewers (scholarship_id, reviewer_id)
+        SELECT _new_id, reviewer_id
+        FROM public.scholarship_reviewers
+        WHERE scholarship_id = _scholarship.id
+          AND public.is_school_admin(reviewer_id, _school_code);
+
+        cloned_scholarships := cloned_scholarships + 1;
+    END LOOP;
+
+    IF _current.id IS NOT NULL THEN
+        UPDATE public.fees SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.scholarships SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.notices SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.academic_terms SET archived_at = now() WHERE id = _current.id;
+    END IF;
+
+    UPDATE public.schools SET current_term_id = _next.id WHERE school_code = _school_code;
+
+    RETURN NEXT;
+END;
+$$;
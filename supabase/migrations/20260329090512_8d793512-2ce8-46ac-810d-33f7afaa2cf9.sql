@@ -0,0 +1,107 @@
+-- People who review new institute accounts for the whole platform, added with the service role
+CREATE TABLE public.platform_reviewers (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.platform_reviewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reviewer status" ON public.platform_reviewers
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.is_platform_reviewer(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.platform_reviewers WHERE user_id = _user_id)
+$$;
+
+ALTER TABLE public.admin_access_requests
+    ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE POLICY "Platform reviewers can view access requests" ON public.admin_access_requests
+    FOR SELECT USING (public.is_platform_reviewer(auth.uid()));
+
+-- Admin rows that came neither from an invitation nor an approved request were granted by the
+-- old self-service insert policy. Send them back through review as pending requests, except for
+-- people who already own a school: they were accepted as its owner when it was created.
+INSERT INTO public.admin_access_requests (user_id, institute_name)
+SELECT r.user_id, coalesce(
+    (
+        SELECT s.name FROM public.school_staff st
+        JOIN public.schools s ON s.school_code = st.school_code
+        WHERE st.user_id = r.user_id
+        ORDER BY st.created_at
+        LIMIT 1
+    ),
+    'Unknown institute'
+)
+FROM public.user_roles r
+WHERE r.role = 'admin'
+  AND NOT EXISTS (
+      SELECT 1 FROM public.role_invitations i
+      WHERE i.accepted_by = r.user_id AND i.role = 'admin'
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM public.admin_access_requests q
+      WHERE q.user_id = r.user_id AND q.status = 'approved'
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM public.school_staff st
+      WHERE st.user_id = r.user_id AND st.level = 'owner'
+  )
+ON CONFLICT (user_id) DO UPDATE SET status = 'pending', reviewed_at = NULL;
+
+DELETE FROM public.user_roles r
+USING public.admin_access_requests q
+WHERE q.user_id = r.user_id
+  AND q.status = 'pending'
+  AND r.role = 'admin';
+
+-- School access comes from the staff table, so pending users also leave the staff of every school
+-- they were not invited to
+DELETE FROM public.school_staff st
+USING public.admin_access_requests q
+WHERE q.user_id = st.user_id
+  AND q.status = 'pending'
+  AND st.level <> 'owner'
+  AND NOT EXISTS (
+      SELECT 1 FROM public.role_invitations i
+      WHERE i.accepted_by = st.user_id AND i.school_code = st.school_code
+  );
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT q.user_id, 'student'
+FROM public.admin_access_requests q
+WHERE q.status = 'pending'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Approve or reject institute accounts; approval grants the admin role through the review trigger
+CREATE OR REPLACE FUNCTION public.review_admin_access_requests(_request_ids uuid[], _approve boolean)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _reviewed integer;
+BEGIN
+    IF NOT public.is_platform_reviewer(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform reviewers can review institute accounts';
+    END IF;
+
+    UPDATE public.admin_access_requests
+    SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = now()
+    WHERE id = ANY (_request_ids)
+      AND status = 'pending'
+      AND user_id <> auth.uid();
+
+    GET DIAGNOSTICS _reviewed = ROW_COUNT;
+    RETURN _reviewed;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Files can only point at the student's own folder for this application, as uploaded
+DROP POLICY IF EXISTS "Students can attach files to own applications" ON public.scholarship_application_files;
+
+CREATE POLICY "Students can attach files to own applications" ON public.scholarship_application_files
+    FOR INSERT WITH CHECK (
+        split_part(file_path, '/', 1) = auth.uid()::text
+        AND split_part(file_path, '/', 2) = application_id::text
+        AND EXISTS (
+            SELECT 1 FROM public.scholarship_applications a
+            WHERE a.id = application_id AND a.student_id = auth.uid() AND a.status = 'submitted'
+        )
+    );
+
+-- Deadlines fall at the end of the day in the school's own timezone
+CREATE OR REPLACE FUNCTION public.validate_scholarship_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+    _unmet text;
+BEGIN
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id;
+
+    IF NOT FOUND OR _scholarship.school_code <> NEW.school_code THEN
+        RAISE EXCEPTION 'Scholarship not found';
+    END IF;
+
+    IF NOT public.is_in_class_audience(NEW.student_id, _scholarship.class_id, _scholarship.section_id) THEN
+        RAISE EXCEPTION 'This scholarship is not open to your class';
+    END IF;
+
+    IF _scholarship.deadline IS NOT NULL AND _scholarship.deadline < public.school_today(_scholarship.school_code) THEN
+        RAISE EXCEPTION 'The application deadline for this scholarship has passed';
+    END IF;
+
+    SELECT string_agg(CASE criterion WHEN 'class' THEN 'class' ELSE 'income bracket' END, ' and ')
+    INTO _unmet
+    FROM public.scholarship_eligibility(NEW.student_id, NEW.scholarship_id)
+    WHERE NOT met;
+
+    IF _unmet IS NOT NULL THEN
+        RAISE EXCEPTION 'You do not meet the % requirement for this scholarship', _unmet;
+    END IF;
+
+    NEW.submitted_at = now();
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Count checkouts that are still open against the balance, so two checkouts started at once
+-- cannot both be paid in full. Providers expire unpaid checkout pages within a day, so older
+-- pending checkouts no longer hold back the balance.
+CREATE OR REPLACE FUNCTION public.create_payment_checkout(_assignment_id uuid, _amount numeric, _provider text)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _open numeric;
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    -- Checkouts for the same fee are started one at a time
+    PERFORM 1 FROM public.fee_assignments WHERE id = _assignment_id FOR UPDATE;
+
+    SELECT b.* INTO _balance
+    FROM public.fee_assignment_balances b
+    WHERE b.id = _assignment_id AND b.archived_at IS NULL;
+
+    IF NOT FOUND OR NOT (
+        _balance.student_id = auth.uid()
+        OR public.is_guardian_of(auth.uid(), _balance.student_id)
+    ) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    SELECT COALESCE(SUM(c.amount), 0) INTO _open
+    FROM public.payment_checkouts c
+    WHERE c.assignment_id = _assignment_id
+      AND c.status = 'pending'
+      AND c.created_at > now() - interval '1 day';
+
+    IF _open > 0 AND _balance.balance - _open <= 0 THEN
+        RAISE EXCEPTION 'A payment of % for this fee is already in progress', _open;
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance - _open THEN
+        RAISE EXCEPTION 'Amount must be more than 0 and no more than the balance of %', _balance.balance - _open;
+    END IF;
+
+    INSERT INTO public.payment_checkouts (assignment_id, school_code, student_id, amount, currency, provider, created_by)
+    SELECT _balance.id, _balance.school_code, _balance.student_id, round(_amount, 2), s.currency, _provider, auth.uid()
+    FROM public.schools s
+    WHERE s.school_code = _balance.school_code
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
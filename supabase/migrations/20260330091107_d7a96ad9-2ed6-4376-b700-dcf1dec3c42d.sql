@@ -0,0 +1,87 @@
+-- Waivers, refunds and credit notes change what a student owes, so they are limited to school
+-- owners and admins like the rest of the school's settings. Other staff can still record payments.
+
+-- Waive part or all of what a student owes on a fee
+CREATE OR REPLACE FUNCTION public.waive_fee(_assignment_id uuid, _amount numeric, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+BEGIN
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF NOT FOUND OR NOT public.is_school_manager(auth.uid(), _balance.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance THEN
+        RAISE EXCEPTION 'A waiver must be more than 0 and no more than the balance of %', _balance.balance;
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, created_by)
+    VALUES (_balance.school_code, _balance.student_id, _balance.id, 'waiver', _amount, trim(_reason), auth.uid());
+END;
+$$;
+
+-- Refund part or all of a payment recorded at the office. Online payments go back through their provider.
+CREATE OR REPLACE FUNCTION public.refund_fee_payment(_payment_id uuid, _amount numeric, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _payment public.fee_payments%ROWTYPE;
+    _student_id uuid;
+    _refundable numeric;
+BEGIN
+    SELECT * INTO _payment FROM public.fee_payments WHERE id = _payment_id;
+
+    IF NOT FOUND OR NOT public.is_school_manager(auth.uid(), _payment.school_code) THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.payment_checkouts WHERE payment_id = _payment_id) THEN
+        RAISE EXCEPTION 'Online payments are refunded through the payment provider';
+    END IF;
+
+    SELECT _payment.amount - coalesce(sum(amount), 0) INTO _refundable
+    FROM public.fee_ledger_entries
+    WHERE payment_id = _payment_id AND kind = 'refund';
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _refundable THEN
+        RAISE EXCEPTION 'A refund must be more than 0 and no more than the % left on this payment', _refundable;
+    END IF;
+
+    SELECT student_id INTO _student_id FROM public.fee_assignments WHERE id = _payment.assignment_id;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, payment_id, created_by)
+    VALUES (_payment.school_code, _student_id, _payment.assignment_id, 'refund', _amount, trim(_reason), _payment_id, auth.uid());
+END;
+$$;
+
+-- Give a student credit, spent straight away on anything they owe and carried forward after that
+CREATE OR REPLACE FUNCTION public.issue_credit_note(_school_code text, _student_id uuid, _amount numeric, _reason text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can issue credit notes';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+        RAISE EXCEPTION 'A credit note must be for more than 0';
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, kind, amount, reason, created_by)
+    VALUES (_school_code, _student_id, 'credit_note', _amount, trim(_reason), auth.uid());
+
+    RETURN public.apply_student_credit(_student_id, _school_code);
+END;
+$$;
@@ -0,0 +1,134 @@
+-- Payments are part of the fee record once taken; mistakes are put right with a refund
+DROP POLICY "Admins can delete fee payments" ON public.fee_payments;
+
+-- Whether anything has been paid or adjusted against a student's fee
+CREATE OR REPLACE FUNCTION public.fee_assignment_has_history(_assignment_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.fee_payments WHERE assignment_id = _assignment_id)
+        OR EXISTS (SELECT 1 FROM public.fee_ledger_entries WHERE assignment_id = _assignment_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fee_assignment_has_history(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Fees and assignments with a history are archived rather than deleted, so their payments and
+-- ledger entries are never lost. Removing a whole school or student still cascades.
+CREATE OR REPLACE FUNCTION public.prevent_fee_history_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.fee_assignments a
+        WHERE (CASE TG_TABLE_NAME WHEN 'fees' THEN a.fee_id ELSE a.id END) = OLD.id
+          AND public.fee_assignment_has_history(a.id)
+    ) THEN
+        RAISE EXCEPTION 'Fees with payments or ledger entries cannot be deleted, only archived';
+    END IF;
+
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_fee_history_removal
+    BEFORE DELETE ON public.fees
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_fee_history_removal();
+
+CREATE TRIGGER prevent_fee_history_removal
+    BEFORE DELETE ON public.fee_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_fee_history_removal();
+
+-- Delete a fee, or archive it with its assignments when any of them has a history.
+-- Returns true when the fee was archived.
+CREATE OR REPLACE FUNCTION public.remove_fee(_fee_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fee public.fees%ROWTYPE;
+BEGIN
+    SELECT * INTO _fee FROM public.fees WHERE id = _fee_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _fee.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.fee_assignments a
+        WHERE a.fee_id = _fee_id AND public.fee_assignment_has_history(a.id)
+    ) THEN
+        DELETE FROM public.fees WHERE id = _fee_id;
+        RETURN false;
+    END IF;
+
+    UPDATE public.fees SET archived_at = coalesce(archived_at, now()) WHERE id = _fee_id;
+    UPDATE public.fee_assignments SET archived_at = now() WHERE fee_id = _fee_id AND archived_at IS NULL;
+    RETURN true;
+END;
+$$;
+
+-- Take a fee off a student, archiving the assignment when it has a history.
+-- Returns true when the assignment was archived.
+CREATE OR REPLACE FUNCTION public.remove_fee_assignment(_assignment_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _assignment public.fee_assignments%ROWTYPE;
+BEGIN
+    SELECT * INTO _assignment FROM public.fee_assignments WHERE id = _assignment_id;
+
+    IF NOT FOUND OR NOT public.is_school_admin(auth.uid(), _assignment.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    IF NOT public.fee_assignment_has_history(_assignment_id) THEN
+        DELETE FROM public.fee_assignments WHERE id = _assignment_id;
+        RETURN false;
+    END IF;
+
+    UPDATE public.fee_assignments SET archived_at = coalesce(archived_at, now()) WHERE id = _assignment_id;
+    RETURN true;
+END;
+$$;
+
+-- Ledger entries only ever change from inside a foreign key action: deleted with their school or
+-- student, or losing their installment when a plan is deleted. Nothing else gets through.
+CREATE OR REPLACE FUNCTION public.prevent_fee_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+
+        IF OLD.installment_id IS NOT NULL
+            AND NEW.installment_id IS NULL
+            AND to_jsonb(NEW) - 'installment_id' = to_jsonb(OLD) - 'installment_id' THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    RAISE EXCEPTION 'Fee ledger entries cannot be changed or removed';
+END;
+$$;
@@ -0,0 +1,275 @@
+-- Blind review is kept by the database: while a blind scholarship is being scored, staff only
+-- reach its applications through the functions below, which leave out who the applicant is and
+-- what their files are called. Owners and admins close scoring to reveal them and decide.
+ALTER TABLE public.scholarships
+    ADD COLUMN scoring_closed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.is_blind_review_open(_scholarship_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.scholarships
+    WHERE id = _scholarship_id AND blind_review AND scoring_closed_at IS NULL
+  )
+$$;
+
+-- Helper to resolve the school of an application without going through its row's policies
+CREATE OR REPLACE FUNCTION public.get_application_school_code(_application_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT school_code FROM public.scholarship_applications WHERE id = _application_id
+$$;
+
+-- Only owners and admins close scoring, and blind review cannot be switched off before then
+CREATE OR REPLACE FUNCTION public.guard_scholarship_scoring()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.scoring_closed_at IS DISTINCT FROM OLD.scoring_closed_at THEN
+        IF NOT public.is_school_manager(auth.uid(), NEW.school_code) THEN
+            RAISE EXCEPTION 'Only owners and admins can close scoring';
+        END IF;
+        IF OLD.scoring_closed_at IS NOT NULL THEN
+            RAISE EXCEPTION 'Scoring has already closed for this scholarship';
+        END IF;
+        NEW.scoring_closed_at := now();
+    END IF;
+
+    IF OLD.blind_review AND NOT NEW.blind_review AND NEW.scoring_closed_at IS NULL
+        AND EXISTS (SELECT 1 FROM public.scholarship_applications WHERE scholarship_id = NEW.id) THEN
+        RAISE EXCEPTION 'Blind review stays on until scoring closes';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_scholarship_scoring
+    BEFORE UPDATE ON public.scholarships
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_scholarship_scoring();
+
+-- Staff see applications to blind scholarships, and so their files, only once scoring closes
+DROP POLICY "Students can view own applications" ON public.scholarship_applications;
+
+CREATE POLICY "Students can view own applications" ON public.scholarship_applications
+    FOR SELECT USING (auth.uid() = student_id);
+
+CREATE POLICY "Admins can view applications" ON public.scholarship_applications
+    FOR SELECT USING (
+        public.is_school_admin(auth.uid(), school_code)
+        AND NOT public.is_blind_review_open(scholarship_id)
+    );
+
+-- Scores and conflicts still reach blind applications through their school
+DROP POLICY "Reviewers and managers can view scores" ON public.scholarship_scores;
+
+CREATE POLICY "Reviewers and managers can view scores" ON public.scholarship_scores
+    FOR SELECT USING (
+        reviewer_id = auth.uid()
+        OR public.is_school_manager(auth.uid(), public.get_application_school_code(application_id))
+    );
+
+DROP POLICY "Reviewers and managers can view conflicts" ON public.scholarship_review_conflicts;
+DROP POLICY "Staff can declare conflicts" ON public.scholarship_review_conflicts;
+
+CREATE POLICY "Reviewers and managers can view conflicts" ON public.scholarship_review_conflicts
+    FOR SELECT USING (
+        reviewer_id = auth.uid()
+        OR public.is_school_manager(auth.uid(), public.get_application_school_code(application_id))
+    );
+
+CREATE POLICY "Staff can declare conflicts" ON public.scholarship_review_conflicts
+    FOR INSERT WITH CHECK (
+        reviewer_id = auth.uid()
+        AND public.is_school_admin(auth.uid(), public.get_application_school_code(application_id))
+    );
+
+-- Scores are final once scoring closes
+CREATE OR REPLACE FUNCTION public.validate_scholarship_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _application public.scholarship_applications%ROWTYPE;
+    _criterion public.scholarship_rubric_criteria%ROWTYPE;
+BEGIN
+    SELECT * INTO _application FROM public.scholarship_applications WHERE id = NEW.application_id;
+    SELECT * INTO _criterion FROM public.scholarship_rubric_criteria WHERE id = NEW.criterion_id;
+
+    IF _criterion.scholarship_id IS DISTINCT FROM _application.scholarship_id THEN
+        RAISE EXCEPTION 'This criterion is not part of the scholarship''s rubric';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.scholarships
+        WHERE id = _application.scholarship_id AND scoring_closed_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Scoring has closed for this scholarship';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.scholarship_reviewers
+        WHERE scholarship_id = _application.scholarship_id AND reviewer_id = NEW.reviewer_id
+    ) THEN
+        RAISE EXCEPTION 'Only members of the review panel can score this scholarship';
+    END IF;
+
+    IF public.has_review_conflict(NEW.reviewer_id, NEW.application_id) THEN
+        RAISE EXCEPTION 'You have a conflict of interest with this applicant';
+    END IF;
+
+    IF NEW.score > _criterion.max_score THEN
+        RAISE EXCEPTION 'Scores for % go up to %', _criterion.name, _criterion.max_score;
+    END IF;
+
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$;
+
+-- Applications for staff to review. Applicants to blind scholarships have no id or name until
+-- scoring closes.
+CREATE OR REPLACE FUNCTION public.get_scholarship_review_queue(_school_code text)
+RETURNS TABLE (
+    id uuid,
+    scholarship_id uuid,
+    scholarship_title text,
+    blind boolean,
+    student_id uuid,
+    student_name text,
+    statement text,
+    answers jsonb,
+    status application_status,
+    reviewer_notes text,
+    awarded_amount numeric,
+    submitted_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        a.id,
+        a.scholarship_id,
+        s.title,
+        v.blind,
+        CASE WHEN v.blind THEN NULL ELSE a.student_id END,
+        CASE WHEN v.blind THEN NULL ELSE p.full_name END,
+        a.statement,
+        a.answers,
+        a.status,
+        a.reviewer_notes,
+        a.awarded_amount,
+        a.submitted_at
+    FROM public.scholarship_applications a
+    JOIN public.scholarships s ON s.id = a.scholarship_id
+    LEFT JOIN public.profiles p ON p.user_id = a.student_id
+    CROSS JOIN LATERAL (SELECT s.blind_review AND s.scoring_closed_at IS NULL AS blind) v
+    WHERE a.school_code = _school_code
+      AND a.archived_at IS NULL
+      AND public.is_school_admin(auth.uid(), _school_code)
+    ORDER BY a.submitted_at
+$$;
+
+-- Files attached to an application. While blind, reviewers only learn which requirement each covers.
+CREATE OR REPLACE FUNCTION public.get_scholarship_application_files(_application_id uuid)
+RETURNS TABLE (id uuid, requirement text, file_name text, file_path text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        f.id,
+        f.requirement,
+        CASE WHEN public.is_blind_review_open(a.scholarship_id) THEN NULL ELSE f.file_name END,
+        CASE WHEN public.is_blind_review_open(a.scholarship_id) THEN NULL ELSE f.file_path END
+    FROM public.scholarship_application_files f
+    JOIN public.scholarship_applications a ON a.id = f.application_id
+    WHERE f.application_id = _application_id
+      AND public.is_school_admin(auth.uid(), a.school_code)
+    ORDER BY f.created_at
+$$;
+
+-- Rankings are served to owners and admins by the function below, which hides applicants the same way
+DROP VIEW public.scholarship_application_rankings;
+
+-- Aggregate panel scores per application. Each reviewer's complete scorecard becomes a weighted
+-- percentage; scorecards from conflicted reviewers are left out of the average and the rank.
+CREATE OR REPLACE FUNCTION public.get_scholarship_rankings(_scholarship_id uuid)
+RETURNS TABLE (
+    application_id uuid,
+    student_name text,
+    status application_status,
+    panel_size bigint,
+    review_count bigint,
+    conflict_count bigint,
+    average_score numeric,
+    lowest_score numeric,
+    highest_score numeric,
+    rank bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH rubric AS (
+        SELECT count(*) AS criteria, sum(weight) AS total_weight
+        FROM public.scholarship_rubric_criteria
+        WHERE scholarship_id = _scholarship_id
+    ),
+    scorecards AS (
+        SELECT s.application_id, s.reviewer_id, count(*) AS scored, sum(s.score / c.max_score * c.weight) AS weighted
+        FROM public.scholarship_scores s
+        JOIN public.scholarship_rubric_criteria c ON c.id = s.criterion_id
+        WHERE c.scholarship_id = _scholarship_id
+        GROUP BY s.application_id, s.reviewer_id
+    ),
+    reviews AS (
+        SELECT sc.application_id, round(sc.weighted / r.total_weight * 100, 1) AS percent
+        FROM scorecards sc
+        CROSS JOIN rubric r
+        WHERE sc.scored = r.criteria
+          AND NOT public.has_review_conflict(sc.reviewer_id, sc.application_id)
+    )
+    SELECT
+        a.id,
+        CASE WHEN public.is_blind_review_open(a.scholarship_id) THEN NULL ELSE p.full_name END,
+        a.status,
+        (SELECT count(*) FROM public.scholarship_reviewers r WHERE r.scholarship_id = a.scholarship_id),
+        count(rv.percent),
+        (
+            SELECT count(*) FROM public.scholarship_reviewers r
+            WHERE r.scholarship_id = a.scholarship_id AND public.has_review_conflict(r.reviewer_id, a.id)
+        ),
+        round(avg(rv.percent), 1),
+        min(rv.percent),
+        max(rv.percent),
+        rank() OVER (ORDER BY avg(rv.percent) DESC NULLS LAST)
+    FROM public.scholarship_applications a
+    CROSS JOIN rubric
+    LEFT JOIN public.profiles p ON p.user_id = a.student_id
+    LEFT JOIN reviews rv ON rv.application_id = a.id
+    WHERE a.scholarship_id = _scholarship_id
+      AND a.archived_at IS NULL
+      AND rubric.criteria > 0
+      AND public.is_school_manager(auth.uid(), a.school_code)
+    GROUP BY a.id, p.full_name
+    ORDER BY avg(rv.percent) DESC NULLS LAST, a.submitted_at
+$$;
@@ -0,0 +1,118 @@
+-- Reviewers score without seeing the rest of the panel's scores. A reviewer sees them once their own
+-- scorecard for the application is complete, and owners and admins once scoring closes.
+CREATE OR REPLACE FUNCTION public.has_submitted_scorecard(_reviewer_id uuid, _application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(s.id) > 0 AND count(s.id) = count(c.id)
+  FROM public.scholarship_applications a
+  JOIN public.scholarship_rubric_criteria c ON c.scholarship_id = a.scholarship_id
+  LEFT JOIN public.scholarship_scores s
+    ON s.criterion_id = c.id AND s.application_id = a.id AND s.reviewer_id = _reviewer_id
+  WHERE a.id = _application_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_panel_scores(_user_id uuid, _application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.scholarship_applications a
+    JOIN public.scholarships s ON s.id = a.scholarship_id
+    WHERE a.id = _application_id
+      AND (
+        (s.scoring_closed_at IS NOT NULL AND public.is_school_manager(_user_id, a.school_code))
+        OR (
+          EXISTS (
+            SELECT 1 FROM public.scholarship_reviewers r
+            WHERE r.scholarship_id = a.scholarship_id AND r.reviewer_id = _user_id
+          )
+          AND public.has_submitted_scorecard(_user_id, a.id)
+        )
+      )
+  )
+$$;
+
+DROP POLICY "Reviewers and managers can view scores" ON public.scholarship_scores;
+
+CREATE POLICY "Reviewers and managers can view scores" ON public.scholarship_scores
+    FOR SELECT USING (
+        reviewer_id = auth.uid()
+        OR public.can_see_panel_scores(auth.uid(), application_id)
+    );
+
+-- Rankings keep to the same rule: scores and ranks of applications the caller may not see yet are left empty
+DROP FUNCTION public.get_scholarship_rankings(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_scholarship_rankings(_scholarship_id uuid)
+RETURNS TABLE (
+    application_id uuid,
+    student_name text,
+    status application_status,
+    panel_size bigint,
+    review_count bigint,
+    conflict_count bigint,
+    average_score numeric,
+    lowest_score numeric,
+    highest_score numeric,
+    rank bigint,
+    scores_visible boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH rubric AS (
+        SELECT count(*) AS criteria, sum(weight) AS total_weight
+        FROM public.scholarship_rubric_criteria
+        WHERE scholarship_id = _scholarship_id
+    ),
+    scorecards AS (
+        SELECT s.application_id, s.reviewer_id, count(*) AS scored, sum(s.score / c.max_score * c.weight) AS weighted
+        FROM public.scholarship_scores s
+        JOIN public.scholarship_rubric_criteria c ON c.id = s.criterion_id
+        WHERE c.scholarship_id = _scholarship_id
+        GROUP BY s.application_id, s.reviewer_id
+    ),
+    reviews AS (
+        SELECT sc.application_id, round(sc.weighted / r.total_weight * 100, 1) AS percent
+        FROM scorecards sc
+        CROSS JOIN rubric r
+        WHERE sc.scored = r.criteria
+          AND NOT public.has_review_conflict(sc.reviewer_id, sc.application_id)
+    )
+    SELECT
+        a.id,
+        CASE WHEN public.is_blind_review_open(a.scholarship_id) THEN NULL ELSE p.full_name END,
+        a.status,
+        (SELECT count(*) FROM public.scholarship_reviewers r WHERE r.scholarship_id = a.scholarship_id),
+        count(rv.percent),
+        (
+            SELECT count(*) FROM public.scholarship_reviewers r
+            WHERE r.scholarship_id = a.scholarship_id AND public.has_review_conflict(r.reviewer_id, a.id)
+        ),
+        CASE WHEN v.visible THEN round(avg(rv.percent), 1) END,
+        CASE WHEN v.visible THEN min(rv.percent) END,
+        CASE WHEN v.visible THEN max(rv.percent) END,
+        CASE WHEN v.visible THEN rank() OVER (ORDER BY CASE WHEN v.visible THEN avg(rv.percent) END DESC NULLS LAST) END,
+        v.visible
+    FROM public.scholarship_applications a
+    CROSS JOIN rubric
+    LEFT JOIN public.profiles p ON p.user_id = a.student_id
+    LEFT JOIN reviews rv ON rv.application_id = a.id
+    CROSS JOIN LATERAL (SELECT public.can_see_panel_scores(auth.uid(), a.id) AS visible) v
+    WHERE a.scholarship_id = _scholarship_id
+      AND a.archived_at IS NULL
+      AND rubric.criteria > 0
+      AND public.is_school_manager(auth.uid(), a.school_code)
+    GROUP BY a.id, p.full_name, v.visible
+    ORDER BY CASE WHEN v.visible THEN avg(rv.percent) END DESC NULLS LAST, a.submitted_at
+$$;
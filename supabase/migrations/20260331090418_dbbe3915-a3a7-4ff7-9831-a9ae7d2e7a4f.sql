@@ -0,0 +1,41 @@
+-- The review helpers take any user id, so callers could ask them about other people and learn who
+-- wrote a blind application. Only the policies and functions that use them may call them now, and
+-- reviewers check their own conflicts through the function below.
+REVOKE EXECUTE ON FUNCTION public.has_review_conflict(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_submitted_scorecard(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.has_own_review_conflict(_application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_review_conflict(auth.uid(), _application_id)
+$$;
+
+-- The scores policy calls this as the querying user, so it stays callable but only answers for them
+CREATE OR REPLACE FUNCTION public.can_see_panel_scores(_user_id uuid, _application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _user_id = auth.uid() AND EXISTS (
+    SELECT 1
+    FROM public.scholarship_applications a
+    JOIN public.scholarships s ON s.id = a.scholarship_id
+    WHERE a.id = _application_id
+      AND (
+        (s.scoring_closed_at IS NOT NULL AND public.is_school_manager(_user_id, a.school_code))
+        OR (
+          EXISTS (
+            SELECT 1 FROM public.scholarship_reviewers r
+            WHERE r.scholarship_id = a.scholarship_id AND r.reviewer_id = _user_id
+          )
+          AND public.has_submitted_scorecard(_user_id, a.id)
+        )
+      )
+  )
+$$;
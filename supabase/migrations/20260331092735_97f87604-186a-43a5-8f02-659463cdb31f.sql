@@ -0,0 +1,138 @@
+-- A refund is claimed before the provider is asked for it, so two requests for the same payment
+-- cannot both send money back
+ALTER TABLE public.payment_checkouts
+    DROP CONSTRAINT payment_checkouts_status_check,
+    ADD CONSTRAINT payment_checkouts_status_check
+        CHECK (status IN ('pending', 'succeeded', 'failed', 'refunding', 'refunded'));
+
+CREATE OR REPLACE FUNCTION public.claim_payment_refund(_checkout_id uuid, _refunded_by uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    SELECT * INTO _checkout FROM public.payment_checkouts WHERE id = _checkout_id FOR UPDATE;
+
+    IF NOT FOUND OR _checkout.status <> 'succeeded' THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    UPDATE public.payment_checkouts
+    SET status = 'refunding',
+        refunded_by = _refunded_by
+    WHERE id = _checkout_id
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+-- The provider turned the refund down, so the payment can be refunded again later
+CREATE OR REPLACE FUNCTION public.release_payment_refund(_checkout_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.payment_checkouts
+    SET status = 'succeeded',
+        refunded_by = NULL
+    WHERE id = _checkout_id AND status = 'refunding'
+$$;
+
+CREATE OR REPLACE FUNCTION public.refund_payment_checkout(_checkout_id uuid, _refund_reference text, _refunded_by uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    UPDATE public.payment_checkouts
+    SET status = 'refunded',
+        refund_reference = _refund_reference,
+        refunded_at = now(),
+        refunded_by = _refunded_by
+    WHERE id = _checkout_id AND status = 'refunding'
+    RETURNING * INTO _checkout;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This refund was not claimed';
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, payment_id, created_by)
+    VALUES (
+        _checkout.school_code, _checkout.student_id, _checkout.assignment_id, 'refund', _checkout.amount,
+        'Refunded online (' || _refund_reference || ')', _checkout.payment_id, _refunded_by
+    );
+
+    RETURN _checkout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_payment_refund(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_payment_refund(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Checkouts are started by the payments function on the payer's behalf, with the provider it is
+-- configured for. The payer's access is checked before the fee is locked.
+DROP FUNCTION public.create_payment_checkout(uuid, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.create_payment_checkout(_assignment_id uuid, _amount numeric, _provider text, _payer_id uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _open numeric;
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.fee_assignments a
+        WHERE a.id = _assignment_id
+          AND (a.student_id = _payer_id OR public.is_guardian_of(_payer_id, a.student_id))
+    ) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    -- Checkouts for the same fee are started one at a time
+    PERFORM 1 FROM public.fee_assignments WHERE id = _assignment_id FOR UPDATE;
+
+    SELECT b.* INTO _balance
+    FROM public.fee_assignment_balances b
+    WHERE b.id = _assignment_id AND b.archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    SELECT COALESCE(SUM(c.amount), 0) INTO _open
+    FROM public.payment_checkouts c
+    WHERE c.assignment_id = _assignment_id
+      AND c.status = 'pending'
+      AND c.created_at > now() - interval '1 day';
+
+    IF _open > 0 AND _balance.balance - _open <= 0 THEN
+        RAISE EXCEPTION 'A payment of % for this fee is already in progress', _open;
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance - _open THEN
+        RAISE EXCEPTION 'Amount must be more than 0 and no more than the balance of %', _balance.balance - _open;
+    END IF;
+
+    INSERT INTO public.payment_checkouts (assignment_id, school_code, student_id, amount, currency, provider, created_by)
+    SELECT _balance.id, _balance.school_code, _balance.student_id, round(_amount, 2), s.currency, _provider, _payer_id
+    FROM public.schools s
+    WHERE s.school_code = _balance.school_code
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_payment_checkout(uuid, numeric, text, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,60 @@
+-- An application must come with a file for every document its scholarship requires. The check
+-- runs when the transaction commits, so the application and its files are submitted together.
+CREATE OR REPLACE FUNCTION public.check_application_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _missing text;
+BEGIN
+    SELECT string_agg(d.document, ', ')
+    INTO _missing
+    FROM public.scholarships s
+    CROSS JOIN LATERAL unnest(s.required_documents) AS d (document)
+    WHERE s.id = NEW.scholarship_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.scholarship_application_files f
+          WHERE f.application_id = NEW.id AND f.requirement = d.document
+      );
+
+    IF _missing IS NOT NULL THEN
+        RAISE EXCEPTION 'Please attach: %', _missing;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_application_documents
+    AFTER INSERT ON public.scholarship_applications
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_application_documents();
+
+-- Submit an application with the files already uploaded to the student's folder for it. Runs as the
+-- caller, so the insert policies on applications and files still apply.
+CREATE OR REPLACE FUNCTION public.submit_scholarship_application(
+    _application_id uuid,
+    _scholarship_id uuid,
+    _school_code text,
+    _statement text,
+    _answers jsonb,
+    _files jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.scholarship_applications (id, scholarship_id, student_id, school_code, statement, answers)
+    VALUES (_application_id, _scholarship_id, auth.uid(), _school_code, _statement, _answers);
+
+    INSERT INTO public.scholarship_application_files (application_id, file_path, file_name, requirement)
+    SELECT _application_id, f.file_path, f.file_name, f.requirement
+    FROM jsonb_to_recordset(COALESCE(_files, '[]'::jsonb)) AS f (file_path text, file_name text, requirement text);
+
+    RETURN _application_id;
+END;
+$$;
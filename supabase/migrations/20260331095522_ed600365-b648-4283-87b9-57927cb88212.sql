@@ -0,0 +1,143 @@
+-- Recurring fees keep their own late penalty, early discount and installment plans when rolled over,
+-- with installment due dates moved into the new term
+CREATE OR REPLACE FUNCTION public.rollover_term(
+    _school_code text,
+    _next_term_id uuid,
+    _fee_ids uuid[] DEFAULT '{}',
+    _scholarship_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (cloned_fees integer, cloned_scholarships integer, archived integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current public.academic_terms%ROWTYPE;
+    _next public.academic_terms%ROWTYPE;
+    _offset integer;
+    _fee public.fees%ROWTYPE;
+    _scholarship public.scholarships%ROWTYPE;
+    _new_id uuid;
+    _plan public.fee_installment_plans%ROWTYPE;
+    _new_plan_id uuid;
+    _count integer;
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can roll over a term';
+    END IF;
+
+    SELECT * INTO _next
+    FROM public.academic_terms
+    WHERE id = _next_term_id AND school_code = _school_code AND archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Term not found';
+    END IF;
+
+    SELECT t.* INTO _current
+    FROM public.schools s
+    JOIN public.academic_terms t ON t.id = s.current_term_id
+    WHERE s.school_code = _school_code;
+
+    IF _current.id = _next.id THEN
+        RAISE EXCEPTION 'The school is already in this term';
+    END IF;
+
+    _offset := coalesce(_next.starts_on - _current.starts_on, 0);
+    cloned_fees := 0;
+    cloned_scholarships := 0;
+    archived := 0;
+
+    FOR _fee IN
+        SELECT * FROM public.fees
+        WHERE id = ANY (_fee_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.fees (school_code, title, description, amount, due_date, category, class_id, section_id, term_id, recurs_each_term)
+        VALUES (_fee.school_code, _fee.title, _fee.description, _fee.amount, _fee.due_date + _offset, _fee.category,
+                _fee.class_id, _fee.section_id, _next.id, true)
+        RETURNING id INTO _new_id;
+
+        -- Students who owed it last term owe it again, as long as they are still at the school
+        INSERT INTO public.fee_assignments (fee_id, student_id, school_code, amount)
+        SELECT _new_id, a.student_id, a.school_code, _fee.amount
+        FROM public.fee_assignments a
+        WHERE a.fee_id = _fee.id
+          AND a.archived_at IS NULL
+          AND public.is_school_member(a.student_id, _school_code);
+
+        INSERT INTO public.fee_adjustment_rules (school_code, fee_id, kind, value_type, value, grace_days, recurrence, max_amount, days_before_due)
+        SELECT school_code, _new_id, kind, value_type, value, grace_days, recurrence, max_amount, days_before_due
+        FROM public.fee_adjustment_rules
+        WHERE fee_id = _fee.id;
+
+        FOR _plan IN
+            SELECT * FROM public.fee_installment_plans WHERE fee_id = _fee.id
+        LOOP
+            INSERT INTO public.fee_installment_plans (fee_id, school_code, name)
+            VALUES (_new_id, _plan.school_code, _plan.name)
+            RETURNING id INTO _new_plan_id;
+
+            INSERT INTO public.fee_installments (plan_id, school_code, position, amount, due_date)
+            SELECT _new_plan_id, school_code, position, amount, due_date + _offset
+            FROM public.fee_installments
+            WHERE plan_id = _plan.id;
+        END LOOP;
+
+        cloned_fees := cloned_fees + 1;
+    END LOOP;
+
+    FOR _scholarship IN
+        SELECT * FROM public.scholarships
+        WHERE id = ANY (_scholarship_ids) AND school_code = _school_code AND recurs_each_term
+    LOOP
+        INSERT INTO public.scholarships (
+            school_code, title, description, amount, deadline, eligibility, slots, class_id, section_id, term_id,
+            recurs_each_term, eligible_class_ids, max_income_bracket, required_documents, blind_review
+        )
+        VALUES (_scholarship.school_code, _scholarship.title, _scholarship.description, _scholarship.amount,
+                _scholarship.deadline + _offset, _scholarship.eligibility, _scholarship.slots,
+                _scholarship.class_id, _scholarship.section_id, _next.id, true,
+                _scholarship.eligible_class_ids, _scholarship.max_income_bracket, _scholarship.required_documents,
+                _scholarship.blind_review)
+        RETURNING id INTO _new_id;
+
+        INSERT INTO public.scholarship_questions (scholarship_id, prompt, required, position)
+        SELECT _new_id, prompt, required, position
+        FROM public.scholarship_questions
+        WHERE scholarship_id = _scholarship.id;
+
+        INSERT INTO public.scholarship_rubric_criteria (scholarship_id, name, description, weight, max_score, position)
+        SELECT _new_id, name, description, weight, max_score, position
+        FROM public.scholarship_rubric_criteria
+        WHERE scholarship_id = _scholarship.id;
+
+        INSERT INTO public.scholarship_reviewers (scholarship_id, reviewer_id)
+        SELECT _new_id, reviewer_id
+        FROM public.scholarship_reviewers
+        WHERE scholarship_id = _scholarship.id
+          AND public.is_school_admin(reviewer_id, _school_code);
+
+        cloned_scholarships := cloned_scholarships + 1;
+    END LOOP;
+
+    IF _current.id IS NOT NULL THEN
+        UPDATE public.fees SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.scholarships SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.notices SET archived_at = now() WHERE term_id = _current.id AND archived_at IS NULL;
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        archived := archived + _count;
+
+        UPDATE public.academic_terms SET archived_at = now() WHERE id = _current.id;
+    END IF;
+
+    UPDATE public.schools SET current_term_id = _next.id WHERE school_code = _school_code;
+
+    RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Applications start unreviewed whatever the student sends with them
+CREATE OR REPLACE FUNCTION public.validate_scholarship_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _scholarship public.scholarships%ROWTYPE;
+    _unmet text;
+BEGIN
+    SELECT * INTO _scholarship FROM public.scholarships WHERE id = NEW.scholarship_id;
+
+    IF NOT FOUND OR _scholarship.school_code <> NEW.school_code THEN
+        RAISE EXCEPTION 'Scholarship not found';
+    END IF;
+
+    IF NOT public.is_in_class_audience(NEW.student_id, _scholarship.class_id, _scholarship.section_id) THEN
+        RAISE EXCEPTION 'This scholarship is not open to your class';
+    END IF;
+
+    IF _scholarship.deadline IS NOT NULL AND _scholarship.deadline < public.school_today(_scholarship.school_code) THEN
+        RAISE EXCEPTION 'The application deadline for this scholarship has passed';
+    END IF;
+
+    SELECT string_agg(CASE criterion WHEN 'class' THEN 'class' ELSE 'income bracket' END, ' and ')
+    INTO _unmet
+    FROM public.scholarship_eligibility(NEW.student_id, NEW.scholarship_id)
+    WHERE NOT met;
+
+    IF _unmet IS NOT NULL THEN
+        RAISE EXCEPTION 'You do not meet the % requirement for this scholarship', _unmet;
+    END IF;
+
+    -- Review fields are only ever set by staff reviewing the application
+    NEW.reviewer_notes = NULL;
+    NEW.reviewed_by = NULL;
+    NEW.reviewed_at = NULL;
+    NEW.awarded_amount = NULL;
+    NEW.archived_at = NULL;
+    NEW.submitted_at = now();
+    RETURN NEW;
+END;
+$$;
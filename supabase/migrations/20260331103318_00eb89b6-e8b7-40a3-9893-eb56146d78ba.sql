@@ -0,0 +1,88 @@
+-- Staff invitations used to make every new colleague an app admin, able to create schools of their
+-- own. Staff-level colleagues now only join the school's staff.
+CREATE OR REPLACE FUNCTION public.consume_role_invitation(_user_id uuid, _email text, _token text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _invitation public.role_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO _invitation
+    FROM public.role_invitations
+    WHERE token = upper(trim(_token))
+      AND lower(email) = lower(_email)
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.role_invitations
+    SET accepted_by = _user_id, accepted_at = now()
+    WHERE id = _invitation.id;
+
+    -- Staff-level colleagues only get the school's staff row below, not the app-wide admin role,
+    -- and stop being treated as students
+    IF _invitation.staff_level IS DISTINCT FROM 'staff' THEN
+        PERFORM public.assign_role(_user_id, _invitation.role);
+    ELSE
+        DELETE FROM public.user_roles WHERE user_id = _user_id AND role = 'student';
+    END IF;
+
+    IF _invitation.school_code IS NOT NULL THEN
+        INSERT INTO public.school_memberships (school_code, user_id)
+        VALUES (_invitation.school_code, _user_id)
+        ON CONFLICT (school_code, user_id) DO NOTHING;
+    END IF;
+
+    IF _invitation.staff_level IS NOT NULL THEN
+        INSERT INTO public.school_staff (school_code, user_id, level)
+        VALUES (_invitation.school_code, _user_id, _invitation.staff_level)
+        ON CONFLICT (school_code, user_id) DO NOTHING;
+    END IF;
+
+    UPDATE public.admin_access_requests
+    SET status = 'approved', reviewed_at = now()
+    WHERE user_id = _user_id AND status = 'pending' AND _invitation.role = 'admin'
+      AND _invitation.staff_level IS DISTINCT FROM 'staff';
+
+    RETURN true;
+END;
+$$;
+
+-- Take the admin role back from staff-level colleagues who hold it through nothing else
+DELETE FROM public.user_roles r
+WHERE r.role = 'admin'
+  AND EXISTS (
+      SELECT 1 FROM public.role_invitations i
+      WHERE i.accepted_by = r.user_id AND i.staff_level = 'staff'
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM public.role_invitations i
+      WHERE i.accepted_by = r.user_id AND i.role = 'admin' AND i.staff_level IS DISTINCT FROM 'staff'
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM public.admin_access_requests q
+      WHERE q.user_id = r.user_id AND q.status = 'approved'
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM public.school_staff st
+      WHERE st.user_id = r.user_id AND st.level IN ('owner', 'admin')
+  );
+
+-- Staff promoted to admin manage invitations to their school without the app-wide role
+DROP POLICY "Admins can issue invitations" ON public.role_invitations;
+
+CREATE POLICY "Admins can issue invitations" ON public.role_invitations
+    FOR INSERT WITH CHECK (
+        invited_by = auth.uid()
+        AND CASE
+            WHEN school_code IS NULL THEN public.has_role(auth.uid(), 'admin')
+            ELSE public.is_school_manager(auth.uid(), school_code)
+        END
+        AND (staff_level IS DISTINCT FROM 'owner')
+    );
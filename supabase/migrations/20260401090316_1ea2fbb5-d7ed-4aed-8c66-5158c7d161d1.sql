@@ -0,0 +1,150 @@
+-- Checkouts a payer gave up on are cancelled by their next one, and a provider error marks the
+-- checkout failed, so neither holds back the balance
+ALTER TABLE public.payment_checkouts
+    DROP CONSTRAINT payment_checkouts_status_check,
+    ADD CONSTRAINT payment_checkouts_status_check
+        CHECK (status IN ('pending', 'succeeded', 'failed', 'cancelled', 'refunding', 'refunded'));
+
+CREATE OR REPLACE FUNCTION public.create_payment_checkout(_assignment_id uuid, _amount numeric, _provider text, _payer_id uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _open numeric;
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.fee_assignments a
+        WHERE a.id = _assignment_id
+          AND (a.student_id = _payer_id OR public.is_guardian_of(_payer_id, a.student_id))
+    ) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    -- Checkouts for the same fee are started one at a time
+    PERFORM 1 FROM public.fee_assignments WHERE id = _assignment_id FOR UPDATE;
+
+    SELECT b.* INTO _balance
+    FROM public.fee_assignment_balances b
+    WHERE b.id = _assignment_id AND b.archived_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    -- A payer starting again gives up their own earlier checkout for the fee, e.g. after closing the
+    -- provider's page, so it no longer holds back the balance
+    UPDATE public.payment_checkouts
+    SET status = 'cancelled',
+        completed_at = now()
+    WHERE assignment_id = _assignment_id
+      AND created_by = _payer_id
+      AND status = 'pending';
+
+    SELECT COALESCE(SUM(c.amount), 0) INTO _open
+    FROM public.payment_checkouts c
+    WHERE c.assignment_id = _assignment_id
+      AND c.status = 'pending'
+      AND c.created_at > now() - interval '1 day';
+
+    IF _open > 0 AND _balance.balance - _open <= 0 THEN
+        RAISE EXCEPTION 'A payment of % for this fee is already in progress', _open;
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance - _open THEN
+        RAISE EXCEPTION 'Amount must be more than 0 and no more than the balance of %', _balance.balance - _open;
+    END IF;
+
+    INSERT INTO public.payment_checkouts (assignment_id, school_code, student_id, amount, currency, provider, created_by)
+    SELECT _balance.id, _balance.school_code, _balance.student_id, round(_amount, 2), s.currency, _provider, _payer_id
+    FROM public.schools s
+    WHERE s.school_code = _balance.school_code
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+
+-- A cancelled checkout the payer did complete on the provider's page is still recorded: the money was taken
+CREATE OR REPLACE FUNCTION public.complete_payment_checkout(_checkout_id uuid, _succeeded boolean)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+    _payment_id uuid;
+BEGIN
+    SELECT * INTO _checkout FROM public.payment_checkouts WHERE id = _checkout_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT (
+        _checkout.status = 'pending'
+        OR (_checkout.status = 'cancelled' AND _succeeded)
+    ) THEN
+        RETURN _checkout;
+    END IF;
+
+    IF _succeeded THEN
+        INSERT INTO public.fee_payments (assignment_id, school_code, amount, method, reference, recorded_by)
+        VALUES (_checkout.assignment_id, _checkout.school_code, _checkout.amount, 'Online', _checkout.provider_reference, _checkout.created_by)
+        RETURNING id INTO _payment_id;
+    END IF;
+
+    UPDATE public.payment_checkouts
+    SET status = CASE WHEN _succeeded THEN 'succeeded' ELSE 'failed' END,
+        payment_id = _payment_id,
+        completed_at = now()
+    WHERE id = _checkout_id
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+-- A refund the provider has made but that was not recorded can be finished from its saved reference
+CREATE OR REPLACE FUNCTION public.claim_payment_refund(_checkout_id uuid, _refunded_by uuid)
+RETURNS public.payment_checkouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _checkout public.payment_checkouts%ROWTYPE;
+BEGIN
+    SELECT * INTO _checkout FROM public.payment_checkouts WHERE id = _checkout_id FOR UPDATE;
+
+    IF FOUND AND _checkout.status = 'refunding' AND _checkout.refund_reference IS NOT NULL THEN
+        RETURN _checkout;
+    END IF;
+
+    IF NOT FOUND OR _checkout.status <> 'succeeded' THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    UPDATE public.payment_checkouts
+    SET status = 'refunding',
+        refunded_by = _refunded_by
+    WHERE id = _checkout_id
+    RETURNING * INTO _checkout;
+
+    RETURN _checkout;
+END;
+$$;
+
+-- A refund the provider confirmed is never handed back for another attempt
+CREATE OR REPLACE FUNCTION public.release_payment_refund(_checkout_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.payment_checkouts
+    SET status = 'succeeded',
+        refunded_by = NULL
+    WHERE id = _checkout_id AND status = 'refunding' AND refund_reference IS NULL
+$$;
@@ -0,0 +1,5 @@
+-- Fee assignments change only through the fee functions, which record every adjustment in the
+-- ledger and keep waivers to owners and admins. Direct writes let any staff member rewrite what
+-- a student owes.
+DROP POLICY "Admins can update fee assignments" ON public.fee_assignments;
+DROP POLICY "Admins can delete fee assignments" ON public.fee_assignments;
@@ -0,0 +1,30 @@
+-- Credit notes go to students of the school, and always say why they were issued
+CREATE OR REPLACE FUNCTION public.issue_credit_note(_school_code text, _student_id uuid, _amount numeric, _reason text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_school_manager(auth.uid(), _school_code) THEN
+        RAISE EXCEPTION 'Only owners and admins can issue credit notes';
+    END IF;
+
+    IF NOT public.is_school_member(_student_id, _school_code) THEN
+        RAISE EXCEPTION 'Student not found';
+    END IF;
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+        RAISE EXCEPTION 'A credit note must be for more than 0';
+    END IF;
+
+    IF coalesce(trim(_reason), '') = '' THEN
+        RAISE EXCEPTION 'Give a reason for the credit note';
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, kind, amount, reason, created_by)
+    VALUES (_school_code, _student_id, 'credit_note', _amount, trim(_reason), auth.uid());
+
+    RETURN public.apply_student_credit(_student_id, _school_code);
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Scholarship credits are applied by owners and admins, like waivers and credit notes, and lock
+-- the fee so concurrent settlements cannot take it below zero
+CREATE OR REPLACE FUNCTION public.apply_scholarship_award(
+    _application_id uuid,
+    _assignment_id uuid,
+    _amount numeric,
+    _spread boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _application public.scholarship_applications%ROWTYPE;
+    _title text;
+    _balance public.fee_assignment_balances%ROWTYPE;
+    _remaining numeric;
+    _open numeric;
+    _allocated numeric := 0;
+    _part numeric;
+    _installment record;
+BEGIN
+    SELECT * INTO _application FROM public.scholarship_applications WHERE id = _application_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.is_school_manager(auth.uid(), _application.school_code) THEN
+        RAISE EXCEPTION 'Application not found';
+    END IF;
+
+    -- Settle the fee one change at a time: the credit lock serialises student credit and waivers,
+    -- the row lock new checkouts
+    PERFORM pg_advisory_xact_lock(hashtext('fee-credit:' || _application.school_code || ':' || _application.student_id));
+    PERFORM 1 FROM public.fee_assignments WHERE id = _assignment_id FOR UPDATE;
+
+    IF _application.status <> 'awarded' OR _application.awarded_amount IS NULL THEN
+        RAISE EXCEPTION 'Only scholarships awarded with an amount can be credited to fees';
+    END IF;
+
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF NOT FOUND OR _balance.student_id <> _application.student_id OR _balance.school_code <> _application.school_code THEN
+        RAISE EXCEPTION 'Fee not found for this student';
+    END IF;
+
+    SELECT _application.awarded_amount - coalesce(sum(amount), 0) INTO _remaining
+    FROM public.fee_ledger_entries
+    WHERE application_id = _application_id;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _remaining THEN
+        RAISE EXCEPTION 'Only % of this award is left to credit', _remaining;
+    END IF;
+
+    IF _amount > _balance.balance THEN
+        RAISE EXCEPTION 'This fee only has % left to pay', _balance.balance;
+    END IF;
+
+    SELECT title INTO _title FROM public.scholarships WHERE id = _application.scholarship_id;
+
+    IF NOT _spread THEN
+        INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, application_id, created_by)
+        VALUES (_balance.school_code, _balance.student_id, _balance.id, 'scholarship', _amount, 'Scholarship: ' || _title, _application_id, auth.uid());
+        RETURN;
+    END IF;
+
+    IF _balance.plan_id IS NULL THEN
+        RAISE EXCEPTION 'This fee is not on an installment plan';
+    END IF;
+
+    SELECT coalesce(sum(amount - amount_paid), 0) INTO _open
+    FROM public.fee_installment_balances
+    WHERE assignment_id = _assignment_id AND status <> 'paid';
+
+    IF _amount > _open THEN
+        RAISE EXCEPTION 'The open installments only have % left to pay', _open;
+    END IF;
+
+    -- Each open installment gets a share in proportion to what is left on it; the last takes the rounding
+    FOR _installment IN
+        SELECT id, position, amount - amount_paid AS open_amount,
+               row_number() OVER (ORDER BY position DESC) = 1 AS is_last
+        FROM public.fee_installment_balances
+        WHERE assignment_id = _assignment_id AND status <> 'paid'
+        ORDER BY position
+    LOOP
+        _part := CASE
+            WHEN _installment.is_last THEN _amount - _allocated
+            ELSE round(_amount * _installment.open_amount / _open, 2)
+        END;
+        CONTINUE WHEN _part <= 0;
+
+        INSERT INTO public.fee_ledger_entries (
+            school_code, student_id, assignment_id, kind, amount, reason, application_id, installment_id, created_by
+        )
+        VALUES (
+            _balance.school_code, _balance.student_id, _balance.id, 'scholarship', _part,
+            'Scholarship: ' || _title || ' (installment ' || _installment.position || ')',
+            _application_id, _installment.id, auth.uid()
+        );
+        _allocated := _allocated + _part;
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Waivers take the same locks as scholarship credits and student credit, then read the balance,
+-- so two settlements at once cannot both use the same balance
+CREATE OR REPLACE FUNCTION public.waive_fee(_assignment_id uuid, _amount numeric, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _balance public.fee_assignment_balances%ROWTYPE;
+BEGIN
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF NOT FOUND OR NOT public.is_school_manager(auth.uid(), _balance.school_code) THEN
+        RAISE EXCEPTION 'Fee not found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('fee-credit:' || _balance.school_code || ':' || _balance.student_id));
+    PERFORM 1 FROM public.fee_assignments WHERE id = _assignment_id FOR UPDATE;
+
+    SELECT * INTO _balance FROM public.fee_assignment_balances WHERE id = _assignment_id;
+
+    IF _amount IS NULL OR _amount <= 0 OR _amount > _balance.balance THEN
+        RAISE EXCEPTION 'A waiver must be more than 0 and no more than the balance of %', _balance.balance;
+    END IF;
+
+    INSERT INTO public.fee_ledger_entries (school_code, student_id, assignment_id, kind, amount, reason, created_by)
+    VALUES (_balance.school_code, _balance.student_id, _balance.id, 'waiver', _amount, trim(_reason), auth.uid());
+END;
+$$;
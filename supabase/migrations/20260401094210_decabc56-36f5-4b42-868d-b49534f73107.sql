@@ -0,0 +1,21 @@
+-- Whether a stored document belongs to a submitted application, looked up past the files' policies
+CREATE OR REPLACE FUNCTION public.is_application_document(_file_path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.scholarship_application_files WHERE file_path = _file_path)
+$$;
+
+-- Documents are only checked when an application is submitted, so students can only remove uploads
+-- that never became part of one, such as those left over from a failed submission
+DROP POLICY "Students can delete own scholarship documents" ON storage.objects;
+
+CREATE POLICY "Students can delete own scholarship documents" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'scholarship-documents'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+        AND NOT public.is_application_document(name)
+    );
@@ -0,0 +1,12 @@
+-- Invitations to start a new institute skip the platform review, so only platform reviewers issue them
+DROP POLICY "Admins can issue invitations" ON public.role_invitations;
+
+CREATE POLICY "Admins can issue invitations" ON public.role_invitations
+    FOR INSERT WITH CHECK (
+        invited_by = auth.uid()
+        AND CASE
+            WHEN school_code IS NULL THEN public.is_platform_reviewer(auth.uid())
+            ELSE public.is_school_manager(auth.uid(), school_code)
+        END
+        AND (staff_level IS DISTINCT FROM 'owner')
+    );